@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BoardsModal } from "@/components/boards-modal";
+import type { BoardWithRole } from "@/lib/boards";
+
+interface BoardSwitcherProps {
+  boards: BoardWithRole[];
+  currentBoardId: number;
+}
+
+/**
+ * Board picker for the header. Switching navigates to ?board=ID so the
+ * server renders that board's jobs; the button next to it manages boards.
+ */
+export function BoardSwitcher({ boards, currentBoardId }: BoardSwitcherProps) {
+  const [isBoardsOpen, setIsBoardsOpen] = useState(false);
+  const router = useRouter();
+
+  function switchTo(boardId: number) {
+    router.push(`/?board=${boardId}`);
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-1">
+        <Select
+          value={String(currentBoardId)}
+          onValueChange={(value) => switchTo(Number(value))}
+        >
+          <SelectTrigger className="w-44" aria-label="Board">
+            <SelectValue placeholder="Board" />
+          </SelectTrigger>
+          <SelectContent>
+            {boards.map((board) => (
+              <SelectItem key={board.id} value={String(board.id)}>
+                {board.name}
+                {board.role !== "OWNER" && (
+                  <span className="text-muted-foreground">(shared)</span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsBoardsOpen(true)}
+          aria-label="Manage boards"
+          title="Manage boards"
+        >
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <BoardsModal
+        open={isBoardsOpen}
+        onOpenChange={setIsBoardsOpen}
+        onCreated={(board) => switchTo(board.id)}
+      />
+    </>
+  );
+}
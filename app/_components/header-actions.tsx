@@ -1,22 +1,61 @@
 "use client";
 
 import { useState } from "react";
-import { Download } from "lucide-react";
+import Link from "next/link";
+import { BarChart3, Columns3, Download, Trash2, Users } from "lucide-react";
 import { UserButton } from "@clerk/nextjs";
+import { can, type BoardAccessRole } from "@/lib/boards";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ContactsModal } from "@/components/contacts-modal";
 import { ExportImportModal } from "@/components/export-import-modal";
+import { StagesModal } from "@/components/stages-modal";
+import { TrashModal } from "@/components/trash-modal";
 
 /**
- * Header actions component containing theme toggle, export/import, and user button.
+ * Header actions component containing theme toggle, statistics link, contacts, stages, export/import, trash, and user button.
  * Client component to manage modal state while keeping the parent page as a Server Component.
  */
-export function HeaderActions() {
+interface HeaderActionsProps {
+  // The board shown, for export/import and the trash
+  boardId?: number;
+  // The user's role on it, OWNER if not set
+  role?: BoardAccessRole;
+}
+
+export function HeaderActions({ boardId, role = "OWNER" }: HeaderActionsProps) {
+  const readOnly = !can(role, "edit");
+  const [isContactsOpen, setIsContactsOpen] = useState(false);
+  const [isStagesOpen, setIsStagesOpen] = useState(false);
   const [isExportImportOpen, setIsExportImportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
 
   return (
     <>
       <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/stats" aria-label="Statistics" title="Statistics">
+            <BarChart3 className="h-4 w-4" />
+          </Link>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsContactsOpen(true)}
+          aria-label="Contacts"
+          title="Contacts"
+        >
+          <Users className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsStagesOpen(true)}
+          aria-label="Stages"
+          title="Stages"
+        >
+          <Columns3 className="h-4 w-4" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -26,13 +65,35 @@ export function HeaderActions() {
         >
           <Download className="h-4 w-4" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsTrashOpen(true)}
+          aria-label="Trash"
+          title="Trash"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
         <ThemeToggle />
         <UserButton />
       </div>
 
+      <ContactsModal open={isContactsOpen} onOpenChange={setIsContactsOpen} />
+
+      <StagesModal open={isStagesOpen} onOpenChange={setIsStagesOpen} />
+
       <ExportImportModal
         open={isExportImportOpen}
         onOpenChange={setIsExportImportOpen}
+        boardId={boardId}
+        readOnly={readOnly}
+      />
+
+      <TrashModal
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        boardId={boardId}
+        readOnly={readOnly}
       />
     </>
   );
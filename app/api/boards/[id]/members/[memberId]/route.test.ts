@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Board, BoardMember } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    board: {
+      findUnique: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const OWNER_ID = "user_owner";
+const COACH_ID = "user_coach";
+
+const mockAuth = (userId: string | null = OWNER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "2", memberId: "7" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/boards/2/members/7", {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const board: Board = {
+  id: 2,
+  userId: OWNER_ID,
+  name: "Team search",
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+};
+
+const member = (overrides: Partial<BoardMember> = {}): BoardMember => ({
+  id: 7,
+  boardId: 2,
+  email: "coach@example.com",
+  userId: COACH_ID,
+  role: "VIEWER",
+  invitedBy: OWNER_ID,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+/** Membership lookups: by ID for the URL, by board and user for roles */
+const mockMembers = (...members: BoardMember[]) => {
+  vi.mocked(prisma.boardMember.findUnique).mockImplementation((({
+    where,
+  }: {
+    where: { id?: number; boardId_userId?: { userId: string } };
+  }) =>
+    Promise.resolve(
+      members.find((m) =>
+        where.id !== undefined
+          ? m.id === where.id
+          : m.userId === where.boardId_userId?.userId
+      ) ?? null
+    )) as never);
+};
+
+describe("PATCH /api/boards/[id]/members/[memberId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(board);
+  });
+
+  it("should change the role", async () => {
+    // Arrange
+    mockAuth();
+    mockMembers(member());
+    vi.mocked(prisma.boardMember.update).mockResolvedValue(
+      member({ role: "EDITOR" })
+    );
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { role: "EDITOR" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.boardMember.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { role: "EDITOR" },
+    });
+  });
+
+  it("should return 403 when a member changes their own role", async () => {
+    mockAuth(COACH_ID);
+    mockMembers(member());
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "EDITOR" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.boardMember.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for a member of another board", async () => {
+    mockAuth();
+    mockMembers(member({ boardId: 3 }));
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "EDITOR" }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 400 for an unknown role", async () => {
+    mockAuth();
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "OWNER" }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("DELETE /api/boards/[id]/members/[memberId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(board);
+  });
+
+  it("should let the owner remove a member", async () => {
+    mockAuth();
+    mockMembers(member());
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.boardMember.delete).toHaveBeenCalledWith({
+      where: { id: 7 },
+    });
+  });
+
+  it("should let a member leave the board", async () => {
+    mockAuth(COACH_ID);
+    mockMembers(member());
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.boardMember.delete).toHaveBeenCalledWith({
+      where: { id: 7 },
+    });
+  });
+
+  it("should return 403 when an editor removes someone else", async () => {
+    mockAuth("user_partner");
+    mockMembers(
+      member(),
+      member({ id: 8, userId: "user_partner", role: "EDITOR" })
+    );
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.boardMember.delete).not.toHaveBeenCalled();
+  });
+});
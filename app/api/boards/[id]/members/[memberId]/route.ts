@@ -0,0 +1,112 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { updateBoardMemberSchema } from "@/lib/schemas";
+import { authorizeBoard } from "@/lib/authorization";
+import {
+  getBoardMemberById,
+  removeBoardMember,
+  updateBoardMemberRole,
+} from "@/lib/queries/board-members";
+
+type RouteParams = { params: Promise<{ id: string; memberId: string }> };
+
+/**
+ * Load a membership of a board, checking that both exist and that the user
+ * may manage the board - or, if allowSelf, that it is the user's own
+ *
+ * @returns The membership, or an error response
+ */
+async function getManagedMember(
+  params: RouteParams["params"],
+  userId: string,
+  { allowSelf = false }: { allowSelf?: boolean } = {}
+) {
+  const { id: idParam, memberId: memberIdParam } = await params;
+  const boardId = Number(idParam);
+  const member = await getBoardMemberById(Number(memberIdParam));
+
+  if (!member || member.boardId !== boardId) {
+    return {
+      error: NextResponse.json({ error: "Member not found" }, { status: 404 }),
+    };
+  }
+
+  if (allowSelf && member.userId === userId) {
+    return { member };
+  }
+
+  const { error } = await authorizeBoard(boardId, userId, "manage");
+  if (error) return { error };
+
+  return { member };
+}
+
+/**
+ * PATCH /api/boards/[id]/members/[memberId]
+ * Change a collaborator's role
+ *
+ * Request body: { role: "VIEWER" | "COMMENTER" | "EDITOR" }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = updateBoardMemberSchema.parse(body);
+
+    const { member, error } = await getManagedMember(params, userId);
+    if (error) return error;
+
+    const updated = await updateBoardMemberRole(member.id, validated.role);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating board member:", error);
+    return NextResponse.json(
+      { error: "Failed to update board member" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/boards/[id]/members/[memberId]
+ * Remove a collaborator or withdraw an invite. Collaborators may also
+ * remove themselves to leave a board.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { member, error } = await getManagedMember(params, userId, {
+      allowSelf: true,
+    });
+    if (error) return error;
+
+    await removeBoardMember(member.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing board member:", error);
+    return NextResponse.json(
+      { error: "Failed to remove board member" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Board, BoardMember } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    board: {
+      findUnique: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "2" }) };
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/boards/2/members", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const board = (overrides: Partial<Board> = {}): Board => ({
+  id: 2,
+  userId: TEST_USER_ID,
+  name: "Team search",
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+const member = (overrides: Partial<BoardMember> = {}): BoardMember => ({
+  id: 7,
+  boardId: 2,
+  email: "coach@example.com",
+  userId: null,
+  role: "VIEWER",
+  invitedBy: TEST_USER_ID,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+describe("GET /api/boards/[id]/members", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET(new Request("http://test"), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the members to a collaborator", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "user_owner" })
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValue(
+      member({ userId: TEST_USER_ID })
+    );
+    vi.mocked(prisma.boardMember.findMany).mockResolvedValue([member()]);
+
+    // Act
+    const response = await GET(new Request("http://test"), params);
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data).toHaveLength(1);
+    expect(prisma.boardMember.findMany).toHaveBeenCalledWith({
+      where: { boardId: 2 },
+      orderBy: { email: "asc" },
+    });
+  });
+
+  it("should return 403 for someone the board isn't shared with", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "user_owner" })
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValue(null);
+
+    const response = await GET(new Request("http://test"), params);
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("POST /api/boards/[id]/members", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(board());
+    vi.mocked(prisma.boardMember.findMany).mockResolvedValue([]);
+    vi.mocked(currentUser).mockResolvedValue({
+      emailAddresses: [
+        {
+          emailAddress: "me@example.com",
+          verification: { status: "verified" },
+        },
+      ],
+    } as never);
+  });
+
+  it("should invite a collaborator by normalized email", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.boardMember.create).mockResolvedValue(member());
+
+    // Act
+    const response = await POST(
+      createRequest({ email: " Coach@Example.com ", role: "COMMENTER" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.boardMember.create).toHaveBeenCalledWith({
+      data: {
+        email: "coach@example.com",
+        role: "COMMENTER",
+        boardId: 2,
+        invitedBy: TEST_USER_ID,
+      },
+    });
+  });
+
+  it("should return 403 for a collaborator who isn't the owner", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "user_owner" })
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValue(
+      member({ userId: TEST_USER_ID, role: "EDITOR" })
+    );
+
+    const response = await POST(
+      createRequest({ email: "partner@example.com" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.boardMember.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 409 if the email is already invited", async () => {
+    mockAuth();
+    vi.mocked(prisma.boardMember.findMany).mockResolvedValue([member()]);
+
+    const response = await POST(
+      createRequest({ email: "coach@example.com" }),
+      params
+    );
+
+    expect(response.status).toBe(409);
+    expect(prisma.boardMember.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 when inviting one of the owner's own addresses", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ email: "ME@example.com" }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.boardMember.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid email", async () => {
+    mockAuth();
+
+    const response = await POST(createRequest({ email: "coach" }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+  });
+});
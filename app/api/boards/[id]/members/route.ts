@@ -0,0 +1,108 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { inviteBoardMemberSchema } from "@/lib/schemas";
+import { authorizeBoard, getVerifiedEmails } from "@/lib/authorization";
+import {
+  getBoardMembers,
+  inviteBoardMember,
+} from "@/lib/queries/board-members";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/boards/[id]/members
+ * List a board's collaborators and pending invites, by email. Anyone who
+ * can open the board may see who else can.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const { board, error } = await authorizeBoard(
+      Number(idParam),
+      userId,
+      "view"
+    );
+    if (error) return error;
+
+    const members = await getBoardMembers(board.id);
+
+    return NextResponse.json(members);
+  } catch (error) {
+    console.error("Error fetching board members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch board members" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/boards/[id]/members
+ * Invite someone to the board by email address. They get access once they
+ * sign in with that address verified (see claimInvites).
+ *
+ * Request body: { email: string, role?: "VIEWER" | "COMMENTER" | "EDITOR" }
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = inviteBoardMemberSchema.parse(body);
+
+    const { id: idParam } = await params;
+    const { board, error } = await authorizeBoard(
+      Number(idParam),
+      userId,
+      "manage"
+    );
+    if (error) return error;
+
+    if ((await getVerifiedEmails()).includes(validated.email)) {
+      return NextResponse.json(
+        { error: "You already own this board" },
+        { status: 400 }
+      );
+    }
+
+    const members = await getBoardMembers(board.id);
+    if (members.some((member) => member.email === validated.email)) {
+      return NextResponse.json(
+        { error: "This email address is already invited" },
+        { status: 409 }
+      );
+    }
+
+    const member = await inviteBoardMember({
+      ...validated,
+      boardId: board.id,
+      invitedBy: userId,
+    });
+
+    return NextResponse.json(member, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error inviting board member:", error);
+    return NextResponse.json(
+      { error: "Failed to invite board member" },
+      { status: 500 }
+    );
+  }
+}
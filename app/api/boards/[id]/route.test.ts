@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Board } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    board: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      createMany: vi.fn(),
+    },
+    job: {
+      count: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "2" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/boards/2", {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const board = (overrides: Partial<Board> = {}): Board => ({
+  id: 2,
+  userId: TEST_USER_ID,
+  name: "Consulting",
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+const userBoards = [board({ id: 1, name: "My board" }), board()];
+
+describe("PATCH /api/boards/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(board());
+    vi.mocked(prisma.board.findMany).mockResolvedValue(userBoards);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await PATCH(
+      createRequest("PATCH", { name: "Freelance" }),
+      params
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the board doesn't exist", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(null);
+
+    const response = await PATCH(
+      createRequest("PATCH", { name: "Freelance" }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if the board belongs to another user", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "other_user" })
+    );
+
+    const response = await PATCH(
+      createRequest("PATCH", { name: "Freelance" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.board.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for an editor of the board", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "other_user" })
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "EDITOR",
+    } as never);
+
+    const response = await PATCH(
+      createRequest("PATCH", { name: "Freelance" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.board.update).not.toHaveBeenCalled();
+  });
+
+  it("should rename the board", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.update).mockResolvedValue(
+      board({ name: "Freelance" })
+    );
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { name: "Freelance" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.board.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { name: "Freelance" },
+    });
+  });
+
+  it("should return 409 if another board has the name", async () => {
+    mockAuth();
+
+    const response = await PATCH(
+      createRequest("PATCH", { name: "my board" }),
+      params
+    );
+
+    expect(response.status).toBe(409);
+    expect(prisma.board.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /api/boards/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(board());
+    vi.mocked(prisma.board.findMany).mockResolvedValue(userBoards);
+    vi.mocked(prisma.job.count).mockResolvedValue(0);
+  });
+
+  it("should delete an empty board", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.delete).mockResolvedValue(board());
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(prisma.job.count).toHaveBeenCalledWith({
+      where: { boardId: 2, deletedAt: null },
+    });
+    expect(prisma.board.delete).toHaveBeenCalledWith({ where: { id: 2 } });
+  });
+
+  it("should return 409 for a board with jobs", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.count).mockResolvedValue(3);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: "Move or delete the jobs on this board before deleting it",
+    });
+    expect(prisma.board.delete).not.toHaveBeenCalled();
+  });
+
+  it("should return 409 for the user's only board", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([board()]);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.board.delete).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 if the board belongs to another user", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      board({ userId: "other_user" })
+    );
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.board.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { boardSchema } from "@/lib/schemas";
+import { findBoardByName } from "@/lib/boards";
+import { authorizeBoard } from "@/lib/authorization";
+import {
+  countJobsOnBoard,
+  deleteBoard,
+  getBoardsByUserId,
+  updateBoard,
+} from "@/lib/queries/boards";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Load a board, checking that the user owns it
+ *
+ * @returns The board, or an error response
+ */
+async function getOwnedBoard(params: RouteParams["params"], userId: string) {
+  const { id: idParam } = await params;
+  return await authorizeBoard(Number(idParam), userId, "manage");
+}
+
+/**
+ * PATCH /api/boards/[id]
+ * Rename a board
+ *
+ * Request body: { name: string }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = boardSchema.parse(body);
+
+    const { board, error } = await getOwnedBoard(params, userId);
+    if (error) return error;
+
+    const boards = await getBoardsByUserId(userId);
+    const existing = findBoardByName(boards, validated.name);
+    if (existing && existing.id !== board.id) {
+      return NextResponse.json(
+        { error: "A board with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await updateBoard(board.id, validated);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating board:", error);
+    return NextResponse.json(
+      { error: "Failed to update board" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/boards/[id]
+ * Delete an empty board, along with the jobs in its trash. The user's
+ * last board can't be deleted.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { board, error } = await getOwnedBoard(params, userId);
+    if (error) return error;
+
+    if ((await getBoardsByUserId(userId)).length <= 1) {
+      return NextResponse.json(
+        { error: "You can't delete your only board" },
+        { status: 409 }
+      );
+    }
+
+    if ((await countJobsOnBoard(board.id)) > 0) {
+      return NextResponse.json(
+        { error: "Move or delete the jobs on this board before deleting it" },
+        { status: 409 }
+      );
+    }
+
+    await deleteBoard(board.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting board:", error);
+    return NextResponse.json(
+      { error: "Failed to delete board" },
+      { status: 500 }
+    );
+  }
+}
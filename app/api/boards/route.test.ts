@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Board } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+  currentUser: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    board: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+    },
+    boardMember: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/boards", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const board = (overrides: Partial<Board> = {}): Board => ({
+  id: 1,
+  userId: TEST_USER_ID,
+  name: "My board",
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+describe("GET /api/boards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(currentUser).mockResolvedValue(null);
+    vi.mocked(prisma.boardMember.findMany).mockResolvedValue([]);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the user's boards", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([
+      board(),
+      board({ id: 2, name: "Consulting" }),
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.map((b: Board) => b.name)).toEqual(["My board", "Consulting"]);
+    expect(data[0].role).toBe("OWNER");
+    expect(prisma.board.createMany).not.toHaveBeenCalled();
+  });
+
+  it("should list boards shared with the user after their own", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([board({ id: 3 })]);
+    vi.mocked(prisma.boardMember.findMany).mockResolvedValue([
+      {
+        id: 7,
+        role: "EDITOR",
+        board: board({ id: 1, userId: "user_owner", name: "Team search" }),
+      },
+    ] as never);
+
+    // Act
+    const response = await GET();
+    const data = await response.json();
+
+    // Assert
+    expect(data.map((b: Board) => b.id)).toEqual([3, 1]);
+    expect(data[1]).toMatchObject({
+      name: "Team search",
+      role: "EDITOR",
+      memberId: 7,
+    });
+  });
+
+  it("should claim invites for the user's verified email addresses", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([board()]);
+    vi.mocked(currentUser).mockResolvedValue({
+      emailAddresses: [
+        {
+          emailAddress: "Coach@Example.com",
+          verification: { status: "verified" },
+        },
+        {
+          emailAddress: "unverified@example.com",
+          verification: { status: "unverified" },
+        },
+      ],
+    } as never);
+
+    // Act
+    await GET();
+
+    // Assert
+    expect(prisma.boardMember.updateMany).toHaveBeenCalledWith({
+      where: {
+        email: { in: ["coach@example.com"] },
+        userId: null,
+        boardId: { notIn: [] },
+      },
+      data: { userId: TEST_USER_ID },
+    });
+  });
+
+  it("should create the default board for a user without any", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([board()]);
+
+    // Act
+    const response = await GET();
+    const data = await response.json();
+
+    // Assert
+    expect(data).toHaveLength(1);
+    expect(prisma.board.createMany).toHaveBeenCalledWith({
+      data: [{ userId: TEST_USER_ID, name: "My board" }],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("POST /api/boards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([board()]);
+  });
+
+  it("should create a board", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.create).mockResolvedValue(
+      board({ id: 2, name: "Consulting" })
+    );
+
+    // Act
+    const response = await POST(createRequest({ name: " Consulting " }));
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.board.create).toHaveBeenCalledWith({
+      data: { name: "Consulting", userId: TEST_USER_ID },
+    });
+  });
+
+  it("should return 409 if the name is taken", async () => {
+    mockAuth();
+
+    const response = await POST(createRequest({ name: "MY BOARD" }));
+
+    expect(response.status).toBe(409);
+    expect(prisma.board.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an empty name", async () => {
+    mockAuth();
+
+    const response = await POST(createRequest({ name: "  " }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+  });
+});
@@ -0,0 +1,82 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { boardSchema } from "@/lib/schemas";
+import { findBoardByName } from "@/lib/boards";
+import { claimInvites } from "@/lib/authorization";
+import {
+  createBoard,
+  getAccessibleBoards,
+  getBoardsByUserId,
+} from "@/lib/queries/boards";
+
+/**
+ * GET /api/boards
+ * List the boards the user can open, each with their role: their own
+ * first, then those shared with them (claiming open invites for their
+ * verified email addresses), oldest first
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await claimInvites(userId);
+    const boards = await getAccessibleBoards(userId);
+
+    return NextResponse.json(boards);
+  } catch (error) {
+    console.error("Error fetching boards:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch boards" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/boards
+ * Add an empty board
+ *
+ * Request body: { name: string }
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = boardSchema.parse(body);
+
+    const boards = await getBoardsByUserId(userId);
+    if (findBoardByName(boards, validated.name)) {
+      return NextResponse.json(
+        { error: "A board with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const board = await createBoard({ ...validated, userId });
+
+    return NextResponse.json(board, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating board:", error);
+    return NextResponse.json(
+      { error: "Failed to create board" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { prisma } from "@/lib/prisma";
+import { createCalendarFeedToken } from "@/lib/calendar-feed";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    interview: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const mockUserId = "user_123";
+
+const createRequest = () =>
+  new Request("https://jobs.example.com/api/calendar/token.ics");
+
+const paramsFor = (token: string) => ({
+  params: Promise.resolve({ token }),
+});
+
+describe("GET /api/calendar/[token]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CALENDAR_FEED_SECRET = "s3cret";
+  });
+
+  afterEach(() => {
+    delete process.env.CALENDAR_FEED_SECRET;
+  });
+
+  it("should return 404 for an invalid token", async () => {
+    const token = createCalendarFeedToken(mockUserId, "other-secret");
+
+    const response = await GET(createRequest(), paramsFor(`${token}.ics`));
+
+    expect(response.status).toBe(404);
+    expect(prisma.interview.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the feed is not configured", async () => {
+    const token = createCalendarFeedToken(mockUserId, "s3cret");
+    delete process.env.CALENDAR_FEED_SECRET;
+
+    const response = await GET(createRequest(), paramsFor(`${token}.ics`));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return the user's interviews as iCalendar", async () => {
+    // Arrange
+    const token = createCalendarFeedToken(mockUserId, "s3cret");
+    vi.mocked(prisma.interview.findMany).mockResolvedValue([
+      {
+        id: 3,
+        round: "Technical",
+        startsAt: new Date("2025-03-03T13:00:00Z"),
+        endsAt: null,
+        location: null,
+        videoUrl: null,
+        interviewers: [],
+        prepNotes: null,
+        outcome: "PENDING",
+        updatedAt: new Date("2025-03-01T09:00:00Z"),
+        job: { company: "Acme", title: "Developer" },
+      },
+    ] as never);
+
+    // Act
+    const response = await GET(createRequest(), paramsFor(`${token}.ics`));
+    const body = await response.text();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/calendar; charset=utf-8"
+    );
+    expect(body).toContain("SUMMARY:Technical - Acme");
+    expect(prisma.interview.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: mockUserId, job: { deletedAt: null } },
+      })
+    );
+  });
+
+  it("should return 500 if database query fails", async () => {
+    const token = createCalendarFeedToken(mockUserId, "s3cret");
+    vi.mocked(prisma.interview.findMany).mockRejectedValue(
+      new Error("DB down")
+    );
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET(createRequest(), paramsFor(token));
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  getCalendarFeedSecret,
+  verifyCalendarFeedToken,
+} from "@/lib/calendar-feed";
+import { buildInterviewCalendar } from "@/lib/ical";
+import { getCalendarInterviewsByUserId } from "@/lib/queries/interviews";
+
+/**
+ * GET /api/calendar/[token].ics
+ * The user's interviews as an iCalendar feed.
+ *
+ * Calendar apps poll this without a Clerk session, so the route is public
+ * in proxy.ts and the signed token (see lib/calendar-feed.ts) is the only
+ * access check.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const secret = getCalendarFeedSecret();
+  const { token } = await params;
+  const userId = secret
+    ? verifyCalendarFeedToken(token.replace(/\.ics$/, ""), secret)
+    : null;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const interviews = await getCalendarInterviewsByUserId(userId);
+
+    return new NextResponse(buildInterviewCalendar(interviews), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="interviews.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
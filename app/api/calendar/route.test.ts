@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { verifyCalendarFeedToken } from "@/lib/calendar-feed";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const createRequest = () =>
+  new Request("https://jobs.example.com/api/calendar");
+
+describe("GET /api/calendar", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CALENDAR_FEED_SECRET = "s3cret";
+  });
+
+  afterEach(() => {
+    delete process.env.CALENDAR_FEED_SECRET;
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 503 if the feed is not configured", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    delete process.env.CALENDAR_FEED_SECRET;
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(503);
+  });
+
+  it("should return a feed URL with the user's token", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+
+    const response = await GET(createRequest());
+    const { url } = await response.json();
+
+    expect(response.status).toBe(200);
+    const match = url.match(
+      /^https:\/\/jobs\.example\.com\/api\/calendar\/(.+)\.ics$/
+    );
+    expect(match).not.toBe(null);
+    expect(verifyCalendarFeedToken(match[1], "s3cret")).toBe(mockUserId);
+  });
+});
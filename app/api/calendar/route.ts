@@ -0,0 +1,35 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import {
+  createCalendarFeedToken,
+  getCalendarFeedSecret,
+} from "@/lib/calendar-feed";
+
+/**
+ * GET /api/calendar
+ * Return the user's interview calendar feed URL, to subscribe to from a
+ * calendar app
+ *
+ * Response: { url: string }
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const secret = getCalendarFeedSecret();
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Calendar feed is not configured" },
+      { status: 503 }
+    );
+  }
+
+  const token = createCalendarFeedToken(userId, secret);
+  const url = new URL(`/api/calendar/${token}.ics`, request.url);
+
+  return NextResponse.json({ url: url.toString() });
+}
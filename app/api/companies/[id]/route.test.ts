@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Company } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    company: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockCompany = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "3" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/companies/3", {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+const existingCompany = {
+  id: 3,
+  userId: TEST_USER_ID,
+  name: "Spotify",
+  aliases: ["Spotify Technology"],
+  website: null,
+  notes: null,
+  jobs: [],
+} as MockCompany;
+
+const mockSharedBoard = (role: "EDITOR" | "VIEWER") => {
+  vi.mocked(prisma.board.findUnique).mockResolvedValue({
+    id: 2,
+    userId: TEST_USER_ID,
+    name: "Shared",
+  } as never);
+  vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+    role,
+  } as never);
+};
+
+const otherCompany = {
+  id: 8,
+  userId: TEST_USER_ID,
+  name: "Klarna",
+  aliases: [] as string[],
+} as Company;
+
+describe("GET /api/companies/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET(createRequest("GET"), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the company doesn't exist", async () => {
+    mockAuth();
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(null);
+
+    const response = await GET(createRequest("GET"), params);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Company not found");
+  });
+
+  it("should return 403 if the company belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    const response = await GET(createRequest("GET"), params);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should return the company with its non-deleted jobs", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    // Act
+    const response = await GET(createRequest("GET"), params);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect((await response.json()).name).toBe("Spotify");
+    expect(prisma.company.findUnique).toHaveBeenCalledWith({
+      where: { id: 3 },
+      include: {
+        jobs: {
+          where: { deletedAt: null },
+          include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+  });
+
+  it("should show a viewer of a shared board only that board's jobs", async () => {
+    // Arrange
+    mockAuth("viewer_456");
+    mockSharedBoard("VIEWER");
+    vi.mocked(prisma.company.findUnique).mockResolvedValue({
+      ...existingCompany,
+      jobs: [
+        { id: 1, boardId: 2, title: "Backend Engineer" },
+        { id: 5, boardId: 7, title: "Data Engineer" },
+      ],
+    });
+
+    // Act
+    const response = await GET(
+      new Request("http://test/api/companies/3?boardId=2"),
+      params
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data.name).toBe("Spotify");
+    expect(data.jobs).toEqual([expect.objectContaining({ id: 1 })]);
+  });
+
+  it("should return 404 for a company without jobs on the shared board", async () => {
+    // Arrange
+    mockAuth("viewer_456");
+    mockSharedBoard("VIEWER");
+    vi.mocked(prisma.company.findUnique).mockResolvedValue({
+      ...existingCompany,
+      jobs: [{ id: 5, boardId: 7, title: "Data Engineer" }],
+    });
+
+    // Act
+    const response = await GET(
+      new Request("http://test/api/companies/3?boardId=2"),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Company not found");
+  });
+
+  it("should return 403 for a board not shared with the user", async () => {
+    mockAuth("viewer_456");
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      id: 2,
+      userId: TEST_USER_ID,
+    } as never);
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce(null);
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    const response = await GET(
+      new Request("http://test/api/companies/3?boardId=2"),
+      params
+    );
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("PATCH /api/companies/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      existingCompany,
+      otherCompany,
+    ]);
+  });
+
+  it("should return 403 if the company belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    const response = await PATCH(
+      createRequest("PATCH", { notes: "Great culture" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.company.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for an editor of the owner's shared board", async () => {
+    mockAuth("editor_456");
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    const response = await PATCH(
+      new Request("http://test/api/companies/3?boardId=2", {
+        method: "PATCH",
+        body: JSON.stringify({ notes: "Great culture" }),
+      }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.company.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid website", async () => {
+    mockAuth();
+
+    const response = await PATCH(
+      createRequest("PATCH", { website: "not a url" }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Validation failed");
+  });
+
+  it("should update notes and keep the existing aliases", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { notes: "Great culture", website: "" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.company.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        notes: "Great culture",
+        website: null,
+        aliases: ["Spotify Technology"],
+      },
+    });
+  });
+
+  it("should clean up aliases", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    // Act
+    await PATCH(
+      createRequest("PATCH", {
+        aliases: [" Spotify Tech ", "", "spotify ab", "Spotify tech"],
+      }),
+      params
+    );
+
+    // Assert
+    expect(prisma.company.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { aliases: ["Spotify Tech"] },
+    });
+  });
+
+  it("should return 409 if an alias matches another company", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.company.findUnique).mockResolvedValue(existingCompany);
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { aliases: ["Klarna AB"] }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe(
+      '"Klarna AB" already belongs to another company'
+    );
+    expect(prisma.company.update).not.toHaveBeenCalled();
+  });
+});
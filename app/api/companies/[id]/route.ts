@@ -0,0 +1,164 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { authorizeBoard, authorizeOwner } from "@/lib/authorization";
+import { boardIdParamSchema, updateCompanySchema } from "@/lib/schemas";
+import { toNullable } from "@/lib/utils";
+import { cleanAliases, findCompanyByName } from "@/lib/companies";
+import {
+  getCompaniesByUserId,
+  getCompanyWithJobs,
+  updateCompany,
+} from "@/lib/queries/companies";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Load a company with its jobs, checking that it exists and belongs to the
+ * user
+ *
+ * @returns The company, or an error response
+ */
+async function getOwnedCompany(params: RouteParams["params"], userId: string) {
+  const { id: idParam } = await params;
+  const { resource: company, error } = authorizeOwner(
+    await getCompanyWithJobs(Number(idParam)),
+    userId,
+    "Company"
+  );
+  if (error) return { error };
+
+  return { company };
+}
+
+/**
+ * Narrow a company to what a collaborator of one of its owner's boards may
+ * see: the jobs on that board, since the owner's other boards aren't shared
+ * with them. A company without jobs on the board isn't theirs to open.
+ *
+ * @returns The company, or an error response
+ */
+async function getSharedCompany<T extends { jobs: { boardId: number }[] }>(
+  company: T,
+  userId: string,
+  boardId: number
+) {
+  const { error } = await authorizeBoard(boardId, userId, "view");
+  if (error) return { error };
+
+  const jobs = company.jobs.filter((job) => job.boardId === boardId);
+  if (jobs.length === 0) {
+    return {
+      error: NextResponse.json({ error: "Company not found" }, { status: 404 }),
+    };
+  }
+
+  return { company: { ...company, jobs } };
+}
+
+/**
+ * GET /api/companies/[id]
+ * Fetch a company with its applications (newest first) and their contacts
+ *
+ * Query parameters:
+ * - boardId: the board the company was opened from; on a board shared
+ *   with the user, its owner's company can be viewed with the applications
+ *   on that board
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const boardId = boardIdParamSchema.parse(
+      new URL(request.url).searchParams.get("boardId") ?? undefined
+    );
+
+    const { id: idParam } = await params;
+    const found = await getCompanyWithJobs(Number(idParam));
+    const owned = authorizeOwner(found, userId, "Company");
+
+    const { company, error } =
+      found && owned.error && boardId !== undefined
+        ? await getSharedCompany(found, userId, boardId)
+        : { company: owned.resource, error: owned.error };
+    if (error) return error;
+
+    return NextResponse.json(company);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching company:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch company" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/companies/[id]
+ * Update a company's name, aliases, website or research notes. The name
+ * and aliases can't match another of the user's companies, so each job
+ * name resolves to a single company.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { aliases, ...validated } = updateCompanySchema.parse(body);
+
+    const { company, error } = await getOwnedCompany(params, userId);
+    if (error) return error;
+
+    const name = validated.name ?? company.name;
+    const cleaned = cleanAliases(name, aliases ?? company.aliases);
+    const others = (await getCompaniesByUserId(userId)).filter(
+      (other) => other.id !== company.id
+    );
+    const taken = [name, ...cleaned].find((candidate) =>
+      findCompanyByName(others, candidate)
+    );
+    if (taken) {
+      return NextResponse.json(
+        { error: `"${taken}" already belongs to another company` },
+        { status: 409 }
+      );
+    }
+
+    // Convert empty strings to null for Prisma
+    await updateCompany(company.id, {
+      ...toNullable(validated),
+      aliases: cleaned,
+    });
+    const updated = await getCompanyWithJobs(company.id);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating company:", error);
+    return NextResponse.json(
+      { error: "Failed to update company" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Contact } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    contact: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "4" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/contacts/4", {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+const existingContact = {
+  id: 4,
+  userId: TEST_USER_ID,
+  name: "Jane Doe",
+} as Contact;
+
+describe("PATCH /api/contacts/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "Recruiter" }),
+      params
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the contact doesn't exist", async () => {
+    mockAuth();
+    vi.mocked(prisma.contact.findUnique).mockResolvedValue(null);
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "Recruiter" }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if the contact belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.contact.findUnique).mockResolvedValue(existingContact);
+
+    const response = await PATCH(
+      createRequest("PATCH", { role: "Recruiter" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.contact.update).not.toHaveBeenCalled();
+  });
+
+  it("should update only the provided fields", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.contact.findUnique).mockResolvedValue(existingContact);
+    vi.mocked(prisma.contact.update).mockResolvedValue({
+      ...existingContact,
+      role: "Recruiter",
+    });
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { role: "Recruiter", phone: "" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.contact.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: { role: "Recruiter", phone: null },
+    });
+  });
+});
+
+describe("DELETE /api/contacts/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 403 if the contact belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.contact.findUnique).mockResolvedValue(existingContact);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.contact.delete).not.toHaveBeenCalled();
+  });
+
+  it("should delete the contact", async () => {
+    mockAuth();
+    vi.mocked(prisma.contact.findUnique).mockResolvedValue(existingContact);
+    vi.mocked(prisma.contact.delete).mockResolvedValue(existingContact);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.contact.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+  });
+});
@@ -0,0 +1,95 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { authorizeOwner } from "@/lib/authorization";
+import { updateContactSchema } from "@/lib/schemas";
+import { toNullable } from "@/lib/utils";
+import {
+  deleteContact,
+  getContactById,
+  updateContact,
+} from "@/lib/queries/contacts";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Load a contact, checking that it exists and belongs to the user
+ *
+ * @returns The contact, or an error response
+ */
+async function getOwnedContact(params: RouteParams["params"], userId: string) {
+  const { id: idParam } = await params;
+  const { resource: contact, error } = authorizeOwner(
+    await getContactById(Number(idParam)),
+    userId,
+    "Contact"
+  );
+  if (error) return { error };
+
+  return { contact };
+}
+
+/**
+ * PATCH /api/contacts/[id]
+ * Update a contact's details. Every linked job sees the change.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = updateContactSchema.parse(body);
+
+    const { contact, error } = await getOwnedContact(params, userId);
+    if (error) return error;
+
+    // Convert empty strings to null for Prisma
+    const updated = await updateContact(contact.id, toNullable(validated));
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating contact:", error);
+    return NextResponse.json(
+      { error: "Failed to update contact" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/contacts/[id]
+ * Delete a contact. It is unlinked from its jobs, which are kept.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { contact, error } = await getOwnedContact(params, userId);
+    if (error) return error;
+
+    await deleteContact(contact.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting contact:", error);
+    return NextResponse.json(
+      { error: "Failed to delete contact" },
+      { status: 500 }
+    );
+  }
+}
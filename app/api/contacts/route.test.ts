@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Contact } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    contact: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const OWNER_ID = "owner_456";
+
+const mockSharedBoard = (role: "EDITOR" | "VIEWER") => {
+  vi.mocked(prisma.board.findUnique).mockResolvedValue({
+    id: 2,
+    userId: OWNER_ID,
+    name: "Shared",
+  } as never);
+  vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+    role,
+  } as never);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/contacts", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const contact: Contact = {
+  id: 4,
+  userId: TEST_USER_ID,
+  name: "Jane Doe",
+  email: "jane@example.com",
+  phone: null,
+  linkedinUrl: null,
+  role: "Recruiter",
+  company: "Acme Recruiting",
+  notes: null,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+};
+
+describe("GET /api/contacts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET(new Request("http://test/api/contacts"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the user's contacts with their active jobs", async () => {
+    mockAuth();
+    vi.mocked(prisma.contact.findMany).mockResolvedValue([contact]);
+
+    const response = await GET(new Request("http://test/api/contacts"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual([expect.objectContaining({ name: "Jane Doe" })]);
+    expect(prisma.contact.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: TEST_USER_ID },
+        include: {
+          jobs: expect.objectContaining({ where: { deletedAt: null } }),
+        },
+        orderBy: { name: "asc" },
+      })
+    );
+  });
+
+  it("should list the owner's contacts with the jobs on a shared board", async () => {
+    // Arrange
+    mockAuth();
+    mockSharedBoard("EDITOR");
+    vi.mocked(prisma.contact.findMany).mockResolvedValue([
+      { ...contact, userId: OWNER_ID },
+    ]);
+
+    // Act
+    const response = await GET(
+      new Request("http://test/api/contacts?boardId=2")
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.contact.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: OWNER_ID },
+        include: {
+          jobs: expect.objectContaining({
+            where: { deletedAt: null, boardId: 2 },
+          }),
+        },
+      })
+    );
+  });
+
+  it("should list only the contacts on the board for a viewer", async () => {
+    // Arrange
+    mockAuth();
+    mockSharedBoard("VIEWER");
+    vi.mocked(prisma.contact.findMany).mockResolvedValue([]);
+
+    // Act
+    const response = await GET(
+      new Request("http://test/api/contacts?boardId=2")
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.contact.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { jobs: { some: { boardId: 2, deletedAt: null } } },
+        include: {
+          jobs: expect.objectContaining({
+            where: { boardId: 2, deletedAt: null },
+          }),
+        },
+      })
+    );
+  });
+
+  it("should return 404 for a board not shared with the user", async () => {
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      id: 2,
+      userId: OWNER_ID,
+    } as never);
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce(null);
+
+    const response = await GET(
+      new Request("http://test/api/contacts?boardId=2")
+    );
+
+    expect(response.status).toBe(404);
+    expect(prisma.contact.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/contacts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(createRequest({ name: "Jane Doe" }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 400 without a name", async () => {
+    mockAuth();
+
+    const response = await POST(createRequest({ name: "  " }));
+
+    expect(response.status).toBe(400);
+    expect(prisma.contact.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid email", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ name: "Jane Doe", email: "not-an-email" })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should create a contact for the user with empty fields as null", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.contact.create).mockResolvedValue(contact);
+
+    // Act
+    const response = await POST(
+      createRequest({
+        name: " Jane Doe ",
+        email: "jane@example.com",
+        phone: "",
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.contact.create).toHaveBeenCalledWith({
+      data: {
+        name: "Jane Doe",
+        email: "jane@example.com",
+        phone: null,
+        userId: TEST_USER_ID,
+      },
+    });
+  });
+
+  it("should create an editor's contact under the shared board's owner", async () => {
+    // Arrange
+    mockAuth();
+    mockSharedBoard("EDITOR");
+    vi.mocked(prisma.contact.create).mockResolvedValue({
+      ...contact,
+      userId: OWNER_ID,
+    });
+
+    // Act
+    const response = await POST(
+      createRequest({ name: "Jane Doe", boardId: 2 })
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.contact.create).toHaveBeenCalledWith({
+      data: { name: "Jane Doe", userId: OWNER_ID },
+    });
+  });
+
+  it("should return 403 for a viewer of the shared board", async () => {
+    mockAuth();
+    mockSharedBoard("VIEWER");
+
+    const response = await POST(
+      createRequest({ name: "Jane Doe", boardId: 2 })
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.contact.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { boardIdParamSchema, createContactSchema } from "@/lib/schemas";
+import { toNullable } from "@/lib/utils";
+import { resolveBoard } from "@/lib/authorization";
+import { can } from "@/lib/boards";
+import {
+  createContact,
+  getContactsByBoardId,
+  getContactsByUserId,
+} from "@/lib/queries/contacts";
+
+/**
+ * GET /api/contacts
+ * List the user's contacts by name, each with the jobs it is linked to
+ *
+ * Query parameters:
+ * - boardId: list the board owner's contacts instead, for jobs on a board
+ *   shared with the user. Editors get every contact their jobs can link,
+ *   other collaborators only those linked to jobs on the board; either way
+ *   only jobs on that board are listed with them
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const boardId = boardIdParamSchema.parse(
+      new URL(request.url).searchParams.get("boardId") ?? undefined
+    );
+
+    if (boardId === undefined) {
+      return NextResponse.json(await getContactsByUserId(userId));
+    }
+
+    const { board, role, error } = await resolveBoard(boardId, userId, "view");
+    if (error) return error;
+
+    const contacts =
+      role === "OWNER"
+        ? await getContactsByUserId(userId)
+        : can(role, "edit")
+          ? await getContactsByUserId(board.userId, board.id)
+          : await getContactsByBoardId(board.id);
+
+    return NextResponse.json(contacts);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching contacts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch contacts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contacts
+ * Create a contact, to link to jobs afterwards. With a boardId the contact
+ * is the board owner's, for jobs on a board the user may edit.
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { boardId, ...validated } = createContactSchema.parse(body);
+
+    let ownerId = userId;
+    if (boardId !== undefined) {
+      const { board, error } = await resolveBoard(boardId, userId, "edit", 400);
+      if (error) return error;
+      ownerId = board.userId;
+    }
+
+    // Convert empty strings/undefined to null for Prisma
+    const contact = await createContact(
+      toNullable({ ...validated, userId: ownerId })
+    );
+
+    return NextResponse.json(contact, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating contact:", error);
+    return NextResponse.json(
+      { error: "Failed to create contact" },
+      { status: 500 }
+    );
+  }
+}
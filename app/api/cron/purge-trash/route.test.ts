@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { prisma } from "@/lib/prisma";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+const createRequest = (authorization?: string) =>
+  new Request("http://test/api/cron/purge-trash", {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe("GET /api/cron/purge-trash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CRON_SECRET = "test-secret";
+  });
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it("returns 401 without the cron secret", async () => {
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+    expect(prisma.job.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 when no secret is configured", async () => {
+    delete process.env.CRON_SECRET;
+
+    const response = await GET(createRequest("Bearer undefined"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("purges expired jobs for all users", async () => {
+    vi.mocked(prisma.job.deleteMany).mockResolvedValue({ count: 4 });
+
+    const response = await GET(createRequest("Bearer test-secret"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, purged: 4 });
+    expect(prisma.job.deleteMany).toHaveBeenCalledWith({
+      where: { deletedAt: { lt: expect.any(Date) } },
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { purgeDeletedJobs } from "@/lib/queries/jobs";
+import { getPurgeCutoff, getTrashRetentionDays } from "@/lib/trash";
+
+/**
+ * GET /api/cron/purge-trash
+ * Scheduled retention purge: hard-deletes jobs that have been in the trash
+ * longer than the retention period, for all users.
+ *
+ * Called by Vercel Cron (see vercel.json), which sends
+ * `Authorization: Bearer $CRON_SECRET`. The route is public in proxy.ts,
+ * so the secret is the only access check.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const retentionDays = getTrashRetentionDays();
+    const purged = await purgeDeletedJobs(getPurgeCutoff(retentionDays));
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Error purging deleted jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to purge deleted jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { JobComment } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+    },
+    jobComment: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const existingJob = makeJob({ userId: mockUserId, stageId: 3 });
+
+const existingComment: JobComment = {
+  id: 5,
+  jobId: 1,
+  userId: mockUserId,
+  body: "First call went well",
+  createdAt: new Date("2025-01-10"),
+  updatedAt: new Date("2025-01-10"),
+};
+
+const params = { params: Promise.resolve({ id: "1", commentId: "5" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/jobs/1/comments/5", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe("PATCH /api/jobs/[id]/comments/[commentId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await PATCH(
+      createRequest("PATCH", { body: "Edited" }),
+      params
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should edit the user's own comment", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue(existingComment);
+    vi.mocked(prisma.jobComment.update).mockResolvedValue({
+      ...existingComment,
+      body: "Edited",
+    });
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { body: "Edited" }),
+      params
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ id: 5, body: "Edited", author: null });
+    expect(prisma.jobComment.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { body: "Edited" },
+    });
+  });
+
+  it("should return 403 when editing someone else's comment", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue({
+      ...existingComment,
+      userId: "user_coach",
+    });
+
+    const response = await PATCH(
+      createRequest("PATCH", { body: "Edited" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobComment.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 when the author was demoted to viewer", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue(existingComment);
+
+    const response = await PATCH(
+      createRequest("PATCH", { body: "Edited" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobComment.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for a comment on another job", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue({
+      ...existingComment,
+      jobId: 2,
+    });
+
+    const response = await PATCH(
+      createRequest("PATCH", { body: "Edited" }),
+      params
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Comment not found");
+  });
+
+  it("should return 400 for an empty comment", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+
+    const response = await PATCH(createRequest("PATCH", { body: "" }), params);
+
+    expect(response.status).toBe(400);
+    expect(prisma.jobComment.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /api/jobs/[id]/comments/[commentId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 404 if the comment does not exist", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue(null);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(404);
+    expect(prisma.jobComment.delete).not.toHaveBeenCalled();
+  });
+
+  it("should let the board's owner delete a collaborator's comment", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue({
+      ...existingComment,
+      userId: "user_coach",
+    });
+    vi.mocked(prisma.jobComment.delete).mockResolvedValue(existingComment);
+
+    // Act
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.jobComment.delete).toHaveBeenCalledWith({
+      where: { id: 5 },
+    });
+  });
+
+  it("should let a commenter delete their own comment only", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "COMMENTER",
+    } as never);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue({
+      ...existingComment,
+      userId: "owner_456",
+    });
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobComment.delete).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findUnique).mockResolvedValue(existingComment);
+    vi.mocked(prisma.jobComment.delete).mockRejectedValue(
+      new Error("Database error")
+    );
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,121 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { jobCommentSchema } from "@/lib/schemas";
+import { can } from "@/lib/boards";
+import { authorizeJob } from "@/lib/authorization";
+import {
+  deleteComment,
+  getCommentById,
+  updateComment,
+} from "@/lib/queries/job-comments";
+
+type RouteParams = { params: Promise<{ id: string; commentId: string }> };
+
+/**
+ * Load a comment on a job, checking that both exist and that the user
+ * wrote it and may still comment - or, if allowManager, manages the board
+ *
+ * @returns The comment, or an error response
+ */
+async function getOwnComment(
+  params: RouteParams["params"],
+  userId: string,
+  { allowManager = false }: { allowManager?: boolean } = {}
+) {
+  const { id: idParam, commentId: commentIdParam } = await params;
+  const jobId = Number(idParam);
+  const commentId = Number(commentIdParam);
+
+  const [access, comment] = await Promise.all([
+    authorizeJob(jobId, userId, "view"),
+    getCommentById(commentId),
+  ]);
+
+  if (access.error?.status === 404 || !comment || comment.jobId !== jobId) {
+    return {
+      error: NextResponse.json({ error: "Comment not found" }, { status: 404 }),
+    };
+  }
+
+  if (access.error) return { error: access.error };
+
+  const isAuthor = comment.userId === userId && can(access.role, "comment");
+  const isManager = allowManager && can(access.role, "manage");
+
+  if (!isAuthor && !isManager) {
+    return {
+      error: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { comment };
+}
+
+/**
+ * PATCH /api/jobs/[id]/comments/[commentId]
+ * Edit one of the user's comments
+ *
+ * Request body: { body: string } (markdown)
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = jobCommentSchema.parse(body);
+
+    const { comment, error } = await getOwnComment(params, userId);
+    if (error) return error;
+
+    const updated = await updateComment(comment.id, validated.body);
+
+    return NextResponse.json({ ...updated, author: null });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to update comment" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/[id]/comments/[commentId]
+ * Delete one of the user's comments; the board's owner can delete any
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { comment, error } = await getOwnComment(params, userId, {
+      allowManager: true,
+    });
+    if (error) return error;
+
+    await deleteComment(comment.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
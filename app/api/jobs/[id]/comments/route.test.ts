@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { JobComment } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+  clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+    },
+    jobComment: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const existingJob = makeJob({ userId: mockUserId, stageId: 3 });
+
+const comment = (id: number, userId: string): JobComment => ({
+  id,
+  jobId: 1,
+  userId,
+  body: `Comment ${id}`,
+  createdAt: new Date("2025-01-10"),
+  updatedAt: new Date("2025-01-10"),
+});
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+const createRequest = (body?: unknown) =>
+  new Request("http://test/api/jobs/1/comments", {
+    method: body === undefined ? "GET" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe("GET /api/jobs/[id]/comments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if job does not exist", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(null);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(404);
+    expect(prisma.jobComment.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 if user cannot see the job's board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "different_user",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce(null);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobComment.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return the comments oldest first with their authors", async () => {
+    // Arrange
+    const getUserList = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: "user_coach",
+          fullName: "Casey Coach",
+          primaryEmailAddress: null,
+        },
+      ],
+    });
+    vi.mocked(clerkClient).mockResolvedValue({
+      users: { getUserList },
+    } as never);
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findMany).mockResolvedValue([
+      comment(1, mockUserId),
+      comment(2, "user_coach"),
+      comment(3, "user_gone"),
+    ]);
+
+    // Act
+    const response = await GET(createRequest(), params);
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.jobComment.findMany).toHaveBeenCalledWith({
+      where: { jobId: 1 },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+    expect(getUserList).toHaveBeenCalledWith({
+      userId: ["user_coach", "user_gone"],
+      limit: 2,
+    });
+    expect(data.map((c: { author: string | null }) => c.author)).toEqual([
+      null,
+      "Casey Coach",
+      "A collaborator",
+    ]);
+  });
+
+  it("should let viewers of a shared board read the comments", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+    vi.mocked(prisma.jobComment.findMany).mockResolvedValue([]);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([]);
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.findMany).mockRejectedValue(
+      new Error("Database error")
+    );
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe("POST /api/jobs/[id]/comments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await POST(createRequest({ body: "Hi" }), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should add a comment by the user", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobComment.create).mockResolvedValue(
+      comment(1, mockUserId)
+    );
+
+    // Act
+    const response = await POST(
+      createRequest({ body: "  **Great** call today  " }),
+      params
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(data).toMatchObject({ id: 1, author: null });
+    expect(prisma.jobComment.create).toHaveBeenCalledWith({
+      data: { body: "**Great** call today", jobId: 1, userId: mockUserId },
+    });
+  });
+
+  it("should let commenters on a shared board comment", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "COMMENTER",
+    } as never);
+    vi.mocked(prisma.jobComment.create).mockResolvedValue(
+      comment(1, mockUserId)
+    );
+
+    const response = await POST(createRequest({ body: "Looks good" }), params);
+
+    expect(response.status).toBe(201);
+    expect(prisma.jobComment.create).toHaveBeenCalledWith({
+      data: { body: "Looks good", jobId: 1, userId: mockUserId },
+    });
+  });
+
+  it("should return 403 for viewers of a shared board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+
+    const response = await POST(createRequest({ body: "Hi" }), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobComment.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an empty comment", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+
+    const response = await POST(createRequest({ body: "   " }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(prisma.jobComment.create).not.toHaveBeenCalled();
+  });
+});
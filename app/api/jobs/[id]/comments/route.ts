@@ -0,0 +1,99 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { jobCommentSchema } from "@/lib/schemas";
+import { authorizeJob, getUserNames } from "@/lib/authorization";
+import { createComment, getCommentsByJobId } from "@/lib/queries/job-comments";
+
+/**
+ * GET /api/jobs/[id]/comments
+ * List a job's comments, oldest first. Comments by someone else (on a
+ * shared board) name them in author; the user's own have author null.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+
+    const { error } = await authorizeJob(id, userId, "view");
+    if (error) return error;
+
+    const comments = await getCommentsByJobId(id);
+    const names = await getUserNames([
+      ...new Set(
+        comments
+          .map((comment) => comment.userId)
+          .filter((authorId) => authorId !== userId)
+      ),
+    ]);
+
+    return NextResponse.json(
+      comments.map((comment) => ({
+        ...comment,
+        author:
+          comment.userId === userId
+            ? null
+            : (names.get(comment.userId) ?? "A collaborator"),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/jobs/[id]/comments
+ * Comment on a job
+ *
+ * Request body: { body: string } (markdown)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+    const body = await request.json();
+    const validated = jobCommentSchema.parse(body);
+
+    const { error } = await authorizeJob(id, userId, "comment");
+    if (error) return error;
+
+    const comment = await createComment({ ...validated, jobId: id, userId });
+
+    return NextResponse.json({ ...comment, author: null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to create comment" },
+      { status: 500 }
+    );
+  }
+}
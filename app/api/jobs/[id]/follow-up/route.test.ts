@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
+    job: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+    // Interactive transactions run against the same mocked client
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    $transaction: vi.fn((fn: (tx: any) => unknown) => fn(prisma)),
+  };
+  return { prisma };
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/jobs/1/follow-up", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+const existingJob = makeJob({
+  userId: TEST_USER_ID,
+  stageId: 2,
+  followUpAt: new Date("2025-03-10"),
+});
+
+describe("POST /api/jobs/[id]/follow-up", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.job.update).mockResolvedValue(existingJob);
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(createRequest({ action: "complete" }), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 400 for an unknown action or a missing date", async () => {
+    mockAuth();
+
+    const badAction = await POST(createRequest({ action: "ignore" }), params);
+    const missingDate = await POST(createRequest({ action: "snooze" }), params);
+
+    expect(badAction.status).toBe(400);
+    expect(missingDate.status).toBe(400);
+  });
+
+  it("returns 404 for a deleted job", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      deletedAt: new Date(),
+    });
+
+    const response = await POST(createRequest({ action: "complete" }), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 if user does not own the job", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "different_user",
+    });
+
+    const response = await POST(createRequest({ action: "complete" }), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("snoozes by moving the follow-up date and records it", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+
+    // Act
+    const response = await POST(
+      createRequest({ action: "snooze", until: "2025-03-17" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: {
+        followUpAt: new Date("2025-03-17"),
+        history: {
+          create: [
+            {
+              userId: TEST_USER_ID,
+              fieldChanged: "followUpAt",
+              oldValue: "2025-03-10T00:00:00.000Z",
+              newValue: "2025-03-17T00:00:00.000Z",
+            },
+          ],
+        },
+      },
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+    });
+  });
+
+  it("completes by clearing the follow-up date", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+
+    // Act
+    const response = await POST(createRequest({ action: "complete" }), params);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        followUpAt: null,
+        followUpCompletedAt: expect.any(Date),
+      }),
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+    });
+  });
+});
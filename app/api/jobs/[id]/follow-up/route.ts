@@ -0,0 +1,58 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { followUpActionSchema } from "@/lib/schemas";
+import { updateJob } from "@/lib/queries/jobs";
+import { authorizeJob } from "@/lib/authorization";
+
+/**
+ * POST /api/jobs/[id]/follow-up
+ * Snooze or complete a job's follow-up reminder
+ *
+ * Request body:
+ * - { action: "snooze", until: "YYYY-MM-DD" } sets the follow-up date
+ * - { action: "complete" } clears it and restarts the reminder rules
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+    const body = await request.json();
+    const followUp = followUpActionSchema.parse(body);
+
+    const { error } = await authorizeJob(id, userId, "edit");
+    if (error) return error;
+
+    const job = await updateJob(
+      id,
+      followUp.action === "snooze"
+        ? { followUpAt: new Date(followUp.until) }
+        : { followUpAt: null, followUpCompletedAt: new Date() },
+      userId
+    );
+
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating follow-up:", error);
+    return NextResponse.json(
+      { error: "Failed to update follow-up" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { JobHistory } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+  clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+    },
+    jobHistory: {
+      findMany: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const existingJob = makeJob({ userId: mockUserId, stageId: 3 });
+
+const createRequest = () => new Request("http://test/api/jobs/1/history");
+
+describe("GET /api/jobs/[id]/history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if job does not exist", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(null);
+
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if user does not own the job", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "different_user",
+    });
+
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(prisma.jobHistory.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return the job history newest first", async () => {
+    const history: JobHistory[] = [
+      {
+        id: 2,
+        jobId: 1,
+        userId: mockUserId,
+        fieldChanged: "stageId",
+        oldValue: "2",
+        newValue: "3",
+        changedAt: new Date("2025-01-10"),
+      },
+      {
+        id: 1,
+        jobId: 1,
+        userId: mockUserId,
+        fieldChanged: "created",
+        oldValue: null,
+        newValue: "2",
+        changedAt: new Date("2025-01-01"),
+      },
+    ];
+
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobHistory.findMany).mockResolvedValue(history);
+
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toHaveLength(2);
+    expect(data[0]).toMatchObject({
+      fieldChanged: "stageId",
+      oldValue: "2",
+      newValue: "3",
+      changedBy: null,
+    });
+    expect(prisma.jobHistory.findMany).toHaveBeenCalledWith({
+      where: { jobId: 1 },
+      orderBy: [{ changedAt: "desc" }, { id: "desc" }],
+    });
+    expect(clerkClient).not.toHaveBeenCalled();
+  });
+
+  it("should name the collaborators who changed a shared job", async () => {
+    // Arrange
+    const entry = (id: number, userId: string): JobHistory => ({
+      id,
+      jobId: 1,
+      userId,
+      fieldChanged: "notes",
+      oldValue: null,
+      newValue: "Call back",
+      changedAt: new Date("2025-01-10"),
+    });
+    const getUserList = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: "user_coach",
+          fullName: "Casey Coach",
+          primaryEmailAddress: null,
+        },
+      ],
+    });
+    vi.mocked(clerkClient).mockResolvedValue({
+      users: { getUserList },
+    } as never);
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobHistory.findMany).mockResolvedValue([
+      entry(3, "user_coach"),
+      entry(2, "user_gone"),
+      entry(1, mockUserId),
+    ]);
+
+    // Act
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+    const data = await response.json();
+
+    // Assert
+    expect(getUserList).toHaveBeenCalledWith({
+      userId: ["user_coach", "user_gone"],
+      limit: 2,
+    });
+    expect(data.map((e: { changedBy: string | null }) => e.changedBy)).toEqual([
+      "Casey Coach",
+      "A collaborator",
+      null,
+    ]);
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.jobHistory.findMany).mockRejectedValue(
+      new Error("Database error")
+    );
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET(createRequest(), {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,55 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { authorizeJob, getUserNames } from "@/lib/authorization";
+import { getJobHistory } from "@/lib/queries/job-history";
+
+/**
+ * GET /api/jobs/[id]/history
+ * Return the change timeline for a job, newest first. Entries by someone
+ * else (on a shared board) name them in changedBy; the user's own have
+ * changedBy null.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+
+    const { error } = await authorizeJob(id, userId, "view");
+    if (error) return error;
+
+    const history = await getJobHistory(id);
+    const otherUserIds = [
+      ...new Set(
+        history
+          .map((entry) => entry.userId)
+          .filter((entryUserId) => entryUserId !== userId)
+      ),
+    ];
+    const names = await getUserNames(otherUserIds);
+
+    return NextResponse.json(
+      history.map((entry) => ({
+        ...entry,
+        changedBy:
+          entry.userId === userId
+            ? null
+            : (names.get(entry.userId) ?? "A collaborator"),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching job history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job history" },
+      { status: 500 }
+    );
+  }
+}
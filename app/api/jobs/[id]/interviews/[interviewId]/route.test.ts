@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Interview, Job } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+    },
+    interview: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "1", interviewId: "3" }) };
+
+const createRequest = (method: string, body?: unknown) =>
+  new Request("http://test/api/jobs/1/interviews/3", {
+    method,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+const existingJob = {
+  id: 1,
+  userId: TEST_USER_ID,
+  deletedAt: null,
+} as Job;
+
+const existingInterview = {
+  id: 3,
+  jobId: 1,
+  userId: TEST_USER_ID,
+  round: "Technical",
+  startsAt: new Date("2025-03-03T13:00:00Z"),
+  endsAt: new Date("2025-03-03T14:00:00Z"),
+  timeZone: "Europe/Stockholm",
+  outcome: "PENDING",
+} as Interview;
+
+const mockExisting = (
+  job: Job | null = existingJob,
+  interview: Interview | null = existingInterview
+) => {
+  vi.mocked(prisma.job.findUnique).mockResolvedValue(job);
+  vi.mocked(prisma.interview.findUnique).mockResolvedValue(interview);
+};
+
+describe("PATCH /api/jobs/[id]/interviews/[interviewId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await PATCH(
+      createRequest("PATCH", { outcome: "PASSED" }),
+      params
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the interview belongs to another job", async () => {
+    mockAuth();
+    mockExisting(existingJob, { ...existingInterview, jobId: 2 });
+
+    const response = await PATCH(
+      createRequest("PATCH", { outcome: "PASSED" }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if job belongs to another user", async () => {
+    mockAuth("other_user");
+    mockExisting();
+
+    const response = await PATCH(
+      createRequest("PATCH", { outcome: "PASSED" }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.interview.update).not.toHaveBeenCalled();
+  });
+
+  it("should update only the provided fields", async () => {
+    // Arrange
+    mockAuth();
+    mockExisting();
+    vi.mocked(prisma.interview.update).mockResolvedValue({
+      ...existingInterview,
+      outcome: "PASSED",
+    });
+
+    // Act
+    const response = await PATCH(
+      createRequest("PATCH", { outcome: "PASSED", location: "" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.interview.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { outcome: "PASSED", location: null },
+    });
+  });
+
+  it("should return 400 when a new start is after the stored end", async () => {
+    mockAuth();
+    mockExisting();
+
+    const response = await PATCH(
+      createRequest("PATCH", { startsAt: "2025-03-03T15:00:00.000Z" }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.interview.update).not.toHaveBeenCalled();
+  });
+
+  it("should clear the end time", async () => {
+    mockAuth();
+    mockExisting();
+    vi.mocked(prisma.interview.update).mockResolvedValue(existingInterview);
+
+    await PATCH(createRequest("PATCH", { endsAt: "" }), params);
+
+    expect(prisma.interview.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { endsAt: null },
+    });
+  });
+});
+
+describe("DELETE /api/jobs/[id]/interviews/[interviewId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if interview does not exist", async () => {
+    mockAuth();
+    mockExisting(existingJob, null);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if job belongs to another user", async () => {
+    mockAuth("other_user");
+    mockExisting();
+
+    const response = await DELETE(createRequest("DELETE"), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.interview.delete).not.toHaveBeenCalled();
+  });
+
+  it("should delete the interview", async () => {
+    mockAuth();
+    mockExisting();
+    vi.mocked(prisma.interview.delete).mockResolvedValue(existingInterview);
+
+    const response = await DELETE(createRequest("DELETE"), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true });
+    expect(prisma.interview.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+  });
+});
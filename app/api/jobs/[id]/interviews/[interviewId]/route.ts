@@ -0,0 +1,134 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { updateInterviewSchema } from "@/lib/schemas";
+import { toNullable } from "@/lib/utils";
+import { authorizeJob } from "@/lib/authorization";
+import {
+  deleteInterview,
+  getInterviewById,
+  updateInterview,
+} from "@/lib/queries/interviews";
+
+type RouteParams = { params: Promise<{ id: string; interviewId: string }> };
+
+/**
+ * Load an interview of a job, checking that both exist and that the user
+ * may edit the job
+ *
+ * @returns The interview, or an error response
+ */
+async function getEditableInterview(
+  params: RouteParams["params"],
+  userId: string
+) {
+  const { id: idParam, interviewId: interviewIdParam } = await params;
+  const jobId = Number(idParam);
+  const interviewId = Number(interviewIdParam);
+
+  const [access, interview] = await Promise.all([
+    authorizeJob(jobId, userId, "edit"),
+    getInterviewById(interviewId),
+  ]);
+
+  if (access.error?.status === 404 || !interview || interview.jobId !== jobId) {
+    return {
+      error: NextResponse.json(
+        { error: "Interview not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (access.error) return { error: access.error };
+
+  return { interview };
+}
+
+/**
+ * PATCH /api/jobs/[id]/interviews/[interviewId]
+ * Update an interview round, e.g. to record its outcome
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = updateInterviewSchema.parse(body);
+
+    const { interview, error } = await getEditableInterview(params, userId);
+    if (error) return error;
+
+    // Build update data - only include fields that were provided
+    const updateData: Record<string, unknown> = { ...validated };
+
+    if (validated.startsAt !== undefined) {
+      updateData.startsAt = new Date(validated.startsAt);
+    }
+    if (validated.endsAt !== undefined) {
+      updateData.endsAt = validated.endsAt ? new Date(validated.endsAt) : null;
+    }
+
+    // The schema only compares the times when both are sent
+    const startsAt = (updateData.startsAt as Date) ?? interview.startsAt;
+    const endsAt =
+      updateData.endsAt !== undefined
+        ? (updateData.endsAt as Date | null)
+        : interview.endsAt;
+    if (endsAt && endsAt <= startsAt) {
+      return NextResponse.json(
+        { error: "End time must be after the start" },
+        { status: 400 }
+      );
+    }
+
+    // Convert empty strings to null for Prisma
+    const updated = await updateInterview(interview.id, toNullable(updateData));
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating interview:", error);
+    return NextResponse.json(
+      { error: "Failed to update interview" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/[id]/interviews/[interviewId]
+ * Remove an interview round
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { interview, error } = await getEditableInterview(params, userId);
+    if (error) return error;
+
+    await deleteInterview(interview.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting interview:", error);
+    return NextResponse.json(
+      { error: "Failed to delete interview" },
+      { status: 500 }
+    );
+  }
+}
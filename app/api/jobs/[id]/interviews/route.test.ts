@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Interview, Job } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+    },
+    interview: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+const createRequest = (body?: unknown) =>
+  new Request("http://test/api/jobs/1/interviews", {
+    method: body ? "POST" : "GET",
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+const existingJob = {
+  id: 1,
+  userId: TEST_USER_ID,
+  company: "Test Company",
+  stageId: 3,
+  deletedAt: null,
+} as Job;
+
+const interview = {
+  id: 3,
+  jobId: 1,
+  userId: TEST_USER_ID,
+  round: "Technical",
+  startsAt: new Date("2025-03-03T13:00:00Z"),
+  endsAt: null,
+  timeZone: "Europe/Stockholm",
+} as Interview;
+
+const validBody = {
+  round: "Technical",
+  startsAt: "2025-03-03T13:00:00.000Z",
+  endsAt: "2025-03-03T14:00:00.000Z",
+  timeZone: "Europe/Stockholm",
+  location: "",
+  videoUrl: "https://meet.example.com/abc",
+  interviewers: ["Jane Doe"],
+};
+
+describe("GET /api/jobs/[id]/interviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the job is deleted", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      deletedAt: new Date(),
+    });
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if job belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.interview.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return the job's interviews, earliest first", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.interview.findMany).mockResolvedValue([interview]);
+
+    const response = await GET(createRequest(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toHaveLength(1);
+    expect(prisma.interview.findMany).toHaveBeenCalledWith({
+      where: { jobId: 1 },
+      orderBy: [{ startsAt: "asc" }, { id: "asc" }],
+    });
+  });
+});
+
+describe("POST /api/jobs/[id]/interviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(createRequest(validBody), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 403 if job belongs to another user", async () => {
+    mockAuth("other_user");
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+
+    const response = await POST(createRequest(validBody), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.interview.create).not.toHaveBeenCalled();
+  });
+
+  it("should create an interview with UTC dates and nulls for empty fields", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.interview.create).mockResolvedValue(interview);
+
+    // Act
+    const response = await POST(createRequest(validBody), params);
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.interview.create).toHaveBeenCalledWith({
+      data: {
+        jobId: 1,
+        userId: TEST_USER_ID,
+        round: "Technical",
+        startsAt: new Date("2025-03-03T13:00:00Z"),
+        endsAt: new Date("2025-03-03T14:00:00Z"),
+        timeZone: "Europe/Stockholm",
+        location: null,
+        videoUrl: "https://meet.example.com/abc",
+        interviewers: ["Jane Doe"],
+        outcome: "PENDING",
+      },
+    });
+  });
+
+  it("should return 400 for an unknown time zone", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ ...validBody, timeZone: "Mars/Olympus_Mons" }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 400 when the end is before the start", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ ...validBody, endsAt: "2025-03-03T12:00:00.000Z" }),
+      params
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details[0].path).toEqual(["endsAt"]);
+  });
+
+  it("should return 500 if database create fails", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.interview.create).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await POST(createRequest(validBody), params);
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,95 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { interviewSchema } from "@/lib/schemas";
+import { toNullable } from "@/lib/utils";
+import { authorizeJob } from "@/lib/authorization";
+import {
+  createInterview,
+  getInterviewsByJobId,
+} from "@/lib/queries/interviews";
+
+/**
+ * GET /api/jobs/[id]/interviews
+ * List a job's interview rounds, earliest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+
+    const { error } = await authorizeJob(id, userId, "view");
+    if (error) return error;
+
+    const interviews = await getInterviewsByJobId(id);
+
+    return NextResponse.json(interviews);
+  } catch (error) {
+    console.error("Error fetching interviews:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch interviews" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/jobs/[id]/interviews
+ * Add an interview round to a job
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+    const body = await request.json();
+    const validated = interviewSchema.parse(body);
+
+    const { job, error } = await authorizeJob(id, userId, "edit");
+    if (error) return error;
+
+    // Convert empty strings/undefined to null for Prisma. The interview
+    // is the job owner's, for their calendar feed.
+    const interview = await createInterview(
+      toNullable({
+        ...validated,
+        jobId: id,
+        userId: job.userId,
+        startsAt: new Date(validated.startsAt),
+        endsAt: validated.endsAt ? new Date(validated.endsAt) : null,
+      })
+    );
+
+    return NextResponse.json(interview, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating interview:", error);
+    return NextResponse.json(
+      { error: "Failed to create interview" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Stage } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
+    job: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    stage: {
+      findUnique: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+    // Interactive transactions run against the same mocked client
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    $transaction: vi.fn((fn: (tx: any) => unknown) => fn(prisma)),
+  };
+  return { prisma };
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/jobs/1/move", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+const existingJob = makeJob({ userId: TEST_USER_ID });
+
+// Stage 2 ("Applied") belongs to the user
+const appliedStage = { id: 2, userId: TEST_USER_ID, name: "Applied" } as Stage;
+
+const mockColumn = (orders: string[]) => {
+  vi.mocked(prisma.job.findMany).mockResolvedValue(
+    orders.map((order, i) => ({ id: 100 + i, order })) as never
+  );
+};
+
+describe("POST /api/jobs/[id]/move", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.job.update).mockResolvedValue(existingJob);
+    vi.mocked(prisma.stage.findUnique).mockImplementation(
+      ({ where }) =>
+        (where.id === 2
+          ? appliedStage
+          : { ...appliedStage, id: where.id, name: "Wishlist" }) as never
+    );
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(
+      createRequest({ stageId: 2, index: 0 }),
+      params
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 400 for an invalid stage or index", async () => {
+    mockAuth();
+
+    const badStage = await POST(
+      createRequest({ stageId: "DONE", index: 0 }),
+      params
+    );
+    const badIndex = await POST(
+      createRequest({ stageId: 2, index: -1 }),
+      params
+    );
+
+    expect(badStage.status).toBe(400);
+    expect(badIndex.status).toBe(400);
+  });
+
+  it("returns 400 for a stage of another user", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue({
+      ...appliedStage,
+      userId: "different_user",
+    });
+
+    const response = await POST(
+      createRequest({ stageId: 2, index: 0 }),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 if job does not exist", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(null);
+
+    const response = await POST(
+      createRequest({ stageId: 2, index: 0 }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 if user does not own the job", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...existingJob,
+      userId: "different_user",
+    });
+
+    const response = await POST(
+      createRequest({ stageId: 2, index: 0 }),
+      params
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("ranks the job between its new neighbours without touching them", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    mockColumn(["a", "c"]);
+
+    // Act
+    const response = await POST(
+      createRequest({ stageId: 2, index: 1 }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledTimes(1);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: {
+        stageId: 2,
+        order: "b",
+        history: {
+          create: [
+            {
+              userId: TEST_USER_ID,
+              fieldChanged: "stageId",
+              oldValue: "1",
+              newValue: "2",
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it("does not record history when reordering within a column", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    mockColumn(["i"]);
+
+    // Act
+    await POST(createRequest({ stageId: 1, index: 0 }), params);
+
+    // Assert
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        stageId: 1,
+        history: { create: [] },
+      }),
+    });
+  });
+
+  it("renumbers the column when neighbours have legacy keys", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    mockColumn(["0", "0"]);
+
+    // Act
+    const response = await POST(
+      createRequest({ stageId: 2, index: 1 }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledTimes(3);
+    const updates = vi
+      .mocked(prisma.job.update)
+      .mock.calls.map(([args]) => [args.where.id, args.data.order]);
+    const [first, second, moved] = updates;
+    expect(first[0]).toBe(100);
+    expect(second[0]).toBe(101);
+    expect(moved[0]).toBe(1);
+    // Moved job lands between the two renumbered neighbours
+    expect(String(first[1]) < String(moved[1])).toBe(true);
+    expect(String(moved[1]) < String(second[1])).toBe(true);
+  });
+
+  it("returns 500 on database error", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.job.findMany).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await POST(
+      createRequest({ stageId: 2, index: 0 }),
+      params
+    );
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
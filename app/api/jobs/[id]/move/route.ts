@@ -0,0 +1,54 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { moveJobSchema } from "@/lib/schemas";
+import { moveJob } from "@/lib/queries/jobs";
+import { resolveStageId } from "@/lib/queries/stages";
+import { authorizeJob } from "@/lib/authorization";
+
+/**
+ * POST /api/jobs/[id]/move
+ * Move a job to a stage column and position in one atomic update
+ *
+ * Request body: { stageId: number, index: number }
+ * index is the position in the target column, not counting the moved job
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+    const body = await request.json();
+    const { stageId, index } = moveJobSchema.parse(body);
+
+    const { job: existingJob, error } = await authorizeJob(id, userId, "edit");
+    if (error) return error;
+
+    // The columns are the stages of the board's owner
+    if ((await resolveStageId(existingJob.userId, stageId)) === null) {
+      return NextResponse.json({ error: "Stage not found" }, { status: 400 });
+    }
+
+    const job = await moveJob(id, stageId, index, userId);
+
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error moving job:", error);
+    return NextResponse.json({ error: "Failed to move job" }, { status: 500 });
+  }
+}
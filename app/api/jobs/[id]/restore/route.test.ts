@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const deletedJob = makeJob({
+  userId: mockUserId,
+  stageId: 2,
+  deletedAt: new Date(),
+  order: "i",
+});
+
+const createRequest = () =>
+  new Request("http://test/api/jobs/1/restore", { method: "POST" });
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+describe("POST /api/jobs/[id]/restore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if job does not exist", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(null);
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 if job is not deleted", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...deletedJob,
+      deletedAt: null,
+    });
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(404);
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 if user does not own the job", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...deletedJob,
+      userId: "different_user",
+    });
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should clear deletedAt and record a restored history entry", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(deletedJob);
+    vi.mocked(prisma.job.update).mockResolvedValue({
+      ...deletedJob,
+      deletedAt: null,
+    });
+
+    const response = await POST(createRequest(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.deletedAt).toBeNull();
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: {
+        deletedAt: null,
+        history: {
+          create: {
+            userId: mockUserId,
+            fieldChanged: "restored",
+            oldValue: null,
+            newValue: null,
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { restoreJob } from "@/lib/queries/jobs";
+import { authorizeJob } from "@/lib/authorization";
+
+/**
+ * POST /api/jobs/[id]/restore
+ * Restore a soft-deleted job from the trash (also used by the "Undo" toast)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+
+    // Check the job is in the trash
+    const { error } = await authorizeJob(id, userId, "edit", { inTrash: true });
+    if (error) return error;
+
+    const job = await restoreJob(id, userId);
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Error restoring job:", error);
+    return NextResponse.json(
+      { error: "Failed to restore job" },
+      { status: 500 }
+    );
+  }
+}
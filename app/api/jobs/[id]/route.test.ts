@@ -3,19 +3,42 @@ import { PATCH, DELETE } from "./route";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import type { Job } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
 
 vi.mock("@clerk/nextjs/server", () => ({
   auth: vi.fn(),
 }));
 
-vi.mock("@/lib/prisma", () => ({
-  prisma: {
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
     job: {
       findUnique: vi.fn(),
       update: vi.fn(),
     },
-  },
-}));
+    company: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    stage: {
+      findUnique: vi.fn(),
+    },
+    contact: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+    // Interactive transactions run against the same mocked client
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    $transaction: vi.fn((fn: (tx: any) => unknown) => fn(prisma)),
+  };
+  return { prisma };
+});
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MockAuth = any;
@@ -23,6 +46,14 @@ type MockAuth = any;
 describe("PATCH /api/jobs/[id]", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.company.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.company.create).mockImplementation(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (async ({ data }: any) => ({ id: 9, aliases: [], ...data })) as any
+    );
+    vi.mocked(prisma.stage.findUnique).mockImplementation(
+      ({ where }) => ({ id: where.id, userId: "user_123" }) as never
+    );
   });
 
   it("should return 401 if user is not authenticated", async () => {
@@ -59,25 +90,7 @@ describe("PATCH /api/jobs/[id]", () => {
 
   it("should return 403 if user does not own the job", async () => {
     const mockUserId = "user_123";
-    const existingJob: Job = {
-      id: 1,
-      userId: "different_user",
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const existingJob = makeJob({ userId: "different_user" });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
@@ -94,32 +107,117 @@ describe("PATCH /api/jobs/[id]", () => {
     expect(response.status).toBe(403);
   });
 
+  it("should return 403 for a viewer of a shared board", async () => {
+    // Arrange
+    const sharedJob = makeJob({ userId: "user_owner" });
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(sharedJob);
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+
+    // Act
+    const response = await PATCH(
+      new Request("http://test/api/jobs/1", {
+        method: "PATCH",
+        body: JSON.stringify({ notes: "Looks good" }),
+      }),
+      { params: Promise.resolve({ id: "1" }) }
+    );
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(prisma.boardMember.findUnique).toHaveBeenCalledWith({
+      where: { boardId_userId: { boardId: 1, userId: "user_123" } },
+    });
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("should let an editor of a shared board update a job as themselves", async () => {
+    // Arrange
+    const sharedJob = makeJob({ userId: "user_owner" });
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(sharedJob);
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "EDITOR",
+    } as never);
+    vi.mocked(prisma.job.update).mockResolvedValue({
+      ...sharedJob,
+      notes: "Looks good",
+    });
+
+    // Act
+    const response = await PATCH(
+      new Request("http://test/api/jobs/1", {
+        method: "PATCH",
+        body: JSON.stringify({ notes: "Looks good" }),
+      }),
+      { params: Promise.resolve({ id: "1" }) }
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          history: {
+            create: [
+              expect.objectContaining({
+                userId: "user_123",
+                fieldChanged: "notes",
+              }),
+            ],
+          },
+        }),
+      })
+    );
+  });
+
+  it("should let an editor of a shared board link the owner's contacts", async () => {
+    // Arrange
+    const sharedJob = { ...makeJob({ userId: "user_owner" }), contacts: [] };
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(sharedJob);
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "EDITOR",
+    } as never);
+    vi.mocked(prisma.contact.count).mockResolvedValue(1);
+    vi.mocked(prisma.contact.findMany).mockResolvedValue([
+      { name: "Jane Doe" },
+    ] as never);
+    vi.mocked(prisma.job.update).mockResolvedValue(sharedJob);
+
+    // Act
+    const response = await PATCH(
+      new Request("http://test/api/jobs/1", {
+        method: "PATCH",
+        body: JSON.stringify({ contactIds: [4] }),
+      }),
+      { params: Promise.resolve({ id: "1" }) }
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.contact.count).toHaveBeenCalledWith({
+      where: { id: { in: [4] }, userId: "user_owner" },
+    });
+    expect(prisma.job.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          contacts: { set: [{ id: 4 }] },
+        }),
+      })
+    );
+  });
+
   it("should update job with valid data", async () => {
     const mockUserId = "user_123";
-    const existingJob: Job = {
-      id: 1,
-      userId: mockUserId,
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const existingJob = makeJob({ userId: mockUserId });
 
     const updatedJob: Job = {
       ...existingJob,
       company: "Updated Company",
-      status: "APPLIED",
+      stageId: 2,
     };
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
@@ -128,7 +226,7 @@ describe("PATCH /api/jobs/[id]", () => {
 
     const request = new Request("http://test/api/jobs/1", {
       method: "PATCH",
-      body: JSON.stringify({ company: "Updated Company", status: "APPLIED" }),
+      body: JSON.stringify({ company: "Updated Company", stageId: 2 }),
     });
 
     const response = await PATCH(request, {
@@ -139,38 +237,181 @@ describe("PATCH /api/jobs/[id]", () => {
     expect(response.status).toBe(200);
     expect(data).toMatchObject({
       company: "Updated Company",
-      status: "APPLIED",
+      stageId: 2,
     });
     expect(prisma.job.update).toHaveBeenCalledWith({
       where: { id: 1 },
       data: expect.objectContaining({
         company: "Updated Company",
-        status: "APPLIED",
+        companyId: 9,
+        stageId: 2,
       }),
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
     });
   });
 
-  it("should return 400 if validation fails", async () => {
-    const mockUserId = "user_123";
-    const existingJob: Job = {
+  it("should return 400 when moving to a stage of another user", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
       id: 1,
-      userId: mockUserId,
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
+      userId: "user_123",
       deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    } as Job);
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue({
+      id: 7,
+      userId: "other_user",
+    } as never);
+
+    const request = new Request("http://test/api/jobs/1", {
+      method: "PATCH",
+      body: JSON.stringify({ stageId: 7 }),
+    });
+
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 when moving to a board of another user", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      id: 1,
+      userId: "user_123",
+      deletedAt: null,
+    } as Job);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      id: 7,
+      userId: "other_user",
+    } as never);
+
+    const request = new Request("http://test/api/jobs/1", {
+      method: "PATCH",
+      body: JSON.stringify({ boardId: 7 }),
+    });
+
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("should record a history entry when moving to another board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(
+      makeJob({ company: "Acme" })
+    );
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      id: 2,
+      userId: "user_123",
+    } as never);
+    vi.mocked(prisma.board.findMany).mockResolvedValue([
+      { id: 1, name: "My board" },
+      { id: 2, name: "Consulting" },
+    ] as never);
+    vi.mocked(prisma.job.update).mockResolvedValue({ id: 1 } as Job);
+
+    const request = new Request("http://test/api/jobs/1", {
+      method: "PATCH",
+      body: JSON.stringify({ boardId: 2 }),
+    });
+
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.job.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          boardId: 2,
+          history: {
+            create: [
+              {
+                userId: "user_123",
+                fieldChanged: "board",
+                oldValue: "My board",
+                newValue: "Consulting",
+              },
+            ],
+          },
+        }),
+      })
+    );
+  });
+
+  it("should record a history entry for each changed field", async () => {
+    const mockUserId = "user_123";
+    const existingJob = makeJob({ userId: mockUserId, stageId: 2 });
+
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
+    vi.mocked(prisma.job.update).mockResolvedValue({
+      ...existingJob,
+      stageId: 3,
+    });
+
+    const request = new Request("http://test/api/jobs/1", {
+      method: "PATCH",
+      body: JSON.stringify({ company: "Test Company", stageId: 3 }),
+    });
+
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        history: {
+          create: [
+            {
+              userId: mockUserId,
+              fieldChanged: "stageId",
+              oldValue: "2",
+              newValue: "3",
+            },
+          ],
+        },
+      }),
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+    });
+  });
+
+  it("should return 400 for a maximum salary below the stored minimum", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(
+      makeJob({ salaryMin: 100, salaryMax: 150 })
+    );
+
+    // Act
+    const response = await PATCH(
+      new Request("http://test/api/jobs/1", {
+        method: "PATCH",
+        body: JSON.stringify({ salaryMax: 10 }),
+      }),
+      { params: Promise.resolve({ id: "1" }) }
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(
+      "Maximum salary can't be below the minimum"
+    );
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 if validation fails", async () => {
+    const mockUserId = "user_123";
+    const existingJob = makeJob({ userId: mockUserId });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
@@ -234,25 +475,7 @@ describe("DELETE /api/jobs/[id]", () => {
 
   it("should return 403 if user does not own the job", async () => {
     const mockUserId = "user_123";
-    const existingJob: Job = {
-      id: 1,
-      userId: "different_user",
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const existingJob = makeJob({ userId: "different_user" });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
@@ -270,25 +493,7 @@ describe("DELETE /api/jobs/[id]", () => {
 
   it("should soft delete job successfully", async () => {
     const mockUserId = "user_123";
-    const existingJob: Job = {
-      id: 1,
-      userId: mockUserId,
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const existingJob = makeJob({ userId: mockUserId });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.findUnique).mockResolvedValue(existingJob);
@@ -310,7 +515,17 @@ describe("DELETE /api/jobs/[id]", () => {
     expect(data).toEqual({ success: true });
     expect(prisma.job.update).toHaveBeenCalledWith({
       where: { id: 1 },
-      data: { deletedAt: expect.any(Date) },
+      data: {
+        deletedAt: expect.any(Date),
+        history: {
+          create: {
+            userId: mockUserId,
+            fieldChanged: "deleted",
+            oldValue: null,
+            newValue: null,
+          },
+        },
+      },
     });
   });
 });
@@ -3,7 +3,10 @@ import { NextResponse } from "next/server";
 import { updateJobSchema } from "@/lib/schemas";
 import { toNullable } from "@/lib/utils";
 import { ZodError } from "zod";
-import { getJobById, updateJob, deleteJob } from "@/lib/queries/jobs";
+import { updateJob, deleteJob } from "@/lib/queries/jobs";
+import { areContactsOwnedBy } from "@/lib/queries/contacts";
+import { resolveStageId } from "@/lib/queries/stages";
+import { authorizeJob, resolveBoard } from "@/lib/authorization";
 
 export async function PATCH(
   request: Request,
@@ -19,35 +22,67 @@ export async function PATCH(
     const { id: idParam } = await params;
     const id = Number(idParam);
     const body = await request.json();
-    const validated = updateJobSchema.parse(body);
+    const { contactIds, ...validated } = updateJobSchema.parse(body);
 
-    // Check if job exists
-    const existingJob = await getJobById(id);
+    const { job: existingJob, error } = await authorizeJob(id, userId, "edit");
+    if (error) return error;
 
-    if (!existingJob || existingJob.deletedAt) {
-      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    // Contacts and stages are those of the board's owner, also when a
+    // collaborator makes the change
+    const ownerId = existingJob.userId;
+
+    if (contactIds && !(await areContactsOwnedBy(contactIds, ownerId))) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 400 });
     }
 
-    // Check authorization
-    if (existingJob.userId !== userId) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (
+      validated.stageId !== undefined &&
+      (await resolveStageId(ownerId, validated.stageId)) === null
+    ) {
+      return NextResponse.json({ error: "Stage not found" }, { status: 400 });
+    }
+
+    // The schema only compares the salaries when both are sent
+    const salaryMin = validated.salaryMin ?? existingJob.salaryMin;
+    const salaryMax = validated.salaryMax ?? existingJob.salaryMax;
+    if (
+      typeof salaryMin === "number" &&
+      typeof salaryMax === "number" &&
+      salaryMax < salaryMin
+    ) {
+      return NextResponse.json(
+        { error: "Maximum salary can't be below the minimum" },
+        { status: 400 }
+      );
+    }
+
+    // A new boardId moves the job to another board of the same owner that
+    // the user may edit
+    if (validated.boardId !== undefined) {
+      const target = await resolveBoard(validated.boardId, userId, "edit", 400);
+      if (target.error) return target.error;
+
+      if (target.board.userId !== ownerId) {
+        return NextResponse.json({ error: "Board not found" }, { status: 400 });
+      }
     }
 
     // Build update data - only include fields that were provided
     const updateData: Record<string, unknown> = { ...validated };
 
-    // Only process dateApplied if it was explicitly provided (not undefined)
-    if (validated.dateApplied !== undefined) {
-      updateData.dateApplied = validated.dateApplied
-        ? new Date(validated.dateApplied)
-        : null;
-    } else {
-      // Remove dateApplied from update if not provided (preserves existing value)
-      delete updateData.dateApplied;
+    // Only process date fields that were explicitly provided (not undefined)
+    for (const field of ["dateApplied", "deadline", "followUpAt"] as const) {
+      const value = validated[field];
+      if (value !== undefined) {
+        updateData[field] = value ? new Date(value) : null;
+      } else {
+        // Remove the field from update if not provided (preserves existing value)
+        delete updateData[field];
+      }
     }
 
     // Update the job - convert empty strings to null for Prisma
-    const job = await updateJob(id, toNullable(updateData));
+    const job = await updateJob(id, toNullable(updateData), userId, contactIds);
 
     return NextResponse.json(job);
   } catch (error) {
@@ -80,20 +115,11 @@ export async function DELETE(
     const { id: idParam } = await params;
     const id = Number(idParam);
 
-    // Check if job exists
-    const existingJob = await getJobById(id);
-
-    if (!existingJob || existingJob.deletedAt) {
-      return NextResponse.json({ error: "Job not found" }, { status: 404 });
-    }
-
-    // Check authorization
-    if (existingJob.userId !== userId) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+    const { error } = await authorizeJob(id, userId, "edit");
+    if (error) return error;
 
     // Soft delete
-    await deleteJob(id);
+    await deleteJob(id, userId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
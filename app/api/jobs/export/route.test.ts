@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { JobHistory, Stage } from "@prisma/client";
+import type { BoardJob } from "@/lib/stages";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findMany: vi.fn(),
+    },
+    jobHistory: {
+      findMany: vi.fn(),
+    },
+    stage: {
+      findMany: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const appliedStage: Stage = {
+  id: 2,
+  userId: mockUserId,
+  name: "Applied",
+  color: "blue",
+  position: 0,
+  category: "APPLIED",
+  archivedAt: null,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+};
+
+const createJob = (overrides: Partial<BoardJob> = {}): BoardJob => ({
+  ...makeJob({
+    userId: mockUserId,
+    company: "Acme",
+    stageId: appliedStage.id,
+    order: "i",
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+  }),
+  stage: appliedStage,
+  contacts: [],
+  ...overrides,
+});
+
+const createRequest = (query = "") =>
+  new Request(`http://test/api/jobs/export${query}`);
+
+const mockBoard = (id: number, userId = mockUserId) => ({
+  id,
+  userId,
+  name: `Board ${id}`,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+});
+
+describe("GET /api/jobs/export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.stage.findMany).mockResolvedValue([appliedStage]);
+    vi.mocked(prisma.board.findMany).mockResolvedValue([mockBoard(1)]);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should export active jobs in a versioned envelope by default", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([createJob()]);
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      formatVersion: 4,
+      exportedAt: expect.any(String),
+      appVersion: expect.any(String),
+      counts: { jobs: 1, deletedJobs: 0, history: 0 },
+      stages: [{ name: "Applied", color: "blue", category: "APPLIED" }],
+      jobs: [expect.objectContaining({ company: "Acme", stage: "Applied" })],
+    });
+    expect(data).not.toHaveProperty("deletedJobs");
+    expect(data.jobs[0]).not.toHaveProperty("history");
+    expect(prisma.job.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { boardId: 1, deletedAt: null } })
+    );
+    expect(prisma.jobHistory.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should export the requested board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard(2));
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(createRequest("?boardId=2"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { boardId: 2, deletedAt: null } })
+    );
+  });
+
+  it("should return 404 for a board of another user", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+
+    const response = await GET(createRequest("?boardId=2"));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.job.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should include trashed jobs and history when requested", async () => {
+    const history: JobHistory = {
+      id: 7,
+      jobId: 2,
+      userId: mockUserId,
+      fieldChanged: "deleted",
+      oldValue: null,
+      newValue: null,
+      changedAt: new Date("2024-03-01T09:00:00Z"),
+    };
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany)
+      .mockResolvedValueOnce([createJob()])
+      .mockResolvedValueOnce([
+        createJob({ id: 2, deletedAt: new Date("2024-03-01T09:00:00Z") }),
+      ]);
+    vi.mocked(prisma.jobHistory.findMany).mockResolvedValue([history]);
+
+    const response = await GET(
+      createRequest("?includeDeleted=true&includeHistory=true")
+    );
+    const data = await response.json();
+
+    expect(data.counts).toEqual({ jobs: 1, deletedJobs: 1, history: 1 });
+    expect(data.jobs[0].history).toEqual([]);
+    expect(data.deletedJobs).toEqual([
+      expect.objectContaining({
+        deletedAt: "2024-03-01T09:00:00.000Z",
+        history: [
+          {
+            fieldChanged: "deleted",
+            oldValue: null,
+            newValue: null,
+            changedAt: "2024-03-01T09:00:00.000Z",
+          },
+        ],
+      }),
+    ]);
+    expect(prisma.jobHistory.findMany).toHaveBeenCalledWith({
+      where: { jobId: { in: [1, 2] } },
+      orderBy: [{ changedAt: "asc" }, { id: "asc" }],
+    });
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: "Failed to export jobs" });
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,92 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import packageJson from "@/package.json";
+import { getDeletedJobsByBoardId, getJobsByBoardId } from "@/lib/queries/jobs";
+import { resolveBoard } from "@/lib/authorization";
+import { getJobHistoryForJobs } from "@/lib/queries/job-history";
+import { getStagesByUserId } from "@/lib/queries/stages";
+import {
+  createExportEnvelope,
+  historyToExportedHistory,
+  jobToExportedJob,
+} from "@/lib/export-import";
+import { boardIdParamSchema } from "@/lib/schemas";
+
+/**
+ * GET /api/jobs/export
+ * Export the jobs on a board the user can open, and the board owner's
+ * stages, as a versioned envelope (see EXPORT_FORMAT_VERSION).
+ *
+ * Query parameters:
+ * - boardId: the board (defaults to the user's first own board)
+ * - includeDeleted=true: also export jobs in the trash, with deletedAt
+ * - includeHistory=true: nest each job's history rows under it
+ *
+ * Response: ExportEnvelope
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeDeleted = searchParams.get("includeDeleted") === "true";
+    const includeHistory = searchParams.get("includeHistory") === "true";
+    const { board, error } = await resolveBoard(
+      boardIdParamSchema.parse(searchParams.get("boardId") ?? undefined),
+      userId,
+      "view"
+    );
+    if (error) return error;
+
+    const jobs = await getJobsByBoardId(board.id);
+    const stages = await getStagesByUserId(board.userId);
+    const deletedJobs = includeDeleted
+      ? await getDeletedJobsByBoardId(board.id)
+      : [];
+
+    const history = includeHistory
+      ? await getJobHistoryForJobs(
+          [...jobs, ...deletedJobs].map((job) => job.id)
+        )
+      : [];
+
+    function toExported(job: (typeof deletedJobs)[number]) {
+      return {
+        ...jobToExportedJob(job),
+        ...(job.deletedAt && { deletedAt: job.deletedAt.toISOString() }),
+        ...(includeHistory && {
+          history: historyToExportedHistory(
+            history.filter((entry) => entry.jobId === job.id),
+            stages
+          ),
+        }),
+      };
+    }
+
+    const envelope = createExportEnvelope(jobs.map(toExported), {
+      stages,
+      deletedJobs: includeDeleted ? deletedJobs.map(toExported) : undefined,
+      appVersion: packageJson.version,
+    });
+
+    return NextResponse.json(envelope);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error exporting jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to export jobs" },
+      { status: 500 }
+    );
+  }
+}
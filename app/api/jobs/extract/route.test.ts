@@ -9,16 +9,24 @@ vi.mock("@clerk/nextjs/server", () => ({
 // Mock HTML to text utility
 vi.mock("@/lib/html-to-text", () => ({
   htmlToText: vi.fn(),
+  decodeHtmlEntities: (text: string) => text,
 }));
 
-// Mock Claude extraction
-vi.mock("@/lib/claude-extract", () => ({
+// Mock AI extraction
+vi.mock("@/lib/ai-extract", () => ({
   extractJobData: vi.fn(),
+  isAIExtractionConfigured: vi.fn(() => true),
+}));
+
+// Mock the user's companies (none unless a test sets them)
+vi.mock("@/lib/queries/companies", () => ({
+  getCompaniesByUserId: vi.fn(async () => []),
 }));
 
 import { auth } from "@clerk/nextjs/server";
 import { htmlToText } from "@/lib/html-to-text";
-import { extractJobData } from "@/lib/claude-extract";
+import { extractJobData, isAIExtractionConfigured } from "@/lib/ai-extract";
+import { getCompaniesByUserId } from "@/lib/queries/companies";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MockAuth = any;
@@ -207,6 +215,34 @@ describe("POST /api/jobs/extract", () => {
       expect(data.error).toContain("URL not allowed");
     });
 
+    it("allows hosts listed in EXTRACT_ALLOWED_HOSTS", async () => {
+      // Arrange
+      mockAuth();
+      mockFetchSuccess("<html>Job</html>");
+      mockHtmlToText(
+        "Job posting served by a local mock server for end-to-end tests"
+      );
+      vi.mocked(extractJobData).mockResolvedValue({
+        company: "Local Corp",
+        jobPostingUrl: "http://127.0.0.1:3100/job",
+      });
+      process.env.EXTRACT_ALLOWED_HOSTS = "example.org, 127.0.0.1";
+
+      try {
+        // Act
+        const response = await POST(
+          createRequest({ url: "http://127.0.0.1:3100/job" })
+        );
+        const data = await response.json();
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(data.success).toBe(true);
+      } finally {
+        delete process.env.EXTRACT_ALLOWED_HOSTS;
+      }
+    });
+
     it("allows legitimate external URLs", async () => {
       // Arrange
       mockAuth();
@@ -255,6 +291,7 @@ describe("POST /api/jobs/extract", () => {
       // Assert
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
+      expect(data.extractor).toBe("ai");
       expect(data.data).toEqual({
         company: "Acme Corp",
         title: "Senior Developer",
@@ -316,6 +353,125 @@ describe("POST /api/jobs/extract", () => {
       expect(data.data.company).toBe("Minimal Corp");
       expect(data.data.jobPostingUrl).toBe(TEST_URL);
     });
+
+    it("resolves the company to one the user already tracks", async () => {
+      // Arrange
+      mockAuth();
+      mockFetchSuccess("<html>Spotify</html>");
+      mockHtmlToText(
+        "Spotify AB is hiring backend engineers to work on audio streaming"
+      );
+      mockExtractJobData({
+        company: "Spotify AB (publ)",
+        jobPostingUrl: TEST_URL,
+      });
+      vi.mocked(getCompaniesByUserId).mockResolvedValueOnce([
+        {
+          id: 7,
+          userId: TEST_USER_ID,
+          name: "Spotify",
+          aliases: [],
+          website: null,
+          notes: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      // Act
+      const response = await POST(createRequest({ url: TEST_URL }));
+      const data = await response.json();
+
+      // Assert
+      expect(getCompaniesByUserId).toHaveBeenCalledWith(TEST_USER_ID);
+      expect(data.data.company).toBe("Spotify");
+    });
+  });
+
+  describe("structured data", () => {
+    const jsonLdPage = (posting: object) =>
+      `<html><head><script type="application/ld+json">${JSON.stringify({
+        "@type": "JobPosting",
+        ...posting,
+      })}</script></head></html>`;
+
+    it("uses a complete JobPosting without calling Claude", async () => {
+      // Arrange
+      mockAuth();
+      mockFetchSuccess(
+        jsonLdPage({
+          title: "Backend Developer",
+          hiringOrganization: { name: "Structured AB" },
+          jobLocation: { address: { addressLocality: "Lund" } },
+          description: "<p>Build our APIs.</p>",
+        })
+      );
+      mockHtmlToText("Build our APIs.");
+
+      // Act
+      const response = await POST(createRequest({ url: TEST_URL }));
+      const data = await response.json();
+
+      // Assert
+      expect(data).toMatchObject({
+        success: true,
+        extractor: "structured-data",
+        data: {
+          company: "Structured AB",
+          title: "Backend Developer",
+          location: "Lund",
+          jobPostingUrl: TEST_URL,
+        },
+      });
+      expect(extractJobData).not.toHaveBeenCalled();
+    });
+
+    it("lets Claude fill only the fields the JobPosting lacks", async () => {
+      // Arrange
+      mockAuth();
+      mockFetchSuccess(jsonLdPage({ title: "Backend Developer" }));
+      mockHtmlToText(
+        "Backend Developer at Structured AB in Lund. Build our APIs with us."
+      );
+      mockExtractJobData({
+        company: "Structured AB",
+        title: "Developer",
+        location: "Lund",
+        jobPostingUrl: TEST_URL,
+      });
+
+      // Act
+      const response = await POST(createRequest({ url: TEST_URL }));
+      const data = await response.json();
+
+      // Assert
+      expect(data.extractor).toBe("ai");
+      expect(data.data).toEqual({
+        company: "Structured AB",
+        title: "Backend Developer",
+        location: "Lund",
+        jobPostingUrl: TEST_URL,
+      });
+    });
+
+    it("returns partial structured data when no API key is configured", async () => {
+      // Arrange
+      mockAuth();
+      vi.mocked(isAIExtractionConfigured).mockReturnValueOnce(false);
+      mockFetchSuccess(jsonLdPage({ title: "Backend Developer" }));
+
+      // Act
+      const response = await POST(createRequest({ url: TEST_URL }));
+      const data = await response.json();
+
+      // Assert
+      expect(data).toEqual({
+        success: true,
+        extractor: "structured-data",
+        data: { title: "Backend Developer", jobPostingUrl: TEST_URL },
+      });
+      expect(extractJobData).not.toHaveBeenCalled();
+    });
   });
 
   describe("fetch errors", () => {
@@ -331,6 +487,7 @@ describe("POST /api/jobs/extract", () => {
       // Assert
       expect(data.success).toBe(false);
       expect(data.error).toBe("HTTP 404 when fetching URL");
+      expect(data.extractor).toBe("ai");
       expect(data.fallback).toEqual({ jobPostingUrl: TEST_URL });
     });
 
@@ -464,7 +621,7 @@ describe("POST /api/jobs/extract", () => {
 
       // Assert
       expect(data.success).toBe(false);
-      expect(data.error).toBe("Claude API extraction failed");
+      expect(data.error).toBe("AI extraction failed");
       expect(data.fallback).toEqual({ jobPostingUrl: TEST_URL });
     });
   });
@@ -497,12 +654,14 @@ describe("POST /api/jobs/extract", () => {
 
       // Assert
       expect(data.success).toBe(true);
+      expect(data.extractor).toBe("platsbanken");
       expect(data.data.company).toBe("Tech AB");
       expect(data.data.title).toBe("Fullstack Developer");
       expect(data.data.location).toBe("Stockholm, Sweden");
       expect(data.data.jobPostingUrl).toBe(AF_URL);
       expect(data.data.notes).toContain("Software Developer");
       expect(data.data.notes).toContain("2 positions");
+      expect(data.data.deadline).toBe("2025-03-01");
 
       // Verify it called the AF API, not the original URL
       expect(mockFetch).toHaveBeenCalledWith(
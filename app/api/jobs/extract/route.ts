@@ -2,8 +2,21 @@ import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { ZodError } from "zod";
 import { extractJobSchema } from "@/lib/schemas";
-import { htmlToText } from "@/lib/html-to-text";
-import { extractJobData } from "@/lib/claude-extract";
+import { extractJobFromUrl } from "@/lib/extractors";
+import { findCompanyByName } from "@/lib/companies";
+import { getCompaniesByUserId } from "@/lib/queries/companies";
+
+/**
+ * Hosts exempt from the SSRF check, from the comma-separated
+ * EXTRACT_ALLOWED_HOSTS. Only for e2e tests and local development (e.g. a
+ * mock job page on 127.0.0.1); never set it in production.
+ */
+function getAllowedHosts(): string[] {
+  return (process.env.EXTRACT_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
 
 /**
  * Validates that a URL is safe to fetch (SSRF protection).
@@ -14,6 +27,10 @@ function isUrlSafeToFetch(urlString: string): boolean {
     const url = new URL(urlString);
     const hostname = url.hostname.toLowerCase();
 
+    if (getAllowedHosts().includes(hostname)) {
+      return true;
+    }
+
     // Block localhost variants
     if (
       hostname === "localhost" ||
@@ -60,10 +77,12 @@ function isUrlSafeToFetch(urlString: string): boolean {
 
 /**
  * POST /api/jobs/extract
- * Extract job data from a URL using AI
+ * Extract job data from a URL using the extractor registry (lib/extractors)
  *
  * Request body: { url: string }
- * Response: { success: true, data: ExtractedJobData } | { success: false, error: string, fallback: { jobPostingUrl: string } }
+ * Response: { success: true, extractor: string, data: ExtractedJobData } | { success: false, extractor: string, error: string, fallback: { jobPostingUrl: string } }
+ * `extractor` is the id of the extractor that handled (or failed on) the URL
+ * `data.company` is replaced by the name of the user's matching company, if any
  */
 export async function POST(request: Request) {
   // 1. Auth check
@@ -89,138 +108,24 @@ export async function POST(request: Request) {
       );
     }
 
-    // 4. Special handling for Arbetsförmedlingen URLs - use their API instead of scraping
-    // Note: AF API URLs are trusted and bypass SSRF check since we construct them ourselves
-    const afMatch = url.match(
-      /arbetsformedlingen\.se\/platsbanken\/annonser\/(\d+)/
-    );
-    if (afMatch) {
-      const jobId = afMatch[1];
-      try {
-        const apiUrl = `https://platsbanken-api.arbetsformedlingen.se/jobs/v1/job/${jobId}`;
-        const response = await fetch(apiUrl, {
-          signal: AbortSignal.timeout(10000),
-        });
-
-        if (!response.ok) {
-          throw new Error(
-            `Arbetsförmedlingen API returned ${response.status}${response.status === 404 ? " (job not found)" : ""}`
-          );
-        }
-
-        const jobData = await response.json();
-
-        // Transform API response to our format
-        const location =
-          jobData.workplace?.city && jobData.workplace?.country
-            ? `${jobData.workplace.city}, ${jobData.workplace.country}`
-            : jobData.workplace?.city || jobData.workplace?.region;
-
-        const noteParts = [];
-        if (jobData.occupation) noteParts.push(jobData.occupation);
-        if (jobData.positions > 1)
-          noteParts.push(`${jobData.positions} positions`);
-        if (jobData.lastApplicationDate) {
-          const date = new Date(jobData.lastApplicationDate);
-          noteParts.push(`Apply by ${date.toLocaleDateString("sv-SE")}`);
-        }
-
-        const data = {
-          company: jobData.company?.name,
-          title: jobData.title,
-          location,
-          jobPostingUrl: url,
-          jobPostingText: jobData.description
-            ? htmlToText(jobData.description)
-            : undefined,
-          notes: noteParts.length > 0 ? noteParts.join(" - ") : undefined,
-        };
-
-        return NextResponse.json({
-          success: true,
-          data,
-        });
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Unknown error fetching from Arbetsförmedlingen API";
-
-        return NextResponse.json({
-          success: false,
-          error: errorMessage,
-          fallback: { jobPostingUrl: url },
-        });
-      }
-    }
-
-    // 5. Fetch URL content (for non-Arbetsförmedlingen URLs)
-    let html: string;
-    try {
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (compatible; GetAJob/1.0; +https://getajob.app)",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status} when fetching URL`);
-      }
-
-      // Check content type
-      const contentType = response.headers.get("content-type");
-      if (contentType && !contentType.includes("text/html")) {
-        throw new Error(
-          `Invalid content type: ${contentType} (expected text/html)`
-        );
-      }
-
-      html = await response.text();
-    } catch (error) {
-      // Network/fetch errors - return fallback
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown fetch error";
+    // 4. Run the extractor registry (job board APIs, JSON-LD, AI fallback)
+    const result = await extractJobFromUrl(url);
 
+    if (!result.success) {
       return NextResponse.json({
-        success: false,
-        error: errorMessage,
+        ...result,
         fallback: { jobPostingUrl: url },
       });
     }
 
-    // 6. Convert HTML to text
-    const text = htmlToText(html);
-
-    if (!text || text.length < 50) {
-      // Page doesn't have enough content
-      return NextResponse.json({
-        success: false,
-        error: `Insufficient text content (${text.length} characters, minimum 50 required)`,
-        fallback: { jobPostingUrl: url },
-      });
+    // 5. Resolve the company to one the user already tracks
+    if (result.data.company) {
+      const companies = await getCompaniesByUserId(userId);
+      const company = findCompanyByName(companies, result.data.company);
+      if (company) result.data.company = company.name;
     }
 
-    // 7. Extract job data with Claude
-    try {
-      const data = await extractJobData(url, text);
-
-      return NextResponse.json({
-        success: true,
-        data,
-      });
-    } catch (error) {
-      // Claude API errors - return fallback
-      const errorMessage =
-        error instanceof Error ? error.message : "Claude API extraction failed";
-
-      return NextResponse.json({
-        success: false,
-        error: errorMessage,
-        fallback: { jobPostingUrl: url },
-      });
-    }
+    return NextResponse.json(result);
   } catch (error) {
     // Validation errors
     if (error instanceof ZodError) {
@@ -11,19 +11,47 @@ vi.mock("@/lib/prisma", () => ({
   prisma: {
     $transaction: vi.fn(),
     job: {
-      deleteMany: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      createManyAndReturn: vi.fn(),
+    },
+    jobHistory: {
+      createMany: vi.fn(),
+    },
+    contact: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    company: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    stage: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
       createMany: vi.fn(),
     },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
   },
 }));
 
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import type { Contact, Job, Stage } from "@prisma/client";
+import { DEFAULT_STAGES } from "@/lib/stages";
+import { makeJob } from "@/lib/test-fixtures";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MockAuth = any;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type MockTransaction = any;
+type MockTransactionCallback = (tx: any) => Promise<unknown>;
 
 // Test helpers
 const TEST_USER_ID = "user_123";
@@ -32,17 +60,81 @@ const mockAuth = (userId: string | null = TEST_USER_ID) => {
   vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
 };
 
+// The default stages with IDs 1-6: Wishlist, Applied, Interview, ...
+const USER_STAGES = DEFAULT_STAGES.map(
+  (stage, index) =>
+    ({
+      ...stage,
+      id: index + 1,
+      userId: TEST_USER_ID,
+      position: index,
+      archivedAt: null,
+    }) as Stage
+);
+
+const mockBoard = (id: number, userId = TEST_USER_ID) => ({
+  id,
+  userId,
+  name: `Board ${id}`,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+});
+
+const createExistingJob = (overrides: Partial<Job> = {}): Job =>
+  makeJob({
+    id: 10,
+    userId: TEST_USER_ID,
+    company: "Acme Corp",
+    title: "Senior Developer",
+    jobPostingUrl: "https://acme.com/jobs/123",
+    stageId: 2,
+    order: "i",
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    ...overrides,
+  });
+
 const createRequest = (body: unknown) =>
   new Request("http://test/api/jobs/import", {
     method: "POST",
     body: typeof body === "string" ? body : JSON.stringify(body),
   });
 
-const mockSuccessfulImport = (deletedCount: number, createdCount: number) => {
-  vi.mocked(prisma.$transaction).mockResolvedValue([
-    { count: deletedCount }, // deleted existing jobs
-    { count: createdCount }, // created new jobs
-  ] as MockTransaction);
+const mockSuccessfulImport = (
+  deletedCount: number,
+  createdCount: number,
+  existingJobs: Job[] = [],
+  existingContacts: Contact[] = []
+) => {
+  vi.mocked(prisma.job.findMany).mockResolvedValue(existingJobs);
+  vi.mocked(prisma.job.updateMany).mockResolvedValue({ count: deletedCount });
+  vi.mocked(prisma.job.createManyAndReturn).mockResolvedValue(
+    Array.from({ length: createdCount }, (_, i) => ({
+      id: i + 1,
+      stageId: 1,
+    })) as never
+  );
+  vi.mocked(prisma.jobHistory.createMany).mockResolvedValue({
+    count: createdCount,
+  });
+  vi.mocked(prisma.contact.findMany).mockResolvedValue(existingContacts);
+  vi.mocked(prisma.contact.create).mockImplementation((({ data }: never) =>
+    Promise.resolve({ id: 100, ...(data as object) })) as never);
+  vi.mocked(prisma.company.findMany).mockResolvedValue([]);
+  vi.mocked(prisma.stage.findMany).mockResolvedValue(USER_STAGES);
+  vi.mocked(prisma.stage.create).mockImplementation((({ data }: never) =>
+    Promise.resolve({ id: 50, ...(data as object) })) as never);
+  let companyId = 200;
+  vi.mocked(prisma.company.create).mockImplementation((({ data }: never) =>
+    Promise.resolve({
+      id: companyId++,
+      aliases: [],
+      ...(data as object),
+    })) as never);
+  // Run the interactive transaction callback against the mocked client
+  vi.mocked(prisma.$transaction).mockImplementation(((
+    fn: MockTransactionCallback
+  ) => fn(prisma)) as never);
 };
 
 // Comprehensive test data covering all fields
@@ -51,21 +143,21 @@ const COMPREHENSIVE_JOBS = [
     company: "Acme Corp",
     title: "Senior Developer",
     location: "Stockholm",
-    status: "INTERVIEW",
+    stage: "Interview",
     order: "a0",
     dateApplied: "2024-01-15",
     jobPostingUrl: "https://acme.com/jobs/123",
     jobPostingText: "We are looking for a senior developer...",
     notes: "Phone interview scheduled for next week",
-    contactPerson: "Jane Smith",
+    contacts: [{ name: "Jane Smith", email: "jane@acme.com" }],
     resumeUrl: "https://drive.google.com/resume",
     coverLetterUrl: "https://drive.google.com/cover",
   },
-  { company: "Tech Startup", status: "WISHLIST", order: "a1" },
+  { company: "Tech Startup", stage: "Wishlist", order: "a1" },
   {
     company: "Big Company",
     title: "Developer",
-    status: "APPLIED",
+    stage: "Applied",
     order: "a2",
     dateApplied: "2024-02-01",
   },
@@ -74,6 +166,7 @@ const COMPREHENSIVE_JOBS = [
 describe("POST /api/jobs/import", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([mockBoard(1)]);
   });
 
   it("returns 401 when unauthenticated", async () => {
@@ -109,9 +202,9 @@ describe("POST /api/jobs/import", () => {
     const response = await POST(
       createRequest({
         jobs: [
-          { company: "Valid Company 1", status: "WISHLIST", order: "0" },
-          { status: "APPLIED", order: "1" }, // Missing required company field
-          { company: "Valid Company 2", status: "INTERVIEW", order: "2" },
+          { company: "Valid Company 1", stage: "Wishlist", order: "0" },
+          { stage: "Applied", order: "1" }, // Missing required company field
+          { company: "Valid Company 2", stage: "Interview", order: "2" },
         ],
       })
     );
@@ -126,7 +219,10 @@ describe("POST /api/jobs/import", () => {
   it("returns 200 with import count and replaces all jobs atomically", async () => {
     // Arrange
     mockAuth();
-    mockSuccessfulImport(2, 3);
+    mockSuccessfulImport(2, 3, [
+      createExistingJob(),
+      createExistingJob({ id: 11 }),
+    ]);
 
     // Act
     const response = await POST(createRequest({ jobs: COMPREHENSIVE_JOBS }));
@@ -139,6 +235,544 @@ describe("POST /api/jobs/import", () => {
     expect(prisma.$transaction).toHaveBeenCalledTimes(1);
   });
 
+  it("moves the jobs it replaces to the trash with a deleted entry", async () => {
+    // Arrange
+    mockAuth("user_editor");
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard(2));
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "EDITOR",
+    } as never);
+    mockSuccessfulImport(2, 1, [
+      createExistingJob({ boardId: 2 }),
+      createExistingJob({ id: 11, boardId: 2 }),
+    ]);
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [{ company: "Acme", stage: "Wishlist", order: "0" }],
+        boardId: 2,
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [10, 11] } },
+      data: { deletedAt: expect.any(Date) },
+    });
+    expect(prisma.jobHistory.createMany).toHaveBeenCalledWith({
+      data: [10, 11].map((jobId) => ({
+        jobId,
+        userId: "user_editor",
+        fieldChanged: "deleted",
+        oldValue: null,
+        newValue: null,
+      })),
+    });
+  });
+
+  it("imports into the given board", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 1);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard(2));
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [{ company: "Acme", stage: "Wishlist", order: "0" }],
+        boardId: 2,
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { boardId: 2, deletedAt: null } })
+    );
+    expect(prisma.job.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [expect.objectContaining({ company: "Acme", boardId: 2 })],
+      })
+    );
+  });
+
+  it("returns 400 for a board of another user", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [{ company: "Acme", stage: "Wishlist", order: "0" }],
+        boardId: 2,
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("records an imported history entry for every created job", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 2);
+
+    // Act
+    await POST(createRequest({ jobs: COMPREHENSIVE_JOBS.slice(0, 2) }));
+
+    // Assert
+    expect(prisma.jobHistory.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          jobId: 1,
+          userId: TEST_USER_ID,
+          fieldChanged: "imported",
+        }),
+        expect.objectContaining({
+          jobId: 2,
+          userId: TEST_USER_ID,
+          fieldChanged: "imported",
+        }),
+      ],
+    });
+  });
+
+  it("restores trashed jobs and writes their history before the imported entry", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 1);
+
+    // Act
+    await POST(
+      createRequest({
+        jobs: [
+          {
+            company: "Old Co",
+            stage: "Rejected",
+            order: "a0",
+            deletedAt: "2024-03-01T10:00:00.000Z",
+            history: [
+              {
+                fieldChanged: "stage",
+                oldValue: "Applied",
+                newValue: "Rejected",
+                changedAt: "2024-02-01T10:00:00.000Z",
+              },
+            ],
+          },
+        ],
+      })
+    );
+
+    // Assert
+    expect(prisma.job.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          expect.objectContaining({
+            company: "Old Co",
+            deletedAt: new Date("2024-03-01T10:00:00.000Z"),
+          }),
+        ],
+      })
+    );
+    expect(prisma.jobHistory.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          jobId: 1,
+          userId: TEST_USER_ID,
+          fieldChanged: "stageId",
+          oldValue: "2",
+          newValue: "6",
+          changedAt: new Date("2024-02-01T10:00:00.000Z"),
+        },
+        expect.objectContaining({ jobId: 1, fieldChanged: "imported" }),
+      ],
+    });
+  });
+
+  it("links imported contacts, reusing the user's contacts by name", async () => {
+    // Arrange
+    mockAuth();
+    const existingContact: Contact = {
+      id: 5,
+      userId: TEST_USER_ID,
+      name: "Jane Smith",
+      email: null,
+      phone: null,
+      linkedinUrl: null,
+      role: null,
+      company: null,
+      notes: null,
+      createdAt: new Date("2024-01-01"),
+      updatedAt: new Date("2024-01-01"),
+    };
+    mockSuccessfulImport(0, 2, [], [existingContact]);
+    vi.mocked(prisma.contact.create).mockResolvedValue({
+      ...existingContact,
+      id: 6,
+      name: "Bob Recruiter",
+    });
+
+    // Act
+    await POST(
+      createRequest({
+        jobs: [
+          {
+            company: "Acme",
+            contacts: [{ name: "jane  smith" }, { name: "Bob Recruiter" }],
+          },
+          { company: "Globex", contacts: [{ name: "Bob Recruiter" }] },
+        ],
+      })
+    );
+
+    // Assert
+    expect(prisma.contact.create).toHaveBeenCalledTimes(1);
+    expect(prisma.contact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: "Bob Recruiter",
+        userId: TEST_USER_ID,
+      }),
+    });
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { contacts: { connect: [{ id: 5 }, { id: 6 }] } },
+    });
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { contacts: { connect: [{ id: 6 }] } },
+    });
+  });
+
+  it("defaults to replace mode", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(1, 3, [createExistingJob()]);
+
+    // Act
+    const response = await POST(createRequest({ jobs: COMPREHENSIVE_JOBS }));
+    const data = await response.json();
+
+    // Assert
+    expect(data).toMatchObject({
+      mode: "replace",
+      dryRun: false,
+      created: 3,
+      deleted: 1,
+    });
+  });
+
+  it("merges matching jobs and creates the rest without deleting", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 2, [createExistingJob()]);
+
+    // Act
+    const response = await POST(
+      createRequest({ jobs: COMPREHENSIVE_JOBS, mode: "merge" })
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      mode: "merge",
+      imported: 3,
+      created: 2,
+      updated: 1,
+      deleted: 0,
+      skipped: 0,
+      conflicted: 0,
+    });
+    expect(prisma.job.updateMany).not.toHaveBeenCalled();
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 10 },
+      data: expect.objectContaining({
+        stageId: 3,
+        history: {
+          create: expect.arrayContaining([
+            expect.objectContaining({
+              fieldChanged: "stageId",
+              oldValue: "2",
+              newValue: "3",
+            }),
+          ]),
+        },
+      }),
+    });
+    expect(prisma.job.createManyAndReturn).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ company: "Tech Startup", companyId: 200 }),
+        expect.objectContaining({ company: "Big Company", companyId: 201 }),
+      ],
+      select: { id: true, stageId: true },
+    });
+  });
+
+  it("keeps the stage and skills of merged jobs when a row leaves them out", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 0, [
+      createExistingJob({ stageId: 3, skills: ["TypeScript", "Go"] }),
+    ]);
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [
+          {
+            company: "Acme Corp",
+            title: "Senior Developer",
+            notes: "Spoke to the hiring manager",
+          },
+        ],
+        mode: "merge",
+      })
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(data).toMatchObject({ updated: 1, created: 0 });
+    expect(prisma.job.update).toHaveBeenCalledTimes(1);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 10 },
+      data: {
+        notes: "Spoke to the hiring manager",
+        history: {
+          create: [
+            expect.objectContaining({
+              fieldChanged: "notes",
+              newValue: "Spoke to the hiring manager",
+            }),
+          ],
+        },
+      },
+    });
+  });
+
+  it("leaves fields a merged row sends as null unchanged", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 0, [
+      createExistingJob({ notes: "Referred by Sam", location: "Berlin" }),
+    ]);
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [
+          {
+            company: "Acme Corp",
+            title: "Senior Developer",
+            notes: null,
+            location: "",
+          },
+        ],
+        mode: "merge",
+      })
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(data).toMatchObject({ updated: 1 });
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 10 },
+      data: {
+        location: null,
+        history: {
+          create: [
+            expect.objectContaining({
+              fieldChanged: "location",
+              oldValue: "Berlin",
+              newValue: null,
+            }),
+          ],
+        },
+      },
+    });
+  });
+
+  it("links created jobs to the user's companies, creating missing ones", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 3);
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { id: 7, name: "ACME Corporation", aliases: [] },
+    ] as never);
+
+    // Act
+    await POST(
+      createRequest({
+        jobs: [
+          { company: "Acme Corp", stage: "Wishlist" },
+          { company: "Tech Startup", stage: "Wishlist" },
+          { company: "Tech Startup AB", stage: "Applied" },
+        ],
+        mode: "append",
+      })
+    );
+
+    // Assert
+    expect(prisma.company.create).toHaveBeenCalledTimes(1);
+    expect(prisma.company.create).toHaveBeenCalledWith({
+      data: { userId: TEST_USER_ID, name: "Tech Startup" },
+    });
+    expect(prisma.job.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          expect.objectContaining({ companyId: 7 }),
+          expect.objectContaining({ companyId: 200 }),
+          expect.objectContaining({ companyId: 200 }),
+        ],
+      })
+    );
+  });
+
+  it("appends all jobs without deleting or updating", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 3, [createExistingJob()]);
+
+    // Act
+    const response = await POST(
+      createRequest({ jobs: COMPREHENSIVE_JOBS, mode: "append" })
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(data).toMatchObject({ created: 3, updated: 0, deleted: 0 });
+    expect(prisma.job.updateMany).not.toHaveBeenCalled();
+    // The only update links the first job's contact
+    expect(prisma.job.update).toHaveBeenCalledTimes(1);
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { contacts: { connect: [{ id: 100 }] } },
+    });
+  });
+
+  it("reports counts without writing on a dry run", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 0, [
+      createExistingJob(),
+      createExistingJob({
+        id: 11,
+        jobPostingUrl: null,
+        company: "Big Company",
+        title: "Developer",
+      }),
+      createExistingJob({
+        id: 12,
+        jobPostingUrl: null,
+        company: "Big Company",
+        title: "Developer",
+      }),
+    ]);
+
+    // Act
+    const response = await POST(
+      createRequest({ jobs: COMPREHENSIVE_JOBS, mode: "merge", dryRun: true })
+    );
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      dryRun: true,
+      created: 1,
+      updated: 1,
+      skipped: 0,
+      conflicted: 1,
+      conflicts: [{ row: 3, reason: "Matches 2 existing jobs" }],
+    });
+    expect(prisma.job.updateMany).not.toHaveBeenCalled();
+    expect(prisma.job.update).not.toHaveBeenCalled();
+    expect(prisma.job.createManyAndReturn).not.toHaveBeenCalled();
+    expect(prisma.jobHistory.createMany).not.toHaveBeenCalled();
+  });
+
+  it("creates stages the user doesn't have from the file's definitions", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 3);
+
+    // Act
+    await POST(
+      createRequest({
+        jobs: [
+          { company: "Acme", stage: "phone screen" },
+          { company: "Globex", stage: "Phone Screen" },
+          { company: "Initech", stage: "applied" },
+        ],
+        stages: [
+          { name: "Phone screen", color: "purple", category: "INTERVIEW" },
+        ],
+        mode: "append",
+      })
+    );
+
+    // Assert
+    expect(prisma.stage.create).toHaveBeenCalledTimes(1);
+    expect(prisma.stage.create).toHaveBeenCalledWith({
+      data: {
+        userId: TEST_USER_ID,
+        name: "phone screen",
+        color: "purple",
+        category: "INTERVIEW",
+        position: 6,
+        archivedAt: null,
+      },
+    });
+    expect(prisma.job.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          expect.objectContaining({ stageId: 50 }),
+          expect.objectContaining({ stageId: 50 }),
+          expect.objectContaining({ stageId: 2 }),
+        ],
+      })
+    );
+  });
+
+  it("doesn't create stages on a dry run", async () => {
+    // Arrange
+    mockAuth();
+    mockSuccessfulImport(0, 0);
+
+    // Act
+    const response = await POST(
+      createRequest({
+        jobs: [{ company: "Acme", stage: "Phone screen" }],
+        mode: "append",
+        dryRun: true,
+      })
+    );
+
+    // Assert
+    expect(await response.json()).toMatchObject({ created: 1 });
+    expect(prisma.stage.create).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an unknown import mode", async () => {
+    // Arrange
+    mockAuth();
+
+    // Act
+    const response = await POST(
+      createRequest({ jobs: COMPREHENSIVE_JOBS, mode: "overwrite" })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
   it("returns 500 on database error", async () => {
     // Arrange
     mockAuth();
@@ -152,7 +786,7 @@ describe("POST /api/jobs/import", () => {
     // Act
     const response = await POST(
       createRequest({
-        jobs: [{ company: "Test", status: "WISHLIST", order: "0" }],
+        jobs: [{ company: "Test", stage: "Wishlist", order: "0" }],
       })
     );
 
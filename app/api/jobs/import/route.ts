@@ -2,13 +2,48 @@ import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { ZodError } from "zod";
 import { prisma } from "@/lib/prisma";
-import { importRequestSchema } from "@/lib/schemas";
+import {
+  ExportedContact,
+  ExportedHistoryEntry,
+  importRequestSchema,
+} from "@/lib/schemas";
 import { toNullable } from "@/lib/utils";
+import { HISTORY_EVENTS, lifecycleEntry } from "@/lib/job-history";
+import { findContactByName } from "@/lib/contacts";
+import {
+  exportedHistoryToStageIds,
+  getHistoryStageNames,
+} from "@/lib/export-import";
+import { resolveCompanyIds } from "@/lib/queries/companies";
+import { resolveStageIds } from "@/lib/queries/stages";
+import { resolveBoard } from "@/lib/authorization";
+import {
+  getSuppliedFields,
+  ImportJobRow,
+  planImport,
+  summarizeImportPlan,
+} from "@/lib/import-plan";
 
 /**
  * POST /api/jobs/import
- * Import jobs from JSON file, replacing all existing jobs for the user.
+ * Import jobs from a JSON file into one of the user's boards (the first
+ * own one without a boardId) or a board they may edit. The mode decides
+ * what happens to the jobs already on that board (replace, merge or
+ * append - see IMPORT_MODES); replaced jobs go to the trash.
+ * With dryRun the counts are returned without writing anything.
  * Uses a transaction to ensure all-or-nothing behavior.
+ * Each created job gets an "imported" history entry (after any history
+ * carried in the file), each merged job one entry per changed field;
+ * merges only compare the fields a job in the file supplies.
+ * Jobs with deletedAt in the file are imported straight into the trash.
+ * Created jobs are linked to the user's company with a matching name (one
+ * is created if needed), as are merged jobs whose company name changed.
+ * Contacts in the file are linked to the created jobs, reusing the user's
+ * contact with the same name or creating one (jobs matched by a merge keep
+ * their contacts). Stages are matched by name the same way, missing ones
+ * created from the stage definitions in the file (not in a dry run).
+ * On a shared board the jobs, companies, contacts and stages are the
+ * board owner's; the history records who imported them.
  */
 export async function POST(request: Request) {
   const { userId } = await auth();
@@ -19,31 +54,178 @@ export async function POST(request: Request) {
 
   try {
     const body = await request.json();
-    const validated = importRequestSchema.parse(body);
+    const { jobs, stages, mode, dryRun, ...validated } =
+      importRequestSchema.parse(body);
 
-    // Transform: add userId, convert dateApplied strings to Date objects, handle nullables
-    const jobsToImport = validated.jobs.map((job) =>
-      toNullable({
-        ...job,
-        userId,
-        dateApplied: job.dateApplied ? new Date(job.dateApplied) : null,
-      })
+    const { board, error } = await resolveBoard(
+      validated.boardId,
+      userId,
+      "edit",
+      400
     );
+    if (error) return error;
+
+    const boardId = board.id;
+    const ownerId = board.userId;
+
+    // Transaction: plan against the current jobs, then trash/update/create + history
+    // If any operation fails, all are rolled back
+    const plan = await prisma.$transaction(async (tx) => {
+      // Every stage named by the rows and their history, by name ("" for
+      // rows without a stage)
+      const stageNames = [
+        ...jobs.map((job) => job.stage),
+        ...jobs.flatMap((job) => getHistoryStageNames(job.history ?? [])),
+      ];
+      const stageIds = await resolveStageIds(stageNames, stages, ownerId, tx, {
+        dryRun,
+      });
+      const stageIdsByName = new Map(
+        stageNames.map((name, index) => [name ?? "", stageIds[index]])
+      );
+
+      // History and contacts from the file, kept by row so they can follow
+      // the row through planning
+      const importedHistory = new Map<ImportJobRow, ExportedHistoryEntry[]>();
+      const importedContacts = new Map<ImportJobRow, ExportedContact[]>();
+
+      // Transform: add userId, board and stage, convert date strings to Date objects, handle nullables
+      const jobsToImport: ImportJobRow[] = jobs.map(
+        ({ stage, history, contacts, ...job }) => {
+          const row: ImportJobRow = toNullable({
+            ...job,
+            userId: ownerId,
+            boardId,
+            stageId: stageIdsByName.get(stage ?? ""),
+            skills: job.skills ?? [],
+            dateApplied: job.dateApplied ? new Date(job.dateApplied) : null,
+            deadline: job.deadline ? new Date(job.deadline) : null,
+            followUpAt: job.followUpAt ? new Date(job.followUpAt) : null,
+            deletedAt: job.deletedAt ? new Date(job.deletedAt) : null,
+          });
+          if (history) {
+            importedHistory.set(
+              row,
+              exportedHistoryToStageIds(history, (name) =>
+                stageIdsByName.get(name)
+              )
+            );
+          }
+          if (contacts?.length) importedContacts.set(row, contacts);
+          return row;
+        }
+      );
+
+      const existing = await tx.job.findMany({
+        where: { boardId, deletedAt: null },
+      });
+      const plan = planImport(
+        existing,
+        jobsToImport,
+        mode,
+        userId,
+        jobs.map(getSuppliedFields)
+      );
+
+      if (dryRun) return plan;
+
+      // Replaced jobs go to the trash like any deleted job, so they can be
+      // restored
+      if (mode === "replace" && existing.length > 0) {
+        const ids = existing.map((job) => job.id);
+        await tx.job.updateMany({
+          where: { id: { in: ids } },
+          data: { deletedAt: new Date() },
+        });
+        await tx.jobHistory.createMany({
+          data: ids.map((jobId) => ({
+            jobId,
+            ...lifecycleEntry(HISTORY_EVENTS.DELETED, userId),
+          })),
+        });
+      }
+
+      for (const { id, data, history } of plan.update) {
+        const [companyId] = data.company
+          ? await resolveCompanyIds([data.company], ownerId, tx)
+          : [];
+        await tx.job.update({
+          where: { id },
+          data: {
+            ...data,
+            ...(companyId !== undefined && { companyId }),
+            history: { create: history },
+          },
+        });
+      }
+
+      const companyIds = await resolveCompanyIds(
+        plan.create.map((row) => row.company),
+        ownerId,
+        tx
+      );
+      const created = await tx.job.createManyAndReturn({
+        data: plan.create.map((row, index) => ({
+          ...row,
+          companyId: companyIds[index],
+        })),
+        select: { id: true, stageId: true },
+      });
+
+      // Rows come back in insertion order, so created[i] is plan.create[i]
+      await tx.jobHistory.createMany({
+        data: created.flatMap((job, index) => [
+          ...(importedHistory.get(plan.create[index]) ?? []).map((entry) => ({
+            jobId: job.id,
+            userId,
+            ...entry,
+            changedAt: new Date(entry.changedAt),
+          })),
+          {
+            jobId: job.id,
+            ...lifecycleEntry(HISTORY_EVENTS.IMPORTED, userId, job.stageId),
+          },
+        ]),
+      });
+
+      // Link contacts, creating each missing one once
+      const userContacts = await tx.contact.findMany({
+        where: { userId: ownerId },
+      });
+      for (const [index, job] of created.entries()) {
+        const contactIds: number[] = [];
+
+        for (const imported of importedContacts.get(plan.create[index]) ?? []) {
+          let contact = findContactByName(userContacts, imported.name);
+          if (!contact) {
+            contact = await tx.contact.create({
+              data: toNullable({ ...imported, userId: ownerId }),
+            });
+            userContacts.push(contact);
+          }
+          contactIds.push(contact.id);
+        }
+
+        if (contactIds.length > 0) {
+          await tx.job.update({
+            where: { id: job.id },
+            data: { contacts: { connect: contactIds.map((id) => ({ id })) } },
+          });
+        }
+      }
+
+      return plan;
+    });
 
-    // Transaction: delete all existing jobs + create all imported jobs
-    // If either operation fails, both are rolled back
-    const result = await prisma.$transaction([
-      prisma.job.deleteMany({
-        where: { userId, deletedAt: null },
-      }),
-      prisma.job.createMany({
-        data: jobsToImport,
-      }),
-    ]);
+    const summary = summarizeImportPlan(plan);
 
     return NextResponse.json({
       success: true,
-      imported: result[1].count,
+      mode,
+      dryRun,
+      imported: summary.created + summary.updated,
+      ...summary,
+      conflicts: plan.conflicts,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { GET, POST } from "./route";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
-import type { Job } from "@prisma/client";
+import type { Job, Stage } from "@prisma/client";
+import { makeJob } from "@/lib/test-fixtures";
 
 vi.mock("@clerk/nextjs/server", () => ({
   auth: vi.fn(),
@@ -14,21 +15,47 @@ vi.mock("@/lib/prisma", () => ({
       findMany: vi.fn(),
       create: vi.fn(),
     },
+    company: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    stage: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
   },
 }));
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MockAuth = any;
 
+const mockBoard = (id: number, userId = "user_123") => ({
+  id,
+  userId,
+  name: `Board ${id}`,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+});
+
 describe("GET /api/jobs", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.board.findMany).mockResolvedValue([mockBoard(1)]);
   });
 
   it("should return 401 if user is not authenticated", async () => {
     vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
 
-    const response = await GET();
+    const response = await GET(new Request("http://test/api/jobs"));
 
     expect(response.status).toBe(401);
   });
@@ -36,31 +63,18 @@ describe("GET /api/jobs", () => {
   it("should return jobs for authenticated user", async () => {
     const mockUserId = "user_123";
     const mockJobs: Job[] = [
-      {
-        id: 1,
+      makeJob({
         userId: mockUserId,
-        company: "Test Company",
-        title: "Developer",
         location: "Stockholm",
-        jobPostingUrl: null,
-        jobPostingText: null,
-        status: "WISHLIST",
-        notes: null,
-        resumeUrl: null,
-        coverLetterUrl: null,
-        dateApplied: null,
-        deletedAt: null,
-        contactPerson: null,
-        order: "0",
         createdAt: new Date("2025-01-01"),
         updatedAt: new Date("2025-01-01"),
-      },
+      }),
     ];
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.findMany).mockResolvedValue(mockJobs);
 
-    const response = await GET();
+    const response = await GET(new Request("http://test/api/jobs"));
     const data = await response.json();
 
     expect(response.status).toBe(200);
@@ -68,19 +82,199 @@ describe("GET /api/jobs", () => {
     expect(data[0]).toMatchObject({
       id: 1,
       userId: mockUserId,
+      boardId: 1,
       company: "Test Company",
       title: "Developer",
-      status: "WISHLIST",
+      stageId: 1,
     });
     expect(prisma.job.findMany).toHaveBeenCalledWith({
       where: {
-        userId: mockUserId,
+        boardId: 1,
         deletedAt: null,
       },
-      orderBy: { createdAt: "desc" },
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+      orderBy: [{ order: "asc" }, { createdAt: "desc" }, { id: "desc" }],
     });
   });
 
+  it("should restrict results to full-text matches when q is given", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: 3 }, { id: 7 }]);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(
+      new Request("http://test/api/jobs?q=React%20Stockholm")
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.$queryRaw).toHaveBeenCalledWith(
+      expect.anything(),
+      1,
+      "react:* & stockholm:*"
+    );
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { boardId: 1, deletedAt: null, id: { in: [3, 7] } },
+      })
+    );
+  });
+
+  it("should skip full-text search when q has no searchable words", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    await GET(new Request("http://test/api/jobs?q=%20-%20"));
+
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { boardId: 1, deletedAt: null },
+      })
+    );
+  });
+
+  it("should filter by stage and dateApplied range", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    await GET(
+      new Request(
+        "http://test/api/jobs?stageId=2,3&appliedFrom=2025-01-01&appliedTo=2025-01-31"
+      )
+    );
+
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          boardId: 1,
+          deletedAt: null,
+          stageId: { in: [2, 3] },
+          dateApplied: {
+            gte: new Date("2025-01-01"),
+            lt: new Date("2025-02-01"),
+          },
+        },
+      })
+    );
+  });
+
+  it("should list the jobs of the requested board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard(2));
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(new Request("http://test/api/jobs?boardId=2"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { boardId: 2, deletedAt: null },
+      })
+    );
+  });
+
+  it("should return 404 for a board of another user", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+
+    const response = await GET(new Request("http://test/api/jobs?boardId=2"));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.job.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should list the jobs of a board shared with the user", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(new Request("http://test/api/jobs?boardId=2"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ boardId: 2 }),
+      })
+    );
+  });
+
+  it("should sort by the requested field with id as tiebreaker", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    await GET(new Request("http://test/api/jobs?sort=company&order=asc"));
+
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderBy: [{ company: "asc" }, { id: "asc" }],
+      })
+    );
+  });
+
+  it("should keep jobs without dateApplied last when sorting by it", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    await GET(new Request("http://test/api/jobs?sort=dateApplied"));
+
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        orderBy: [
+          { dateApplied: { sort: "desc", nulls: "last" } },
+          { id: "desc" },
+        ],
+      })
+    );
+  });
+
+  it("should paginate with a cursor and expose the next cursor header", async () => {
+    const jobs = [{ id: 11 }, { id: 12 }, { id: 13 }] as Job[];
+
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue(jobs);
+
+    const response = await GET(
+      new Request("http://test/api/jobs?limit=2&cursor=10")
+    );
+    const data = await response.json();
+
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 3, cursor: { id: 10 }, skip: 1 })
+    );
+    expect(data).toEqual([{ id: 11 }, { id: 12 }]);
+    expect(response.headers.get("X-Next-Cursor")).toBe("12");
+  });
+
+  it("should omit the next cursor header on the last page", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([{ id: 1 }] as Job[]);
+
+    const response = await GET(new Request("http://test/api/jobs?limit=2"));
+
+    expect(response.headers.get("X-Next-Cursor")).toBeNull();
+  });
+
+  it("should return 400 for invalid query parameters", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+
+    const response = await GET(
+      new Request("http://test/api/jobs?stageId=abc&limit=0")
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(prisma.job.findMany).not.toHaveBeenCalled();
+  });
+
   it("should return 500 if database query fails", async () => {
     const mockUserId = "user_123";
 
@@ -93,7 +287,7 @@ describe("GET /api/jobs", () => {
       .spyOn(console, "error")
       .mockImplementation(() => {});
 
-    const response = await GET();
+    const response = await GET(new Request("http://test/api/jobs"));
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -106,6 +300,16 @@ describe("GET /api/jobs", () => {
 describe("POST /api/jobs", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.company.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.company.create).mockImplementation(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (async ({ data }: any) => ({ id: 9, aliases: [], ...data })) as any
+    );
+    vi.mocked(prisma.stage.findMany).mockResolvedValue([
+      { id: 2, userId: "user_123", name: "Applied", category: "APPLIED" },
+      { id: 1, userId: "user_123", name: "Wishlist", category: "WISHLIST" },
+    ] as Stage[]);
+    vi.mocked(prisma.board.findMany).mockResolvedValue([mockBoard(1)]);
   });
 
   it("should return 401 if user is not authenticated", async () => {
@@ -123,25 +327,7 @@ describe("POST /api/jobs", () => {
 
   it("should create job with valid data", async () => {
     const mockUserId = "user_123";
-    const mockJob: Job = {
-      id: 1,
-      userId: mockUserId,
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const mockJob = makeJob({ userId: mockUserId });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.create).mockResolvedValue(mockJob);
@@ -161,17 +347,173 @@ describe("POST /api/jobs", () => {
     expect(data).toMatchObject({
       company: "Test Company",
       title: "Developer",
-      status: "WISHLIST",
+      stageId: 1,
+    });
+    expect(prisma.company.create).toHaveBeenCalledWith({
+      data: { userId: mockUserId, name: "Test Company" },
     });
     expect(prisma.job.create).toHaveBeenCalledWith({
       data: expect.objectContaining({
         userId: mockUserId,
+        boardId: 1,
         company: "Test Company",
+        companyId: 9,
         title: "Developer",
+        stageId: 1,
+        history: {
+          create: {
+            userId: mockUserId,
+            fieldChanged: "created",
+            oldValue: null,
+            newValue: "1",
+          },
+        },
       }),
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
     });
   });
 
+  it("should create the job in the given stage", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue({
+      id: 2,
+      userId: "user_123",
+    } as Stage);
+    vi.mocked(prisma.job.create).mockResolvedValue({ id: 1 } as Job);
+
+    // Act
+    const response = await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Acme", stageId: 2 }),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.job.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ stageId: 2 }),
+      })
+    );
+  });
+
+  it("should return 400 for a stage of another user", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue({
+      id: 7,
+      userId: "other_user",
+    } as Stage);
+
+    // Act
+    const response = await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Acme", stageId: 7 }),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Stage not found" });
+    expect(prisma.job.create).not.toHaveBeenCalled();
+  });
+
+  it("should create the job on the given board", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard(2));
+    vi.mocked(prisma.job.create).mockResolvedValue({ id: 1 } as Job);
+
+    // Act
+    const response = await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Acme", boardId: 2 }),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.job.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ boardId: 2 }),
+      })
+    );
+  });
+
+  it("should return 400 for a board of another user", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+
+    // Act
+    const response = await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Acme", boardId: 2 }),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.job.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for a viewer of a shared board", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(
+      mockBoard(2, "other_user")
+    );
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+
+    // Act
+    const response = await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Acme", boardId: 2 }),
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(prisma.job.create).not.toHaveBeenCalled();
+  });
+
+  it("should link the job to an existing company with a matching name", async () => {
+    // Arrange
+    const mockUserId = "user_123";
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { id: 4, name: "Spotify", aliases: [] },
+    ] as unknown as Awaited<ReturnType<typeof prisma.company.findMany>>);
+    vi.mocked(prisma.job.create).mockResolvedValue({ id: 1 } as Job);
+
+    // Act
+    await POST(
+      new Request("http://test/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ company: "Spotify AB" }),
+      })
+    );
+
+    // Assert
+    expect(prisma.company.create).not.toHaveBeenCalled();
+    expect(prisma.job.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ company: "Spotify AB", companyId: 4 }),
+      })
+    );
+  });
+
   it("should return 400 if company is missing", async () => {
     const mockUserId = "user_123";
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
@@ -251,25 +593,7 @@ describe("POST /api/jobs", () => {
 
   it("should convert empty strings to null for optional fields", async () => {
     const mockUserId = "user_123";
-    const mockJob: Job = {
-      id: 1,
-      userId: mockUserId,
-      company: "Test Company",
-      title: "Developer",
-      location: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      status: "WISHLIST",
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      dateApplied: null,
-      deletedAt: null,
-      contactPerson: null,
-      order: "0",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const mockJob = makeJob({ userId: mockUserId });
 
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
     vi.mocked(prisma.job.create).mockResolvedValue(mockJob);
@@ -285,7 +609,10 @@ describe("POST /api/jobs", () => {
         coverLetterUrl: "",
         jobPostingText: "",
         notes: "",
-        contactPerson: "",
+        deadline: "",
+        salaryMin: "",
+        salaryCurrency: "",
+        employmentType: "",
       }),
     });
 
@@ -300,8 +627,14 @@ describe("POST /api/jobs", () => {
         coverLetterUrl: null,
         jobPostingText: null,
         notes: null,
-        contactPerson: null,
+        deadline: null,
+        followUpAt: null,
+        salaryMin: null,
+        salaryCurrency: null,
+        employmentType: null,
+        skills: [],
       }),
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
     });
   });
 });
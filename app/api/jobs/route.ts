@@ -1,11 +1,30 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
-import { createJobSchema } from "@/lib/schemas";
+import { createJobSchema, parseJobListQuery } from "@/lib/schemas";
 import { toNullable } from "@/lib/utils";
 import { ZodError } from "zod";
-import { getJobsByUserId, createJob } from "@/lib/queries/jobs";
+import { searchJobs, createJob } from "@/lib/queries/jobs";
+import { areContactsOwnedBy } from "@/lib/queries/contacts";
+import { resolveStageId } from "@/lib/queries/stages";
+import { resolveBoard } from "@/lib/authorization";
 
-export async function GET() {
+/**
+ * GET /api/jobs
+ * List the jobs on one of the user's boards or a board shared with them,
+ * optionally searched, filtered, sorted and paginated.
+ *
+ * Query parameters:
+ * - boardId: the board (defaults to the user's first own board)
+ * - q: full-text search over company, title, location, notes and posting text
+ * - stageId: one or more stage IDs (repeated or comma-separated)
+ * - appliedFrom / appliedTo: dateApplied range (YYYY-MM-DD, inclusive)
+ * - sort: board (default) | createdAt | updatedAt | dateApplied | company
+ * - order: desc (default) | asc (ignored for board order)
+ * - limit / cursor: cursor pagination; without limit all matches are returned
+ *
+ * Response: Job[] - the next page cursor, if any, is in the X-Next-Cursor header
+ */
+export async function GET(request: Request) {
   const { userId } = await auth();
 
   if (!userId) {
@@ -13,9 +32,23 @@ export async function GET() {
   }
 
   try {
-    const jobs = await getJobsByUserId(userId);
-    return NextResponse.json(jobs);
+    const query = parseJobListQuery(new URL(request.url).searchParams);
+    const { board, error } = await resolveBoard(query.boardId, userId, "view");
+    if (error) return error;
+
+    const { jobs, nextCursor } = await searchJobs(board.id, query);
+
+    return NextResponse.json(jobs, {
+      headers: nextCursor ? { "X-Next-Cursor": String(nextCursor) } : {},
+    });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error("Error fetching jobs:", error);
     return NextResponse.json(
       { error: "Failed to fetch jobs" },
@@ -24,6 +57,12 @@ export async function GET() {
   }
 }
 
+/**
+ * POST /api/jobs
+ * Add a job to one of the user's boards (the first own one without a
+ * boardId) or to a board they may edit. The job, its contacts and stage
+ * are the board owner's; the history records who added it.
+ */
 export async function POST(request: Request) {
   const { userId } = await auth();
 
@@ -33,17 +72,45 @@ export async function POST(request: Request) {
 
   try {
     const body = await request.json();
-    const validated = createJobSchema.parse(body);
+    const { contactIds = [], ...validated } = createJobSchema.parse(body);
+
+    const { board, error } = await resolveBoard(
+      validated.boardId,
+      userId,
+      "edit",
+      400
+    );
+    if (error) return error;
+
+    const ownerId = board.userId;
+
+    if (!(await areContactsOwnedBy(contactIds, ownerId))) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 400 });
+    }
+
+    const stageId = await resolveStageId(ownerId, validated.stageId);
+
+    if (stageId === null) {
+      return NextResponse.json({ error: "Stage not found" }, { status: 400 });
+    }
 
     // Convert empty strings/undefined to null for Prisma
     const job = await createJob(
       toNullable({
         ...validated,
-        userId,
+        userId: ownerId,
+        stageId,
+        boardId: board.id,
         dateApplied: validated.dateApplied
           ? new Date(validated.dateApplied)
           : null,
-      })
+        deadline: validated.deadline ? new Date(validated.deadline) : null,
+        followUpAt: validated.followUpAt
+          ? new Date(validated.followUpAt)
+          : null,
+      }),
+      contactIds,
+      userId
     );
 
     return NextResponse.json(job, { status: 201 });
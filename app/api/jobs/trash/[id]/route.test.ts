@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { makeJob } from "@/lib/test-fixtures";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findUnique: vi.fn(),
+      delete: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const deletedJob = makeJob({
+  userId: mockUserId,
+  title: null,
+  deletedAt: new Date(),
+});
+
+const createRequest = () =>
+  new Request("http://test/api/jobs/trash/1", { method: "DELETE" });
+
+const params = { params: Promise.resolve({ id: "1" }) };
+
+describe("DELETE /api/jobs/trash/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await DELETE(createRequest(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should refuse to hard delete a job that is not in the trash", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...deletedJob,
+      deletedAt: null,
+    });
+
+    const response = await DELETE(createRequest(), params);
+
+    expect(response.status).toBe(404);
+    expect(prisma.job.delete).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 if user does not own the job", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      ...deletedJob,
+      userId: "different_user",
+    });
+
+    const response = await DELETE(createRequest(), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.job.delete).not.toHaveBeenCalled();
+  });
+
+  it("should permanently delete a job in the trash", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findUnique).mockResolvedValue(deletedJob);
+    vi.mocked(prisma.job.delete).mockResolvedValue(deletedJob);
+
+    const response = await DELETE(createRequest(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true });
+    expect(prisma.job.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+  });
+});
@@ -0,0 +1,38 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { permanentlyDeleteJob } from "@/lib/queries/jobs";
+import { authorizeJob } from "@/lib/authorization";
+
+/**
+ * DELETE /api/jobs/trash/[id]
+ * Permanently delete a job that is already in the trash
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id: idParam } = await params;
+    const id = Number(idParam);
+
+    // Only jobs in the trash can be permanently deleted
+    const { error } = await authorizeJob(id, userId, "edit", { inTrash: true });
+    if (error) return error;
+
+    await permanentlyDeleteJob(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error permanently deleting job:", error);
+    return NextResponse.json(
+      { error: "Failed to delete job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    board: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    boardMember: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const createRequest = (query = "") =>
+  new Request(`http://localhost/api/jobs/trash${query}`);
+
+const mockBoard = {
+  id: 1,
+  userId: mockUserId,
+  name: "My board",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("GET /api/jobs/trash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.TRASH_RETENTION_DAYS;
+    vi.mocked(prisma.board.findMany).mockResolvedValue([mockBoard]);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue(mockBoard);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the trash without expired jobs", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ jobs: [], retentionDays: 30 });
+    expect(prisma.job.findMany).toHaveBeenCalledWith({
+      where: { boardId: 1, deletedAt: { gte: expect.any(Date) } },
+      orderBy: { deletedAt: "desc" },
+      include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+    });
+  });
+
+  it("should list the trash of the requested board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      ...mockBoard,
+      id: 2,
+    });
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(createRequest("?boardId=2"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.board.findUnique).toHaveBeenCalledWith({ where: { id: 2 } });
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { boardId: 2, deletedAt: { gte: expect.any(Date) } },
+      })
+    );
+  });
+
+  it("should never delete jobs, even for viewers of a shared board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      ...mockBoard,
+      id: 2,
+      userId: "owner_456",
+    });
+    vi.mocked(prisma.boardMember.findUnique).mockResolvedValueOnce({
+      role: "VIEWER",
+    } as never);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([]);
+
+    const response = await GET(createRequest("?boardId=2"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.job.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for another user's board", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.board.findUnique).mockResolvedValue({
+      ...mockBoard,
+      id: 2,
+      userId: "other_user",
+    });
+
+    const response = await GET(createRequest("?boardId=2"));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Board not found" });
+    expect(prisma.job.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
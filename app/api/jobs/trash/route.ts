@@ -0,0 +1,58 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getDeletedJobsByBoardId } from "@/lib/queries/jobs";
+import { resolveBoard } from "@/lib/authorization";
+import { boardIdParamSchema } from "@/lib/schemas";
+import { getPurgeCutoff, getTrashRetentionDays } from "@/lib/trash";
+
+/**
+ * GET /api/jobs/trash
+ * List the soft-deleted jobs of a board the user can open. Jobs past the
+ * retention period are left out: they are waiting for the daily purge
+ * (/api/cron/purge-trash) and can no longer be counted on.
+ *
+ * Query parameters:
+ * - boardId: the board (defaults to the user's first own board)
+ *
+ * Response: { jobs: Job[], retentionDays: number }
+ */
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { board, error } = await resolveBoard(
+      boardIdParamSchema.parse(
+        new URL(request.url).searchParams.get("boardId") ?? undefined
+      ),
+      userId,
+      "view"
+    );
+    if (error) return error;
+
+    const retentionDays = getTrashRetentionDays();
+    const jobs = await getDeletedJobsByBoardId(
+      board.id,
+      getPurgeCutoff(retentionDays)
+    );
+
+    return NextResponse.json({ jobs, retentionDays });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching deleted jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deleted jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Job, JobHistory, Stage } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findMany: vi.fn(),
+    },
+    jobHistory: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const appliedJob = {
+  id: 1,
+  userId: mockUserId,
+  company: "Acme",
+  title: "Developer",
+  stageId: 2,
+  stage: { id: 2, name: "Applied", category: "APPLIED" },
+  dateApplied: new Date("2025-03-01"),
+  followUpAt: null,
+  followUpCompletedAt: null,
+  createdAt: new Date("2025-03-01T09:00:00Z"),
+} as Job & { stage: Stage };
+
+describe("GET /api/reminders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-20T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return due reminders with a summary of each job", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([
+      appliedJob,
+      { ...appliedJob, id: 2, followUpAt: new Date("2025-03-25") },
+    ]);
+    vi.mocked(prisma.jobHistory.findMany).mockResolvedValue([
+      {
+        jobId: 1,
+        fieldChanged: "stageId",
+        newValue: "2",
+        changedAt: new Date("2025-03-02T09:00:00Z"),
+      } as JobHistory,
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      reminders: [
+        {
+          jobId: 1,
+          dueAt: "2025-03-12T09:00:00.000Z",
+          source: "rule",
+          message: expect.any(String),
+          job: {
+            id: 1,
+            company: "Acme",
+            title: "Developer",
+            stage: { id: 2, name: "Applied", category: "APPLIED" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("should return 500 if database query fails", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,39 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getJobsByUserId } from "@/lib/queries/jobs";
+import { getStageHistoryForJobs } from "@/lib/queries/job-history";
+import { getDueReminders } from "@/lib/reminders";
+
+/**
+ * GET /api/reminders
+ * List the user's jobs that need attention (see lib/reminders.ts),
+ * longest overdue first
+ *
+ * Response: { reminders: (Reminder & { job: { id, company, title, stage } })[] }
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const jobs = await getJobsByUserId(userId);
+    const history = await getStageHistoryForJobs(jobs.map((job) => job.id));
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+
+    const reminders = getDueReminders(jobs, history).map((reminder) => {
+      const { id, company, title, stage } = jobsById.get(reminder.jobId)!;
+      return { ...reminder, job: { id, company, title, stage } };
+    });
+
+    return NextResponse.json({ reminders });
+  } catch (error) {
+    console.error("Error fetching reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Stage } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    stage: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    job: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const params = { params: Promise.resolve({ id: "4" }) };
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/stages/4", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+
+const existingStage = {
+  id: 4,
+  userId: TEST_USER_ID,
+  name: "Phone screen",
+  color: "purple",
+  position: 2,
+  category: "INTERVIEW",
+  archivedAt: null,
+} as Stage;
+
+describe("PATCH /api/stages/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue(existingStage);
+    vi.mocked(prisma.stage.findMany).mockResolvedValue([
+      existingStage,
+      { ...existingStage, id: 5, name: "Take-home" },
+    ]);
+    vi.mocked(prisma.stage.update).mockResolvedValue(existingStage);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await PATCH(createRequest({ color: "red" }), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the stage doesn't exist", async () => {
+    mockAuth();
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue(null);
+
+    const response = await PATCH(createRequest({ color: "red" }), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 if the stage belongs to another user", async () => {
+    mockAuth("other_user");
+
+    const response = await PATCH(createRequest({ color: "red" }), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.stage.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for a color outside the palette", async () => {
+    mockAuth();
+
+    const response = await PATCH(createRequest({ color: "#ff0000" }), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should rename, recolor and recategorize the stage", async () => {
+    // Act
+    mockAuth();
+    const response = await PATCH(
+      createRequest({ name: "Screening", color: "red", category: "APPLIED" }),
+      params
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.stage.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: { name: "Screening", color: "red", category: "APPLIED" },
+    });
+  });
+
+  it("should return 409 when renaming to another stage's name", async () => {
+    mockAuth();
+
+    const response = await PATCH(createRequest({ name: "take-home" }), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.stage.update).not.toHaveBeenCalled();
+  });
+
+  it("should allow changing the case of the stage's own name", async () => {
+    mockAuth();
+
+    const response = await PATCH(
+      createRequest({ name: "Phone Screen" }),
+      params
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should archive an empty stage", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.job.count).mockResolvedValue(0);
+
+    // Act
+    const response = await PATCH(createRequest({ archived: true }), params);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.count).toHaveBeenCalledWith({
+      where: { stageId: 4, deletedAt: null },
+    });
+    expect(prisma.stage.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: { archivedAt: expect.any(Date) },
+    });
+  });
+
+  it("should return 409 when archiving a stage that holds jobs", async () => {
+    mockAuth();
+    vi.mocked(prisma.job.count).mockResolvedValue(2);
+
+    const response = await PATCH(createRequest({ archived: true }), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.stage.update).not.toHaveBeenCalled();
+  });
+
+  it("should unarchive a stage", async () => {
+    mockAuth();
+    vi.mocked(prisma.stage.findUnique).mockResolvedValue({
+      ...existingStage,
+      archivedAt: new Date("2025-01-01"),
+    });
+
+    const response = await PATCH(createRequest({ archived: false }), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.stage.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: { archivedAt: null },
+    });
+  });
+});
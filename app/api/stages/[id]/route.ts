@@ -0,0 +1,97 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { authorizeOwner } from "@/lib/authorization";
+import { updateStageSchema } from "@/lib/schemas";
+import { findStageByName } from "@/lib/stages";
+import {
+  countJobsInStage,
+  getStageById,
+  getStagesByUserId,
+  updateStage,
+  UpdateStageInput,
+} from "@/lib/queries/stages";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Load a stage, checking that it exists and belongs to the user
+ *
+ * @returns The stage, or an error response
+ */
+async function getOwnedStage(params: RouteParams["params"], userId: string) {
+  const { id: idParam } = await params;
+  const { resource: stage, error } = authorizeOwner(
+    await getStageById(Number(idParam)),
+    userId,
+    "Stage"
+  );
+  if (error) return { error };
+
+  return { stage };
+}
+
+/**
+ * PATCH /api/stages/[id]
+ * Rename, recolor or recategorize a stage, or archive or unarchive it.
+ * Only empty stages can be archived, so move their jobs elsewhere first.
+ *
+ * Request body: { name?, color?, category?, archived?: boolean }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { archived, ...validated } = updateStageSchema.parse(body);
+
+    const { stage, error } = await getOwnedStage(params, userId);
+    if (error) return error;
+
+    if (validated.name !== undefined) {
+      const stages = await getStagesByUserId(userId);
+      const existing = findStageByName(stages, validated.name);
+      if (existing && existing.id !== stage.id) {
+        return NextResponse.json(
+          { error: "A stage with this name already exists" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const data: UpdateStageInput = { ...validated };
+
+    if (archived === true && !stage.archivedAt) {
+      if ((await countJobsInStage(stage.id)) > 0) {
+        return NextResponse.json(
+          { error: "Move the jobs out of this stage before archiving it" },
+          { status: 409 }
+        );
+      }
+      data.archivedAt = new Date();
+    } else if (archived === false) {
+      data.archivedAt = null;
+    }
+
+    const updated = await updateStage(stage.id, data);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating stage:", error);
+    return NextResponse.json(
+      { error: "Failed to update stage" },
+      { status: 500 }
+    );
+  }
+}
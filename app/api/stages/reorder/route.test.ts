@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Stage } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    stage: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/stages/reorder", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const stages = [1, 2, 3].map(
+  (id) => ({ id, userId: TEST_USER_ID, position: id - 1 }) as Stage
+);
+
+describe("POST /api/stages/reorder", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.stage.findMany).mockResolvedValue(stages);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(createRequest({ stageIds: [3, 1, 2] }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 400 unless every stage is listed once", async () => {
+    mockAuth();
+
+    for (const stageIds of [
+      [3, 1],
+      [3, 1, 1],
+      [3, 1, 2, 99],
+    ]) {
+      const response = await POST(createRequest({ stageIds }));
+      expect(response.status).toBe(400);
+    }
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should store each stage's index as its position", async () => {
+    // Arrange
+    mockAuth();
+
+    // Act
+    const response = await POST(createRequest({ stageIds: [3, 1, 2] }));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.stage.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { position: 0 },
+    });
+    expect(prisma.stage.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { position: 2 },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { reorderStagesSchema } from "@/lib/schemas";
+import { getStagesByUserId, reorderStages } from "@/lib/queries/stages";
+
+/**
+ * POST /api/stages/reorder
+ * Store a new column order
+ *
+ * Request body: { stageIds: number[] } - all of the user's stages, archived
+ * ones too, in their new order
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { stageIds } = reorderStagesSchema.parse(body);
+
+    const stages = await getStagesByUserId(userId);
+    const ownedIds = new Set(stages.map((stage) => stage.id));
+    if (
+      stageIds.length !== ownedIds.size ||
+      new Set(stageIds).size !== stageIds.length ||
+      !stageIds.every((id) => ownedIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "stageIds must list each of your stages once" },
+        { status: 400 }
+      );
+    }
+
+    await reorderStages(stageIds);
+
+    return NextResponse.json(await getStagesByUserId(userId));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error reordering stages:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder stages" },
+      { status: 500 }
+    );
+  }
+}
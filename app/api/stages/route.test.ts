@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Stage } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    stage: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+// Test helpers
+const TEST_USER_ID = "user_123";
+
+const mockAuth = (userId: string | null = TEST_USER_ID) => {
+  vi.mocked(auth).mockResolvedValue({ userId } as MockAuth);
+};
+
+const createRequest = (body: unknown) =>
+  new Request("http://test/api/stages", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const stage = (overrides: Partial<Stage> = {}): Stage => ({
+  id: 1,
+  userId: TEST_USER_ID,
+  name: "Applied",
+  color: "blue",
+  position: 0,
+  category: "APPLIED",
+  archivedAt: null,
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+  ...overrides,
+});
+
+describe("GET /api/stages", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the user's stages in board order", async () => {
+    mockAuth();
+    vi.mocked(prisma.stage.findMany).mockResolvedValue([stage()]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual([expect.objectContaining({ name: "Applied" })]);
+    expect(prisma.stage.findMany).toHaveBeenCalledWith({
+      where: { userId: TEST_USER_ID },
+      orderBy: [{ position: "asc" }, { id: "asc" }],
+    });
+    expect(prisma.stage.createMany).not.toHaveBeenCalled();
+  });
+
+  it("should create the default stages for a new user", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.stage.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([stage()]);
+
+    // Act
+    const response = await GET();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.stage.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        {
+          userId: TEST_USER_ID,
+          name: "Wishlist",
+          color: "gray",
+          category: "WISHLIST",
+          position: 0,
+        },
+      ]),
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("POST /api/stages", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.stage.findMany).mockResolvedValue([
+      stage({ id: 1, name: "Applied", position: 0 }),
+      stage({ id: 2, name: "Offer", position: 1, category: "OFFER" }),
+    ]);
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockAuth(null);
+
+    const response = await POST(
+      createRequest({ name: "Phone screen", category: "INTERVIEW" })
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 400 for an unknown category", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ name: "Phone screen", category: "SCREENING" })
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.stage.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 409 if the user has a stage with that name", async () => {
+    mockAuth();
+
+    const response = await POST(
+      createRequest({ name: " applied ", category: "APPLIED" })
+    );
+
+    expect(response.status).toBe(409);
+    expect(prisma.stage.create).not.toHaveBeenCalled();
+  });
+
+  it("should add the stage after the last one", async () => {
+    // Arrange
+    mockAuth();
+    vi.mocked(prisma.stage.findFirst).mockResolvedValue(
+      stage({ id: 2, name: "Offer", position: 1 })
+    );
+    vi.mocked(prisma.stage.create).mockResolvedValue(
+      stage({ id: 3, name: "Phone screen", position: 2 })
+    );
+
+    // Act
+    const response = await POST(
+      createRequest({ name: "Phone screen", category: "INTERVIEW" })
+    );
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(prisma.stage.create).toHaveBeenCalledWith({
+      data: {
+        name: "Phone screen",
+        color: "gray",
+        category: "INTERVIEW",
+        userId: TEST_USER_ID,
+        position: 2,
+      },
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { stageSchema } from "@/lib/schemas";
+import { findStageByName } from "@/lib/stages";
+import { createStage, getStagesByUserId } from "@/lib/queries/stages";
+
+/**
+ * GET /api/stages
+ * List the user's stages in board order, archived ones too
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const stages = await getStagesByUserId(userId);
+
+    return NextResponse.json(stages);
+  } catch (error) {
+    console.error("Error fetching stages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stages
+ * Add a stage as the last column of the board
+ *
+ * Request body: { name: string, color?: StageColor, category: StageCategory }
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const validated = stageSchema.parse(body);
+
+    const stages = await getStagesByUserId(userId);
+    if (findStageByName(stages, validated.name)) {
+      return NextResponse.json(
+        { error: "A stage with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const stage = await createStage({ ...validated, userId });
+
+    return NextResponse.json(stage, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error creating stage:", error);
+    return NextResponse.json(
+      { error: "Failed to create stage" },
+      { status: 500 }
+    );
+  }
+}
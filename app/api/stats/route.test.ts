@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import type { Job, JobHistory, Stage } from "@prisma/client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    job: {
+      findMany: vi.fn(),
+    },
+    jobHistory: {
+      findMany: vi.fn(),
+    },
+    stage: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+
+const mockUserId = "user_123";
+
+const stages = [
+  { id: 11, name: "Applied", category: "APPLIED", position: 0 },
+  { id: 12, name: "Phone screen", category: "INTERVIEW", position: 1 },
+].map((stage) => ({
+  ...stage,
+  userId: mockUserId,
+  color: "blue",
+  archivedAt: null,
+})) as Stage[];
+
+const interviewJob = {
+  id: 1,
+  userId: mockUserId,
+  company: "Acme",
+  stageId: 12,
+  dateApplied: new Date("2025-03-03"),
+  jobPostingUrl: "https://www.linkedin.com/jobs/view/1",
+  createdAt: new Date("2025-03-01T09:00:00Z"),
+} as Job;
+
+describe("GET /api/stats", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-20T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as MockAuth);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should compute stats from the user's jobs, stages and stage history", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockResolvedValue([interviewJob]);
+    vi.mocked(prisma.stage.findMany).mockResolvedValue(stages);
+    vi.mocked(prisma.jobHistory.findMany).mockResolvedValue([
+      {
+        jobId: 1,
+        fieldChanged: "stageId",
+        newValue: "11",
+        changedAt: new Date("2025-03-03T09:00:00Z"),
+      },
+      {
+        jobId: 1,
+        fieldChanged: "stageId",
+        newValue: "12",
+        changedAt: new Date("2025-03-08T09:00:00Z"),
+      },
+    ] as JobHistory[]);
+
+    // Act
+    const response = await GET();
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: mockUserId, deletedAt: null },
+      })
+    );
+    expect(prisma.jobHistory.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ jobId: { in: [1] } }),
+      })
+    );
+    expect(data.funnel[1]).toEqual({
+      category: "INTERVIEW",
+      count: 1,
+      conversionRate: 1,
+    });
+    expect(data.medianDaysInStage).toEqual([
+      { stageId: 11, name: "Applied", color: "blue", days: 5 },
+      { stageId: 12, name: "Phone screen", color: "blue", days: null },
+    ]);
+    expect(data.applicationsPerWeek.at(-3)).toEqual({
+      weekStart: "2025-03-03",
+      count: 1,
+    });
+    expect(data.responseRateBySource).toEqual([
+      { source: "linkedin.com", applied: 1, responded: 1, rate: 1 },
+    ]);
+  });
+
+  it("should return 500 when the database fails", async () => {
+    // Arrange
+    vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(prisma.job.findMany).mockRejectedValue(new Error("DB down"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    // Act
+    const response = await GET();
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Failed to compute stats" });
+
+    consoleErrorSpy.mockRestore();
+  });
+});
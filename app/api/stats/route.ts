@@ -0,0 +1,36 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getJobsByUserId } from "@/lib/queries/jobs";
+import { getStageHistoryForJobs } from "@/lib/queries/job-history";
+import { getStagesByUserId } from "@/lib/queries/stages";
+import { computeJobStats } from "@/lib/stats";
+
+/**
+ * GET /api/stats
+ * Statistics over the user's non-deleted jobs (see lib/stats.ts): the
+ * application funnel with conversion rates, rejections, median days in
+ * each stage, applications per week and response rate by source domain
+ *
+ * Response: JobStats
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const jobs = await getJobsByUserId(userId);
+    const history = await getStageHistoryForJobs(jobs.map((job) => job.id));
+    const stages = await getStagesByUserId(userId);
+
+    return NextResponse.json(computeJobStats(jobs, history, stages));
+  } catch (error) {
+    console.error("Error computing stats:", error);
+    return NextResponse.json(
+      { error: "Failed to compute stats" },
+      { status: 500 }
+    );
+  }
+}
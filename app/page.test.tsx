@@ -8,12 +8,34 @@ vi.mock("@clerk/nextjs/server", () => ({
 
 // Mock data fetching
 vi.mock("@/lib/queries/jobs", () => ({
-  getJobsByUserIdSafe: vi.fn(),
+  getJobsByBoardIdSafe: vi.fn(),
+}));
+
+vi.mock("@/lib/queries/boards", () => ({
+  getAccessibleBoardsSafe: vi.fn(),
+}));
+
+vi.mock("@/lib/authorization", () => ({
+  claimInvites: vi.fn(),
+}));
+
+vi.mock("@/lib/queries/stages", () => ({
+  getStagesByUserIdSafe: vi.fn(),
 }));
 
 // Mock child components
 vi.mock("@/components/job-board", () => ({
-  JobBoard: () => <div data-testid="job-board">JobBoard</div>,
+  JobBoard: ({ boardId }: { boardId: number }) => (
+    <div data-testid="job-board">JobBoard {boardId}</div>
+  ),
+}));
+
+vi.mock("@/app/_components/board-switcher", () => ({
+  BoardSwitcher: () => <div data-testid="board-switcher">BoardSwitcher</div>,
+}));
+
+vi.mock("@/components/needs-attention", () => ({
+  NeedsAttention: () => <div data-testid="needs-attention">NeedsAttention</div>,
 }));
 
 vi.mock("@/app/_components/header-actions", () => ({
@@ -26,7 +48,11 @@ vi.mock("@/app/_components/header-actions", () => ({
 }));
 
 import { auth } from "@clerk/nextjs/server";
-import { getJobsByUserIdSafe } from "@/lib/queries/jobs";
+import { getJobsByBoardIdSafe } from "@/lib/queries/jobs";
+import { getAccessibleBoardsSafe } from "@/lib/queries/boards";
+import { claimInvites } from "@/lib/authorization";
+import type { BoardAccessRole } from "@/lib/boards";
+import { getStagesByUserIdSafe } from "@/lib/queries/stages";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MockAuth = any;
@@ -34,19 +60,44 @@ type MockAuth = any;
 describe("Home Page", () => {
   const mockUserId = "user_123";
 
-  async function renderHome() {
+  const board = (
+    id: number,
+    name: string,
+    {
+      userId = mockUserId,
+      role = "OWNER",
+    }: { userId?: string; role?: BoardAccessRole } = {}
+  ) => ({
+    id,
+    userId,
+    name,
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  async function renderHome(searchParams: { board?: string } = {}) {
     const Home = (await import("./page")).default;
-    const result = await Home();
+    const result = await Home({ searchParams: Promise.resolve(searchParams) });
     return render(result);
   }
 
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(auth).mockResolvedValue({ userId: mockUserId } as MockAuth);
+    vi.mocked(getStagesByUserIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+    vi.mocked(claimInvites).mockResolvedValue(undefined);
+    vi.mocked(getAccessibleBoardsSafe).mockResolvedValue({
+      data: [board(1, "My board"), board(2, "Consulting")],
+      error: null,
+    });
   });
 
   it("should display error message when job fetching fails", async () => {
-    vi.mocked(getJobsByUserIdSafe).mockResolvedValue({
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
       data: null,
       error: "Database error",
     });
@@ -61,8 +112,27 @@ describe("Home Page", () => {
     expect(screen.queryByTestId("job-board")).not.toBeInTheDocument();
   });
 
+  it("should display error message when stage fetching fails", async () => {
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+    vi.mocked(getStagesByUserIdSafe).mockResolvedValue({
+      data: null,
+      error: "Database error",
+    });
+
+    await renderHome();
+
+    expect(
+      screen.getByText(
+        "Whoops, something went wrong here. Please try again later."
+      )
+    ).toBeInTheDocument();
+  });
+
   it("should render job board when jobs load successfully", async () => {
-    vi.mocked(getJobsByUserIdSafe).mockResolvedValue({
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
       data: [],
       error: null,
     });
@@ -76,7 +146,81 @@ describe("Home Page", () => {
     ).not.toBeInTheDocument();
     expect(screen.getByText("Get a Job")).toBeInTheDocument();
     expect(screen.getByTestId("job-board")).toBeInTheDocument();
+    expect(screen.getByTestId("needs-attention")).toBeInTheDocument();
     expect(screen.getByTestId("theme-toggle")).toBeInTheDocument();
     expect(screen.getByTestId("user-button")).toBeInTheDocument();
   });
+
+  it("should show the board picked in the URL", async () => {
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+
+    await renderHome({ board: "2" });
+
+    expect(getJobsByBoardIdSafe).toHaveBeenCalledWith(2);
+    expect(screen.getByTestId("job-board")).toHaveTextContent("JobBoard 2");
+    expect(screen.getByTestId("board-switcher")).toBeInTheDocument();
+  });
+
+  it("should fall back to the first board for an unknown board", async () => {
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+
+    await renderHome({ board: "99" });
+
+    expect(getJobsByBoardIdSafe).toHaveBeenCalledWith(1);
+  });
+
+  it("should show a shared board with its owner's stages", async () => {
+    vi.mocked(getAccessibleBoardsSafe).mockResolvedValue({
+      data: [
+        board(1, "My board"),
+        board(5, "Team search", { userId: "user_owner", role: "VIEWER" }),
+      ],
+      error: null,
+    });
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+
+    await renderHome({ board: "5" });
+
+    expect(claimInvites).toHaveBeenCalledWith(mockUserId);
+    expect(getJobsByBoardIdSafe).toHaveBeenCalledWith(5);
+    expect(getStagesByUserIdSafe).toHaveBeenCalledWith("user_owner");
+  });
+
+  it("should still render when claiming invites fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(claimInvites).mockRejectedValue(new Error("Clerk down"));
+    vi.mocked(getJobsByBoardIdSafe).mockResolvedValue({
+      data: [],
+      error: null,
+    });
+
+    await renderHome();
+
+    expect(screen.getByTestId("job-board")).toBeInTheDocument();
+  });
+
+  it("should display error message when board fetching fails", async () => {
+    vi.mocked(getAccessibleBoardsSafe).mockResolvedValue({
+      data: null,
+      error: "Database error",
+    });
+
+    await renderHome();
+
+    expect(
+      screen.getByText(
+        "Whoops, something went wrong here. Please try again later."
+      )
+    ).toBeInTheDocument();
+    expect(getJobsByBoardIdSafe).not.toHaveBeenCalled();
+  });
 });
@@ -2,12 +2,46 @@ import { auth } from "@clerk/nextjs/server";
 import { Briefcase } from "lucide-react";
 import { JobBoard } from "@/components/job-board";
 import { HeaderActions } from "@/app/_components/header-actions";
-import { getJobsByUserIdSafe } from "@/lib/queries/jobs";
+import { BoardSwitcher } from "@/app/_components/board-switcher";
+import { NeedsAttention } from "@/components/needs-attention";
+import { getMoveTargets, pickBoard } from "@/lib/boards";
+import { claimInvites } from "@/lib/authorization";
+import { getAccessibleBoardsSafe } from "@/lib/queries/boards";
+import { getJobsByBoardIdSafe } from "@/lib/queries/jobs";
+import { getStagesByUserIdSafe } from "@/lib/queries/stages";
 
-export default async function Home() {
+interface HomeProps {
+  searchParams: Promise<{ board?: string }>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
   const { userId } = await auth();
+  const { board: requestedBoard } = await searchParams;
 
-  const { data: jobs, error } = await getJobsByUserIdSafe(userId!);
+  // Open invites become shared boards on the first visit after signing in
+  await claimInvites(userId!).catch((error) =>
+    console.error("Error claiming board invites:", error)
+  );
+
+  const { data: boards, error: boardsError } = await getAccessibleBoardsSafe(
+    userId!
+  );
+  const board = pickBoard(boards ?? [], requestedBoard);
+
+  // A shared board uses its owner's stages
+  const [
+    { data: jobs, error: jobsError },
+    { data: stages, error: stagesError },
+  ] = board
+    ? await Promise.all([
+        getJobsByBoardIdSafe(board.id),
+        getStagesByUserIdSafe(board.userId),
+      ])
+    : [
+        { data: null, error: null },
+        { data: null, error: null },
+      ];
+  const error = boardsError ?? jobsError ?? stagesError;
 
   return (
     <div className="flex min-h-screen flex-col bg-background">
@@ -23,19 +57,32 @@ export default async function Home() {
                 Simple Kanban for your job search
               </p>
             </div>
+            {board && (
+              <BoardSwitcher boards={boards ?? []} currentBoardId={board.id} />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <NeedsAttention />
+            <HeaderActions boardId={board?.id} role={board?.role} />
           </div>
-          <HeaderActions />
         </div>
       </header>
       <main className="flex flex-1 flex-col pt-2">
-        {error ? (
+        {error || !board ? (
           <div className="flex flex-1 items-center justify-center">
             <p className="text-destructive">
               Whoops, something went wrong here. Please try again later.
             </p>
           </div>
         ) : (
-          <JobBoard jobs={jobs || []} />
+          <JobBoard
+            key={board.id}
+            jobs={jobs || []}
+            stages={stages || []}
+            boards={getMoveTargets(boards ?? [], board)}
+            boardId={board.id}
+            role={board.role}
+          />
         )}
       </main>
     </div>
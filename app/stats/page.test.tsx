@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import type { Job } from "@prisma/client";
+
+// Mock Clerk auth
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(),
+}));
+
+// Mock data fetching
+vi.mock("@/lib/queries/jobs", () => ({
+  getJobsByUserId: vi.fn(),
+}));
+
+vi.mock("@/lib/queries/job-history", () => ({
+  getStageHistoryForJobs: vi.fn(async () => []),
+}));
+
+vi.mock("@/lib/queries/stages", () => ({
+  getStagesByUserId: vi.fn(async () => [
+    { id: 1, name: "Applied", color: "blue", position: 0, category: "APPLIED" },
+    {
+      id: 2,
+      name: "Phone screen",
+      color: "teal",
+      position: 1,
+      category: "INTERVIEW",
+    },
+  ]),
+}));
+
+import { auth } from "@clerk/nextjs/server";
+import { getJobsByUserId } from "@/lib/queries/jobs";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockAuth = any;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockJobs = any;
+
+const job = (id: number, stageId: number, jobPostingUrl: string | null) =>
+  ({
+    id,
+    stageId,
+    dateApplied: new Date(),
+    jobPostingUrl,
+    createdAt: new Date(),
+  }) as Job;
+
+describe("Stats Page", () => {
+  async function renderStats() {
+    const StatsPage = (await import("./page")).default;
+    const result = await StatsPage();
+    return render(result);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as MockAuth);
+  });
+
+  it("should display error message when loading fails", async () => {
+    vi.mocked(getJobsByUserId).mockRejectedValue(new Error("Database error"));
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await renderStats();
+
+    expect(
+      screen.getByText(
+        "Whoops, something went wrong here. Please try again later."
+      )
+    ).toBeInTheDocument();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it("should explain the empty state before anything was applied for", async () => {
+    vi.mocked(getJobsByUserId).mockResolvedValue([]);
+
+    await renderStats();
+
+    expect(screen.getByText(/No applications yet/)).toBeInTheDocument();
+  });
+
+  it("should render the charts", async () => {
+    // Arrange
+    vi.mocked(getJobsByUserId).mockResolvedValue([
+      job(1, 1, "https://www.linkedin.com/jobs/view/1"),
+      job(2, 2, "https://www.linkedin.com/jobs/view/2"),
+    ] as MockJobs);
+
+    // Act
+    await renderStats();
+
+    // Assert
+    const funnel = screen.getByRole("region", { name: "Funnel" });
+    expect(within(funnel).getByText("Interview")).toBeInTheDocument();
+    expect(within(funnel).getByText("(50%)")).toBeInTheDocument();
+    expect(
+      within(screen.getByRole("region", { name: "Time in stage" })).getByText(
+        "Phone screen"
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("img", { name: "Applications per week" })
+    ).toBeInTheDocument();
+    expect(
+      within(
+        screen.getByRole("region", { name: "Response rate by source" })
+      ).getByText("linkedin.com")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("link", { name: /back to board/i })
+    ).toHaveAttribute("href", "/");
+  });
+});
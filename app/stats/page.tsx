@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FunnelChart,
+  RejectionsChart,
+  SourcesTable,
+  TimeInStageChart,
+  WeeklyApplicationsChart,
+} from "@/components/stats-charts";
+import { getJobsByUserId } from "@/lib/queries/jobs";
+import { getStageHistoryForJobs } from "@/lib/queries/job-history";
+import { getStagesByUserId } from "@/lib/queries/stages";
+import { computeJobStats, type JobStats } from "@/lib/stats";
+
+export const metadata: Metadata = {
+  title: "Statistics - Get a Job",
+};
+
+/**
+ * Load the user's stats, or null when the database can't be reached
+ */
+async function getStatsSafe(userId: string): Promise<JobStats | null> {
+  try {
+    const jobs = await getJobsByUserId(userId);
+    const history = await getStageHistoryForJobs(jobs.map((job) => job.id));
+    const stages = await getStagesByUserId(userId);
+    return computeJobStats(jobs, history, stages);
+  } catch (error) {
+    console.error("Database error computing stats:", error);
+    return null;
+  }
+}
+
+export default async function StatsPage() {
+  const { userId } = await auth();
+
+  const stats = await getStatsSafe(userId!);
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="flex items-center justify-between px-4 py-3">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center rounded-lg bg-brand-blue p-2">
+              <BarChart3 className="h-7 w-7 text-brand-blue-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Statistics</h1>
+              <p className="text-sm text-muted-foreground">
+                How your job search is going
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="size-4" />
+              Back to board
+            </Link>
+          </Button>
+        </div>
+      </header>
+      <main className="flex flex-1 flex-col p-4">
+        {!stats ? (
+          <div className="flex flex-1 items-center justify-center">
+            <p className="text-destructive">
+              Whoops, something went wrong here. Please try again later.
+            </p>
+          </div>
+        ) : stats.funnel[0].count === 0 ? (
+          <div className="flex flex-1 items-center justify-center">
+            <p className="text-muted-foreground">
+              No applications yet. Statistics appear once you move a job to
+              Applied.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <FunnelChart funnel={stats.funnel} />
+            <RejectionsChart rejections={stats.rejections} />
+            <WeeklyApplicationsChart
+              applicationsPerWeek={stats.applicationsPerWeek}
+            />
+            <TimeInStageChart medianDaysInStage={stats.medianDaysInStage} />
+            <div className="lg:col-span-2">
+              <SourcesTable responseRateBySource={stats.responseRateBySource} />
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { BoardMembers } from "./board-members";
+
+// Test helpers
+const member = (id: number, email: string, userId: string | null) => ({
+  id,
+  boardId: 1,
+  email,
+  userId,
+  role: "VIEWER",
+  invitedBy: "user_123",
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+const mockFetch = (
+  members: unknown[],
+  actionResponse: unknown = { ok: true, json: async () => ({}) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/boards/1/members" && !init?.method
+        ? { ok: true, json: async () => members }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("BoardMembers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("marks invites that haven't been accepted as pending", async () => {
+    // Arrange
+    mockFetch([
+      member(1, "coach@example.com", "user_coach"),
+      member(2, "partner@example.com", null),
+    ]);
+
+    // Act
+    render(<BoardMembers boardId={1} />);
+
+    // Assert
+    expect(await screen.findByText("coach@example.com")).toBeInTheDocument();
+    expect(screen.getAllByText("Pending")).toHaveLength(1);
+  });
+
+  it("invites a collaborator by email", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([], {
+      ok: true,
+      json: async () => member(3, "coach@example.com", null),
+    });
+    render(<BoardMembers boardId={1} />);
+
+    // Act
+    await user.type(
+      await screen.findByPlaceholderText("colleague@example.com"),
+      "Coach@Example.com"
+    );
+    await user.click(screen.getByRole("button", { name: /invite/i }));
+
+    // Assert
+    expect(await screen.findByText("coach@example.com")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/boards/1/members",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ email: "coach@example.com", role: "VIEWER" }),
+      })
+    );
+  });
+
+  it("shows why an invite failed", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([], {
+      ok: false,
+      json: async () => ({ error: "This email address is already invited" }),
+    });
+    render(<BoardMembers boardId={1} />);
+
+    // Act
+    await user.type(
+      await screen.findByPlaceholderText("colleague@example.com"),
+      "coach@example.com"
+    );
+    await user.click(screen.getByRole("button", { name: /invite/i }));
+
+    // Assert
+    expect(
+      await screen.findByText("This email address is already invited")
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { BoardMember, BoardRole } from "@prisma/client";
+import { Trash2, UserPlus } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  inviteBoardMemberSchema,
+  type InviteBoardMemberData,
+} from "@/lib/schemas";
+import { BOARD_ROLES, getRoleLabel } from "@/lib/boards";
+import type { z } from "zod";
+
+interface BoardMembersProps {
+  boardId: number;
+}
+
+/**
+ * Form for inviting someone to a board by email
+ */
+function InviteForm({
+  onSubmit,
+}: {
+  onSubmit: (data: InviteBoardMemberData) => Promise<boolean>;
+}) {
+  const form = useForm<
+    z.input<typeof inviteBoardMemberSchema>,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    any,
+    InviteBoardMemberData
+  >({
+    resolver: zodResolver(inviteBoardMemberSchema),
+    defaultValues: { email: "", role: "VIEWER" },
+  });
+
+  async function handleSubmit(data: InviteBoardMemberData) {
+    if (await onSubmit(data)) {
+      form.reset({ email: "", role: data.role });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className="flex items-start gap-2"
+        aria-label="Invite collaborator"
+      >
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormLabel className="sr-only">Email</FormLabel>
+              <FormControl>
+                <Input
+                  type="email"
+                  placeholder="colleague@example.com"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-32" aria-label="Role">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {BOARD_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {getRoleLabel(role)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" size="sm" disabled={form.formState.isSubmitting}>
+          <UserPlus className="size-4" />
+          Invite
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * Collaborators of a board the user owns, with invite, role change and
+ * removal. Invites that haven't been accepted yet are marked pending.
+ */
+export function BoardMembers({ boardId }: BoardMembersProps) {
+  const [members, setMembers] = useState<BoardMember[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadMembers() {
+      try {
+        const response = await fetch(`/api/boards/${boardId}/members`);
+        if (!response.ok) {
+          throw new Error("Failed to load collaborators");
+        }
+        const data: BoardMember[] = await response.json();
+        if (!cancelled) setMembers(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load collaborators"
+          );
+        }
+      }
+    }
+
+    loadMembers();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  /**
+   * Invite someone, keeping the list in email order
+   *
+   * @returns Whether the invite was sent, to clear the form
+   */
+  async function handleInvite(data: InviteBoardMemberData) {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/boards/${boardId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to invite collaborator");
+      }
+
+      const member: BoardMember = await response.json();
+      setMembers((prev) =>
+        [...(prev ?? []), member].sort((a, b) => a.email.localeCompare(b.email))
+      );
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      return false;
+    }
+  }
+
+  async function handleRoleChange(member: BoardMember, role: BoardRole) {
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/boards/${boardId}/members/${member.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to change role");
+      }
+
+      const updated: BoardMember = await response.json();
+      setMembers(
+        (prev) => prev?.map((m) => (m.id === updated.id ? updated : m)) ?? null
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Remove a collaborator or withdraw an invite after confirmation
+   */
+  async function handleRemove(member: BoardMember) {
+    const confirmed = window.confirm(`Remove ${member.email} from this board?`);
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/boards/${boardId}/members/${member.id}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to remove collaborator");
+      }
+
+      setMembers((prev) => prev?.filter((m) => m.id !== member.id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  if (!members && !error) {
+    return (
+      <p className="text-sm text-muted-foreground">Loading collaborators...</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <InviteForm onSubmit={handleInvite} />
+
+      {members && members.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Only you can see this board.
+        </p>
+      )}
+
+      {members && members.length > 0 && (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {members.map((member) => (
+            <li
+              key={member.id}
+              className="flex items-center justify-between gap-2 p-2"
+            >
+              <p className="min-w-0 truncate text-sm">
+                {member.email}
+                {!member.userId && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    Pending
+                  </span>
+                )}
+              </p>
+              <div className="flex shrink-0 items-center gap-1">
+                <Select
+                  value={member.role}
+                  onValueChange={(role) =>
+                    handleRoleChange(member, role as BoardRole)
+                  }
+                >
+                  <SelectTrigger
+                    className="w-32"
+                    aria-label={`Role of ${member.email}`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOARD_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {getRoleLabel(role)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(member)}
+                  aria-label={`Remove ${member.email}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,47 @@
 "use client";
 
-import { Job, JobStatus } from "@prisma/client";
+import { Stage } from "@prisma/client";
+import { BoardJob, getBoardStages, getStageColor } from "@/lib/stages";
 import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
 import { JobCard } from "@/components/job-card";
 import { Button } from "@/components/ui/button";
 import { PlusIcon } from "lucide-react";
-import { getStatusColor } from "@/lib/utils";
 import { useEffect } from "react";
 
-const JOB_STATUSES: { value: JobStatus; label: string }[] = [
-  { value: "WISHLIST", label: "Wishlist" },
-  { value: "APPLIED", label: "Applied" },
-  { value: "INTERVIEW", label: "Interview" },
-  { value: "OFFER", label: "Offer" },
-  { value: "ACCEPTED", label: "Accepted" },
-  { value: "REJECTED", label: "Rejected" },
-];
-
 interface BoardViewProps {
-  jobs: Job[];
-  onJobClick: (job: Job) => void;
-  onAddClick: (status: JobStatus) => void;
+  jobs: BoardJob[];
+  stages: Stage[];
+  onJobClick: (job: BoardJob) => void;
+  // Without it (e.g. on a board the user may only view) there are no add buttons
+  onAddClick?: (stage: Stage) => void;
   onPasteUrl?: (url: string) => void;
 }
 
 function DroppableColumn({
-  status,
+  stage,
   jobs,
   onJobClick,
   onAddClick,
 }: {
-  status: { value: JobStatus; label: string };
-  jobs: Job[];
-  onJobClick: (job: Job) => void;
-  onAddClick: (status: JobStatus) => void;
+  stage: Stage;
+  jobs: BoardJob[];
+  onJobClick: (job: BoardJob) => void;
+  onAddClick?: (stage: Stage) => void;
 }) {
+  // Prefixed so column IDs can't collide with job IDs
   const { setNodeRef, isOver } = useDroppable({
-    id: status.value,
+    id: `stage-${stage.id}`,
+    data: { stage },
   });
 
   return (
     <div
       ref={setNodeRef}
-      data-testid={`column-${status.value}`}
+      data-testid={`column-${stage.name}`}
       className={`flex ${jobs.length > 0 ? "min-w-[300px]" : ""} flex-1 flex-col rounded-md ${
         isOver ? "bg-card" : "bg-card/65"
       }`}
@@ -50,29 +49,36 @@ function DroppableColumn({
       <div className="flex items-center justify-between gap-2 p-4">
         <div className="flex items-center gap-2">
           <span
-            className={`size-2.5 rounded-full ${getStatusColor(status.value)}`}
+            className={`size-2.5 rounded-full ${getStageColor(stage.color)}`}
             aria-hidden="true"
           />
-          <h2 className="font-semibold text-card-foreground">{status.label}</h2>
+          <h2 className="font-semibold text-card-foreground">{stage.name}</h2>
           {jobs.length > 0 && (
             <span className="flex h-8 w-8 items-center justify-center rounded-full bg-muted text-sm font-semibold text-muted-foreground">
               {jobs.length}
             </span>
           )}
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onAddClick(status.value)}
-          aria-label={`Add job to ${status.label}`}
-        >
-          <PlusIcon className="size-4" />
-        </Button>
+        {onAddClick && !stage.archivedAt && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onAddClick(stage)}
+            aria-label={`Add job to ${stage.name}`}
+          >
+            <PlusIcon className="size-4" />
+          </Button>
+        )}
       </div>
       <div className="flex-1 space-y-2 px-4 pb-4 transition-colors">
-        {jobs.map((job) => (
-          <JobCard key={job.id} job={job} onClick={onJobClick} />
-        ))}
+        <SortableContext
+          items={jobs.map((job) => job.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          {jobs.map((job) => (
+            <JobCard key={job.id} job={job} onClick={onJobClick} />
+          ))}
+        </SortableContext>
         {jobs.length === 0 && isOver && (
           <div className="flex h-32 items-center justify-center rounded-md border-2 border-dashed border-border text-sm text-muted-foreground">
             Drop jobs here
@@ -85,6 +91,7 @@ function DroppableColumn({
 
 export function BoardView({
   jobs,
+  stages,
   onJobClick,
   onAddClick,
   onPasteUrl,
@@ -117,21 +124,16 @@ export function BoardView({
     return () => document.removeEventListener("paste", handlePaste);
   }, [onPasteUrl]);
 
-  const jobsByStatus = JOB_STATUSES.reduce(
-    (acc, status) => {
-      acc[status.value] = jobs.filter((job) => job.status === status.value);
-      return acc;
-    },
-    {} as Record<JobStatus, Job[]>
-  );
+  // Archived stages stay on the board while they still hold jobs
+  const columns = getBoardStages(stages, jobs);
 
   return (
     <div className="flex flex-1 items-start gap-4 overflow-x-auto p-4">
-      {JOB_STATUSES.map((status) => (
+      {columns.map((stage) => (
         <DroppableColumn
-          key={status.value}
-          status={status}
-          jobs={jobsByStatus[status.value]}
+          key={stage.id}
+          stage={stage}
+          jobs={jobs.filter((job) => job.stageId === stage.id)}
           onJobClick={onJobClick}
           onAddClick={onAddClick}
         />
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { BoardsModal } from "./boards-modal";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+const mockPush = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+    push: mockPush,
+  }),
+}));
+
+// Test helpers
+const board = (id: number, name: string) => ({
+  id,
+  userId: "user_123",
+  name,
+  role: "OWNER",
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+const sharedBoard = (id: number, name: string, memberId: number) => ({
+  ...board(id, name),
+  userId: "user_owner",
+  role: "COMMENTER",
+  memberId,
+});
+
+const mockFetch = (
+  boards: unknown[],
+  actionResponse: unknown = { ok: true, json: async () => ({}) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/boards" && !init?.method
+        ? { ok: true, json: async () => boards }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("BoardsModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("doesn't offer to delete the only board", async () => {
+    // Arrange
+    mockFetch([board(1, "My board")]);
+
+    // Act
+    render(<BoardsModal open={true} onOpenChange={vi.fn()} />);
+
+    // Assert
+    expect(
+      await screen.findByRole("button", { name: "Delete My board" })
+    ).toBeDisabled();
+  });
+
+  it("adds a board and hands it to onCreated", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onCreated = vi.fn();
+    const created = board(2, "Consulting");
+    mockFetch([board(1, "My board")], {
+      ok: true,
+      json: async () => created,
+    });
+    render(
+      <BoardsModal open={true} onOpenChange={vi.fn()} onCreated={onCreated} />
+    );
+
+    // Act
+    await user.click(await screen.findByRole("button", { name: /add board/i }));
+    await user.type(screen.getByLabelText(/^name/i), "Consulting");
+    await user.click(screen.getByRole("button", { name: /save board/i }));
+
+    // Assert
+    expect(await screen.findByText("Consulting")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/boards",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ name: "Consulting" }),
+      })
+    );
+    expect(onCreated).toHaveBeenCalledWith(created);
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("shows why a board with jobs can't be deleted", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    mockFetch([board(1, "My board"), board(2, "Consulting")], {
+      ok: false,
+      json: async () => ({
+        error: "Move or delete the jobs on this board before deleting it",
+      }),
+    });
+    render(<BoardsModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Delete Consulting" })
+    );
+
+    // Assert
+    expect(
+      await screen.findByText(
+        "Move or delete the jobs on this board before deleting it"
+      )
+    ).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/boards/2",
+      expect.objectContaining({ method: "DELETE" })
+    );
+    expect(screen.getByText("Consulting")).toBeInTheDocument();
+  });
+
+  it("only offers to leave a board shared with the user", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    mockFetch([board(1, "My board"), sharedBoard(5, "Team search", 7)]);
+    render(<BoardsModal open={true} onOpenChange={vi.fn()} />);
+    const leave = await screen.findByRole("button", {
+      name: "Leave Team search",
+    });
+
+    // Assert
+    expect(screen.getByText(/Shared with you · Commenter/)).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Rename Team search" })
+    ).not.toBeInTheDocument();
+    // Shared boards don't count towards the user's own: still only one
+    expect(
+      screen.getByRole("button", { name: "Delete My board" })
+    ).toBeDisabled();
+
+    // Act
+    await user.click(leave);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/boards/5/members/7",
+      expect.objectContaining({ method: "DELETE" })
+    );
+    expect(mockPush).toHaveBeenCalledWith("/");
+  });
+});
@@ -0,0 +1,361 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Board } from "@prisma/client";
+import { LogOut, Pencil, Plus, Trash2, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { BoardMembers } from "@/components/board-members";
+import { boardSchema, type BoardData } from "@/lib/schemas";
+import { getRoleLabel, type BoardWithRole } from "@/lib/boards";
+
+interface BoardsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with a newly added board, e.g. to switch to it
+  onCreated?: (board: Board) => void;
+}
+
+/**
+ * Form for adding or renaming a board
+ */
+function BoardForm({
+  board,
+  onSubmit,
+  onCancel,
+}: {
+  board?: Board;
+  onSubmit: (data: BoardData) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const form = useForm<BoardData>({
+    resolver: zodResolver(boardSchema),
+    defaultValues: { name: board?.name ?? "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4 rounded-lg border border-border p-4"
+        aria-label={board ? "Rename board" : "Add board"}
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name *</FormLabel>
+              <FormControl>
+                <Input placeholder="Consulting leads" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? "Saving..." : "Save Board"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * The user's boards with add, rename, share and delete, and the boards
+ * shared with them, which they can leave. Loads the boards every time the
+ * modal opens and refreshes the page after each change. Only empty boards
+ * can be deleted, and never the user's last own one.
+ */
+export function BoardsModal({
+  open,
+  onOpenChange,
+  onCreated,
+}: BoardsModalProps) {
+  const [boards, setBoards] = useState<BoardWithRole[] | null>(null);
+  // The board being renamed, "new" while adding one
+  const [editing, setEditing] = useState<Board | "new" | null>(null);
+  // The board whose collaborators are shown
+  const [sharingId, setSharingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!open) {
+      setBoards(null);
+      setEditing(null);
+      setSharingId(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadBoards() {
+      try {
+        const response = await fetch("/api/boards");
+        if (!response.ok) {
+          throw new Error("Failed to load boards");
+        }
+        const data: BoardWithRole[] = await response.json();
+        if (!cancelled) setBoards(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load boards"
+          );
+        }
+      }
+    }
+
+    loadBoards();
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  async function handleSubmit(data: BoardData) {
+    setError(null);
+    const isNew = editing === "new";
+
+    try {
+      const response = await fetch(
+        isNew ? "/api/boards" : `/api/boards/${(editing as Board).id}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save board");
+      }
+
+      const saved: Board = await response.json();
+      setBoards((prev) =>
+        isNew
+          ? [...(prev ?? []), { ...saved, role: "OWNER" }]
+          : (prev?.map((board) =>
+              board.id === saved.id ? { ...board, ...saved } : board
+            ) ?? null)
+      );
+      setEditing(null);
+      router.refresh();
+      if (isNew) onCreated?.(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Delete a board after confirmation. The API refuses boards that still
+   * hold jobs.
+   */
+  async function handleDelete(board: Board) {
+    const confirmed = window.confirm(
+      `Delete ${board.name}?\n\nJobs in its trash are deleted with it.`
+    );
+
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/boards/${board.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete board");
+      }
+
+      setBoards((prev) => prev?.filter((b) => b.id !== board.id) ?? null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Leave a board shared with the user after confirmation
+   */
+  async function handleLeave(board: BoardWithRole) {
+    const confirmed = window.confirm(
+      `Leave ${board.name}?\n\nYou'll need a new invite to see it again.`
+    );
+
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/boards/${board.id}/members/${board.memberId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to leave board");
+      }
+
+      setBoards((prev) => prev?.filter((b) => b.id !== board.id) ?? null);
+      router.push("/");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  const ownBoardCount =
+    boards?.filter((board) => board.role === "OWNER").length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-lg max-h-[90vh] overflow-y-auto"
+        aria-describedby={undefined}
+      >
+        <DialogHeader>
+          <DialogTitle>Boards</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!boards && !error && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+
+          {boards && boards.length > 0 && (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {boards.map((board) =>
+                editing !== "new" && editing?.id === board.id ? (
+                  <li key={board.id} className="p-3">
+                    <BoardForm
+                      board={board}
+                      onSubmit={handleSubmit}
+                      onCancel={() => setEditing(null)}
+                    />
+                  </li>
+                ) : (
+                  <li key={board.id} className="space-y-3 p-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="min-w-0 truncate text-sm font-medium">
+                        {board.name}
+                        {board.role !== "OWNER" && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            Shared with you · {getRoleLabel(board.role)}
+                          </span>
+                        )}
+                      </p>
+                      {board.role === "OWNER" ? (
+                        <div className="flex shrink-0 gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setSharingId(
+                                sharingId === board.id ? null : board.id
+                              )
+                            }
+                            aria-label={`Share ${board.name}`}
+                            aria-expanded={sharingId === board.id}
+                          >
+                            <Users className="size-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditing(board)}
+                            aria-label={`Rename ${board.name}`}
+                          >
+                            <Pencil className="size-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(board)}
+                            disabled={ownBoardCount === 1}
+                            aria-label={`Delete ${board.name}`}
+                          >
+                            <Trash2 className="size-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleLeave(board)}
+                          aria-label={`Leave ${board.name}`}
+                        >
+                          <LogOut className="size-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {sharingId === board.id && (
+                      <BoardMembers boardId={board.id} />
+                    )}
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          {editing === "new" && (
+            <BoardForm
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          {editing === null && boards && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditing("new")}
+            >
+              <Plus className="size-4" />
+              Add Board
+            </Button>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
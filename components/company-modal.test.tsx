@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { CompanyModal } from "./company-modal";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const jane = { id: 4, name: "Jane Doe", role: "Recruiter", email: null };
+
+const job = (id: number, title: string, stage: string, contacts = [jane]) => ({
+  id,
+  company: "Spotify AB",
+  title,
+  stage: {
+    name: stage.charAt(0) + stage.slice(1).toLowerCase(),
+    color: "gray",
+    category: stage,
+  },
+  dateApplied: null,
+  createdAt: new Date().toISOString(),
+  contacts,
+});
+
+const company = {
+  id: 3,
+  userId: "user_123",
+  name: "Spotify",
+  aliases: ["Spotify Technology"],
+  website: "https://spotify.com",
+  notes: "Music streaming, squads and tribes",
+  jobs: [
+    job(1, "Backend Engineer", "INTERVIEW"),
+    job(2, "Data Engineer", "REJECTED"),
+  ],
+};
+
+const mockFetch = (
+  actionResponse: unknown = { ok: true, json: async () => company }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      !init?.method ? { ok: true, json: async () => company } : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("CompanyModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows applications, outcomes, contacts and research notes", async () => {
+    // Arrange
+    mockFetch();
+
+    // Act
+    render(<CompanyModal companyId={3} open={true} onOpenChange={vi.fn()} />);
+
+    // Assert
+    expect(await screen.findByText("Backend Engineer")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith("/api/companies/3");
+    expect(screen.getByText("Data Engineer")).toBeInTheDocument();
+    expect(
+      screen.getByText("Also known as Spotify Technology")
+    ).toBeInTheDocument();
+    const outcomes = screen.getByLabelText("Outcomes");
+    expect(
+      within(outcomes).getByText("Rejected").nextSibling
+    ).toHaveTextContent("1");
+    // Linked to both jobs, listed once
+    expect(screen.getAllByText("Jane Doe")).toHaveLength(1);
+    expect(
+      screen.getByText("Music streaming, squads and tribes")
+    ).toBeInTheDocument();
+  });
+
+  it("shows a shared board's company without editing", async () => {
+    // Arrange
+    mockFetch();
+
+    // Act
+    render(
+      <CompanyModal
+        companyId={3}
+        open={true}
+        onOpenChange={vi.fn()}
+        boardId={2}
+        readOnly
+      />
+    );
+
+    // Assert
+    expect(await screen.findByText("Backend Engineer")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith("/api/companies/3?boardId=2");
+    expect(
+      screen.queryByRole("button", { name: "Edit company" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("saves edited research notes and aliases", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch({
+      ok: true,
+      json: async () => ({ ...company, notes: "Hybrid, 3 days in office" }),
+    });
+    render(<CompanyModal companyId={3} open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Edit company" })
+    );
+    await user.clear(screen.getByLabelText("Research notes"));
+    await user.type(
+      screen.getByLabelText("Research notes"),
+      "Hybrid, 3 days in office"
+    );
+    await user.type(screen.getByLabelText("Also known as"), ", Spotify Tech");
+    await user.click(screen.getByRole("button", { name: "Save Company" }));
+
+    // Assert
+    expect(
+      await screen.findByText("Hybrid, 3 days in office")
+    ).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith("/api/companies/3", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Spotify",
+        website: "https://spotify.com",
+        notes: "Hybrid, 3 days in office",
+        aliases: ["Spotify Technology", " Spotify Tech"],
+      }),
+    });
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("shows the error when saving fails", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch({
+      ok: false,
+      json: async () => ({
+        error: '"Klarna" already belongs to another company',
+      }),
+    });
+    render(<CompanyModal companyId={3} open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Edit company" })
+    );
+    await user.click(screen.getByRole("button", { name: "Save Company" }));
+
+    // Assert
+    expect(
+      await screen.findByText('"Klarna" already belongs to another company')
+    ).toBeInTheDocument();
+  });
+});
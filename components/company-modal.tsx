@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Company } from "@prisma/client";
+import { Globe, Mail, Pencil } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { companyFormSchema, type CompanyFormData } from "@/lib/schemas";
+import { summarizeCompanyOutcomes } from "@/lib/companies";
+import { BoardJob, getStageColor } from "@/lib/stages";
+import { formatJobDate } from "@/lib/utils";
+
+// A company as returned by GET /api/companies/[id]
+type CompanyWithJobs = Company & { jobs: BoardJob[] };
+
+interface CompanyModalProps {
+  companyId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The board the company was opened from; on a board shared with the user
+  // only its applications are shown
+  boardId?: number;
+  // Hide editing, for companies that aren't the user's own
+  readOnly?: boolean;
+}
+
+const OUTCOME_LABELS: {
+  key: keyof ReturnType<typeof summarizeCompanyOutcomes>;
+  label: string;
+}[] = [
+  { key: "total", label: "Applications" },
+  { key: "active", label: "In progress" },
+  { key: "offers", label: "Offers" },
+  { key: "accepted", label: "Accepted" },
+  { key: "rejected", label: "Rejected" },
+];
+
+/**
+ * Form for a company's name, aliases, website and research notes
+ */
+function CompanyForm({
+  company,
+  onSubmit,
+  onCancel,
+}: {
+  company: Company;
+  onSubmit: (data: CompanyFormData) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const form = useForm<CompanyFormData>({
+    resolver: zodResolver(companyFormSchema),
+    defaultValues: {
+      name: company.name,
+      aliases: company.aliases.join(", "),
+      website: company.website ?? "",
+      notes: company.notes ?? "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4 rounded-lg border border-border p-4"
+        aria-label="Edit company"
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Spotify" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="website"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Website</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://company.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="aliases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Also known as</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Spotify Technology, Spotify Sweden"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Research notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Products, culture, funding, people you know there..."
+                  className="min-h-32"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? "Saving..." : "Save Company"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * Everything about one company: its applications and how they turned out,
+ * the contacts linked to them, and editable research notes. Loads the
+ * company every time the modal opens.
+ */
+export function CompanyModal({
+  companyId,
+  open,
+  onOpenChange,
+  boardId,
+  readOnly = false,
+}: CompanyModalProps) {
+  const [company, setCompany] = useState<CompanyWithJobs | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!open) {
+      setCompany(null);
+      setIsEditing(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadCompany() {
+      try {
+        const response = await fetch(
+          boardId === undefined
+            ? `/api/companies/${companyId}`
+            : `/api/companies/${companyId}?boardId=${boardId}`
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load company");
+        }
+        const data: CompanyWithJobs = await response.json();
+        if (!cancelled) setCompany(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load company"
+          );
+        }
+      }
+    }
+
+    loadCompany();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, companyId, boardId]);
+
+  async function handleSubmit({ aliases, ...data }: CompanyFormData) {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/companies/${companyId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...data,
+          aliases: (aliases ?? "").split(","),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save company");
+      }
+
+      setCompany(await response.json());
+      setIsEditing(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  const outcomes = company ? summarizeCompanyOutcomes(company.jobs) : null;
+  // Contacts across all applications, each listed once
+  const contacts = company
+    ? [
+        ...new Map(
+          company.jobs
+            .flatMap((job) => job.contacts)
+            .map((contact) => [contact.id, contact])
+        ).values(),
+      ].sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        aria-describedby={undefined}
+      >
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle>{company?.name ?? "Company"}</DialogTitle>
+            {company && !isEditing && !readOnly && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsEditing(true)}
+                className="mr-8"
+                aria-label="Edit company"
+              >
+                <Pencil className="size-4" />
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!company && !error && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+
+          {company && isEditing && (
+            <CompanyForm
+              company={company}
+              onSubmit={handleSubmit}
+              onCancel={() => setIsEditing(false)}
+            />
+          )}
+
+          {company && !isEditing && (
+            <>
+              {(company.aliases.length > 0 || company.website) && (
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {company.aliases.length > 0 && (
+                    <p>Also known as {company.aliases.join(", ")}</p>
+                  )}
+                  {company.website && (
+                    <a
+                      href={company.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1.5 text-primary hover:underline break-all"
+                    >
+                      <Globe className="size-4" aria-hidden="true" />
+                      {company.website}
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {outcomes && (
+                <dl
+                  aria-label="Outcomes"
+                  className="grid grid-cols-5 gap-2 rounded-lg border border-border p-3 text-center"
+                >
+                  {OUTCOME_LABELS.map(({ key, label }) => (
+                    <div key={key}>
+                      <dt className="text-xs text-muted-foreground">{label}</dt>
+                      <dd className="text-lg font-semibold">{outcomes[key]}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Applications</h3>
+                {company.jobs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No applications on the board.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-border rounded-lg border border-border">
+                    {company.jobs.map((job) => (
+                      <li
+                        key={job.id}
+                        className="flex items-center justify-between gap-4 p-3 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">
+                            {job.title || job.company}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {job.dateApplied
+                              ? `Applied ${formatJobDate(job.dateApplied)}`
+                              : `Added ${formatJobDate(job.createdAt)}`}
+                          </p>
+                        </div>
+                        <span
+                          className={`${getStageColor(job.stage.color)} shrink-0 rounded-md px-2 py-0.5 text-xs font-medium text-card-foreground`}
+                        >
+                          {job.stage.name}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {contacts.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-medium">Contacts</h3>
+                  <ul className="space-y-1 text-sm">
+                    {contacts.map((contact) => (
+                      <li
+                        key={contact.id}
+                        className="flex flex-wrap items-center gap-x-3"
+                      >
+                        <span>
+                          {contact.name}
+                          {contact.role && (
+                            <span className="text-muted-foreground">
+                              {` (${contact.role})`}
+                            </span>
+                          )}
+                        </span>
+                        {contact.email && (
+                          <a
+                            href={`mailto:${contact.email}`}
+                            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:underline"
+                          >
+                            <Mail className="size-3.5" aria-hidden="true" />
+                            {contact.email}
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Research notes</h3>
+                <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                  {company.notes || "No notes yet."}
+                </p>
+              </section>
+            </>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ContactPicker } from "./contact-picker";
+
+// Test helpers
+const contacts = [
+  { id: 1, name: "Jane Doe", role: "Recruiter", company: "Acme" },
+  { id: 2, name: "John Smith", role: null, company: null },
+];
+
+const mockFetch = () => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      init?.method === "POST"
+        ? {
+            ok: true,
+            json: async () => ({
+              id: 3,
+              ...JSON.parse(init.body as string),
+            }),
+          }
+        : url.startsWith("/api/contacts")
+          ? { ok: true, json: async () => contacts }
+          : { ok: false, json: async () => ({}) }
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("ContactPicker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch();
+  });
+
+  it("shows the linked contacts", async () => {
+    render(<ContactPicker value={[2]} onChange={vi.fn()} />);
+
+    expect(await screen.findByText("John Smith")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Remove John Smith" })
+    ).toBeInTheDocument();
+  });
+
+  it("suggests matching contacts and links the one picked", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ContactPicker value={[2]} onChange={onChange} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+
+    // Act
+    await user.type(screen.getByRole("combobox"), "acme");
+    await user.click(await screen.findByRole("option", { name: /Jane Doe/ }));
+
+    // Assert
+    expect(onChange).toHaveBeenCalledWith([2, 1]);
+  });
+
+  it("adds an unknown name as a new contact", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ContactPicker value={[]} onChange={onChange} />);
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+
+    // Act
+    await user.type(screen.getByRole("combobox"), "Alex Recruiter");
+    await user.click(
+      screen.getByRole("option", { name: /Add “Alex Recruiter”/ })
+    );
+
+    // Assert
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith([3]));
+    expect(global.fetch).toHaveBeenCalledWith("/api/contacts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Alex Recruiter" }),
+    });
+  });
+
+  it("uses the board owner's contacts on a shared board", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ContactPicker value={[]} onChange={onChange} boardId={2} />);
+    await waitFor(() =>
+      expect(global.fetch).toHaveBeenCalledWith("/api/contacts?boardId=2")
+    );
+
+    // Act
+    await user.type(screen.getByRole("combobox"), "Alex Recruiter");
+    await user.click(
+      screen.getByRole("option", { name: /Add “Alex Recruiter”/ })
+    );
+
+    // Assert
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith([3]));
+    expect(global.fetch).toHaveBeenCalledWith("/api/contacts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Alex Recruiter", boardId: 2 }),
+    });
+  });
+
+  it("links an existing contact on Enter instead of creating a duplicate", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ContactPicker value={[]} onChange={onChange} />);
+    await screen.findByRole("combobox");
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+
+    // Act
+    await user.type(screen.getByRole("combobox"), "jane doe{Enter}");
+
+    // Assert
+    expect(onChange).toHaveBeenCalledWith([1]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("unlinks a contact", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<ContactPicker value={[1, 2]} onChange={onChange} />);
+
+    await user.click(
+      await screen.findByRole("button", { name: "Remove Jane Doe" })
+    );
+
+    expect(onChange).toHaveBeenCalledWith([2]);
+  });
+});
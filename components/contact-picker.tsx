@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import { Contact } from "@prisma/client";
+import { toast } from "sonner";
+import { UserPlus, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { findContactByName, searchContacts } from "@/lib/contacts";
+
+// Suggestions shown at once while typing
+const MAX_SUGGESTIONS = 5;
+
+interface ContactPickerProps
+  extends Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> {
+  value: number[];
+  onChange: (contactIds: number[]) => void;
+  // Contacts already linked to the job, shown before the list has loaded
+  initialContacts?: Contact[];
+  // The job's board; its owner's contacts are the ones a job can link
+  boardId?: number;
+}
+
+/**
+ * Pick the contacts linked to a job. Typing suggests the existing contacts,
+ * and a name that isn't one of them can be added as a new contact. Fetches
+ * the contacts on mount: the user's own, or the board owner's on a board
+ * shared with them.
+ */
+export function ContactPicker({
+  value,
+  onChange,
+  initialContacts = [],
+  boardId,
+  ...props
+}: ContactPickerProps) {
+  const listboxId = useId();
+  const [contacts, setContacts] = useState<Contact[]>(initialContacts);
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadContacts() {
+      try {
+        const response = await fetch(
+          boardId === undefined
+            ? "/api/contacts"
+            : `/api/contacts?boardId=${boardId}`
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load contacts");
+        }
+        const data: Contact[] = await response.json();
+        if (!cancelled) setContacts(data);
+      } catch (err) {
+        if (!cancelled) {
+          toast.error("Couldn't load contacts", {
+            description:
+              err instanceof Error ? err.message : "An error occurred",
+          });
+        }
+      }
+    }
+
+    loadContacts();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  const selected = value
+    .map((id) => contacts.find((contact) => contact.id === id))
+    .filter((contact): contact is Contact => contact !== undefined);
+  const suggestions = query.trim()
+    ? searchContacts(contacts, query, value).slice(0, MAX_SUGGESTIONS)
+    : [];
+  const canCreate =
+    query.trim() !== "" && !findContactByName(contacts, query.trim());
+  const showList = isOpen && (suggestions.length > 0 || canCreate);
+
+  function handlePick(contact: Contact) {
+    if (!value.includes(contact.id)) onChange([...value, contact.id]);
+    setQuery("");
+  }
+
+  async function handleCreate() {
+    const name = query.trim();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/contacts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, boardId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to add contact");
+      }
+
+      const contact: Contact = await response.json();
+      setContacts((current) => [...current, contact]);
+      handlePick(contact);
+    } catch (err) {
+      toast.error("Couldn't add contact", {
+        description: err instanceof Error ? err.message : "An error occurred",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" && query.trim()) {
+      // Don't submit the job form
+      e.preventDefault();
+      const existing = findContactByName(contacts, query.trim());
+      if (existing) handlePick(existing);
+      else if (suggestions.length > 0) handlePick(suggestions[0]);
+      else if (!isCreating) handleCreate();
+    } else if (e.key === "Escape" && isOpen) {
+      // Close the suggestions, not the modal
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5" aria-label="Linked contacts">
+          {selected.map((contact) => (
+            <li
+              key={contact.id}
+              className="flex items-center gap-1 rounded-full border border-border py-0.5 pl-2.5 pr-1 text-xs"
+            >
+              {contact.name}
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(value.filter((id) => id !== contact.id))
+                }
+                className="rounded-full p-0.5 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${contact.name}`}
+              >
+                <X className="size-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <Input
+          {...props}
+          role="combobox"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          autoComplete="off"
+          value={query}
+          disabled={props.disabled || isCreating}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={(e) => {
+            setIsOpen(false);
+            props.onBlur?.(e);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+
+        {showList && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border border-border bg-popover text-sm shadow-md"
+          >
+            {suggestions.map((contact) => (
+              <li
+                key={contact.id}
+                role="option"
+                aria-selected={false}
+                // Keep focus in the input so the list doesn't close first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handlePick(contact)}
+                className="cursor-pointer px-3 py-2 hover:bg-accent"
+              >
+                {contact.name}
+                {(contact.role || contact.company) && (
+                  <span className="ml-1.5 text-xs text-muted-foreground">
+                    {[contact.role, contact.company].filter(Boolean).join(", ")}
+                  </span>
+                )}
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                role="option"
+                aria-selected={false}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleCreate}
+                className="flex cursor-pointer items-center gap-1.5 px-3 py-2 hover:bg-accent"
+              >
+                <UserPlus className="size-4" aria-hidden="true" />
+                Add “{query.trim()}” as a new contact
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
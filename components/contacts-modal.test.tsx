@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ContactsModal } from "./contacts-modal";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const contact = {
+  id: 4,
+  userId: "user_123",
+  name: "Jane Doe",
+  email: "jane@example.com",
+  phone: null,
+  linkedinUrl: null,
+  role: "Recruiter",
+  company: "Acme Recruiting",
+  notes: null,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  jobs: [
+    { id: 1, company: "Globex", title: "Developer" },
+    { id: 2, company: "Initech", title: null },
+  ],
+};
+
+const mockFetch = (
+  contacts: unknown[] = [contact],
+  actionResponse: unknown = { ok: true, json: async () => ({}) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/contacts" && !init?.method
+        ? { ok: true, json: async () => contacts }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("ContactsModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists contacts with the jobs linked to them", async () => {
+    // Arrange
+    mockFetch();
+
+    // Act
+    render(<ContactsModal open={true} onOpenChange={vi.fn()} />);
+
+    // Assert
+    expect(await screen.findByText("Jane Doe")).toBeInTheDocument();
+    expect(screen.getByText("Recruiter, Acme Recruiting")).toBeInTheDocument();
+    expect(
+      screen.getByRole("list", { name: "Jobs linked to Jane Doe" })
+    ).toHaveTextContent("Globex - DeveloperInitech");
+  });
+
+  it("shows an empty state", async () => {
+    mockFetch([]);
+
+    render(<ContactsModal open={true} onOpenChange={vi.fn()} />);
+
+    expect(await screen.findByText(/No contacts yet/)).toBeInTheDocument();
+  });
+
+  it("adds a contact", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([], {
+      ok: true,
+      json: async () => ({ ...contact, id: 5, name: "Alex Doe" }),
+    });
+    render(<ContactsModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: /add contact/i })
+    );
+    await user.type(screen.getByLabelText(/name/i), "Alex Doe");
+    await user.click(screen.getByRole("button", { name: /save contact/i }));
+
+    // Assert
+    expect(await screen.findByText("Alex Doe")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/contacts",
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it("deletes a contact after confirmation", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    render(<ContactsModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Delete Jane Doe" })
+    );
+
+    // Assert
+    await waitFor(() =>
+      expect(screen.queryByText("Jane Doe")).not.toBeInTheDocument()
+    );
+    expect(window.confirm).toHaveBeenCalledWith(
+      expect.stringContaining("2 linked job(s)")
+    );
+    expect(global.fetch).toHaveBeenCalledWith("/api/contacts/4", {
+      method: "DELETE",
+    });
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+});
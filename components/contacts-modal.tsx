@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Contact, Job } from "@prisma/client";
+import { Briefcase, Mail, Pencil, Phone, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { contactSchema, type ContactFormData } from "@/lib/schemas";
+
+// A contact as listed, with the jobs it is linked to
+type ContactWithJobs = Contact & {
+  jobs: Pick<Job, "id" | "company" | "title">[];
+};
+
+interface ContactsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TEXT_FIELDS: {
+  name: Exclude<keyof ContactFormData, "notes">;
+  label: string;
+  placeholder: string;
+}[] = [
+  { name: "name", label: "Name *", placeholder: "Jane Doe" },
+  { name: "role", label: "Role", placeholder: "Recruiter" },
+  { name: "company", label: "Company", placeholder: "Acme Recruiting" },
+  { name: "email", label: "Email", placeholder: "jane@example.com" },
+  { name: "phone", label: "Phone", placeholder: "+46 70 123 45 67" },
+  {
+    name: "linkedinUrl",
+    label: "LinkedIn URL",
+    placeholder: "https://linkedin.com/in/...",
+  },
+];
+
+function contactToFormValues(contact?: Contact): ContactFormData {
+  return {
+    name: contact?.name ?? "",
+    role: contact?.role ?? "",
+    company: contact?.company ?? "",
+    email: contact?.email ?? "",
+    phone: contact?.phone ?? "",
+    linkedinUrl: contact?.linkedinUrl ?? "",
+    notes: contact?.notes ?? "",
+  };
+}
+
+/**
+ * Form for adding or editing a contact
+ */
+function ContactForm({
+  contact,
+  onSubmit,
+  onCancel,
+}: {
+  contact?: Contact;
+  onSubmit: (data: ContactFormData) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const form = useForm<ContactFormData>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: contactToFormValues(contact),
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4 rounded-lg border border-border p-4"
+        aria-label={contact ? "Edit contact" : "Add contact"}
+      >
+        <div className="grid grid-cols-2 gap-4">
+          {TEXT_FIELDS.map(({ name, label, placeholder }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="How you met, what they're hiring for..."
+                  className="min-h-20"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? "Saving..." : "Save Contact"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * The user's contacts with the jobs each one is linked to, with add, edit
+ * and delete. Loads the contacts every time the modal opens.
+ */
+export function ContactsModal({ open, onOpenChange }: ContactsModalProps) {
+  const [contacts, setContacts] = useState<ContactWithJobs[] | null>(null);
+  // The contact being edited, "new" while adding one
+  const [editing, setEditing] = useState<Contact | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!open) {
+      setContacts(null);
+      setEditing(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadContacts() {
+      try {
+        const response = await fetch("/api/contacts");
+        if (!response.ok) {
+          throw new Error("Failed to load contacts");
+        }
+        const data: ContactWithJobs[] = await response.json();
+        if (!cancelled) setContacts(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load contacts"
+          );
+        }
+      }
+    }
+
+    loadContacts();
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  /**
+   * Create or update a contact, keeping the list sorted by name
+   */
+  async function handleSubmit(data: ContactFormData) {
+    setError(null);
+    const isNew = editing === "new";
+
+    try {
+      const response = await fetch(
+        isNew ? "/api/contacts" : `/api/contacts/${(editing as Contact).id}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save contact");
+      }
+
+      const saved: Contact = await response.json();
+      setContacts((prev) =>
+        [
+          ...(prev ?? []).filter((c) => c.id !== saved.id),
+          {
+            ...saved,
+            jobs: prev?.find((c) => c.id === saved.id)?.jobs ?? [],
+          },
+        ].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setEditing(null);
+      // Linked jobs show contact details on the board
+      if (!isNew) router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Delete a contact after confirmation. Its jobs are kept.
+   */
+  async function handleDelete(contact: ContactWithJobs) {
+    const confirmed = window.confirm(
+      contact.jobs.length > 0
+        ? `Delete ${contact.name}?\n\nThey will be removed from ${contact.jobs.length} linked job(s).`
+        : `Delete ${contact.name}?`
+    );
+
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete contact");
+      }
+
+      setContacts((prev) => prev?.filter((c) => c.id !== contact.id) ?? null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        aria-describedby={undefined}
+      >
+        <DialogHeader>
+          <DialogTitle>Contacts</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!contacts && !error && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+
+          {contacts && contacts.length === 0 && editing !== "new" && (
+            <p className="text-sm text-muted-foreground">
+              No contacts yet. Add recruiters and hiring managers here or while
+              editing a job.
+            </p>
+          )}
+
+          {editing === "new" && (
+            <ContactForm
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          {contacts && contacts.length > 0 && (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {contacts.map((contact) =>
+                editing !== "new" && editing?.id === contact.id ? (
+                  <li key={contact.id} className="p-3">
+                    <ContactForm
+                      contact={contact}
+                      onSubmit={handleSubmit}
+                      onCancel={() => setEditing(null)}
+                    />
+                  </li>
+                ) : (
+                  <li key={contact.id} className="space-y-1 p-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{contact.name}</p>
+                        {(contact.role || contact.company) && (
+                          <p className="text-xs text-muted-foreground">
+                            {[contact.role, contact.company]
+                              .filter(Boolean)
+                              .join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditing(contact)}
+                          aria-label={`Edit ${contact.name}`}
+                        >
+                          <Pencil className="size-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(contact)}
+                          aria-label={`Delete ${contact.name}`}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {(contact.email || contact.phone) && (
+                      <p className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                        {contact.email && (
+                          <a
+                            href={`mailto:${contact.email}`}
+                            className="flex items-center gap-1.5 hover:underline"
+                          >
+                            <Mail className="size-3.5" aria-hidden="true" />
+                            {contact.email}
+                          </a>
+                        )}
+                        {contact.phone && (
+                          <a
+                            href={`tel:${contact.phone}`}
+                            className="flex items-center gap-1.5 hover:underline"
+                          >
+                            <Phone className="size-3.5" aria-hidden="true" />
+                            {contact.phone}
+                          </a>
+                        )}
+                      </p>
+                    )}
+                    {contact.linkedinUrl && (
+                      <a
+                        href={contact.linkedinUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-xs text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        LinkedIn profile
+                      </a>
+                    )}
+                    {contact.jobs.length > 0 && (
+                      <ul
+                        className="flex flex-wrap gap-1.5 pt-1"
+                        aria-label={`Jobs linked to ${contact.name}`}
+                      >
+                        {contact.jobs.map((job) => (
+                          <li
+                            key={job.id}
+                            className="flex items-center gap-1 rounded-full border border-border px-2.5 py-0.5 text-xs text-muted-foreground"
+                          >
+                            <Briefcase className="size-3" aria-hidden="true" />
+                            {job.company}
+                            {job.title && ` - ${job.title}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {contact.notes && (
+                      <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                        {contact.notes}
+                      </p>
+                    )}
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          {editing === null && contacts && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditing("new")}
+            >
+              <Plus className="size-4" />
+              Add Contact
+            </Button>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
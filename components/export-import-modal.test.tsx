@@ -4,7 +4,10 @@ import userEvent from "@testing-library/user-event";
 import { ExportImportModal } from "./export-import-modal";
 import * as exportImport from "@/lib/export-import";
 import { EXPORT_FILENAME_PREFIX } from "@/lib/export-import";
-import { Job } from "@prisma/client";
+import type { ExportedJob } from "@/lib/schemas";
+import type { Stage, StageCategory } from "@prisma/client";
+import type { BoardJob } from "@/lib/stages";
+import { makeJob } from "@/lib/test-fixtures";
 
 // Mock next/navigation
 const mockRefresh = vi.fn();
@@ -15,44 +18,44 @@ vi.mock("next/navigation", () => ({
 }));
 
 // Test helpers
-const mockJobs: Job[] = [
+const stage = (id: number, name: string, category: StageCategory): Stage => ({
+  id,
+  userId: "user_123",
+  name,
+  color: "gray",
+  position: id,
+  category,
+  archivedAt: null,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+});
+
+const mockJobs: BoardJob[] = [
   {
-    id: 1,
-    userId: "user_123",
-    company: "Acme Corp",
-    title: "Senior Developer",
-    location: "Stockholm",
-    status: "INTERVIEW",
-    order: "a0",
-    dateApplied: new Date("2024-01-15"),
-    jobPostingUrl: null,
-    jobPostingText: null,
-    notes: null,
-    contactPerson: null,
-    resumeUrl: null,
-    coverLetterUrl: null,
-    deletedAt: null,
-    createdAt: new Date("2024-01-01"),
-    updatedAt: new Date("2024-01-01"),
+    ...makeJob({
+      company: "Acme Corp",
+      title: "Senior Developer",
+      location: "Stockholm",
+      stageId: 3,
+      order: "a0",
+      dateApplied: new Date("2024-01-15"),
+      createdAt: new Date("2024-01-01"),
+      updatedAt: new Date("2024-01-01"),
+    }),
+    stage: stage(3, "Interview", "INTERVIEW"),
+    contacts: [],
   },
   {
-    id: 2,
-    userId: "user_123",
-    company: "Tech Startup",
-    title: null,
-    location: null,
-    status: "WISHLIST",
-    order: "a1",
-    dateApplied: null,
-    jobPostingUrl: null,
-    jobPostingText: null,
-    notes: null,
-    contactPerson: null,
-    resumeUrl: null,
-    coverLetterUrl: null,
-    deletedAt: null,
-    createdAt: new Date("2024-01-02"),
-    updatedAt: new Date("2024-01-02"),
+    ...makeJob({
+      id: 2,
+      company: "Tech Startup",
+      title: null,
+      order: "a1",
+      createdAt: new Date("2024-01-02"),
+      updatedAt: new Date("2024-01-02"),
+    }),
+    stage: stage(1, "Wishlist", "WISHLIST"),
+    contacts: [],
   },
 ];
 
@@ -68,13 +71,21 @@ const validExportData = [
     company: "Acme Corp",
     title: "Senior Developer",
     location: "Stockholm",
-    status: "INTERVIEW",
+    stage: "Interview",
     order: "a0",
     dateApplied: "2024-01-15",
     jobPostingUrl: null,
     jobPostingText: null,
     notes: null,
-    contactPerson: null,
+    deadline: null,
+    followUpAt: null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+    employmentType: null,
+    remotePolicy: null,
+    skills: [],
     resumeUrl: null,
     coverLetterUrl: null,
   },
@@ -82,26 +93,59 @@ const validExportData = [
     company: "Tech Startup",
     title: null,
     location: null,
-    status: "WISHLIST",
+    stage: "Wishlist",
     order: "a1",
     dateApplied: null,
     jobPostingUrl: null,
     jobPostingText: null,
     notes: null,
-    contactPerson: null,
+    deadline: null,
+    followUpAt: null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+    employmentType: null,
+    remotePolicy: null,
+    skills: [],
     resumeUrl: null,
     coverLetterUrl: null,
   },
 ];
 
+const defaultPreview = {
+  created: 2,
+  updated: 0,
+  deleted: 2,
+  skipped: 0,
+  conflicted: 0,
+  conflicts: [] as { row: number; reason: string }[],
+};
+
 const setupFetchMock = (
-  exportResponse?: { ok: boolean; data?: Job[] },
-  importResponse?: { ok: boolean; error?: string }
+  exportResponse?: { ok: boolean; data?: BoardJob[] },
+  importResponse?: { ok: boolean; error?: string },
+  preview: Partial<typeof defaultPreview> = {}
 ) => {
-  global.fetch = vi.fn((url: string | URL | Request) => {
+  global.fetch = vi.fn((url: string | URL | Request, init?: RequestInit) => {
     const urlString = url.toString();
 
     if (urlString.includes("/api/jobs/import")) {
+      const { dryRun } = JSON.parse(String(init?.body));
+
+      if (dryRun) {
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              success: true,
+              dryRun: true,
+              ...defaultPreview,
+              ...preview,
+            }),
+        } as Response);
+      }
+
       return Promise.resolve({
         ok: importResponse?.ok ?? true,
         json: () =>
@@ -113,6 +157,26 @@ const setupFetchMock = (
       } as Response);
     }
 
+    if (urlString.includes("/api/jobs/export")) {
+      return Promise.resolve({
+        ok: exportResponse?.ok ?? true,
+        json: () =>
+          Promise.resolve(
+            exportImport.createExportEnvelope(
+              (exportResponse?.data ?? mockJobs).map(
+                exportImport.jobToExportedJob
+              ),
+              {
+                stages: (exportResponse?.data ?? mockJobs).map(
+                  (job) => job.stage
+                ),
+                appVersion: "0.1.0",
+              }
+            )
+          ),
+      } as Response);
+    }
+
     if (urlString.includes("/api/jobs")) {
       return Promise.resolve({
         ok: exportResponse?.ok ?? true,
@@ -121,9 +185,18 @@ const setupFetchMock = (
     }
 
     return Promise.reject(new Error("Unknown URL"));
-  });
+  }) as unknown as typeof fetch;
 };
 
+/** Calls to the import endpoint that actually write (not dry runs) */
+const committedImportCalls = () =>
+  vi
+    .mocked(global.fetch)
+    .mock.calls.filter(
+      ([url, init]) =>
+        url === "/api/jobs/import" && !JSON.parse(String(init?.body)).dryRun
+    );
+
 describe("ExportImportModal", () => {
   const defaultProps = {
     open: true,
@@ -149,9 +222,9 @@ describe("ExportImportModal", () => {
     expect(
       screen.getByRole("button", { name: /export all jobs/i })
     ).toBeInTheDocument();
-    expect(screen.getByLabelText("Select JSON file to import")).toHaveAttribute(
+    expect(screen.getByLabelText("Select file to import")).toHaveAttribute(
       "accept",
-      ".json"
+      ".json,.csv"
     );
   });
 
@@ -173,14 +246,38 @@ describe("ExportImportModal", () => {
     // Assert
     await waitFor(() => {
       expect(downloadSpy).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          expect.objectContaining({ company: "Acme Corp" }),
-        ]),
+        expect.objectContaining({
+          formatVersion: 4,
+          jobs: expect.arrayContaining([
+            expect.objectContaining({ company: "Acme Corp" }),
+          ]),
+        }),
         mockFilename
       );
     });
   });
 
+  it("exports jobs as CSV", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const downloadSpy = vi
+      .spyOn(exportImport, "downloadCSV")
+      .mockImplementation(() => {});
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.click(screen.getByRole("button", { name: /export as csv/i }));
+
+    // Assert
+    await waitFor(() => {
+      expect(downloadSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^company,title,location/),
+        expect.stringMatching(/\.csv$/)
+      );
+    });
+    expect(downloadSpy.mock.calls[0][0]).toContain("Acme Corp");
+  });
+
   it("displays error when export fails", async () => {
     // Arrange
     const user = userEvent.setup();
@@ -192,7 +289,26 @@ describe("ExportImportModal", () => {
 
     // Assert
     await waitFor(() => {
-      expect(screen.getByText("Failed to fetch jobs")).toBeInTheDocument();
+      expect(screen.getByText("Failed to export jobs")).toBeInTheDocument();
+    });
+  });
+
+  it("requests history and deleted jobs when included", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    vi.spyOn(exportImport, "downloadJSON").mockImplementation(() => {});
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.click(screen.getByLabelText(/include activity history/i));
+    await user.click(screen.getByLabelText(/include jobs in the trash/i));
+    await user.click(screen.getByRole("button", { name: /export all jobs/i }));
+
+    // Assert
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith(
+        "/api/jobs/export?includeHistory=true&includeDeleted=true"
+      );
     });
   });
 
@@ -200,7 +316,7 @@ describe("ExportImportModal", () => {
     // Arrange
     const user = userEvent.setup();
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
     const validFile = createMockFile(JSON.stringify(validExportData));
 
     // Act
@@ -209,18 +325,78 @@ describe("ExportImportModal", () => {
     // Assert
     await waitFor(() => {
       expect(screen.getByText("test-export.json")).toBeInTheDocument();
-      expect(screen.getByText(/ready to import 2 jobs/i)).toBeInTheDocument();
+      expect(screen.getByText("2 jobs created")).toBeInTheDocument();
       expect(
         screen.getByRole("button", { name: /import jobs/i })
       ).toBeInTheDocument();
     });
   });
 
+  it("imports active and deleted jobs and the stages from an export envelope", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+    const envelope = exportImport.createExportEnvelope(
+      [validExportData[0] as ExportedJob],
+      {
+        stages: mockJobs.map((job) => job.stage),
+        appVersion: "0.1.0",
+        deletedJobs: [
+          {
+            ...(validExportData[1] as ExportedJob),
+            deletedAt: "2024-03-01T10:00:00.000Z",
+          },
+        ],
+      }
+    );
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(JSON.stringify(envelope))
+    );
+    await user.click(
+      await screen.findByRole("button", { name: /import jobs/i })
+    );
+
+    // Assert
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    const body = JSON.parse(String(committedImportCalls()[0][1]?.body));
+    expect(body.jobs).toEqual([
+      expect.objectContaining({ company: "Acme Corp" }),
+      expect.objectContaining({
+        company: "Tech Startup",
+        deletedAt: "2024-03-01T10:00:00.000Z",
+      }),
+    ]);
+    expect(body.stages).toEqual([
+      { name: "Wishlist", color: "gray", category: "WISHLIST" },
+      { name: "Interview", color: "gray", category: "INTERVIEW" },
+    ]);
+  });
+
+  it("rejects files from a newer export format", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(JSON.stringify({ formatVersion: 99, jobs: [] }))
+    );
+
+    // Assert
+    expect(
+      await screen.findByText(/export format version 99/i)
+    ).toBeInTheDocument();
+  });
+
   it("rejects invalid JSON file", async () => {
     // Arrange
     const user = userEvent.setup();
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
 
     // Act
     await user.upload(fileInput, createMockFile("invalid json{"));
@@ -235,17 +411,17 @@ describe("ExportImportModal", () => {
     // Arrange
     const user = userEvent.setup();
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
     // First job valid, second job missing required 'company' field
     const mixedData = [
       {
         company: "Valid Corp",
-        status: "WISHLIST",
+        stage: "Wishlist",
         order: "a0",
       },
       {
         title: "Developer",
-        status: "APPLIED",
+        stage: "Applied",
         order: "a1",
       },
     ];
@@ -260,14 +436,15 @@ describe("ExportImportModal", () => {
     });
   });
 
-  it("imports jobs successfully after user confirmation", async () => {
+  it("replaces jobs after user confirmation", async () => {
     // Arrange
     const user = userEvent.setup();
     setupFetchMock({ ok: true, data: mockJobs }, { ok: true });
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
 
     // Act
+    await user.click(screen.getByRole("radio", { name: /replace/i }));
     await user.upload(
       fileInput,
       createMockFile(JSON.stringify(validExportData))
@@ -287,16 +464,20 @@ describe("ExportImportModal", () => {
       expect(mockRefresh).toHaveBeenCalled();
       expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false);
     });
+    expect(
+      JSON.parse(String(committedImportCalls()[0][1]?.body))
+    ).toMatchObject({ mode: "replace" });
   });
 
-  it("cancels import when user declines confirmation", async () => {
+  it("cancels replace import when user declines confirmation", async () => {
     // Arrange
     const user = userEvent.setup();
     window.confirm = vi.fn(() => false);
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
 
     // Act
+    await user.click(screen.getByRole("radio", { name: /replace/i }));
     await user.upload(
       fileInput,
       createMockFile(JSON.stringify(validExportData))
@@ -312,10 +493,82 @@ describe("ExportImportModal", () => {
     await waitFor(() => {
       expect(window.confirm).toHaveBeenCalled();
     });
-    expect(global.fetch).not.toHaveBeenCalledWith(
+    expect(committedImportCalls()).toHaveLength(0);
+  });
+
+  it("merges by default without asking for confirmation", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    setupFetchMock(undefined, { ok: true }, { created: 1, updated: 1 });
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(JSON.stringify(validExportData))
+    );
+    await user.click(
+      await screen.findByRole("button", { name: /import jobs/i })
+    );
+
+    // Assert
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    expect(window.confirm).not.toHaveBeenCalled();
+    expect(
+      JSON.parse(String(committedImportCalls()[0][1]?.body))
+    ).toMatchObject({ mode: "merge" });
+  });
+
+  it("shows the dry-run preview for the selected mode", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    setupFetchMock(undefined, undefined, {
+      created: 1,
+      updated: 1,
+      skipped: 0,
+      conflicted: 1,
+      conflicts: [{ row: 2, reason: "Matches 2 existing jobs" }],
+    });
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(JSON.stringify(validExportData))
+    );
+
+    // Assert
+    const preview = await screen.findByTestId("import-preview");
+    expect(preview).toHaveTextContent("1 job created");
+    expect(preview).toHaveTextContent("1 job updated");
+    expect(preview).toHaveTextContent("0 jobs unchanged");
+    expect(preview).toHaveTextContent("1 conflict (not imported)");
+    expect(preview).toHaveTextContent("Job #2: Matches 2 existing jobs");
+    expect(global.fetch).toHaveBeenCalledWith(
       "/api/jobs/import",
-      expect.any(Object)
+      expect.objectContaining({
+        body: expect.stringContaining('"dryRun":true'),
+      })
+    );
+  });
+
+  it("refreshes the preview when the import mode changes", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(JSON.stringify(validExportData))
     );
+    await screen.findByTestId("import-preview");
+
+    // Act
+    await user.click(screen.getByRole("radio", { name: /replace/i }));
+
+    // Assert
+    expect(
+      await screen.findByText("2 current jobs moved to the trash")
+    ).toBeInTheDocument();
   });
 
   it("displays error when import fails", async () => {
@@ -326,7 +579,7 @@ describe("ExportImportModal", () => {
       { ok: false, error: "Validation failed" }
     );
     render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
 
     // Act
     await user.upload(
@@ -346,11 +599,102 @@ describe("ExportImportModal", () => {
     });
   });
 
+  it("maps CSV columns and imports the mapped jobs", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+    const csv =
+      'Employer,Position,Stage,Salary\nAcme,Developer,Interviewing,100k\nGlobex,"QA, Senior",Applied,90k';
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile(csv, "sheet.csv")
+    );
+
+    // Assert - guessed mapping is shown before anything is imported
+    expect(
+      await screen.findByLabelText("Field for column Employer")
+    ).toHaveTextContent("Company");
+    expect(
+      screen.getByLabelText("Field for column Position")
+    ).toHaveTextContent("Job title");
+    expect(screen.getByLabelText("Field for column Salary")).toHaveTextContent(
+      "Don't import"
+    );
+    expect(screen.queryByTestId("import-preview")).not.toBeInTheDocument();
+
+    // Act
+    await user.click(
+      screen.getByRole("button", { name: /continue with 2 rows/i })
+    );
+    await user.click(
+      await screen.findByRole("button", { name: /import jobs/i })
+    );
+
+    // Assert
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    expect(JSON.parse(String(committedImportCalls()[0][1]?.body)).jobs).toEqual(
+      [
+        expect.objectContaining({
+          company: "Acme",
+          title: "Developer",
+          stage: "Interview",
+        }),
+        expect.objectContaining({
+          company: "Globex",
+          title: "QA, Senior",
+          stage: "Applied",
+        }),
+      ]
+    );
+  });
+
+  it("requires a company column before continuing with a CSV import", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile("Role,City\nDeveloper,Lund", "sheet.csv")
+    );
+
+    // Assert
+    expect(
+      await screen.findByText("Map a column to Company to continue.")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: /continue with 1 row/i })
+    ).toBeDisabled();
+  });
+
+  it("reports invalid values in mapped CSV rows", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(<ExportImportModal {...defaultProps} />);
+
+    // Act
+    await user.upload(
+      screen.getByLabelText("Select file to import"),
+      createMockFile("Company,Remote\nAcme,Sometimes", "sheet.csv")
+    );
+    await user.click(
+      await screen.findByRole("button", { name: /continue with 1 row/i })
+    );
+
+    // Assert
+    expect(
+      await screen.findByText(/job #1, field: remotePolicy/i)
+    ).toBeInTheDocument();
+  });
+
   it("resets state when modal closes", async () => {
     // Arrange
     const user = userEvent.setup();
     const { rerender } = render(<ExportImportModal {...defaultProps} />);
-    const fileInput = screen.getByLabelText("Select JSON file to import");
+    const fileInput = screen.getByLabelText("Select file to import");
 
     // Act - Select file
     await user.upload(
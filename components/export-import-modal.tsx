@@ -10,32 +10,131 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Job } from "@prisma/client";
 import {
   jobToExportedJob,
+  jobsToCSV,
   generateExportFilename,
   downloadJSON,
+  downloadCSV,
   parseJSONFile,
+  parseCSVFile,
+  guessColumnMapping,
+  csvRowsToJobs,
+  upgradeExport,
+  envelopeToImportJobs,
+  ColumnMapping,
+  EXPORT_FIELDS,
+  ExportField,
+  ExportFormat,
 } from "@/lib/export-import";
-import { importRequestSchema } from "@/lib/schemas";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ExportEnvelope,
+  ExportedStage,
+  importRequestSchema,
+  ImportMode,
+} from "@/lib/schemas";
+import type { BoardJob } from "@/lib/stages";
+import type { ImportConflict, ImportSummary } from "@/lib/import-plan";
+
+const IMPORT_MODE_OPTIONS: {
+  value: ImportMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "merge",
+    label: "Merge",
+    description:
+      "Update jobs with the same posting URL or company and title, add the rest",
+  },
+  {
+    value: "append",
+    label: "Append",
+    description: "Add every job in the file, keeping all current jobs",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    description:
+      "Move all current jobs to the trash and import the file instead",
+  },
+];
+
+const FIELD_LABELS: Record<ExportField, string> = {
+  company: "Company",
+  title: "Job title",
+  location: "Location",
+  stage: "Stage",
+  order: "Board order",
+  dateApplied: "Date applied",
+  deadline: "Deadline",
+  followUpAt: "Follow-up date",
+  jobPostingUrl: "Job posting URL",
+  jobPostingText: "Job description",
+  notes: "Personal notes",
+  resumeUrl: "Resume URL",
+  coverLetterUrl: "Cover letter URL",
+  contacts: "Contacts",
+  salaryMin: "Salary from",
+  salaryMax: "Salary to",
+  salaryCurrency: "Salary currency",
+  salaryPeriod: "Salary period",
+  employmentType: "Employment type",
+  remotePolicy: "Remote policy",
+  skills: "Skills",
+};
+
+// Radix Select items can't have an empty value
+const IGNORE_COLUMN = "ignore";
+
+type CSVData = { file: File; headers: string[]; rows: string[][] };
+
+type ImportPreview = ImportSummary & { conflicts: ImportConflict[] };
+
+function pluralize(count: number, word: string) {
+  return `${count} ${word}${count !== 1 ? "s" : ""}`;
+}
 
 interface ExportImportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // The board to export from and import into, the first board if not set
+  boardId?: number;
+  // Hides the import for boards the user may only view
+  readOnly?: boolean;
 }
 
 export function ExportImportModal({
   open,
   onOpenChange,
+  boardId,
+  readOnly = false,
 }: ExportImportModalProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [includeDeleted, setIncludeDeleted] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<unknown[] | null>(null);
-  const [importPreview, setImportPreview] = useState<{
-    count: number;
+  // Validated jobs, with the stage definitions of a JSON export
+  const [parsedData, setParsedData] = useState<{
+    jobs: unknown[];
+    stages: ExportedStage[];
   } | null>(null);
+  const [csvData, setCsvData] = useState<CSVData | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>([]);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
@@ -48,7 +147,9 @@ export function ExportImportModal({
       setError(null);
       setSelectedFile(null);
       setParsedData(null);
+      setCsvData(null);
       setImportPreview(null);
+      setImportMode("merge");
       setIsDragging(false);
       // Reset file input to allow selecting same file again
       if (fileInputRef.current) {
@@ -58,22 +159,90 @@ export function ExportImportModal({
   }, [open]);
 
   /**
-   * Handle export: fetch jobs, transform, and download as JSON
+   * Dry-run the import whenever the file or mode changes, so the user sees
+   * what will be created, updated, skipped or deleted before committing
+   */
+  useEffect(() => {
+    if (!parsedData) return;
+
+    let cancelled = false;
+
+    async function loadPreview() {
+      setIsPreviewing(true);
+      setImportPreview(null);
+
+      try {
+        const response = await fetch("/api/jobs/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...parsedData,
+            boardId,
+            mode: importMode,
+            dryRun: true,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to preview import");
+        }
+
+        const preview: ImportPreview = await response.json();
+        if (!cancelled) setImportPreview(preview);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to preview import"
+          );
+        }
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    }
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedData, importMode, boardId]);
+
+  /**
+   * Handle export: JSON downloads the versioned export envelope, CSV a flat
+   * table of the active jobs
    */
-  async function handleExport() {
+  async function handleExport(format: ExportFormat) {
     setIsExporting(true);
     setError(null);
 
     try {
-      const response = await fetch("/api/jobs");
-      if (!response.ok) {
-        throw new Error("Failed to fetch jobs");
+      if (format === "json") {
+        const params = new URLSearchParams({
+          includeHistory: String(includeHistory),
+          includeDeleted: String(includeDeleted),
+        });
+        if (boardId) params.set("boardId", String(boardId));
+        const response = await fetch(`/api/jobs/export?${params}`);
+        if (!response.ok) {
+          throw new Error("Failed to export jobs");
+        }
+
+        const envelope: ExportEnvelope = await response.json();
+        downloadJSON(envelope, generateExportFilename());
+      } else {
+        const response = await fetch(
+          boardId ? `/api/jobs?boardId=${boardId}` : "/api/jobs"
+        );
+        if (!response.ok) {
+          throw new Error("Failed to fetch jobs");
+        }
+
+        const jobs: BoardJob[] = await response.json();
+        downloadCSV(
+          jobsToCSV(jobs.map(jobToExportedJob)),
+          generateExportFilename("csv")
+        );
       }
-
-      const jobs: Job[] = await response.json();
-      const exportedJobs = jobs.map(jobToExportedJob);
-
-      downloadJSON(exportedJobs, generateExportFilename());
     } catch (err) {
       setError(
         err instanceof Error
@@ -86,48 +255,72 @@ export function ExportImportModal({
   }
 
   /**
-   * Handle file selection: validate, parse, and show preview
+   * Validate jobs with the same schema as the server and store them for
+   * import. This catches errors before upload.
+   */
+  function validateAndStore(
+    data: unknown,
+    file: File,
+    stages: ExportedStage[] = []
+  ) {
+    const validationResult = importRequestSchema.safeParse({
+      jobs: data,
+      stages,
+    });
+
+    if (!validationResult.success) {
+      const firstError = validationResult.error.issues[0];
+      // Extract job index from path (e.g., ["jobs", 0, "company"] -> job #1)
+      const jobIndex =
+        firstError.path[1] !== undefined ? Number(firstError.path[1]) + 1 : 0;
+      const fieldName = String(firstError.path[2] ?? "data");
+
+      setError(
+        jobIndex > 0
+          ? `Invalid job data: ${firstError.message} (job #${jobIndex}, field: ${fieldName})`
+          : `Invalid job data: ${firstError.message}`
+      );
+      return;
+    }
+
+    // Store validated data; the dry-run preview loads from it
+    setParsedData({
+      jobs: validationResult.data.jobs,
+      stages: validationResult.data.stages,
+    });
+    setSelectedFile(file);
+  }
+
+  /**
+   * Handle file selection: parse and validate JSON, or start column
+   * mapping for CSV
    */
   async function handleFileSelect(file: File) {
     setError(null);
     setSelectedFile(null);
     setParsedData(null);
+    setCsvData(null);
     setImportPreview(null);
 
+    const isCSV = file.name.toLowerCase().endsWith(".csv");
+
     // Validate file extension
-    if (!file.name.endsWith(".json")) {
-      setError("Please select a JSON file");
+    if (!isCSV && !file.name.endsWith(".json")) {
+      setError("Please select a JSON or CSV file");
       return;
     }
 
     try {
-      // Parse the JSON file
-      const data = await parseJSONFile<unknown>(file);
-
-      // Validate all jobs using the same schema as the server
-      // This ensures consistent validation and catches errors before upload
-      const validationResult = importRequestSchema.safeParse({ jobs: data });
-
-      if (!validationResult.success) {
-        const firstError = validationResult.error.issues[0];
-        // Extract job index from path (e.g., ["jobs", 0, "company"] -> job #1)
-        const jobIndex =
-          firstError.path[1] !== undefined ? Number(firstError.path[1]) + 1 : 0;
-        const fieldName = String(firstError.path[2] ?? "data");
-
-        setError(
-          jobIndex > 0
-            ? `Invalid job data: ${firstError.message} (job #${jobIndex}, field: ${fieldName})`
-            : `Invalid job data: ${firstError.message}`
-        );
+      if (isCSV) {
+        const { headers, rows } = await parseCSVFile(file);
+        setCsvData({ file, headers, rows });
+        setColumnMapping(guessColumnMapping(headers));
         return;
       }
 
-      // Store validated data and set preview
-      const validatedJobs = validationResult.data.jobs;
-      setParsedData(validatedJobs);
-      setSelectedFile(file);
-      setImportPreview({ count: validatedJobs.length });
+      // Older export formats are upgraded to the current envelope first
+      const envelope = upgradeExport(await parseJSONFile<unknown>(file));
+      validateAndStore(envelopeToImportJobs(envelope), file, envelope.stages);
     } catch (err) {
       setError(
         err instanceof Error
@@ -137,6 +330,34 @@ export function ExportImportModal({
     }
   }
 
+  /**
+   * Map a CSV column to a job field, or ignore it
+   */
+  function handleMappingChange(column: number, value: string) {
+    setColumnMapping((prev) =>
+      prev.map((field, index) =>
+        index === column
+          ? value === IGNORE_COLUMN
+            ? null
+            : (value as ExportField)
+          : // A field can only come from one column
+            field === value
+            ? null
+            : field
+      )
+    );
+  }
+
+  /**
+   * Convert CSV rows using the chosen mapping and validate them
+   */
+  function handleApplyMapping() {
+    if (!csvData) return;
+
+    setError(null);
+    validateAndStore(csvRowsToJobs(csvData.rows, columnMapping), csvData.file);
+  }
+
   /**
    * Handle import: confirm, upload, and refresh
    */
@@ -147,31 +368,25 @@ export function ExportImportModal({
     setError(null);
 
     try {
-      // Fetch current job count for confirmation
-      const currentResponse = await fetch("/api/jobs");
-      if (!currentResponse.ok) {
-        throw new Error("Failed to fetch current jobs");
-      }
-      const currentJobs: Job[] = await currentResponse.json();
-      const currentCount = currentJobs.length;
-
-      // Confirm with user
-      const confirmed = window.confirm(
-        `You currently have ${currentCount} job${currentCount !== 1 ? "s" : ""}.\n\n` +
-          `Importing will replace them with ${importPreview.count} job${importPreview.count !== 1 ? "s" : ""}.\n\n` +
-          `This action cannot be undone. Continue?`
-      );
+      // Replacing trashes every current job, so confirm first
+      if (importMode === "replace" && importPreview.deleted > 0) {
+        const confirmed = window.confirm(
+          `You currently have ${pluralize(importPreview.deleted, "job")}.\n\n` +
+            `Importing will replace them with ${pluralize(importPreview.created, "job")}.\n\n` +
+            `They can be restored from the trash. Continue?`
+        );
 
-      if (!confirmed) {
-        setIsImporting(false);
-        return;
+        if (!confirmed) {
+          setIsImporting(false);
+          return;
+        }
       }
 
       // POST to import endpoint using stored parsed data
       const response = await fetch("/api/jobs/import", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ jobs: parsedData }),
+        body: JSON.stringify({ ...parsedData, boardId, mode: importMode }),
       });
 
       if (!response.ok) {
@@ -241,34 +456,92 @@ export function ExportImportModal({
           <div className="space-y-3">
             <h3 className="text-sm font-semibold">Export</h3>
             <p className="text-sm text-muted-foreground">
-              Download all your active jobs as a JSON file.
+              Download all your active jobs as a JSON file, or as CSV for
+              spreadsheets.
             </p>
-            <Button
-              onClick={handleExport}
-              disabled={isExporting}
-              className="w-full sm:w-auto"
-            >
-              {isExporting ? "Exporting..." : "Export All Jobs"}
-            </Button>
+            <div className="space-y-1 text-sm">
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={includeHistory}
+                  onChange={(e) => setIncludeHistory(e.target.checked)}
+                />
+                Include activity history (JSON only)
+              </label>
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={includeDeleted}
+                  onChange={(e) => setIncludeDeleted(e.target.checked)}
+                />
+                Include jobs in the trash (JSON only)
+              </label>
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button
+                onClick={() => handleExport("json")}
+                disabled={isExporting}
+                className="w-full sm:w-auto"
+              >
+                {isExporting ? "Exporting..." : "Export All Jobs"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleExport("csv")}
+                disabled={isExporting}
+                className="w-full sm:w-auto"
+              >
+                Export as CSV
+              </Button>
+            </div>
           </div>
 
-          {/* Divider */}
-          <div className="border-t" />
+          {!readOnly && (
+            <>
+              {/* Divider */}
+              <div className="border-t" />
 
-          {/* Import Section */}
-          <div className="space-y-3">
-            <h3 className="text-sm font-semibold">Import</h3>
-            <p className="text-sm text-muted-foreground">
-              Import jobs from a previously exported JSON file. This will
-              replace all your current jobs.
-            </p>
+              {/* Import Section */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Import</h3>
+                <p className="text-sm text-muted-foreground">
+                  Import jobs from a previously exported JSON file, or a CSV
+                  file from a spreadsheet or another tracker.
+                </p>
 
-            {/* Drop Zone */}
-            <div
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              className={`
+                {/* Import Mode */}
+                <fieldset className="space-y-2">
+                  <legend className="sr-only">Import mode</legend>
+                  {IMPORT_MODE_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      className="flex cursor-pointer items-start gap-2 text-sm"
+                    >
+                      <input
+                        type="radio"
+                        name="import-mode"
+                        value={option.value}
+                        checked={importMode === option.value}
+                        onChange={() => setImportMode(option.value)}
+                        disabled={isImporting}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="font-medium">{option.label}</span>
+                        <span className="block text-muted-foreground">
+                          {option.description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </fieldset>
+
+                {/* Drop Zone */}
+                <div
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  className={`
                 rounded-lg border-2 border-dashed p-8 text-center transition-colors
                 ${
                   isDragging
@@ -276,60 +549,173 @@ export function ExportImportModal({
                     : "border-border bg-muted/30"
                 }
               `}
-            >
-              <Upload
-                className={`mx-auto mb-3 h-8 w-8 ${
-                  isDragging ? "text-accent" : "text-muted-foreground"
-                }`}
-              />
-              <p className="mb-2 text-sm font-medium">
-                {isDragging
-                  ? "Drop file to select"
-                  : "Drop JSON file here or click to browse"}
-              </p>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleFileInputChange}
-                className="hidden"
-                aria-label="Select JSON file to import"
-              />
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isImporting}
-              >
-                Select File
-              </Button>
-            </div>
-
-            {/* File Selected Preview */}
-            {selectedFile && importPreview && (
-              <div className="rounded-lg bg-muted p-3">
-                <p className="text-sm">
-                  <span className="font-medium">{selectedFile.name}</span>
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Ready to import {importPreview.count} job
-                  {importPreview.count !== 1 ? "s" : ""}
-                </p>
+                >
+                  <Upload
+                    className={`mx-auto mb-3 h-8 w-8 ${
+                      isDragging ? "text-accent" : "text-muted-foreground"
+                    }`}
+                  />
+                  <p className="mb-2 text-sm font-medium">
+                    {isDragging
+                      ? "Drop file to select"
+                      : "Drop JSON or CSV file here or click to browse"}
+                  </p>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.csv"
+                    onChange={handleFileInputChange}
+                    className="hidden"
+                    aria-label="Select file to import"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                  >
+                    Select File
+                  </Button>
+                </div>
+
+                {/* CSV Column Mapping */}
+                {csvData && !parsedData && (
+                  <div className="space-y-3 rounded-lg bg-muted p-3">
+                    <p className="text-sm">
+                      <span className="font-medium">{csvData.file.name}</span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        - choose which field each column holds
+                      </span>
+                    </p>
+                    <div className="max-h-64 space-y-2 overflow-y-auto">
+                      {csvData.headers.map((header, column) => (
+                        <div
+                          key={column}
+                          className="grid grid-cols-2 items-center gap-2"
+                        >
+                          <div className="min-w-0 text-sm">
+                            <p className="truncate font-medium">
+                              {header || `Column ${column + 1}`}
+                            </p>
+                            {csvData.rows[0]?.[column] && (
+                              <p className="truncate text-xs text-muted-foreground">
+                                e.g. {csvData.rows[0][column]}
+                              </p>
+                            )}
+                          </div>
+                          <Select
+                            value={columnMapping[column] ?? IGNORE_COLUMN}
+                            onValueChange={(value) =>
+                              handleMappingChange(column, value)
+                            }
+                          >
+                            <SelectTrigger
+                              className="w-full"
+                              aria-label={`Field for column ${header || column + 1}`}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={IGNORE_COLUMN}>
+                                Don&apos;t import
+                              </SelectItem>
+                              {EXPORT_FIELDS.map((field) => (
+                                <SelectItem key={field} value={field}>
+                                  {FIELD_LABELS[field]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                    {!columnMapping.includes("company") && (
+                      <p className="text-sm text-muted-foreground">
+                        Map a column to Company to continue.
+                      </p>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={handleApplyMapping}
+                      disabled={!columnMapping.includes("company")}
+                    >
+                      Continue with {csvData.rows.length} row
+                      {csvData.rows.length !== 1 ? "s" : ""}
+                    </Button>
+                  </div>
+                )}
+
+                {/* File Selected Preview */}
+                {selectedFile && (
+                  <div className="rounded-lg bg-muted p-3">
+                    <p className="text-sm">
+                      <span className="font-medium">{selectedFile.name}</span>
+                    </p>
+                    {isPreviewing && (
+                      <p className="text-sm text-muted-foreground">
+                        Checking what will change...
+                      </p>
+                    )}
+                    {importPreview && (
+                      <div data-testid="import-preview">
+                        <ul className="text-sm text-muted-foreground">
+                          <li>
+                            {pluralize(importPreview.created, "job")} created
+                          </li>
+                          {importMode === "merge" && (
+                            <>
+                              <li>
+                                {pluralize(importPreview.updated, "job")}{" "}
+                                updated
+                              </li>
+                              <li>
+                                {pluralize(importPreview.skipped, "job")}{" "}
+                                unchanged
+                              </li>
+                            </>
+                          )}
+                          {importMode === "replace" && (
+                            <li>
+                              {pluralize(importPreview.deleted, "current job")}{" "}
+                              moved to the trash
+                            </li>
+                          )}
+                          {importPreview.conflicted > 0 && (
+                            <li className="text-destructive">
+                              {pluralize(importPreview.conflicted, "conflict")}{" "}
+                              (not imported)
+                            </li>
+                          )}
+                        </ul>
+                        {importPreview.conflicts.length > 0 && (
+                          <ul className="mt-2 list-disc pl-5 text-xs text-muted-foreground">
+                            {importPreview.conflicts.map((conflict) => (
+                              <li key={conflict.row}>
+                                Job #{conflict.row}: {conflict.reason}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Import Button */}
+                {selectedFile && importPreview && (
+                  <Button
+                    onClick={handleImport}
+                    disabled={isImporting}
+                    className="w-full sm:w-auto"
+                    variant="default"
+                  >
+                    {isImporting ? "Importing..." : "Import Jobs"}
+                  </Button>
+                )}
               </div>
-            )}
-
-            {/* Import Button */}
-            {selectedFile && importPreview && (
-              <Button
-                onClick={handleImport}
-                disabled={isImporting}
-                className="w-full sm:w-auto"
-                variant="default"
-              >
-                {isImporting ? "Importing..." : "Import Jobs"}
-              </Button>
-            )}
-          </div>
+            </>
+          )}
 
           {/* Error Display */}
           {error && (
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, render, waitFor } from "@testing-library/react";
+import type { DragEndEvent } from "@dnd-kit/core";
+import type { Stage } from "@prisma/client";
+import type { BoardJob } from "@/lib/stages";
+import { JobBoard } from "./job-board";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+let mockSearchParams = new URLSearchParams();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+  useSearchParams: () => mockSearchParams,
+}));
+
+// Capture the drop handler instead of simulating pointer drags
+let onDragEnd: (event: DragEndEvent) => Promise<void>;
+vi.mock("@dnd-kit/core", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@dnd-kit/core")>()),
+  DndContext: (props: {
+    onDragEnd: typeof onDragEnd;
+    children: React.ReactNode;
+  }) => {
+    onDragEnd = props.onDragEnd;
+    return props.children;
+  },
+  DragOverlay: () => null,
+}));
+
+// Mock child components
+vi.mock("@/components/board-view", () => ({ BoardView: () => null }));
+vi.mock("@/components/job-filter-bar", () => ({ JobFilterBar: () => null }));
+vi.mock("@/components/job-modal", () => ({ JobModal: () => null }));
+
+// Test helpers
+const stage = (id: number, category: Stage["category"]) =>
+  ({ id, name: category, color: "gray", category, position: id }) as Stage;
+
+const wishlist = stage(1, "WISHLIST");
+const applied = stage(2, "APPLIED");
+
+const job = (id: number, jobStage: Stage, deadline: string | null = null) =>
+  ({
+    id,
+    company: `Company ${id}`,
+    stageId: jobStage.id,
+    stage: jobStage,
+    deadline: deadline ? new Date(deadline) : null,
+    contacts: [],
+  }) as unknown as BoardJob;
+
+// Board order: 1 (deadline in a year), 2 (deadline in a week), 3 applied
+const inDays = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+const jobs = [
+  job(1, wishlist, inDays(365)),
+  job(2, wishlist, inDays(7)),
+  job(3, applied),
+];
+
+const renderBoard = () =>
+  render(
+    <JobBoard
+      jobs={jobs}
+      stages={[wishlist, applied]}
+      boards={[]}
+      boardId={1}
+    />
+  );
+
+const drop = (jobId: number, over: BoardJob) =>
+  act(() =>
+    onDragEnd({
+      active: { id: jobId },
+      over: { data: { current: { job: over } } },
+    } as unknown as DragEndEvent)
+  );
+
+describe("JobBoard", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSearchParams = new URLSearchParams();
+    global.fetch = vi.fn(() =>
+      Promise.resolve({ ok: true, json: async () => ({}) })
+    ) as unknown as typeof fetch;
+  });
+
+  it("moves a dropped job before the card it was dropped on", async () => {
+    // Arrange
+    renderBoard();
+
+    // Act
+    await drop(3, jobs[1]);
+
+    // Assert
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/3/move", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stageId: 1, index: 1 }),
+    });
+  });
+
+  it("appends a job dropped into the wishlist while sorted by deadline", async () => {
+    // Arrange
+    mockSearchParams = new URLSearchParams("wishlist=deadline");
+    renderBoard();
+
+    // Act: job 2 is shown first, but is second in board order
+    await drop(3, jobs[1]);
+
+    // Assert
+    await waitFor(() => expect(mockRefresh).toHaveBeenCalled());
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/3/move", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stageId: 1, index: 2 }),
+    });
+  });
+
+  it("doesn't reorder the wishlist while sorted by deadline", async () => {
+    // Arrange
+    mockSearchParams = new URLSearchParams("wishlist=deadline");
+    renderBoard();
+
+    // Act
+    await drop(1, jobs[1]);
+
+    // Assert
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,11 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Job, JobStatus } from "@prisma/client";
+import { useState, useEffect, useMemo } from "react";
+import { Board, Stage } from "@prisma/client";
+import { can, type BoardAccessRole } from "@/lib/boards";
+import { BoardJob, getDefaultStage } from "@/lib/stages";
 import {
+  closestCorners,
   DndContext,
   DragEndEvent,
   DragOverlay,
@@ -11,29 +14,82 @@ import {
   useSensor,
   useSensors,
 } from "@dnd-kit/core";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { BoardView } from "@/components/board-view";
+import { JobFilterBar } from "@/components/job-filter-bar";
 import { JobModal } from "@/components/job-modal";
 import { JobCard } from "@/components/job-card";
 import { toast } from "sonner";
 import type { ExtractedJobData } from "@/lib/schemas";
+import {
+  filterJobs,
+  parseJobFilters,
+  serializeJobFilters,
+} from "@/lib/job-filters";
+import { isWishlisted, sortWishlistByDeadline } from "@/lib/deadlines";
 
 interface JobBoardProps {
-  jobs: Job[];
+  jobs: BoardJob[];
+  stages: Stage[];
+  /** The boards jobs can be moved to (see getMoveTargets) */
+  boards: Board[];
+  /** The board shown; new jobs are added to it */
+  boardId: number;
+  /** The user's role on the board; viewers and commenters can't change jobs */
+  role?: BoardAccessRole;
+}
+
+/**
+ * Move a job to a position within a stage column of the (board-ordered)
+ * job list. Used for optimistic updates while the server assigns the rank.
+ */
+function moveJobInList(
+  jobs: BoardJob[],
+  jobId: number,
+  stage: Stage,
+  index: number
+): BoardJob[] {
+  const job = jobs.find((j) => j.id === jobId);
+  if (!job) return jobs;
+
+  const others = jobs.filter((j) => j.id !== jobId);
+  const column = others.filter((j) => j.stageId === stage.id);
+  const moved = { ...job, stageId: stage.id, stage };
+
+  // Insert before the card currently at `index`, or after the column's last card
+  const insertAt =
+    index < column.length
+      ? others.indexOf(column[index])
+      : column.length > 0
+        ? others.indexOf(column[column.length - 1]) + 1
+        : others.length;
+
+  return [...others.slice(0, insertAt), moved, ...others.slice(insertAt)];
 }
 
-export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
+export function JobBoard({
+  jobs: initialJobs,
+  stages,
+  boards,
+  boardId,
+  role = "OWNER",
+}: JobBoardProps) {
+  const canEdit = can(role, "edit");
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [jobs, setJobs] = useState(initialJobs);
+  const [filters, setFilters] = useState(() => parseJobFilters(searchParams));
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedJob, setSelectedJob] = useState<Job | undefined>(undefined);
-  const [initialStatus, setInitialStatus] = useState<JobStatus | undefined>(
+  const [selectedJob, setSelectedJob] = useState<BoardJob | undefined>(
+    undefined
+  );
+  const [initialStageId, setInitialStageId] = useState<number | undefined>(
     undefined
   );
   const [extractedJobData, setExtractedJobData] = useState<
     Partial<ExtractedJobData> | undefined
   >(undefined);
-  const [activeJob, setActiveJob] = useState<Job | null>(null);
+  const [activeJob, setActiveJob] = useState<BoardJob | null>(null);
   const [isMounted, setIsMounted] = useState(false);
 
   // Only render DnD on client to avoid hydration mismatch
@@ -46,6 +102,32 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
     setJobs(initialJobs);
   }, [initialJobs]);
 
+  // Keep filters in the URL so a filtered board can be bookmarked.
+  // replaceState updates the URL without a server round trip per keystroke.
+  // The board picked in the header stays in it.
+  useEffect(() => {
+    const params = serializeJobFilters(filters);
+    const board = searchParams.get("board");
+    if (board) params.set("board", board);
+    const query = params.toString();
+    window.history.replaceState(
+      null,
+      "",
+      query ? `?${query}` : window.location.pathname
+    );
+  }, [filters, searchParams]);
+
+  // Sorting the wishlist only changes what's shown, so its columns can't be
+  // reordered by dragging: a job dropped into one keeps its place or goes
+  // to the end of the board order, which takes over again when the sort
+  // is turned off
+  const visibleJobs = useMemo(() => {
+    const filtered = filterJobs(jobs, filters);
+    return filters.sortWishlistByDeadline
+      ? sortWishlistByDeadline(filtered)
+      : filtered;
+  }, [jobs, filters]);
+
   // Trello-style behavior: 1px threshold
   // ≥2px movement = drag, <2px = click
   const sensors = useSensors(
@@ -56,23 +138,23 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
     })
   );
 
-  function handleNewJob(status: JobStatus) {
+  function handleNewJob(stage: Stage) {
     setSelectedJob(undefined);
-    setInitialStatus(status);
+    setInitialStageId(stage.id);
     setIsModalOpen(true);
   }
 
-  function handleJobClick(job: Job) {
+  function handleJobClick(job: BoardJob) {
     setSelectedJob(job);
     setIsModalOpen(true);
   }
 
   function handleModalClose() {
     setIsModalOpen(false);
-    // Small delay before clearing selectedJob and initialStatus to avoid visual flash
+    // Small delay before clearing selectedJob and initialStageId to avoid visual flash
     setTimeout(() => {
       setSelectedJob(undefined);
-      setInitialStatus(undefined);
+      setInitialStageId(undefined);
       setExtractedJobData(undefined);
     }, 200);
   }
@@ -97,7 +179,7 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
         });
         // Open modal with extracted data
         setExtractedJobData(result.data);
-        setInitialStatus("WISHLIST");
+        setInitialStageId(getDefaultStage(stages)?.id);
         setIsModalOpen(true);
       } else {
         toast.warning("Couldn't extract job details", {
@@ -123,7 +205,7 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
   }
 
   function handleDragStart(event: DragStartEvent) {
-    const job = event.active.data.current?.job as Job | undefined;
+    const job = event.active.data.current?.job as BoardJob | undefined;
     if (job) {
       setActiveJob(job);
     }
@@ -137,55 +219,81 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
     if (!over) return;
 
     const jobId = Number(active.id);
-    const newStatus = over.id as JobStatus;
     const job = jobs.find((j) => j.id === jobId);
 
-    if (!job || job.status === newStatus) return;
+    if (!job) return;
+
+    // Dropped on a card: take its column and position.
+    // Dropped on a column: append to the end of it.
+    // Positions are computed on the unfiltered list so hidden jobs keep
+    // their place when the board is filtered.
+    const overJob = over.data.current?.job as BoardJob | undefined;
+    const newStage = overJob
+      ? overJob.stage
+      : (over.data.current?.stage as Stage | undefined);
+    if (!newStage) return;
+
+    const isSorted =
+      filters.sortWishlistByDeadline && isWishlisted({ stage: newStage });
+    if (isSorted && job.stageId === newStage.id) return;
+
+    const column = jobs.filter((j) => j.stageId === newStage.id);
+    const index =
+      overJob && !isSorted
+        ? column.findIndex((j) => j.id === overJob.id)
+        : column.filter((j) => j.id !== jobId).length;
+
+    const currentIndex = column.findIndex((j) => j.id === jobId);
+    if (job.stageId === newStage.id && currentIndex === index) return;
 
     // Optimistic update
-    const oldStatus = job.status;
-    setJobs((prevJobs) =>
-      prevJobs.map((j) => (j.id === jobId ? { ...j, status: newStatus } : j))
-    );
+    const previousJobs = jobs;
+    setJobs((prevJobs) => moveJobInList(prevJobs, jobId, newStage, index));
 
     try {
-      // Call API to update status
-      const response = await fetch(`/api/jobs/${jobId}`, {
-        method: "PATCH",
+      // Call API to move the job; the server assigns the rank key
+      const response = await fetch(`/api/jobs/${jobId}/move`, {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ stageId: newStage.id, index }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to update job status");
+        throw new Error("Failed to move job");
       }
 
       // Refresh server data to ensure consistency
       router.refresh();
     } catch (error) {
       // Revert optimistic update on error
-      setJobs((prevJobs) =>
-        prevJobs.map((j) => (j.id === jobId ? { ...j, status: oldStatus } : j))
-      );
-      console.error("Error updating job:", error);
+      setJobs(previousJobs);
+      console.error("Error moving job:", error);
       // TODO: Show error toast
     }
   }
 
   const boardView = (
     <BoardView
-      jobs={jobs}
+      jobs={visibleJobs}
+      stages={stages}
       onJobClick={handleJobClick}
-      onAddClick={handleNewJob}
-      onPasteUrl={handlePasteUrl}
+      onAddClick={canEdit ? handleNewJob : undefined}
+      onPasteUrl={canEdit ? handlePasteUrl : undefined}
     />
   );
 
   return (
-    <div className="flex flex-1">
-      {isMounted ? (
+    <div className="flex flex-1 flex-col">
+      <JobFilterBar
+        filters={filters}
+        onFiltersChange={setFilters}
+        totalCount={jobs.length}
+        visibleCount={visibleJobs.length}
+      />
+      {isMounted && canEdit ? (
         <DndContext
           sensors={sensors}
+          collisionDetection={closestCorners}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
         >
@@ -206,8 +314,13 @@ export function JobBoard({ jobs: initialJobs }: JobBoardProps) {
         open={isModalOpen}
         onOpenChange={handleModalClose}
         job={selectedJob}
-        initialStatus={initialStatus}
+        stages={stages}
+        boards={boards}
+        boardId={boardId}
+        role={role}
+        initialStageId={initialStageId}
         initialData={extractedJobData}
+        extractionConfidence={extractedJobData?.confidence}
         onSuccess={() => router.refresh()}
       />
     </div>
@@ -1,37 +1,42 @@
 import { describe, it, expect, vi } from "vitest";
 import { render, screen } from "@testing-library/react";
 import { JobCard } from "./job-card";
-import { Job, JobStatus } from "@prisma/client";
+import type { Stage } from "@prisma/client";
+import type { BoardJob } from "@/lib/stages";
+import { makeJob } from "@/lib/test-fixtures";
 
-// Mock @dnd-kit/core
-vi.mock("@dnd-kit/core", () => ({
-  useDraggable: vi.fn(() => ({
+// Mock @dnd-kit/sortable
+vi.mock("@dnd-kit/sortable", () => ({
+  useSortable: vi.fn(() => ({
     attributes: {},
     listeners: {},
     setNodeRef: vi.fn(),
+    transform: null,
+    transition: undefined,
     isDragging: false,
   })),
 }));
 
-describe("JobCard", () => {
-  const baseJob: Job = {
+const stage = (overrides: Partial<Stage>) =>
+  ({
     id: 1,
-    userId: "user123",
-    company: "Test Company",
-    title: "Software Engineer",
-    location: "Stockholm",
-    status: JobStatus.WISHLIST,
-    order: "0",
-    dateApplied: new Date("2024-01-15"),
-    jobPostingUrl: null,
-    jobPostingText: null,
-    notes: null,
-    resumeUrl: null,
-    coverLetterUrl: null,
-    contactPerson: null,
-    deletedAt: null,
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    name: "Wishlist",
+    color: "gray",
+    category: "WISHLIST",
+    archivedAt: null,
+    ...overrides,
+  }) as Stage;
+
+describe("JobCard", () => {
+  const baseJob: BoardJob = {
+    ...makeJob({
+      userId: "user123",
+      title: "Software Engineer",
+      location: "Stockholm",
+      dateApplied: new Date("2024-01-15"),
+    }),
+    stage: stage({}),
+    contacts: [],
   };
 
   it("renders job card with basic information", () => {
@@ -43,7 +48,7 @@ describe("JobCard", () => {
   });
 
   it("displays notes indicator icon when notes field has content", () => {
-    const jobWithNotes: Job = {
+    const jobWithNotes: BoardJob = {
       ...baseJob,
       notes: "This is a test note",
     };
@@ -54,7 +59,7 @@ describe("JobCard", () => {
   });
 
   it("does not display notes indicator icon when notes field is null", () => {
-    const jobWithoutNotes: Job = {
+    const jobWithoutNotes: BoardJob = {
       ...baseJob,
       notes: null,
     };
@@ -65,7 +70,7 @@ describe("JobCard", () => {
   });
 
   it("does not display notes indicator icon when notes field is empty string", () => {
-    const jobWithEmptyNotes: Job = {
+    const jobWithEmptyNotes: BoardJob = {
       ...baseJob,
       notes: "",
     };
@@ -76,7 +81,7 @@ describe("JobCard", () => {
   });
 
   it("does not display notes indicator icon when notes field is only whitespace", () => {
-    const jobWithWhitespaceNotes: Job = {
+    const jobWithWhitespaceNotes: BoardJob = {
       ...baseJob,
       notes: "   \n\t  ",
     };
@@ -86,6 +91,25 @@ describe("JobCard", () => {
     expect(screen.queryByLabelText("Has notes")).not.toBeInTheDocument();
   });
 
+  it("displays the comment count next to the notes indicator", () => {
+    const jobWithComments: BoardJob = {
+      ...baseJob,
+      notes: "This is a test note",
+      _count: { comments: 3 },
+    };
+
+    render(<JobCard job={jobWithComments} />);
+
+    expect(screen.getByLabelText("3 comments")).toHaveTextContent("3");
+    expect(screen.getByLabelText("Has notes")).toBeInTheDocument();
+  });
+
+  it("does not display a comment count without comments", () => {
+    render(<JobCard job={{ ...baseJob, _count: { comments: 0 } }} />);
+
+    expect(screen.queryByLabelText(/comment/)).not.toBeInTheDocument();
+  });
+
   it("displays date applied when available", () => {
     render(<JobCard job={baseJob} />);
 
@@ -93,7 +117,7 @@ describe("JobCard", () => {
   });
 
   it("does not display location when not available", () => {
-    const jobWithoutLocation: Job = {
+    const jobWithoutLocation: BoardJob = {
       ...baseJob,
       location: null,
     };
@@ -103,6 +127,94 @@ describe("JobCard", () => {
     expect(screen.queryByText("Stockholm")).not.toBeInTheDocument();
   });
 
+  it("displays salary, remote policy, employment type and skills", () => {
+    const jobWithDetails: BoardJob = {
+      ...baseJob,
+      salaryMin: 45000,
+      salaryMax: 55000,
+      salaryCurrency: "SEK",
+      salaryPeriod: "MONTH",
+      employmentType: "FULL_TIME",
+      remotePolicy: "HYBRID",
+      skills: ["TypeScript", "React", "SQL", "Docker", "AWS"],
+    };
+
+    render(<JobCard job={jobWithDetails} />);
+
+    expect(screen.getByText("45 000–55 000 SEK/mo")).toBeInTheDocument();
+    expect(screen.getByText("Hybrid")).toBeInTheDocument();
+    expect(screen.getByText("Full-time")).toBeInTheDocument();
+    expect(screen.getByText("SQL")).toBeInTheDocument();
+    expect(screen.queryByText("Docker")).not.toBeInTheDocument();
+    expect(screen.getByText("+2")).toBeInTheDocument();
+  });
+
+  it("does not display job details when there are none", () => {
+    render(<JobCard job={baseJob} />);
+
+    expect(screen.queryByLabelText("Job details")).not.toBeInTheDocument();
+  });
+
+  it("shows a deadline countdown on wishlist jobs", () => {
+    const deadline = new Date();
+    deadline.setDate(deadline.getDate() + 5);
+
+    render(
+      <JobCard
+        job={{
+          ...baseJob,
+          deadline: new Date(
+            Date.UTC(
+              deadline.getFullYear(),
+              deadline.getMonth(),
+              deadline.getDate()
+            )
+          ),
+        }}
+      />
+    );
+
+    expect(screen.getByText("5 days left")).toBeInTheDocument();
+  });
+
+  it("flags wishlist jobs whose deadline has passed", () => {
+    render(<JobCard job={{ ...baseJob, deadline: new Date("2024-01-01") }} />);
+
+    expect(screen.getByText(/^Closed .* ago$/)).toBeInTheDocument();
+    expect(
+      screen.getByText("Test Company").closest("div.cursor-grab")
+    ).toHaveClass("border-destructive");
+  });
+
+  it("does not show a deadline once the job has been applied to", () => {
+    render(
+      <JobCard
+        job={{
+          ...baseJob,
+          stageId: 2,
+          stage: stage({ id: 2, name: "Applied", category: "APPLIED" }),
+          deadline: new Date("2024-01-01"),
+        }}
+      />
+    );
+
+    expect(screen.queryByText(/Closed/)).not.toBeInTheDocument();
+  });
+
+  it("stamps jobs in terminal stages with the stage name", () => {
+    render(
+      <JobCard
+        job={{
+          ...baseJob,
+          stageId: 3,
+          stage: stage({ id: 3, name: "Ghosted", category: "REJECTED" }),
+        }}
+      />
+    );
+
+    expect(screen.getByText("Ghosted")).toHaveClass("text-status-rejected");
+  });
+
   it("handles onClick callback", () => {
     const handleClick = vi.fn();
     render(<JobCard job={baseJob} onClick={handleClick} />);
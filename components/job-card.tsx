@@ -1,23 +1,56 @@
 "use client";
 
-import { Job } from "@prisma/client";
-import { useDraggable } from "@dnd-kit/core";
-import { AlignLeft } from "lucide-react";
-import { getStatusColor, formatJobDate } from "@/lib/utils";
+import { BoardJob, getStageColor, isTerminalCategory } from "@/lib/stages";
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { AlignLeft, CalendarClock, MessageSquare } from "lucide-react";
+import {
+  formatJobDate,
+  formatSalary,
+  getEmploymentTypeLabel,
+  getRemotePolicyLabel,
+} from "@/lib/utils";
+import {
+  daysUntilDeadline,
+  DeadlineUrgency,
+  formatDeadlineCountdown,
+  getDeadlineUrgency,
+  isWishlisted,
+} from "@/lib/deadlines";
+
+// Enough skills to recognise the role without crowding the card
+const MAX_CARD_SKILLS = 3;
+
+// Complete class names so Tailwind's JIT compiler can detect them
+const DEADLINE_BADGE_CLASSES: Record<DeadlineUrgency, string> = {
+  overdue: "border-destructive bg-destructive/10 text-destructive",
+  soon: "border-amber-500 text-amber-600 dark:text-amber-500",
+  upcoming: "border-border text-muted-foreground",
+};
 
 interface JobCardProps {
-  job: Job;
-  onClick?: (job: Job) => void;
+  job: BoardJob;
+  onClick?: (job: BoardJob) => void;
 }
 
 export function JobCard({ job, onClick }: JobCardProps) {
-  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
     id: job.id,
     data: { job },
   });
 
   const style = {
-    // transform: CSS.Translate.toString(transform),
+    // Shift neighbouring cards while sorting; the dragged card itself is
+    // rendered in the DragOverlay, so this one stays as a placeholder
+    transform: CSS.Translate.toString(transform),
+    transition,
     opacity: isDragging ? 0.5 : 1,
     borderStyle: isDragging ? "dashed" : "solid",
   };
@@ -26,11 +59,30 @@ export function JobCard({ job, onClick }: JobCardProps) {
     onClick?.(job);
   };
 
+  const salary = formatSalary(job);
+  const tags = [
+    job.remotePolicy && getRemotePolicyLabel(job.remotePolicy),
+    job.employmentType && getEmploymentTypeLabel(job.employmentType),
+    ...job.skills.slice(0, MAX_CARD_SKILLS),
+  ].filter((tag): tag is string => Boolean(tag));
+  const hiddenSkillCount = job.skills.length - MAX_CARD_SKILLS;
+
+  // The countdown only matters until the job has been applied to
+  const daysLeft =
+    job.deadline && isWishlisted(job) ? daysUntilDeadline(job.deadline) : null;
+  const deadlineUrgency =
+    daysLeft === null ? null : getDeadlineUrgency(daysLeft);
+  const isOverdue = deadlineUrgency === "overdue";
+  const hasNotes = !!job.notes?.trim();
+  const commentCount = job._count?.comments ?? 0;
+
   return (
     <div
       ref={setNodeRef}
       style={style}
-      className={`relative cursor-grab rounded-md border border-border bg-card p-4 shadow-sm hover:shadow-md active:cursor-grabbing`}
+      className={`relative cursor-grab rounded-md border bg-card p-4 shadow-sm hover:shadow-md active:cursor-grabbing ${
+        isOverdue ? "border-destructive" : "border-border"
+      }`}
       {...attributes}
       {...listeners}
       onClick={handleClick}
@@ -41,44 +93,86 @@ export function JobCard({ job, onClick }: JobCardProps) {
         }
       }}
     >
-      {/* Status color stripe */}
+      {/* Stage color stripe */}
       <div
-        className={`absolute left-0 top-0 bottom-0 w-1 ${getStatusColor(job.status)}`}
+        className={`absolute left-0 top-0 bottom-0 w-1 ${getStageColor(job.stage.color)}`}
         aria-hidden="true"
       />
+      {deadlineUrgency && (
+        <span
+          className={`float-right ml-2 inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium ${DEADLINE_BADGE_CLASSES[deadlineUrgency]}`}
+          title={`Deadline ${formatJobDate(job.deadline!)}`}
+        >
+          <CalendarClock className="size-3" aria-hidden="true" />
+          {formatDeadlineCountdown(daysLeft!)}
+        </span>
+      )}
       <h3 className="font-medium text-card-foreground">{job.company}</h3>
       <p className="text-sm text-card-foreground">{job.title}</p>
       {job.location && (
         <p className="mt-1 text-xs text-muted-foreground">{job.location}</p>
       )}
+      {salary && <p className="mt-1 text-xs text-muted-foreground">{salary}</p>}
+      {tags.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-1" aria-label="Job details">
+          {tags.map((tag, index) => (
+            <li
+              key={`${index}-${tag}`}
+              className="rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground"
+            >
+              {tag}
+            </li>
+          ))}
+          {hiddenSkillCount > 0 && (
+            <li className="px-1 py-0.5 text-xs text-muted-foreground">
+              +{hiddenSkillCount}
+            </li>
+          )}
+        </ul>
+      )}
       {job.dateApplied && (
         <p className="mt-2 text-xs text-muted-foreground">
           Applied: {formatJobDate(job.dateApplied)}
         </p>
       )}
-      {/* Notes indicator bubble */}
-      {job.notes && job.notes.trim() && (
-        <div
-          className="absolute -right-2 bottom-4 flex items-center justify-center rounded-full bg-card border border-border size-9 shadow-md"
-          aria-label="Has notes"
-        >
-          <AlignLeft className="size-4 text-card-foreground" />
+      {/* Notes and comment count bubbles */}
+      {(hasNotes || commentCount > 0) && (
+        <div className="absolute -right-2 bottom-4 flex flex-col gap-1">
+          {commentCount > 0 && (
+            <div
+              className="flex items-center justify-center gap-0.5 rounded-full bg-card border border-border h-9 min-w-9 px-2 shadow-md"
+              aria-label={`${commentCount} comment${commentCount !== 1 ? "s" : ""}`}
+            >
+              <MessageSquare className="size-3.5 text-card-foreground" />
+              <span className="text-xs font-medium text-card-foreground">
+                {commentCount}
+              </span>
+            </div>
+          )}
+          {hasNotes && (
+            <div
+              className="flex items-center justify-center rounded-full bg-card border border-border size-9 shadow-md"
+              aria-label="Has notes"
+            >
+              <AlignLeft className="size-4 text-card-foreground" />
+            </div>
+          )}
         </div>
       )}
-      {/* Status stamp */}
-      {(job.status === "REJECTED" || job.status === "ACCEPTED") && (
+      {/* Outcome stamp for terminal stages */}
+      {isTerminalCategory(job.stage.category) && (
         <div
           className="pointer-events-none absolute bottom-4 right-3 -rotate-45 select-none opacity-80"
           aria-hidden="true"
         >
           <span
-            className={`text-2xl font-bold ${
-              job.status === "REJECTED"
+            className={`text-2xl font-bold uppercase ${
+              job.stage.category === "REJECTED"
                 ? "text-status-rejected"
                 : "text-status-accepted"
             }`}
           >
-            {job.status}
+            {job.stage.name}
           </span>
         </div>
       )}
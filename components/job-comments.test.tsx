@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { JobComments } from "./job-comments";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const comment = (id: number, author: string | null, body: string) => ({
+  id,
+  jobId: 1,
+  userId: author ? "user_coach" : "user_123",
+  body,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  author,
+});
+
+const mockFetch = (
+  comments: unknown[],
+  actionResponse: unknown = { ok: true, json: async () => ({}) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/jobs/1/comments" && !init?.method
+        ? { ok: true, json: async () => comments }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("JobComments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows comments in order with their authors and markdown", async () => {
+    // Arrange
+    mockFetch([
+      comment(1, null, "Applied via **referral**"),
+      comment(2, "Casey Coach", "[Prep notes](https://example.com/prep)"),
+    ]);
+
+    // Act
+    render(<JobComments jobId={1} />);
+
+    // Assert
+    const items = within(await screen.findByRole("list", { name: "Comments" }))
+      .getAllByRole("listitem")
+      .map((item) => item.textContent);
+    expect(items[0]).toContain("You");
+    expect(items[1]).toContain("Casey Coach");
+    expect(screen.getByText("referral").tagName).toBe("STRONG");
+    expect(screen.getByRole("link", { name: "Prep notes" })).toHaveAttribute(
+      "href",
+      "https://example.com/prep"
+    );
+  });
+
+  it("adds a comment and refreshes the board", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([], {
+      ok: true,
+      json: async () => comment(3, null, "Recruiter called back"),
+    });
+    render(<JobComments jobId={1} />);
+
+    // Act
+    await user.type(
+      await screen.findByPlaceholderText("Write a comment"),
+      "Recruiter called back"
+    );
+    await user.click(screen.getByRole("button", { name: "Comment" }));
+
+    // Assert
+    expect(
+      await screen.findByText("Recruiter called back")
+    ).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/jobs/1/comments",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ body: "Recruiter called back" }),
+      })
+    );
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("only lets the user edit their own comments", async () => {
+    // Arrange
+    mockFetch([comment(1, null, "Mine"), comment(2, "Casey Coach", "Theirs")]);
+
+    // Act
+    render(<JobComments jobId={1} role="COMMENTER" />);
+
+    // Assert
+    await screen.findByText("Theirs");
+    expect(
+      screen.getAllByRole("button", { name: "Edit comment" })
+    ).toHaveLength(1);
+    expect(
+      screen.getAllByRole("button", { name: "Delete comment" })
+    ).toHaveLength(1);
+  });
+
+  it("lets the owner delete a collaborator's comment", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    mockFetch([comment(2, "Casey Coach", "Theirs")]);
+    render(<JobComments jobId={1} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Delete comment" })
+    );
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/1/comments/2", {
+      method: "DELETE",
+    });
+    expect(screen.queryByText("Theirs")).not.toBeInTheDocument();
+  });
+
+  it("hides the form from viewers", async () => {
+    // Arrange
+    mockFetch([comment(1, "Casey Coach", "Theirs")]);
+
+    // Act
+    render(<JobComments jobId={1} role="VIEWER" />);
+
+    // Assert
+    await screen.findByText("Theirs");
+    expect(
+      screen.queryByPlaceholderText("Write a comment")
+    ).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /comment/i })).toBeNull();
+  });
+});
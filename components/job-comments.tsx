@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { JobComment } from "@prisma/client";
+import { Pencil, Trash2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { MarkdownEditor } from "@/components/markdown-editor";
+import { Button } from "@/components/ui/button";
+import { Markdown } from "@/components/markdown";
+import { jobCommentSchema, type JobCommentData } from "@/lib/schemas";
+import { can, type BoardAccessRole } from "@/lib/boards";
+import { formatRelativeTime } from "@/lib/utils";
+
+// Dates come back from the API as ISO strings. author names who wrote the
+// comment when it wasn't the user (on a shared board).
+type JobCommentEntry = Omit<JobComment, "createdAt" | "updatedAt"> & {
+  createdAt: string | Date;
+  updatedAt: string | Date;
+  author: string | null;
+};
+
+interface JobCommentsProps {
+  jobId: number;
+  // The user's role on the job's board: commenters and up can comment,
+  // the owner can also delete other people's comments
+  role?: BoardAccessRole;
+}
+
+/**
+ * Form for writing or editing a comment
+ */
+function CommentForm({
+  comment,
+  onSubmit,
+  onCancel,
+}: {
+  comment?: JobCommentEntry;
+  onSubmit: (data: JobCommentData) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const form = useForm<JobCommentData>({
+    resolver: zodResolver(jobCommentSchema),
+    defaultValues: { body: comment?.body ?? "" },
+  });
+
+  async function handleSubmit(data: JobCommentData) {
+    if ((await onSubmit(data)) && !comment) {
+      form.reset({ body: "" });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className="space-y-2"
+        aria-label={comment ? "Edit comment" : "Add comment"}
+      >
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="sr-only">Comment</FormLabel>
+              <FormControl>
+                <MarkdownEditor
+                  placeholder="Write a comment"
+                  className="min-h-20"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting
+              ? "Saving..."
+              : comment
+                ? "Save Comment"
+                : "Comment"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function CommentItem({
+  comment,
+  onEdit,
+  onDelete,
+}: {
+  comment: JobCommentEntry;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  const createdAt = new Date(comment.createdAt);
+  const isEdited =
+    new Date(comment.updatedAt).getTime() - createdAt.getTime() > 1000;
+
+  return (
+    <li className="space-y-1 p-3">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-card-foreground">
+            {comment.author ?? "You"}
+          </span>{" "}
+          <time
+            dateTime={createdAt.toISOString()}
+            title={createdAt.toLocaleString()}
+          >
+            {formatRelativeTime(createdAt)}
+          </time>
+          {isEdited && " (edited)"}
+        </p>
+        <div className="flex shrink-0 gap-1">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEdit}
+              aria-label="Edit comment"
+            >
+              <Pencil className="size-4" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              aria-label="Delete comment"
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Markdown source={comment.body} />
+    </li>
+  );
+}
+
+/**
+ * Discussion thread of a job, oldest comment first, with add, edit and
+ * delete. Fetches comments on mount and refreshes the board after adding
+ * or deleting one, for the comment count on its card.
+ */
+export function JobComments({ jobId, role = "OWNER" }: JobCommentsProps) {
+  const [comments, setComments] = useState<JobCommentEntry[] | null>(null);
+  // The comment being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const canComment = can(role, "comment");
+  const canManage = can(role, "manage");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadComments() {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/comments`);
+        if (!response.ok) {
+          throw new Error("Failed to load comments");
+        }
+        const data: JobCommentEntry[] = await response.json();
+        if (!cancelled) setComments(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load comments"
+          );
+        }
+      }
+    }
+
+    loadComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  /**
+   * Add a comment, or save the one being edited
+   *
+   * @returns Whether it was saved, to clear the form
+   */
+  async function handleSubmit(data: JobCommentData, commentId?: number) {
+    setError(null);
+
+    try {
+      const response = await fetch(
+        commentId
+          ? `/api/jobs/${jobId}/comments/${commentId}`
+          : `/api/jobs/${jobId}/comments`,
+        {
+          method: commentId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save comment");
+      }
+
+      const saved: JobCommentEntry = await response.json();
+      setComments((prev) =>
+        commentId
+          ? (prev?.map((c) => (c.id === saved.id ? saved : c)) ?? null)
+          : [...(prev ?? []), saved]
+      );
+      setEditingId(null);
+      if (!commentId) router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      return false;
+    }
+  }
+
+  /**
+   * Delete a comment after confirmation
+   */
+  async function handleDelete(comment: JobCommentEntry) {
+    const confirmed = window.confirm("Delete this comment?");
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/jobs/${jobId}/comments/${comment.id}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete comment");
+      }
+
+      setComments((prev) => prev?.filter((c) => c.id !== comment.id) ?? null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  if (!comments && !error) {
+    return <p className="text-sm text-muted-foreground">Loading comments...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {comments && comments.length === 0 && (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      )}
+
+      {comments && comments.length > 0 && (
+        <ol
+          className="divide-y divide-border rounded-lg border border-border"
+          aria-label="Comments"
+        >
+          {comments.map((comment) => {
+            const isOwn = comment.author === null;
+
+            return editingId === comment.id ? (
+              <li key={comment.id} className="p-3">
+                <CommentForm
+                  comment={comment}
+                  onSubmit={(data) => handleSubmit(data, comment.id)}
+                  onCancel={() => setEditingId(null)}
+                />
+              </li>
+            ) : (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                onEdit={
+                  isOwn && canComment
+                    ? () => setEditingId(comment.id)
+                    : undefined
+                }
+                onDelete={
+                  (isOwn && canComment) || canManage
+                    ? () => handleDelete(comment)
+                    : undefined
+                }
+              />
+            );
+          })}
+        </ol>
+      )}
+
+      {canComment && <CommentForm onSubmit={(data) => handleSubmit(data)} />}
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
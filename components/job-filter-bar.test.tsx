@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import { JobFilterBar } from "./job-filter-bar";
+import { EMPTY_JOB_FILTERS, JobFilters } from "@/lib/job-filters";
+
+// Test helpers
+function renderFilterBar(initialFilters: JobFilters = EMPTY_JOB_FILTERS) {
+  const onFiltersChange = vi.fn();
+
+  // Controlled wrapper so typing behaves like it does on the board
+  function Wrapper() {
+    const [filters, setFilters] = useState(initialFilters);
+    return (
+      <JobFilterBar
+        filters={filters}
+        onFiltersChange={(next) => {
+          onFiltersChange(next);
+          setFilters(next);
+        }}
+        totalCount={10}
+        visibleCount={3}
+      />
+    );
+  }
+
+  render(<Wrapper />);
+  return { onFiltersChange };
+}
+
+describe("JobFilterBar", () => {
+  it("updates the search filter as the user types", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const { onFiltersChange } = renderFilterBar();
+
+    // Act
+    await user.type(screen.getByLabelText("Search jobs"), "react");
+
+    // Assert
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...EMPTY_JOB_FILTERS,
+      q: "react",
+    });
+  });
+
+  it("updates company and location filters", async () => {
+    const user = userEvent.setup();
+    const { onFiltersChange } = renderFilterBar();
+
+    await user.type(screen.getByLabelText("Filter by company"), "Acme");
+    await user.type(screen.getByLabelText("Filter by location"), "Lund");
+
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...EMPTY_JOB_FILTERS,
+      company: "Acme",
+      location: "Lund",
+    });
+  });
+
+  it("toggles the has notes filter", async () => {
+    const user = userEvent.setup();
+    const { onFiltersChange } = renderFilterBar();
+    const toggle = screen.getByRole("button", { name: "Has notes" });
+
+    await user.click(toggle);
+
+    expect(toggle).toHaveAttribute("aria-pressed", "true");
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...EMPTY_JOB_FILTERS,
+      hasNotes: true,
+    });
+  });
+
+  it("toggles sorting the wishlist by deadline", async () => {
+    const user = userEvent.setup();
+    const { onFiltersChange } = renderFilterBar();
+
+    await user.click(
+      screen.getByRole("button", { name: "Wishlist by deadline" })
+    );
+
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...EMPTY_JOB_FILTERS,
+      sortWishlistByDeadline: true,
+    });
+    expect(screen.queryByText(/Showing/)).not.toBeInTheDocument();
+  });
+
+  it("shows the applied within filter from the current filters", () => {
+    renderFilterBar({ ...EMPTY_JOB_FILTERS, appliedWithinDays: 30 });
+
+    expect(screen.getByLabelText("Applied within")).toHaveTextContent(
+      "Applied last 30 days"
+    );
+  });
+
+  it("hides the result count and clear button when nothing is filtered", () => {
+    renderFilterBar();
+
+    expect(screen.queryByText(/Showing/)).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Clear filters" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("shows the result count and clears all filters", async () => {
+    const user = userEvent.setup();
+    const { onFiltersChange } = renderFilterBar({
+      ...EMPTY_JOB_FILTERS,
+      q: "react",
+      hasNotes: true,
+      sortWishlistByDeadline: true,
+    });
+
+    expect(screen.getByText("Showing 3 of 10 jobs")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Clear filters" }));
+
+    // The wishlist ordering isn't a filter, so it stays
+    expect(onFiltersChange).toHaveBeenLastCalledWith({
+      ...EMPTY_JOB_FILTERS,
+      sortWishlistByDeadline: true,
+    });
+    expect(screen.getByLabelText("Search jobs")).toHaveValue("");
+  });
+});
@@ -0,0 +1,147 @@
+"use client";
+
+import { CalendarClock, Search, StickyNote, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  APPLIED_WITHIN_OPTIONS,
+  EMPTY_JOB_FILTERS,
+  hasActiveFilters,
+  JobFilters,
+} from "@/lib/job-filters";
+
+// Radix Select items can't have an empty value
+const ANY_TIME = "any";
+
+interface JobFilterBarProps {
+  filters: JobFilters;
+  onFiltersChange: (filters: JobFilters) => void;
+  totalCount: number;
+  visibleCount: number;
+}
+
+/**
+ * Filter controls shown above the board. Stateless - the board owns the
+ * filter state and keeps it in sync with the URL.
+ */
+export function JobFilterBar({
+  filters,
+  onFiltersChange,
+  totalCount,
+  visibleCount,
+}: JobFilterBarProps) {
+  const isFiltered = hasActiveFilters(filters);
+
+  function update(changes: Partial<JobFilters>) {
+    onFiltersChange({ ...filters, ...changes });
+  }
+
+  return (
+    <div
+      role="search"
+      className="flex flex-wrap items-center gap-2 px-4 pt-2"
+      aria-label="Filter jobs"
+    >
+      <div className="relative w-full sm:w-64">
+        <Search
+          className="pointer-events-none absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground"
+          aria-hidden="true"
+        />
+        <Input
+          type="search"
+          value={filters.q}
+          onChange={(e) => update({ q: e.target.value })}
+          placeholder="Search jobs..."
+          aria-label="Search jobs"
+          className="pl-8"
+        />
+      </div>
+      <Input
+        value={filters.company}
+        onChange={(e) => update({ company: e.target.value })}
+        placeholder="Company"
+        aria-label="Filter by company"
+        className="w-full sm:w-40"
+      />
+      <Input
+        value={filters.location}
+        onChange={(e) => update({ location: e.target.value })}
+        placeholder="Location"
+        aria-label="Filter by location"
+        className="w-full sm:w-40"
+      />
+      <Select
+        value={
+          filters.appliedWithinDays
+            ? String(filters.appliedWithinDays)
+            : ANY_TIME
+        }
+        onValueChange={(value) =>
+          update({
+            appliedWithinDays: value === ANY_TIME ? null : Number(value),
+          })
+        }
+      >
+        <SelectTrigger className="w-full sm:w-44" aria-label="Applied within">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY_TIME}>Applied any time</SelectItem>
+          {APPLIED_WITHIN_OPTIONS.map((days) => (
+            <SelectItem key={days} value={String(days)}>
+              Applied last {days} days
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant={filters.hasNotes ? "secondary" : "outline"}
+        size="sm"
+        onClick={() => update({ hasNotes: !filters.hasNotes })}
+        aria-pressed={filters.hasNotes}
+      >
+        <StickyNote className="size-4" />
+        Has notes
+      </Button>
+      <Button
+        variant={filters.sortWishlistByDeadline ? "secondary" : "outline"}
+        size="sm"
+        onClick={() =>
+          update({ sortWishlistByDeadline: !filters.sortWishlistByDeadline })
+        }
+        aria-pressed={filters.sortWishlistByDeadline}
+        title="Sort the wishlist by the nearest application deadline"
+      >
+        <CalendarClock className="size-4" />
+        Wishlist by deadline
+      </Button>
+      {isFiltered && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onFiltersChange({
+                ...EMPTY_JOB_FILTERS,
+                sortWishlistByDeadline: filters.sortWishlistByDeadline,
+              })
+            }
+          >
+            <X className="size-4" />
+            Clear filters
+          </Button>
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            Showing {visibleCount} of {totalCount} jobs
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { JobInterviews } from "./job-interviews";
+
+// Mock sonner
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+// Test helpers
+const interview = {
+  id: 3,
+  jobId: 1,
+  userId: "user_123",
+  round: "Phone screen",
+  startsAt: "2025-03-03T13:00:00.000Z",
+  endsAt: "2025-03-03T13:30:00.000Z",
+  timeZone: "Europe/Stockholm",
+  location: null,
+  videoUrl: "https://meet.example.com/abc",
+  interviewers: ["Jane Doe"],
+  prepNotes: "Ask about the team",
+  outcome: "PASSED",
+  createdAt: "2025-03-01T09:00:00.000Z",
+  updatedAt: "2025-03-01T09:00:00.000Z",
+};
+
+const mockFetch = (
+  interviews: unknown[] = [interview],
+  actionResponse: unknown = { ok: true, json: async () => ({ success: true }) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/jobs/1/interviews" && !init?.method
+        ? { ok: true, json: async () => interviews }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("JobInterviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists interview rounds with their details", async () => {
+    mockFetch();
+
+    render(<JobInterviews jobId={1} />);
+
+    expect(await screen.findByText("Phone screen")).toBeInTheDocument();
+    expect(screen.getByText("Passed")).toBeInTheDocument();
+    expect(screen.getByText("Mon 3 Mar, 14:00–14:30 CET")).toBeInTheDocument();
+    expect(screen.getByText("Jane Doe")).toBeInTheDocument();
+    expect(screen.getByText("Ask about the team")).toBeInTheDocument();
+    expect(screen.getByText("Join video call")).toHaveAttribute(
+      "href",
+      "https://meet.example.com/abc"
+    );
+  });
+
+  it("shows an empty state", async () => {
+    mockFetch([]);
+
+    render(<JobInterviews jobId={1} />);
+
+    expect(
+      await screen.findByText("No interviews scheduled yet.")
+    ).toBeInTheDocument();
+  });
+
+  it("adds an interview in the chosen time zone", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([], {
+      ok: true,
+      json: async () => ({ ...interview, id: 4, round: "Technical" }),
+    });
+    render(<JobInterviews jobId={1} />);
+    await user.click(
+      await screen.findByRole("button", { name: /Add Interview/ })
+    );
+
+    // Act
+    await user.type(screen.getByLabelText("Round *"), "Technical");
+    fireEvent.change(screen.getByLabelText("Date *"), {
+      target: { value: "2025-03-03" },
+    });
+    fireEvent.change(screen.getByLabelText("Start *"), {
+      target: { value: "14:00" },
+    });
+    await user.clear(screen.getByLabelText("Time Zone"));
+    await user.type(screen.getByLabelText("Time Zone"), "Europe/Stockholm");
+    await user.click(screen.getByRole("button", { name: "Save Interview" }));
+
+    // Assert
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith(
+        "/api/jobs/1/interviews",
+        expect.objectContaining({ method: "POST" })
+      );
+    });
+    const [, init] = vi
+      .mocked(global.fetch)
+      .mock.calls.find(([, init]) => init?.method === "POST")!;
+    expect(JSON.parse(init!.body as string)).toMatchObject({
+      round: "Technical",
+      startsAt: "2025-03-03T13:00:00.000Z",
+      timeZone: "Europe/Stockholm",
+    });
+    expect(await screen.findByText("Technical")).toBeInTheDocument();
+  });
+
+  it("deletes an interview after confirmation", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(true);
+    render(<JobInterviews jobId={1} />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Delete Phone screen"));
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/1/interviews/3", {
+      method: "DELETE",
+    });
+    await waitFor(() => {
+      expect(screen.queryByText("Phone screen")).not.toBeInTheDocument();
+    });
+    confirmSpy.mockRestore();
+  });
+
+  it("shows an error when loading fails", async () => {
+    global.fetch = vi.fn(() =>
+      Promise.resolve({ ok: false, json: async () => ({}) })
+    ) as unknown as typeof fetch;
+
+    render(<JobInterviews jobId={1} />);
+
+    expect(
+      await screen.findByText("Failed to load interviews")
+    ).toBeInTheDocument();
+  });
+});
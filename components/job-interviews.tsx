@@ -0,0 +1,558 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Interview, InterviewOutcome } from "@prisma/client";
+import { toast } from "sonner";
+import {
+  CalendarPlus,
+  MapPin as MapPinIcon,
+  Pencil,
+  Plus,
+  Trash2,
+  Users,
+  Video,
+} from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { interviewFormSchema, type InterviewFormData } from "@/lib/schemas";
+import {
+  formatInterviewTime,
+  getLocalTimeZone,
+  interviewFormToData,
+  interviewToFormValues,
+} from "@/lib/interviews";
+import { getInterviewOutcomeLabel } from "@/lib/utils";
+
+const INTERVIEW_OUTCOMES = Object.values(InterviewOutcome).map((value) => ({
+  value,
+  label: getInterviewOutcomeLabel(value),
+}));
+
+const OUTCOME_COLORS: Record<InterviewOutcome, string> = {
+  PENDING: "bg-muted text-muted-foreground",
+  PASSED: "bg-status-accepted text-white",
+  REJECTED: "bg-status-rejected text-white",
+  CANCELLED: "bg-muted text-muted-foreground line-through",
+};
+
+interface JobInterviewsProps {
+  jobId: number;
+  // Lists the interviews without add, edit and delete
+  readOnly?: boolean;
+}
+
+function emptyFormValues(): InterviewFormData {
+  return {
+    round: "",
+    date: "",
+    startTime: "",
+    endTime: "",
+    timeZone: getLocalTimeZone(),
+    location: "",
+    videoUrl: "",
+    interviewers: "",
+    prepNotes: "",
+    outcome: "PENDING",
+  };
+}
+
+/**
+ * Form for adding or editing an interview round
+ */
+function InterviewForm({
+  interview,
+  onSubmit,
+  onCancel,
+}: {
+  interview?: Interview;
+  onSubmit: (data: InterviewFormData) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const form = useForm<InterviewFormData>({
+    resolver: zodResolver(interviewFormSchema),
+    defaultValues: interview
+      ? interviewToFormValues(interview)
+      : emptyFormValues(),
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4 rounded-lg border border-border p-4"
+        aria-label={interview ? "Edit interview" : "Add interview"}
+      >
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="round"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Round *</FormLabel>
+                <FormControl>
+                  <Input placeholder="Technical interview" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="outcome"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Outcome</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {INTERVIEW_OUTCOMES.map((outcome) => (
+                      <SelectItem key={outcome.value} value={outcome.value}>
+                        {outcome.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date *</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="startTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start *</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endTime"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="timeZone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time Zone</FormLabel>
+                <FormControl>
+                  <Input placeholder="Europe/Stockholm" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Location</FormLabel>
+                <FormControl>
+                  <Input placeholder="Office, floor 3" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="videoUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Video Link</FormLabel>
+                <FormControl>
+                  <Input
+                    type="url"
+                    placeholder="https://meet.example.com/abc"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="interviewers"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Interviewers</FormLabel>
+              <FormControl>
+                <Input placeholder="Jane Doe, John Smith" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="prepNotes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Prep Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Questions to ask, topics to brush up on..."
+                  className="min-h-20"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? "Saving..." : "Save Interview"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function InterviewItem({
+  interview,
+  onEdit,
+  onDelete,
+}: {
+  interview: Interview;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <li className="space-y-1 p-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="flex items-center gap-2 text-sm font-medium">
+            {interview.round}
+            <span
+              className={`rounded-full px-2 py-0.5 text-xs ${OUTCOME_COLORS[interview.outcome]}`}
+            >
+              {getInterviewOutcomeLabel(interview.outcome)}
+            </span>
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {formatInterviewTime(interview)}
+          </p>
+        </div>
+        {onEdit && onDelete && (
+          <div className="flex shrink-0 gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEdit}
+              aria-label={`Edit ${interview.round}`}
+            >
+              <Pencil className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              aria-label={`Delete ${interview.round}`}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {interview.location && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <MapPinIcon className="size-3.5" aria-hidden="true" />
+          {interview.location}
+        </p>
+      )}
+      {interview.videoUrl && (
+        <a
+          href={interview.videoUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1.5 text-xs text-blue-600 hover:underline dark:text-blue-400"
+        >
+          <Video className="size-3.5" aria-hidden="true" />
+          Join video call
+        </a>
+      )}
+      {interview.interviewers.length > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Users className="size-3.5" aria-hidden="true" />
+          {interview.interviewers.join(", ")}
+        </p>
+      )}
+      {interview.prepNotes && (
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+          {interview.prepNotes}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Interview rounds for a job, with add, edit and delete.
+ * Fetches interviews on mount, earliest first.
+ */
+export function JobInterviews({ jobId, readOnly = false }: JobInterviewsProps) {
+  const [interviews, setInterviews] = useState<Interview[] | null>(null);
+  // The interview being edited, "new" while adding one
+  const [editing, setEditing] = useState<Interview | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadInterviews() {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/interviews`);
+        if (!response.ok) {
+          throw new Error("Failed to load interviews");
+        }
+        const data: Interview[] = await response.json();
+        if (!cancelled) setInterviews(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load interviews"
+          );
+        }
+      }
+    }
+
+    loadInterviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  /**
+   * Create or update an interview, keeping the list in start order
+   */
+  async function handleSubmit(data: InterviewFormData) {
+    setError(null);
+    const isNew = editing === "new";
+
+    try {
+      const response = await fetch(
+        isNew
+          ? `/api/jobs/${jobId}/interviews`
+          : `/api/jobs/${jobId}/interviews/${(editing as Interview).id}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(interviewFormToData(data)),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save interview");
+      }
+
+      const saved: Interview = await response.json();
+      setInterviews((prev) =>
+        [...(prev ?? []).filter((i) => i.id !== saved.id), saved].sort(
+          (a, b) =>
+            new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime()
+        )
+      );
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Delete an interview after confirmation
+   */
+  async function handleDelete(interview: Interview) {
+    const confirmed = window.confirm(`Delete ${interview.round}?`);
+    if (!confirmed) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/jobs/${jobId}/interviews/${interview.id}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete interview");
+      }
+
+      setInterviews(
+        (prev) => prev?.filter((i) => i.id !== interview.id) ?? null
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Copy the user's calendar feed URL, for subscribing from a calendar app
+   */
+  async function handleCopyFeedUrl() {
+    try {
+      const response = await fetch("/api/calendar");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to get calendar feed");
+      }
+      await navigator.clipboard.writeText(data.url);
+      toast.success("Calendar feed URL copied", {
+        description: "Subscribe to it from your calendar app",
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to get calendar feed"
+      );
+    }
+  }
+
+  if (!interviews && !error) {
+    return (
+      <p className="text-sm text-muted-foreground">Loading interviews...</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        {readOnly ? (
+          <span />
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditing("new")}
+            disabled={editing !== null}
+          >
+            <Plus className="size-4" />
+            Add Interview
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={handleCopyFeedUrl}>
+          <CalendarPlus className="size-4" />
+          Calendar Feed
+        </Button>
+      </div>
+
+      {editing === "new" && (
+        <InterviewForm
+          onSubmit={handleSubmit}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {interviews && interviews.length === 0 && editing !== "new" && (
+        <p className="text-sm text-muted-foreground">
+          No interviews scheduled yet.
+        </p>
+      )}
+
+      {interviews && interviews.length > 0 && (
+        <ul className="divide-y divide-border rounded-lg border border-border">
+          {interviews.map((interview) =>
+            editing !== "new" && editing?.id === interview.id ? (
+              <li key={interview.id} className="p-2">
+                <InterviewForm
+                  interview={interview}
+                  onSubmit={handleSubmit}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            ) : (
+              <InterviewItem
+                key={interview.id}
+                interview={interview}
+                onEdit={readOnly ? undefined : () => setEditing(interview)}
+                onDelete={readOnly ? undefined : () => handleDelete(interview)}
+              />
+            )
+          )}
+        </ul>
+      )}
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
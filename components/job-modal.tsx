@@ -3,10 +3,20 @@
 import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Job, JobStatus } from "@prisma/client";
+import {
+  Board,
+  EmploymentType,
+  RemotePolicy,
+  SalaryPeriod,
+  Stage,
+} from "@prisma/client";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 import {
   AlignLeft,
+  Banknote,
+  Briefcase,
+  Building2,
   MapPin as MapPinIcon,
   User as UserIcon,
   Pencil,
@@ -34,31 +44,83 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { jobSchema, type JobFormData } from "@/lib/schemas";
-import { formatJobDate, getStatusColor } from "@/lib/utils";
+import { CompanyModal } from "@/components/company-modal";
+import { ContactPicker } from "@/components/contact-picker";
+import { JobInterviews } from "@/components/job-interviews";
+import { JobComments } from "@/components/job-comments";
+import { Markdown } from "@/components/markdown";
+import { MarkdownEditor } from "@/components/markdown-editor";
+import { JobTimeline } from "@/components/job-timeline";
+import {
+  jobSchema,
+  type ExtractionConfidence,
+  type ExtractionConfidenceLevel,
+  type JobFormData,
+} from "@/lib/schemas";
+import { BoardJob, getBoardStages, getStageColor } from "@/lib/stages";
+import { can, type BoardAccessRole } from "@/lib/boards";
+import {
+  daysUntilDeadline,
+  formatDeadlineCountdown,
+  isOverdue,
+  isWishlisted,
+} from "@/lib/deadlines";
+import {
+  formatJobDate,
+  formatSalary,
+  getEmploymentTypeLabel,
+  getRemotePolicyLabel,
+  getSalaryPeriodLabel,
+} from "@/lib/utils";
 import type { z } from "zod";
 
-const JOB_STATUSES: { value: JobStatus; label: string }[] = [
-  { value: "WISHLIST", label: "Wishlist" },
-  { value: "APPLIED", label: "Applied" },
-  { value: "INTERVIEW", label: "Interview" },
-  { value: "OFFER", label: "Offer" },
-  { value: "ACCEPTED", label: "Accepted" },
-  { value: "REJECTED", label: "Rejected" },
-];
+const EMPLOYMENT_TYPES = Object.values(EmploymentType).map((value) => ({
+  value,
+  label: getEmploymentTypeLabel(value),
+}));
+
+const REMOTE_POLICIES = Object.values(RemotePolicy).map((value) => ({
+  value,
+  label: getRemotePolicyLabel(value),
+}));
+
+const SALARY_PERIODS = Object.values(SalaryPeriod).map((value) => ({
+  value,
+  label: getSalaryPeriodLabel(value),
+}));
+
+// Select items can't have an empty value, so "not specified" gets its own
+const UNSET_OPTION = "UNSET";
 
 interface JobModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  job?: Job;
+  job?: BoardJob;
+  // The user's stages, for the stage picker and the activity timeline
+  stages: Stage[];
+  // The boards a job can be moved to
+  boards?: Board[];
+  // The board new jobs are added to
+  boardId?: number;
+  // The user's role on the board; only editors and owners can change jobs
+  role?: BoardAccessRole;
   onSuccess?: () => void;
-  initialStatus?: JobStatus;
+  initialStageId?: number;
   initialData?: Partial<JobFormData>;
+  // Per-field confidence of AI-extracted initialData
+  extractionConfidence?: ExtractionConfidence;
 }
 
 type ModalMode = "view" | "edit";
+type ViewTab = "details" | "interviews" | "comments" | "activity";
+
+const VIEW_TABS: { value: ViewTab; label: string }[] = [
+  { value: "details", label: "Details" },
+  { value: "interviews", label: "Interviews" },
+  { value: "comments", label: "Comments" },
+  { value: "activity", label: "Activity" },
+];
 
 // Convert ISO datetime string or Date to date-only format (YYYY-MM-DD)
 // Handles both cases since dates can be Date objects or strings depending on the data source
@@ -69,20 +131,76 @@ function isoToDate(iso: string | Date | null | undefined): string {
   return isoString.slice(0, 10); // "2024-11-26T14:30:00.000Z" -> "2024-11-26"
 }
 
+// Parse a comma-separated skills list, dropping empty entries
+function parseSkillList(text: string): string[] {
+  return text
+    .split(",")
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+}
+
+// Edit a skills array as comma-separated text. The raw text is kept while
+// typing so a trailing comma isn't swallowed, and replaced when the form
+// value changes from outside (e.g. on reset)
+function SkillsInput({
+  value,
+  onChange,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: string[];
+  onChange: (skills: string[]) => void;
+}) {
+  const [text, setText] = useState(value.join(", "));
+  const isInSync = parseSkillList(text).join("\n") === value.join("\n");
+
+  return (
+    <Input
+      {...props}
+      value={isInSync ? text : value.join(", ")}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseSkillList(e.target.value));
+      }}
+    />
+  );
+}
+
+// Flag extracted values the AI wasn't sure about
+function ConfidenceHint({ level }: { level?: ExtractionConfidenceLevel }) {
+  if (!level || level === "high") return null;
+
+  return (
+    <p className="text-xs text-amber-600 dark:text-amber-500">
+      {level === "low"
+        ? "AI guess, please double-check"
+        : "Inferred by AI, worth a check"}
+    </p>
+  );
+}
+
 export function JobModal({
   open,
   onOpenChange,
   job,
+  stages,
+  boards = [],
+  boardId,
+  role = "OWNER",
   onSuccess,
-  initialStatus,
+  initialStageId,
   initialData,
+  extractionConfidence,
 }: JobModalProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<ModalMode>("edit");
+  const [viewTab, setViewTab] = useState<ViewTab>("details");
+  const [isCompanyOpen, setIsCompanyOpen] = useState(false);
   const isEditing = !!job;
+  const canEdit = can(role, "edit");
+  const confidence = isEditing ? undefined : extractionConfidence;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const form = useForm<z.input<typeof jobSchema>, any, JobFormData>({
@@ -93,12 +211,22 @@ export function JobModal({
       location: "",
       jobPostingUrl: "",
       jobPostingText: "",
-      status: "WISHLIST",
+      stageId: undefined,
+      boardId: undefined,
       notes: "",
-      contactPerson: "",
+      contactIds: [],
       resumeUrl: "",
       coverLetterUrl: "",
       dateApplied: undefined,
+      deadline: "",
+      followUpAt: "",
+      salaryMin: "",
+      salaryMax: "",
+      salaryCurrency: "",
+      salaryPeriod: "",
+      employmentType: "",
+      remotePolicy: "",
+      skills: [],
     },
   });
 
@@ -107,6 +235,8 @@ export function JobModal({
     if (open) {
       // Set mode: view for existing jobs, edit for new jobs
       setMode(job ? "view" : "edit");
+      setViewTab("details");
+      setIsCompanyOpen(false);
 
       if (job) {
         // Editing existing job
@@ -116,12 +246,23 @@ export function JobModal({
           location: job.location ?? "",
           jobPostingUrl: job.jobPostingUrl ?? "",
           jobPostingText: job.jobPostingText ?? "",
-          status: job.status,
+          stageId: job.stageId,
+          boardId: job.boardId,
           notes: job.notes ?? "",
-          contactPerson: job.contactPerson ?? "",
+          contactIds: job.contacts.map((contact) => contact.id),
           resumeUrl: job.resumeUrl ?? "",
           coverLetterUrl: job.coverLetterUrl ?? "",
           dateApplied: isoToDate(job.dateApplied),
+          deadline: isoToDate(job.deadline),
+          followUpAt: isoToDate(job.followUpAt),
+          order: job.order,
+          salaryMin: job.salaryMin ?? "",
+          salaryMax: job.salaryMax ?? "",
+          salaryCurrency: job.salaryCurrency ?? "",
+          salaryPeriod: job.salaryPeriod ?? "",
+          employmentType: job.employmentType ?? "",
+          remotePolicy: job.remotePolicy ?? "",
+          skills: job.skills,
         });
       } else if (initialData) {
         // New job with AI-extracted data
@@ -131,13 +272,23 @@ export function JobModal({
           location: initialData.location ?? "",
           jobPostingUrl: initialData.jobPostingUrl ?? "",
           jobPostingText: initialData.jobPostingText ?? "",
-          status: initialStatus ?? "WISHLIST",
+          stageId: initialStageId,
+          boardId,
           notes: initialData.notes ?? "",
-          contactPerson: "",
+          contactIds: [],
           resumeUrl: "",
           coverLetterUrl: "",
           dateApplied: "",
+          deadline: initialData.deadline ?? "",
+          followUpAt: "",
           order: "0",
+          salaryMin: initialData.salaryMin ?? "",
+          salaryMax: initialData.salaryMax ?? "",
+          salaryCurrency: initialData.salaryCurrency ?? "",
+          salaryPeriod: initialData.salaryPeriod ?? "",
+          employmentType: initialData.employmentType ?? "",
+          remotePolicy: initialData.remotePolicy ?? "",
+          skills: initialData.skills ?? [],
         });
       } else {
         // New job with no extracted data
@@ -147,18 +298,28 @@ export function JobModal({
           location: "",
           jobPostingUrl: "",
           jobPostingText: "",
-          status: initialStatus ?? "WISHLIST",
+          stageId: initialStageId,
+          boardId,
           notes: "",
-          contactPerson: "",
+          contactIds: [],
           resumeUrl: "",
           coverLetterUrl: "",
           dateApplied: "",
+          deadline: "",
+          followUpAt: "",
+          salaryMin: "",
+          salaryMax: "",
+          salaryCurrency: "",
+          salaryPeriod: "",
+          employmentType: "",
+          remotePolicy: "",
+          skills: [],
         });
       }
       setError(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, job, initialStatus, initialData]);
+  }, [open, job, initialStageId, initialData, boardId]);
 
   async function onSubmit(data: JobFormData) {
     setIsSubmitting(true);
@@ -199,7 +360,7 @@ export function JobModal({
     // Native browser confirm dialog
     const jobTitle = job.title || "Untitled";
     const confirmed = window.confirm(
-      `Delete ${job.company} - ${jobTitle}?\n\nThis action cannot be undone.`
+      `Delete ${job.company} - ${jobTitle}?\n\nYou can restore it from the trash.`
     );
 
     if (!confirmed) return;
@@ -221,6 +382,15 @@ export function JobModal({
       onOpenChange(false);
       router.refresh();
       onSuccess?.();
+
+      const deletedJobId = job.id;
+      toast.success("Job deleted", {
+        description: `${job.company} - ${jobTitle}`,
+        action: {
+          label: "Undo",
+          onClick: () => handleUndoDelete(deletedJobId),
+        },
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -228,8 +398,29 @@ export function JobModal({
     }
   }
 
+  async function handleUndoDelete(jobId: number) {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to restore job");
+      }
+
+      router.refresh();
+      onSuccess?.();
+      toast.success("Job restored");
+    } catch (err) {
+      toast.error("Couldn't restore job", {
+        description: err instanceof Error ? err.message : "An error occurred",
+      });
+    }
+  }
+
   // Display view component for read-only job details
-  function DisplayView({ job }: { job: Job }) {
+  function DisplayView({ job }: { job: BoardJob }) {
     const [isJobPostingExpanded, setIsJobPostingExpanded] = useState(false);
 
     return (
@@ -274,31 +465,97 @@ export function JobModal({
           </div>
         )}
 
-        {/* Row 4: Location and Contact Person (with icons) */}
-        {(job.location || job.contactPerson) && (
-          <div className="flex gap-4 text-sm text-muted-foreground">
-            {job.location && (
+        {/* Row 4: Location (with icon) */}
+        {job.location && (
+          <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <MapPinIcon className="size-4" aria-hidden="true" />
+            <span>{job.location}</span>
+          </div>
+        )}
+
+        {/* Linked contacts, with role and ways to reach them */}
+        {job.contacts.length > 0 && (
+          <ul className="space-y-1 text-sm" aria-label="Contacts">
+            {job.contacts.map((contact) => (
+              <li
+                key={contact.id}
+                className="flex flex-wrap items-center gap-x-1.5 text-muted-foreground"
+              >
+                <UserIcon className="size-4" aria-hidden="true" />
+                <span className="text-card-foreground">{contact.name}</span>
+                {contact.role && <span>· {contact.role}</span>}
+                {contact.email && (
+                  <a
+                    href={`mailto:${contact.email}`}
+                    className="text-primary underline"
+                  >
+                    {contact.email}
+                  </a>
+                )}
+                {contact.phone && (
+                  <a href={`tel:${contact.phone}`} className="underline">
+                    {contact.phone}
+                  </a>
+                )}
+                {contact.linkedinUrl && (
+                  <a
+                    href={contact.linkedinUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary underline"
+                  >
+                    LinkedIn
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Salary, employment type and remote policy (with icons) */}
+        {(formatSalary(job) || job.employmentType || job.remotePolicy) && (
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            {formatSalary(job) && (
               <div className="flex items-center gap-1.5">
-                <MapPinIcon className="size-4" aria-hidden="true" />
-                <span>{job.location}</span>
+                <Banknote className="size-4" aria-hidden="true" />
+                <span>{formatSalary(job)}</span>
               </div>
             )}
-            {job.contactPerson && (
+            {job.employmentType && (
               <div className="flex items-center gap-1.5">
-                <UserIcon className="size-4" aria-hidden="true" />
-                <span>{job.contactPerson}</span>
+                <Briefcase className="size-4" aria-hidden="true" />
+                <span>{getEmploymentTypeLabel(job.employmentType)}</span>
+              </div>
+            )}
+            {job.remotePolicy && (
+              <div className="flex items-center gap-1.5">
+                <Building2 className="size-4" aria-hidden="true" />
+                <span>{getRemotePolicyLabel(job.remotePolicy)}</span>
               </div>
             )}
           </div>
         )}
 
-        {/* Row 5: Status and Date Applied */}
+        {/* Skills */}
+        {job.skills.length > 0 && (
+          <ul className="flex flex-wrap gap-1.5" aria-label="Skills">
+            {job.skills.map((skill) => (
+              <li
+                key={skill}
+                className="rounded-full border border-border px-2.5 py-0.5 text-xs text-muted-foreground"
+              >
+                {skill}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Row 5: Stage and Date Applied */}
         <div className="flex gap-4 text-sm items-center">
           <span
-            className={`${getStatusColor(job.status)} px-3 py-1 rounded-md font-medium text-card-foreground`}
+            className={`${getStageColor(job.stage.color)} px-3 py-1 rounded-md font-medium text-card-foreground`}
           >
-            {JOB_STATUSES.find((s) => s.value === job.status)?.label ??
-              job.status}
+            {job.stage.name}
           </span>
           {job.dateApplied && (
             <div className="flex items-center gap-2">
@@ -308,6 +565,32 @@ export function JobModal({
               </span>
             </div>
           )}
+          {job.deadline && (
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-card-foreground">
+                Deadline:
+              </span>
+              <span
+                className={
+                  isOverdue(job) ? "text-destructive" : "text-muted-foreground"
+                }
+              >
+                {formatJobDate(job.deadline)}
+                {isWishlisted(job) &&
+                  ` (${formatDeadlineCountdown(daysUntilDeadline(job.deadline))})`}
+              </span>
+            </div>
+          )}
+          {job.followUpAt && (
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-card-foreground">
+                Follow up:
+              </span>
+              <span className="text-muted-foreground">
+                {formatJobDate(job.followUpAt)}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Notes (if exists) - styled like a paper note */}
@@ -317,9 +600,7 @@ export function JobModal({
               Personal Notes
               <AlignLeft className="size-4" aria-hidden="true" />
             </h3>
-            <p className="whitespace-pre-wrap text-sm text-muted-foreground">
-              {job.notes}
-            </p>
+            <Markdown source={job.notes} className="text-muted-foreground" />
           </div>
         )}
 
@@ -330,13 +611,12 @@ export function JobModal({
               Description
             </h3>
             <div>
-              <p
-                className={`whitespace-pre-wrap text-sm text-muted-foreground ${
+              <Markdown
+                source={job.jobPostingText}
+                className={`text-muted-foreground ${
                   !isJobPostingExpanded ? "line-clamp-6" : ""
                 }`}
-              >
-                {job.jobPostingText}
-              </p>
+              />
               <button
                 type="button"
                 onClick={() => setIsJobPostingExpanded(!isJobPostingExpanded)}
@@ -369,18 +649,31 @@ export function JobModal({
           {mode === "view" && job ? (
             <div className="flex items-center justify-between">
               <DialogTitle>
-                {job.company}
+                {job.companyId ? (
+                  <button
+                    type="button"
+                    onClick={() => setIsCompanyOpen(true)}
+                    className="cursor-pointer hover:underline"
+                    title="View company"
+                  >
+                    {job.company}
+                  </button>
+                ) : (
+                  job.company
+                )}
                 {job.title && ` - ${job.title}`}
               </DialogTitle>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setMode("edit")}
-                className="mr-8"
-                aria-label="Edit job"
-              >
-                <Pencil className="size-4" />
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setMode("edit")}
+                  className="mr-8"
+                  aria-label="Edit job"
+                >
+                  <Pencil className="size-4" />
+                </Button>
+              )}
             </div>
           ) : (
             <DialogTitle>{isEditing ? "Edit Job" : "New Job"}</DialogTitle>
@@ -388,7 +681,42 @@ export function JobModal({
         </DialogHeader>
 
         {mode === "view" && job ? (
-          <DisplayView job={job} />
+          <div className="space-y-4">
+            {/* Tabs: current details vs. change history */}
+            <div role="tablist" className="flex gap-4 border-b border-border">
+              {VIEW_TABS.map((tab) => (
+                <button
+                  key={tab.value}
+                  type="button"
+                  role="tab"
+                  aria-selected={viewTab === tab.value}
+                  onClick={() => setViewTab(tab.value)}
+                  className={`-mb-px border-b-2 pb-2 text-sm font-medium cursor-pointer ${
+                    viewTab === tab.value
+                      ? "border-primary text-card-foreground"
+                      : "border-transparent text-muted-foreground hover:text-card-foreground"
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {viewTab === "details" ? (
+              <DisplayView job={job} />
+            ) : viewTab === "interviews" ? (
+              <JobInterviews jobId={job.id} readOnly={!canEdit} />
+            ) : viewTab === "comments" ? (
+              <JobComments jobId={job.id} role={role} />
+            ) : (
+              // Remount after saves so the timeline refetches
+              <JobTimeline
+                key={`${job.id}-${String(job.updatedAt)}`}
+                jobId={job.id}
+                stages={stages}
+              />
+            )}
+          </div>
         ) : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -403,6 +731,7 @@ export function JobModal({
                       <FormControl>
                         <Input placeholder="Acme Inc." {...field} />
                       </FormControl>
+                      <ConfidenceHint level={confidence?.company} />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -417,13 +746,14 @@ export function JobModal({
                       <FormControl>
                         <Input placeholder="Senior Developer" {...field} />
                       </FormControl>
+                      <ConfidenceHint level={confidence?.title} />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
-              {/* Row 2: Location, Contact Person */}
+              {/* Row 2: Location, Contacts */}
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -434,6 +764,90 @@ export function JobModal({
                       <FormControl>
                         <Input placeholder="Stockholm, Sweden" {...field} />
                       </FormControl>
+                      <ConfidenceHint level={confidence?.location} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="contactIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contacts</FormLabel>
+                      <FormControl>
+                        <ContactPicker
+                          placeholder="Search or add a person"
+                          name={field.name}
+                          onBlur={field.onBlur}
+                          value={field.value ?? []}
+                          onChange={field.onChange}
+                          initialContacts={job?.contacts}
+                          boardId={job?.boardId ?? boardId}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Row 3: Salary range, currency and period */}
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <FormField
+                  control={form.control}
+                  name="salaryMin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Salary From</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          placeholder="45000"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === ""
+                                ? ""
+                                : e.target.valueAsNumber
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <ConfidenceHint level={confidence?.salaryMin} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="salaryMax"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Salary To</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          placeholder="55000"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === ""
+                                ? ""
+                                : e.target.valueAsNumber
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <ConfidenceHint level={confidence?.salaryMax} />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -441,40 +855,168 @@ export function JobModal({
 
                 <FormField
                   control={form.control}
-                  name="contactPerson"
+                  name="salaryCurrency"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Contact Person</FormLabel>
+                      <FormLabel>Currency</FormLabel>
                       <FormControl>
-                        <Input placeholder="Jane Doe" {...field} />
+                        <Input placeholder="SEK" maxLength={3} {...field} />
                       </FormControl>
+                      <ConfidenceHint level={confidence?.salaryCurrency} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="salaryPeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Period</FormLabel>
+                      <Select
+                        onValueChange={(value) =>
+                          field.onChange(value === UNSET_OPTION ? "" : value)
+                        }
+                        value={field.value || UNSET_OPTION}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Period" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={UNSET_OPTION}>
+                            Not specified
+                          </SelectItem>
+                          {SALARY_PERIODS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <ConfidenceHint level={confidence?.salaryPeriod} />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
-              {/* Row 3: Status, Date Applied */}
+              {/* Row 4: Employment Type, Remote Policy */}
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="status"
+                  name="employmentType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Employment Type</FormLabel>
+                      <Select
+                        onValueChange={(value) =>
+                          field.onChange(value === UNSET_OPTION ? "" : value)
+                        }
+                        value={field.value || UNSET_OPTION}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select type" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={UNSET_OPTION}>
+                            Not specified
+                          </SelectItem>
+                          {EMPLOYMENT_TYPES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <ConfidenceHint level={confidence?.employmentType} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="remotePolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Remote Policy</FormLabel>
+                      <Select
+                        onValueChange={(value) =>
+                          field.onChange(value === UNSET_OPTION ? "" : value)
+                        }
+                        value={field.value || UNSET_OPTION}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select policy" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={UNSET_OPTION}>
+                            Not specified
+                          </SelectItem>
+                          {REMOTE_POLICIES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <ConfidenceHint level={confidence?.remotePolicy} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Row 5: Skills (full width) */}
+              <FormField
+                control={form.control}
+                name="skills"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Skills</FormLabel>
+                    <FormControl>
+                      <SkillsInput
+                        placeholder="TypeScript, React, PostgreSQL"
+                        name={field.name}
+                        onBlur={field.onBlur}
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                    <ConfidenceHint level={confidence?.skills} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Board, only once there is more than one to pick from */}
+              {boards.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="boardId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Status *</FormLabel>
+                      <FormLabel>Board</FormLabel>
                       <Select
-                        onValueChange={field.onChange}
-                        value={field.value}
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={field.value ? String(field.value) : undefined}
                       >
                         <FormControl>
                           <SelectTrigger className="w-full">
-                            <SelectValue placeholder="Select status" />
+                            <SelectValue placeholder="Select board" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {JOB_STATUSES.map((status) => (
-                            <SelectItem key={status.value} value={status.value}>
-                              {status.label}
+                          {boards.map((board) => (
+                            <SelectItem key={board.id} value={String(board.id)}>
+                              {board.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -483,6 +1025,43 @@ export function JobModal({
                     </FormItem>
                   )}
                 />
+              )}
+
+              {/* Row 6: Stage, Date Applied, Deadline, Follow-up */}
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <FormField
+                  control={form.control}
+                  name="stageId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stage</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={field.value ? String(field.value) : undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select stage" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {/* Active stages, and the job's own if archived */}
+                          {getBoardStages(stages, job ? [job] : []).map(
+                            (stage) => (
+                              <SelectItem
+                                key={stage.id}
+                                value={String(stage.id)}
+                              >
+                                {stage.name}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 <FormField
                   control={form.control}
@@ -497,9 +1076,38 @@ export function JobModal({
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="deadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Deadline</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <ConfidenceHint level={confidence?.deadline} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="followUpAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Follow Up On</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
-              {/* Row 4: Job Posting URL (full width) */}
+              {/* Row 7: Job Posting URL (full width) */}
               <FormField
                 control={form.control}
                 name="jobPostingUrl"
@@ -518,7 +1126,7 @@ export function JobModal({
                 )}
               />
 
-              {/* Row 5: Notes (full width) */}
+              {/* Row 8: Notes (full width) */}
               <FormField
                 control={form.control}
                 name="notes"
@@ -529,18 +1137,19 @@ export function JobModal({
                       <AlignLeft className="size-4" aria-hidden="true" />
                     </FormLabel>
                     <FormControl>
-                      <Textarea
+                      <MarkdownEditor
                         placeholder="Notes about the company, interview prep, etc."
                         className="min-h-[100px]"
                         {...field}
                       />
                     </FormControl>
+                    <ConfidenceHint level={confidence?.notes} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              {/* Row 6: Job Posting Text (full width) */}
+              {/* Row 9: Job Posting Text (full width) */}
               <FormField
                 control={form.control}
                 name="jobPostingText"
@@ -548,18 +1157,19 @@ export function JobModal({
                   <FormItem>
                     <FormLabel>Description</FormLabel>
                     <FormControl>
-                      <Textarea
+                      <MarkdownEditor
                         placeholder="Paste the full job posting here..."
                         className="min-h-[100px]"
                         {...field}
                       />
                     </FormControl>
+                    <ConfidenceHint level={confidence?.jobPostingText} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              {/* Row 7: Resume URL, Cover Letter URL */}
+              {/* Row 10: Resume URL, Cover Letter URL */}
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -645,6 +1255,16 @@ export function JobModal({
             </form>
           </Form>
         )}
+
+        {job?.companyId && (
+          <CompanyModal
+            companyId={job.companyId}
+            open={isCompanyOpen}
+            onOpenChange={setIsCompanyOpen}
+            boardId={job.boardId}
+            readOnly={role !== "OWNER"}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
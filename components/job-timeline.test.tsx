@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { JobTimeline } from "./job-timeline";
+import type { Stage } from "@prisma/client";
+
+// Test helpers
+const mockHistory = (entries: unknown[], ok = true) => {
+  global.fetch = vi.fn().mockResolvedValue({
+    ok,
+    json: async () => entries,
+  });
+};
+
+const entry = (overrides: Record<string, unknown>) => ({
+  id: 1,
+  jobId: 1,
+  userId: "user_123",
+  fieldChanged: "created",
+  oldValue: null,
+  newValue: "1",
+  changedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+const stages = [
+  { id: 1, name: "Wishlist", color: "gray" },
+  { id: 2, name: "Applied", color: "blue" },
+  { id: 3, name: "Phone screen", color: "purple" },
+] as Stage[];
+
+describe("JobTimeline", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("fetches history for the job", async () => {
+    // Arrange
+    mockHistory([entry({})]);
+
+    // Act
+    render(<JobTimeline jobId={42} stages={stages} />);
+
+    // Assert
+    expect(await screen.findByText(/Created in/)).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/42/history");
+  });
+
+  it("renders stage transitions with stage names", async () => {
+    // Arrange
+    mockHistory([
+      entry({
+        id: 2,
+        fieldChanged: "stageId",
+        oldValue: "2",
+        newValue: "3",
+      }),
+    ]);
+
+    // Act
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Assert
+    expect(await screen.findByText(/Moved from/)).toBeInTheDocument();
+    expect(screen.getByText("Applied")).toBeInTheDocument();
+    expect(screen.getByText("Phone screen")).toBeInTheDocument();
+  });
+
+  it("renders restores from the trash", async () => {
+    // Arrange
+    mockHistory([
+      entry({ id: 3, fieldChanged: "restored", newValue: null }),
+      entry({ id: 2, fieldChanged: "deleted", newValue: null }),
+    ]);
+
+    // Act
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Assert
+    expect(await screen.findByText("Restored from trash")).toBeInTheDocument();
+    expect(screen.getByText("Deleted")).toBeInTheDocument();
+    expect(screen.queryByText(/Cleared/)).not.toBeInTheDocument();
+  });
+
+  it("renders relative timestamps", async () => {
+    // Arrange
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    mockHistory([entry({ changedAt: twoDaysAgo.toISOString() })]);
+
+    // Act
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Assert
+    expect(await screen.findByText("2 days ago")).toBeInTheDocument();
+  });
+
+  it("shows a diff for long text fields on demand", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockHistory([
+      entry({
+        fieldChanged: "notes",
+        oldValue: "Call recruiter",
+        newValue: "Called recruiter\nFollow up Friday",
+      }),
+    ]);
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Act
+    await user.click(await screen.findByText("Show changes"));
+
+    // Assert
+    const diff = screen.getByTestId("text-diff");
+    expect(diff).toHaveTextContent("- Call recruiter");
+    expect(diff).toHaveTextContent("+ Follow up Friday");
+  });
+
+  it("shows old and new values for short fields", async () => {
+    // Arrange
+    mockHistory([
+      entry({
+        fieldChanged: "location",
+        oldValue: "Stockholm",
+        newValue: "Remote",
+      }),
+    ]);
+
+    // Act
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Assert
+    expect(
+      await screen.findByText(/Changed location from/)
+    ).toBeInTheDocument();
+    expect(screen.getByText("Stockholm")).toBeInTheDocument();
+    expect(screen.getByText("Remote")).toBeInTheDocument();
+  });
+
+  it("names who made a change on a shared board", async () => {
+    // Arrange
+    mockHistory([
+      entry({ id: 2, changedBy: "Casey Coach" }),
+      entry({ id: 1, changedBy: null }),
+    ]);
+
+    // Act
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    // Assert
+    expect(await screen.findByText(/by Casey Coach/)).toBeInTheDocument();
+    expect(screen.getAllByText(/^\s*by /)).toHaveLength(1);
+  });
+
+  it("shows an empty state when there is no history", async () => {
+    mockHistory([]);
+
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    expect(
+      await screen.findByText("No activity recorded yet.")
+    ).toBeInTheDocument();
+  });
+
+  it("shows an error when history cannot be loaded", async () => {
+    mockHistory([], false);
+
+    render(<JobTimeline jobId={1} stages={stages} />);
+
+    expect(
+      await screen.findByText("Failed to load activity")
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { JobHistory, Stage } from "@prisma/client";
+import { diffLines } from "@/lib/text-diff";
+import { getStageColor } from "@/lib/stages";
+import { formatJobDate, formatRelativeTime } from "@/lib/utils";
+
+// Long text fields are shown as a diff instead of old -> new values
+const LONG_TEXT_FIELDS = ["notes", "jobPostingText"];
+
+// Date fields are stored as ISO strings and shown as short dates
+const DATE_FIELDS = ["dateApplied", "deadline", "followUpAt"];
+
+const FIELD_LABELS: Record<string, string> = {
+  company: "company",
+  title: "title",
+  location: "location",
+  stageId: "stage",
+  board: "board",
+  dateApplied: "date applied",
+  deadline: "deadline",
+  followUpAt: "follow-up date",
+  jobPostingUrl: "job posting URL",
+  jobPostingText: "description",
+  notes: "personal notes",
+  resumeUrl: "resume URL",
+  coverLetterUrl: "cover letter URL",
+  // Replaced by linked contacts, kept for older entries
+  contactPerson: "contact person",
+  contacts: "contacts",
+  salaryMin: "salary from",
+  salaryMax: "salary to",
+  salaryCurrency: "salary currency",
+  salaryPeriod: "salary period",
+  employmentType: "employment type",
+  remotePolicy: "remote policy",
+  skills: "skills",
+};
+
+// Dates come back from the API as ISO strings. changedBy names who made
+// the change when it wasn't the user (on a shared board).
+type JobHistoryEntry = Omit<JobHistory, "changedAt"> & {
+  changedAt: string | Date;
+  changedBy?: string | null;
+};
+
+interface JobTimelineProps {
+  jobId: number;
+  // The user's stages, to show the stage IDs in history by name
+  stages: Stage[];
+}
+
+function StageBadge({ stageId, stages }: { stageId: string; stages: Stage[] }) {
+  const stage = stages.find((s) => s.id === Number(stageId));
+
+  return (
+    <span className="inline-flex items-center gap-1.5 font-medium text-card-foreground">
+      <span
+        className={`size-2 rounded-full ${getStageColor(stage?.color ?? "gray")}`}
+        aria-hidden="true"
+      />
+      {stage?.name ?? "an unknown stage"}
+    </span>
+  );
+}
+
+function TextDiff({
+  oldValue,
+  newValue,
+}: {
+  oldValue: string | null;
+  newValue: string | null;
+}) {
+  return (
+    <pre
+      className="mt-2 max-h-64 overflow-auto rounded-md border border-border bg-muted/30 p-2 text-xs whitespace-pre-wrap"
+      data-testid="text-diff"
+    >
+      {diffLines(oldValue, newValue).map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added"
+              ? "bg-status-accepted/20 text-card-foreground"
+              : line.type === "removed"
+                ? "bg-status-rejected/20 text-muted-foreground line-through"
+                : "text-muted-foreground"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.value}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function formatFieldValue(field: string, value: string): string {
+  return DATE_FIELDS.includes(field) ? formatJobDate(value) : value;
+}
+
+function TimelineEntry({
+  entry,
+  stages,
+}: {
+  entry: JobHistoryEntry;
+  stages: Stage[];
+}) {
+  const [isDiffExpanded, setIsDiffExpanded] = useState(false);
+  const { fieldChanged: field, oldValue, newValue } = entry;
+  const label = FIELD_LABELS[field] ?? field;
+
+  let description: React.ReactNode;
+
+  if (field === "created" || field === "imported") {
+    description = (
+      <>
+        {field === "created" ? "Created in " : "Imported into "}
+        {newValue ? (
+          <StageBadge stageId={newValue} stages={stages} />
+        ) : (
+          "the board"
+        )}
+      </>
+    );
+  } else if (field === "deleted") {
+    description = "Deleted";
+  } else if (field === "restored") {
+    description = "Restored from trash";
+  } else if (field === "stageId") {
+    description = (
+      <>
+        Moved from{" "}
+        {oldValue ? (
+          <StageBadge stageId={oldValue} stages={stages} />
+        ) : (
+          "nowhere"
+        )}{" "}
+        to{" "}
+        {newValue ? (
+          <StageBadge stageId={newValue} stages={stages} />
+        ) : (
+          "nowhere"
+        )}
+      </>
+    );
+  } else if (LONG_TEXT_FIELDS.includes(field)) {
+    description = (
+      <>
+        {!oldValue ? "Added" : !newValue ? "Cleared" : "Edited"} {label}
+        <button
+          type="button"
+          onClick={() => setIsDiffExpanded(!isDiffExpanded)}
+          className="ml-2 text-primary hover:underline cursor-pointer"
+        >
+          {isDiffExpanded ? "Hide changes" : "Show changes"}
+        </button>
+      </>
+    );
+  } else if (!newValue) {
+    description = `Cleared ${label}`;
+  } else if (!oldValue) {
+    description = (
+      <>
+        Set {label} to{" "}
+        <span className="font-medium text-card-foreground break-all">
+          {formatFieldValue(field, newValue)}
+        </span>
+      </>
+    );
+  } else {
+    description = (
+      <>
+        Changed {label} from{" "}
+        <span className="break-all line-through">
+          {formatFieldValue(field, oldValue)}
+        </span>{" "}
+        to{" "}
+        <span className="font-medium text-card-foreground break-all">
+          {formatFieldValue(field, newValue)}
+        </span>
+      </>
+    );
+  }
+
+  const changedAt = new Date(entry.changedAt);
+
+  return (
+    <li className="relative pl-4 pb-4 last:pb-0">
+      <span
+        className="absolute -left-[5px] top-1.5 size-2 rounded-full bg-border"
+        aria-hidden="true"
+      />
+      <p className="text-sm text-muted-foreground">{description}</p>
+      <time
+        dateTime={changedAt.toISOString()}
+        title={changedAt.toLocaleString()}
+        className="text-xs text-muted-foreground/80"
+      >
+        {formatRelativeTime(changedAt)}
+      </time>
+      {entry.changedBy && (
+        <span className="text-xs text-muted-foreground/80">
+          {" "}
+          by {entry.changedBy}
+        </span>
+      )}
+      {isDiffExpanded && <TextDiff oldValue={oldValue} newValue={newValue} />}
+    </li>
+  );
+}
+
+/**
+ * Activity timeline for a job, built from its JobHistory rows.
+ * Fetches history on mount, newest entries first.
+ */
+export function JobTimeline({ jobId, stages }: JobTimelineProps) {
+  const [history, setHistory] = useState<JobHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadHistory() {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/history`);
+        if (!response.ok) {
+          throw new Error("Failed to load activity");
+        }
+        const data: JobHistoryEntry[] = await response.json();
+        if (!cancelled) setHistory(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load activity"
+          );
+        }
+      }
+    }
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!history) {
+    return <p className="text-sm text-muted-foreground">Loading activity...</p>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+    );
+  }
+
+  return (
+    <ol className="border-l border-border ml-1" aria-label="Activity timeline">
+      {history.map((entry) => (
+        <TimelineEntry key={entry.id} entry={entry} stages={stages} />
+      ))}
+    </ol>
+  );
+}
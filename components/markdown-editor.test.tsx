@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MarkdownEditor } from "./markdown-editor";
+
+describe("MarkdownEditor", () => {
+  it("previews the markdown being written", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    render(
+      <MarkdownEditor
+        aria-label="Notes"
+        value={"## Prep\n\n- Read the **annual report**"}
+        onChange={vi.fn()}
+      />
+    );
+
+    // Act
+    await user.click(screen.getByRole("tab", { name: "Preview" }));
+
+    // Assert
+    expect(screen.getByRole("heading", { name: "Prep" })).toBeInTheDocument();
+    expect(screen.getByText("annual report").tagName).toBe("STRONG");
+    expect(screen.getByLabelText("Notes")).toHaveClass("hidden");
+  });
+
+  it("goes back to the textarea to write", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<MarkdownEditor aria-label="Notes" value="" onChange={onChange} />);
+    await user.click(screen.getByRole("tab", { name: "Preview" }));
+    expect(screen.getByText("Nothing to preview")).toBeInTheDocument();
+
+    // Act
+    await user.click(screen.getByRole("tab", { name: "Write" }));
+    await user.type(screen.getByLabelText("Notes"), "x");
+
+    // Assert
+    expect(screen.queryByText("Nothing to preview")).not.toBeInTheDocument();
+    expect(onChange).toHaveBeenCalled();
+  });
+});
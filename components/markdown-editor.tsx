@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/markdown";
+import { cn } from "@/lib/utils";
+
+type EditorTab = "write" | "preview";
+
+const EDITOR_TABS: { value: EditorTab; label: string }[] = [
+  { value: "write", label: "Write" },
+  { value: "preview", label: "Preview" },
+];
+
+/**
+ * Textarea for markdown with a Write/Preview toggle. Takes the textarea's
+ * props, so it works as a form control; the textarea stays mounted (hidden)
+ * while previewing so its value, ref and label keep working.
+ */
+export function MarkdownEditor({
+  className,
+  ...props
+}: React.ComponentProps<"textarea">) {
+  const [tab, setTab] = useState<EditorTab>("write");
+  const source = String(props.value ?? "");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-3 text-xs" role="tablist">
+        {EDITOR_TABS.map((editorTab) => (
+          <button
+            key={editorTab.value}
+            type="button"
+            role="tab"
+            aria-selected={tab === editorTab.value}
+            onClick={() => setTab(editorTab.value)}
+            className={`cursor-pointer font-medium ${
+              tab === editorTab.value
+                ? "text-card-foreground"
+                : "text-muted-foreground hover:text-card-foreground"
+            }`}
+          >
+            {editorTab.label}
+          </button>
+        ))}
+        <span className="ml-auto text-muted-foreground">
+          Markdown supported
+        </span>
+      </div>
+
+      <Textarea
+        className={cn(tab === "preview" && "hidden", className)}
+        {...props}
+      />
+
+      {tab === "preview" && (
+        <div
+          className={cn(
+            "min-h-16 rounded-md border border-input px-3 py-2",
+            className
+          )}
+        >
+          {source.trim() ? (
+            <Markdown source={source} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { Markdown } from "./markdown";
+
+describe("Markdown", () => {
+  it("renders headings, lists and links", () => {
+    // Act
+    render(
+      <Markdown
+        source={
+          "# About us\n\n- Remote\n- Flexible hours\n\n[Apply](https://example.com/apply)"
+        }
+      />
+    );
+
+    // Assert
+    expect(
+      screen.getByRole("heading", { level: 3, name: "About us" })
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+    const link = screen.getByRole("link", { name: "Apply" });
+    expect(link).toHaveAttribute("href", "https://example.com/apply");
+    expect(link).toHaveAttribute("rel", "noopener noreferrer");
+  });
+
+  it("shows HTML in the source as text", () => {
+    // Act
+    const { container } = render(
+      <Markdown source={'<img src="x" onerror="alert(1)"> <b>bold</b>'} />
+    );
+
+    // Assert
+    expect(container.querySelector("img")).toBeNull();
+    expect(container.querySelector("b")).toBeNull();
+    expect(container).toHaveTextContent('<img src="x" onerror="alert(1)">');
+  });
+
+  it("doesn't link javascript: URLs", () => {
+    // Act
+    render(<Markdown source="[Click me](javascript:alert`1`)" />);
+
+    // Assert
+    expect(screen.queryByRole("link")).not.toBeInTheDocument();
+    expect(screen.getByText("Click me")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,138 @@
+import { Fragment } from "react";
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Complete class names so Tailwind's JIT compiler can detect them
+const HEADING_CLASSES = [
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-medium",
+  "text-sm font-medium",
+  "text-sm font-medium",
+];
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case "text":
+            return <Fragment key={index}>{node.text}</Fragment>;
+          case "break":
+            return <br key={index} />;
+          case "code":
+            return (
+              <code
+                key={index}
+                className="rounded bg-muted px-1 py-0.5 font-mono text-xs"
+              >
+                {node.text}
+              </code>
+            );
+          case "strong":
+            return (
+              <strong key={index} className="font-semibold">
+                <Inline nodes={node.children} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={index}>
+                <Inline nodes={node.children} />
+              </em>
+            );
+          case "link":
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary underline underline-offset-2 break-all"
+              >
+                <Inline nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as "h3";
+      return (
+        <Heading className={HEADING_CLASSES[block.level - 1]}>
+          <Inline nodes={block.children} />
+        </Heading>
+      );
+    }
+    case "paragraph":
+      return (
+        <p>
+          <Inline nodes={block.children} />
+        </p>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List
+          className={cn(
+            "space-y-1 pl-5",
+            block.ordered ? "list-decimal" : "list-disc"
+          )}
+        >
+          {block.items.map((item, index) => (
+            <li key={index}>
+              <Inline nodes={item} />
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote className="space-y-2 border-l-2 border-border pl-3 text-muted-foreground">
+          {block.children.map((child, index) => (
+            <Block key={index} block={child} />
+          ))}
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "rule":
+      return <hr className="border-border" />;
+  }
+}
+
+/**
+ * Render markdown (see lib/markdown.ts) as React elements. Nothing in the
+ * source is treated as HTML, so it is safe for text other users wrote.
+ */
+export function Markdown({ source, className }: MarkdownProps) {
+  const blocks = parseMarkdown(source);
+
+  return (
+    <div className={cn("space-y-2 text-sm break-words", className)}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { NeedsAttention } from "./needs-attention";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const reminder = {
+  jobId: 7,
+  dueAt: new Date().toISOString(),
+  source: "rule",
+  message: "No reply since applying - time to follow up",
+  job: {
+    id: 7,
+    company: "Acme Corp",
+    title: "Developer",
+    stage: { name: "Applied" },
+  },
+};
+
+const mockFetch = (
+  reminders: unknown[] = [reminder],
+  actionResponse = { ok: true, json: async () => ({ id: 7 }) }
+) => {
+  global.fetch = vi.fn((url: string) =>
+    Promise.resolve(
+      url === "/api/reminders"
+        ? { ok: true, json: async () => ({ reminders }) }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("NeedsAttention", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows the number of due reminders on the header button", async () => {
+    mockFetch();
+
+    render(<NeedsAttention />);
+
+    expect(
+      await screen.findByLabelText("Needs attention (1)")
+    ).toBeInTheDocument();
+  });
+
+  it("lists due reminders when opened", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    render(<NeedsAttention />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Needs attention (1)"));
+
+    // Assert
+    expect(
+      await screen.findByText("Acme Corp - Developer")
+    ).toBeInTheDocument();
+    expect(screen.getByText(/No reply since applying/)).toBeInTheDocument();
+  });
+
+  it("shows an empty state", async () => {
+    const user = userEvent.setup();
+    mockFetch([]);
+    render(<NeedsAttention />);
+
+    await user.click(screen.getByLabelText("Needs attention (0)"));
+
+    expect(
+      await screen.findByText("Nothing to follow up on right now.")
+    ).toBeInTheDocument();
+  });
+
+  it("snoozes a reminder and refreshes the board", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    render(<NeedsAttention />);
+    await user.click(await screen.findByLabelText("Needs attention (1)"));
+
+    // Act
+    await user.click(
+      await screen.findByLabelText("Snooze Acme Corp for 1 week")
+    );
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/7/follow-up", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: expect.stringContaining('"action":"snooze"'),
+    });
+    await waitFor(() => {
+      expect(
+        screen.getByText("Nothing to follow up on right now.")
+      ).toBeInTheDocument();
+    });
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("completes a reminder", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    render(<NeedsAttention />);
+    await user.click(await screen.findByLabelText("Needs attention (1)"));
+
+    // Act
+    await user.click(
+      await screen.findByLabelText("Mark Acme Corp as followed up")
+    );
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/7/follow-up", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "complete" }),
+    });
+  });
+
+  it("shows an error when the action fails", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([reminder], {
+      ok: false,
+      json: async () => ({ error: "Failed to update follow-up" }),
+    } as never);
+    render(<NeedsAttention />);
+    await user.click(await screen.findByLabelText("Needs attention (1)"));
+
+    // Act
+    await user.click(
+      await screen.findByLabelText("Mark Acme Corp as followed up")
+    );
+
+    // Assert
+    expect(
+      await screen.findByText("Failed to update follow-up")
+    ).toBeInTheDocument();
+  });
+});
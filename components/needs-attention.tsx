@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Stage } from "@prisma/client";
+import { Bell, Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { formatRelativeTime } from "@/lib/utils";
+import { SNOOZE_OPTIONS, getSnoozeDate } from "@/lib/reminders";
+import type { FollowUpAction } from "@/lib/schemas";
+
+type ReminderItem = {
+  jobId: number;
+  dueAt: string;
+  source: "date" | "rule";
+  message: string;
+  job: {
+    id: number;
+    company: string;
+    title: string | null;
+    stage: Pick<Stage, "name">;
+  };
+};
+
+/**
+ * Header button with a count of jobs that need a follow-up, opening a
+ * panel where each reminder can be snoozed or completed
+ */
+export function NeedsAttention() {
+  const [open, setOpen] = useState(false);
+  const [reminders, setReminders] = useState<ReminderItem[] | null>(null);
+  const [pendingJobId, setPendingJobId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const loadReminders = useCallback(async () => {
+    try {
+      const response = await fetch("/api/reminders");
+      if (!response.ok) {
+        throw new Error("Failed to load reminders");
+      }
+      const data: { reminders: ReminderItem[] } = await response.json();
+      setReminders(data.reminders);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load reminders");
+    }
+  }, []);
+
+  /**
+   * Load on mount for the badge, and again every time the panel opens
+   */
+  useEffect(() => {
+    if (open) setError(null);
+    loadReminders();
+  }, [open, loadReminders]);
+
+  /**
+   * Snooze or complete a reminder, then drop it from the list
+   */
+  async function handleAction(jobId: number, followUp: FollowUpAction) {
+    setPendingJobId(jobId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/follow-up`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(followUp),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update follow-up");
+      }
+
+      setReminders((prev) => prev?.filter((r) => r.jobId !== jobId) ?? null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingJobId(null);
+    }
+  }
+
+  const count = reminders?.length ?? 0;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        onClick={() => setOpen(true)}
+        aria-label={`Needs attention (${count})`}
+        title="Needs attention"
+      >
+        <Bell className="h-4 w-4" />
+        {count > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+            {count}
+          </span>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent
+          className="max-w-2xl max-h-[90vh] overflow-y-auto"
+          aria-describedby={undefined}
+        >
+          <DialogHeader>
+            <DialogTitle>Needs attention</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {!reminders && !error && (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            )}
+
+            {reminders && reminders.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Nothing to follow up on right now.
+              </p>
+            )}
+
+            {reminders && reminders.length > 0 && (
+              <ul className="divide-y divide-border rounded-lg border border-border">
+                {reminders.map((reminder) => (
+                  <li
+                    key={reminder.jobId}
+                    className="flex items-center justify-between gap-4 p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">
+                        {reminder.job.company}
+                        {reminder.job.title && ` - ${reminder.job.title}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {reminder.job.stage.name} · {reminder.message} · due{" "}
+                        {formatRelativeTime(reminder.dueAt)}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      {SNOOZE_OPTIONS.map((option) => (
+                        <Button
+                          key={option.days}
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleAction(reminder.jobId, {
+                              action: "snooze",
+                              until: getSnoozeDate(option.days),
+                            })
+                          }
+                          disabled={pendingJobId === reminder.jobId}
+                          aria-label={`Snooze ${reminder.job.company} for ${option.label}`}
+                        >
+                          {option.label}
+                        </Button>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(reminder.jobId, { action: "complete" })
+                        }
+                        disabled={pendingJobId === reminder.jobId}
+                        aria-label={`Mark ${reminder.job.company} as followed up`}
+                      >
+                        <Check className="size-4" />
+                        Done
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Error Display */}
+            {error && (
+              <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+                <p className="text-sm text-destructive">{error}</p>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
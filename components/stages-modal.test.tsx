@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { StagesModal } from "./stages-modal";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const stage = (id: number, name: string, category: string) => ({
+  id,
+  userId: "user_123",
+  name,
+  color: "blue",
+  position: id - 1,
+  category,
+  archivedAt: null,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+const stages = [
+  stage(1, "Wishlist", "WISHLIST"),
+  stage(2, "Applied", "APPLIED"),
+  stage(3, "Rejected", "REJECTED"),
+];
+
+const mockFetch = (
+  actionResponse: unknown = { ok: true, json: async () => ({}) }
+) => {
+  global.fetch = vi.fn((url: string, init?: RequestInit) =>
+    Promise.resolve(
+      url === "/api/stages" && !init?.method
+        ? { ok: true, json: async () => stages }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("StagesModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists stages in board order with their category", async () => {
+    // Arrange
+    mockFetch();
+
+    // Act
+    render(<StagesModal open={true} onOpenChange={vi.fn()} />);
+
+    // Assert
+    expect(
+      await screen.findByRole("button", { name: "Move Wishlist up" })
+    ).toBeDisabled();
+    expect(
+      screen.getByText("Rejected · ends the application")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Move Rejected down" })
+    ).toBeDisabled();
+  });
+
+  it("adds a stage", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch({
+      ok: true,
+      json: async () => stage(4, "Phone screen", "INTERVIEW"),
+    });
+    render(<StagesModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(await screen.findByRole("button", { name: /add stage/i }));
+    await user.type(screen.getByLabelText(/name/i), "Phone screen");
+    await user.click(screen.getByRole("button", { name: /save stage/i }));
+
+    // Assert
+    expect(await screen.findByText("Phone screen")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/stages",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          name: "Phone screen",
+          color: "gray",
+          category: "INTERVIEW",
+        }),
+      })
+    );
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("moves a stage down by sending the new order", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch({
+      ok: true,
+      json: async () => [stages[1], stages[0], stages[2]],
+    });
+    render(<StagesModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Move Wishlist down" })
+    );
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/stages/reorder",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ stageIds: [2, 1, 3] }),
+      })
+    );
+    await waitFor(() =>
+      expect(
+        screen.getByRole("button", { name: "Move Applied up" })
+      ).toBeDisabled()
+    );
+  });
+
+  it("shows why a stage with jobs can't be archived", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch({
+      ok: false,
+      json: async () => ({
+        error: "Move the jobs out of this stage before archiving it",
+      }),
+    });
+    render(<StagesModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(
+      await screen.findByRole("button", { name: "Archive Applied" })
+    );
+
+    // Assert
+    expect(
+      await screen.findByText(
+        "Move the jobs out of this stage before archiving it"
+      )
+    ).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/stages/2",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ archived: true }),
+      })
+    );
+  });
+});
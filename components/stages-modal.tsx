@@ -0,0 +1,437 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Stage } from "@prisma/client";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  Pencil,
+  Plus,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { stageSchema, type StageData } from "@/lib/schemas";
+import type { z } from "zod";
+import {
+  getCategoryLabel,
+  getStageColor,
+  isTerminalCategory,
+  STAGE_CATEGORIES,
+  STAGE_COLOR_NAMES,
+  type StageColor,
+} from "@/lib/stages";
+
+interface StagesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function stageToFormValues(stage?: Stage): StageData {
+  return {
+    name: stage?.name ?? "",
+    color: (stage?.color as StageColor) ?? "gray",
+    category: stage?.category ?? "INTERVIEW",
+  };
+}
+
+/**
+ * Form for adding or editing a stage
+ */
+function StageForm({
+  stage,
+  onSubmit,
+  onCancel,
+}: {
+  stage?: Stage;
+  onSubmit: (data: StageData) => Promise<void>;
+  onCancel: () => void;
+}) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const form = useForm<z.input<typeof stageSchema>, any, StageData>({
+    resolver: zodResolver(stageSchema),
+    defaultValues: stageToFormValues(stage),
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4 rounded-lg border border-border p-4"
+        aria-label={stage ? "Edit stage" : "Add stage"}
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name *</FormLabel>
+              <FormControl>
+                <Input placeholder="Phone screen" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="color"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Color</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Color" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {STAGE_COLOR_NAMES.map((color) => (
+                      <SelectItem key={color} value={color}>
+                        <span
+                          className={`size-3 rounded-full ${getStageColor(color)}`}
+                          aria-hidden="true"
+                        />
+                        <span className="capitalize">{color}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Counts as</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {STAGE_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {getCategoryLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Accepted and Rejected stages end the application.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting ? "Saving..." : "Save Stage"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * The user's board columns in board order, with add, edit, reorder and
+ * archive. Loads the stages every time the modal opens and refreshes the
+ * board after each change.
+ */
+export function StagesModal({ open, onOpenChange }: StagesModalProps) {
+  const [stages, setStages] = useState<Stage[] | null>(null);
+  // The stage being edited, "new" while adding one
+  const [editing, setEditing] = useState<Stage | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!open) {
+      setStages(null);
+      setEditing(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadStages() {
+      try {
+        const response = await fetch("/api/stages");
+        if (!response.ok) {
+          throw new Error("Failed to load stages");
+        }
+        const data: Stage[] = await response.json();
+        if (!cancelled) setStages(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load stages"
+          );
+        }
+      }
+    }
+
+    loadStages();
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  /**
+   * Send a change to the stages API and return the response body
+   */
+  async function request<T>(url: string, method: string, body: unknown) {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to save stage");
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Replace a stage in the list, or add it at the end
+   */
+  function upsertStage(saved: Stage) {
+    setStages((prev) =>
+      prev?.some((stage) => stage.id === saved.id)
+        ? prev.map((stage) => (stage.id === saved.id ? saved : stage))
+        : [...(prev ?? []), saved]
+    );
+  }
+
+  async function handleSubmit(data: StageData) {
+    setError(null);
+    const isNew = editing === "new";
+
+    try {
+      const saved = await request<Stage>(
+        isNew ? "/api/stages" : `/api/stages/${(editing as Stage).id}`,
+        isNew ? "POST" : "PATCH",
+        data
+      );
+      upsertStage(saved);
+      setEditing(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Swap a stage with its neighbour above (-1) or below (1)
+   */
+  async function handleMove(index: number, offset: -1 | 1) {
+    if (!stages) return;
+    setError(null);
+
+    const stageIds = stages.map((stage) => stage.id);
+    [stageIds[index], stageIds[index + offset]] = [
+      stageIds[index + offset],
+      stageIds[index],
+    ];
+
+    try {
+      setStages(
+        await request<Stage[]>("/api/stages/reorder", "POST", { stageIds })
+      );
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  /**
+   * Archive a stage (hiding its column) or bring it back. Only empty
+   * stages can be archived; the API says so otherwise.
+   */
+  async function handleArchive(stage: Stage) {
+    setError(null);
+
+    try {
+      upsertStage(
+        await request<Stage>(`/api/stages/${stage.id}`, "PATCH", {
+          archived: !stage.archivedAt,
+        })
+      );
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        aria-describedby={undefined}
+      >
+        <DialogHeader>
+          <DialogTitle>Stages</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!stages && !error && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+
+          {stages && stages.length > 0 && (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {stages.map((stage, index) =>
+                editing !== "new" && editing?.id === stage.id ? (
+                  <li key={stage.id} className="p-3">
+                    <StageForm
+                      stage={stage}
+                      onSubmit={handleSubmit}
+                      onCancel={() => setEditing(null)}
+                    />
+                  </li>
+                ) : (
+                  <li
+                    key={stage.id}
+                    className="flex items-center justify-between gap-4 p-3"
+                  >
+                    <div className="flex min-w-0 items-center gap-3">
+                      <span
+                        className={`size-3 shrink-0 rounded-full ${getStageColor(stage.color)}`}
+                        aria-hidden="true"
+                      />
+                      <div className="min-w-0">
+                        <p
+                          className={`text-sm font-medium ${stage.archivedAt ? "text-muted-foreground line-through" : ""}`}
+                        >
+                          {stage.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {getCategoryLabel(stage.category)}
+                          {isTerminalCategory(stage.category) &&
+                            " · ends the application"}
+                          {stage.archivedAt && " · archived"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${stage.name} up`}
+                      >
+                        <ArrowUp className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === stages.length - 1}
+                        aria-label={`Move ${stage.name} down`}
+                      >
+                        <ArrowDown className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing(stage)}
+                        aria-label={`Edit ${stage.name}`}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleArchive(stage)}
+                        aria-label={`${stage.archivedAt ? "Unarchive" : "Archive"} ${stage.name}`}
+                      >
+                        {stage.archivedAt ? (
+                          <ArchiveRestore className="size-4" />
+                        ) : (
+                          <Archive className="size-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          {editing === "new" && (
+            <StageForm
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          {editing === null && stages && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditing("new")}
+            >
+              <Plus className="size-4" />
+              Add Stage
+            </Button>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import type { JobStats } from "@/lib/stats";
+import {
+  getCategoryColor,
+  getCategoryLabel,
+  getStageColor,
+} from "@/lib/stages";
+
+/**
+ * Charts for the stats page. Plain HTML and SVG without client state, so
+ * they render on the server and in tests.
+ */
+
+/** Format a 0-1 ratio as a whole percentage, "-" when there is no ratio */
+function formatPercent(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+/** Width of a bar as a share of the largest value */
+function barWidth(value: number, max: number): string {
+  return `${max > 0 ? (value / max) * 100 : 0}%`;
+}
+
+function ChartCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section
+      aria-label={title}
+      className="space-y-4 rounded-lg border border-border bg-card p-4 shadow-sm"
+    >
+      <div>
+        <h2 className="font-medium">{title}</h2>
+        {description && (
+          <p className="text-sm text-muted-foreground">{description}</p>
+        )}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * How many applications reached each stage, with the share that made it
+ * from the previous one
+ */
+export function FunnelChart({ funnel }: Pick<JobStats, "funnel">) {
+  const max = funnel[0]?.count ?? 0;
+
+  return (
+    <ChartCard
+      title="Funnel"
+      description="Applications that reached each stage"
+    >
+      <ul className="space-y-2">
+        {funnel.map(({ category, count, conversionRate }) => (
+          <li
+            key={category}
+            className="grid grid-cols-[6rem_1fr_6rem] items-center gap-3 text-sm"
+          >
+            <span>{getCategoryLabel(category)}</span>
+            <div className="h-6 rounded bg-muted">
+              <div
+                className={`h-6 rounded ${getCategoryColor(category)}`}
+                style={{ width: barWidth(count, max) }}
+              />
+            </div>
+            <span className="text-right tabular-nums">
+              {count}
+              {conversionRate !== null && (
+                <span className="ml-1.5 text-muted-foreground">
+                  ({formatPercent(conversionRate)})
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </ChartCard>
+  );
+}
+
+/**
+ * Share of applications rejected, and at which stage
+ */
+export function RejectionsChart({ rejections }: Pick<JobStats, "rejections">) {
+  return (
+    <ChartCard
+      title="Rejections"
+      description={`${rejections.total} rejected (${formatPercent(rejections.rate)} of applications)`}
+    >
+      <dl className="grid grid-cols-3 gap-2 text-center">
+        {rejections.byStage.map(({ category, count }) => (
+          <div key={category} className="rounded-lg border border-border p-2">
+            <dt className="text-xs text-muted-foreground">
+              After {getCategoryLabel(category).toLowerCase()}
+            </dt>
+            <dd className="text-lg font-semibold tabular-nums">{count}</dd>
+          </div>
+        ))}
+      </dl>
+    </ChartCard>
+  );
+}
+
+/**
+ * Median days jobs spent in each stage before moving on
+ */
+export function TimeInStageChart({
+  medianDaysInStage,
+}: Pick<JobStats, "medianDaysInStage">) {
+  const max = Math.max(0, ...medianDaysInStage.map(({ days }) => days ?? 0));
+
+  return (
+    <ChartCard
+      title="Time in stage"
+      description="Median days before moving on, from the job history"
+    >
+      <ul className="space-y-2">
+        {medianDaysInStage.map(({ stageId, name, color, days }) => (
+          <li
+            key={stageId}
+            className="grid grid-cols-[6rem_1fr_4rem] items-center gap-3 text-sm"
+          >
+            <span className="truncate">{name}</span>
+            <div className="h-4 rounded bg-muted">
+              <div
+                className={`h-4 rounded ${getStageColor(color)}`}
+                style={{ width: barWidth(days ?? 0, max) }}
+              />
+            </div>
+            <span className="text-right tabular-nums text-muted-foreground">
+              {days === null ? "-" : `${days} d`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </ChartCard>
+  );
+}
+
+const WEEK_BAR_WIDTH = 24;
+const WEEK_BAR_GAP = 8;
+const WEEK_CHART_HEIGHT = 120;
+
+/**
+ * Applications sent per week, as an SVG column chart
+ */
+export function WeeklyApplicationsChart({
+  applicationsPerWeek,
+}: Pick<JobStats, "applicationsPerWeek">) {
+  const max = Math.max(1, ...applicationsPerWeek.map((week) => week.count));
+  const width = applicationsPerWeek.length * (WEEK_BAR_WIDTH + WEEK_BAR_GAP);
+
+  return (
+    <ChartCard
+      title="Applications per week"
+      description={`Last ${applicationsPerWeek.length} weeks`}
+    >
+      <svg
+        viewBox={`0 0 ${width} ${WEEK_CHART_HEIGHT + 20}`}
+        className="w-full"
+        role="img"
+        aria-label="Applications per week"
+      >
+        {applicationsPerWeek.map(({ weekStart, count }, index) => {
+          const height = (count / max) * WEEK_CHART_HEIGHT;
+          const x = index * (WEEK_BAR_WIDTH + WEEK_BAR_GAP) + WEEK_BAR_GAP / 2;
+          return (
+            <g key={weekStart}>
+              <title>{`Week of ${weekStart}: ${count}`}</title>
+              <rect
+                x={x}
+                y={WEEK_CHART_HEIGHT - height}
+                width={WEEK_BAR_WIDTH}
+                height={height}
+                rx={3}
+                className="fill-status-applied"
+              />
+              <text
+                x={x + WEEK_BAR_WIDTH / 2}
+                y={WEEK_CHART_HEIGHT + 14}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[9px]"
+              >
+                {weekStart.slice(5)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </ChartCard>
+  );
+}
+
+/**
+ * Response rate per posting source domain
+ */
+export function SourcesTable({
+  responseRateBySource,
+}: Pick<JobStats, "responseRateBySource">) {
+  return (
+    <ChartCard
+      title="Response rate by source"
+      description="Applications that got an interview, offer or rejection"
+    >
+      {responseRateBySource.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No applications yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="pb-2 font-medium">Source</th>
+              <th className="pb-2 text-right font-medium">Applied</th>
+              <th className="pb-2 text-right font-medium">Responses</th>
+              <th className="pb-2 text-right font-medium">Rate</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {responseRateBySource.map(
+              ({ source, applied, responded, rate }) => (
+                <tr key={source}>
+                  <td className="py-1.5">{source}</td>
+                  <td className="py-1.5 text-right tabular-nums">{applied}</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {responded}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatPercent(rate)}
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      )}
+    </ChartCard>
+  );
+}
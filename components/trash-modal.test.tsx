@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { TrashModal } from "./trash-modal";
+
+// Mock next/navigation
+const mockRefresh = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({
+    refresh: mockRefresh,
+  }),
+}));
+
+// Test helpers
+const deletedJob = {
+  id: 7,
+  userId: "user_123",
+  company: "Acme Corp",
+  title: "Developer",
+  stageId: 2,
+  order: "i",
+  deletedAt: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+const mockFetch = (
+  trashJobs: unknown[] = [deletedJob],
+  actionResponse = { ok: true, json: async () => ({ success: true }) }
+) => {
+  global.fetch = vi.fn((url: string) =>
+    Promise.resolve(
+      url === "/api/jobs/trash"
+        ? {
+            ok: true,
+            json: async () => ({ jobs: trashJobs, retentionDays: 30 }),
+          }
+        : actionResponse
+    )
+  ) as unknown as typeof fetch;
+};
+
+describe("TrashModal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists deleted jobs with the retention period", async () => {
+    // Arrange
+    mockFetch();
+
+    // Act
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    // Assert
+    expect(
+      await screen.findByText("Acme Corp - Developer")
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/permanently removed after 30 days/)
+    ).toBeInTheDocument();
+    expect(screen.getByText(/removed in 30 days/)).toBeInTheDocument();
+  });
+
+  it("shows an empty state", async () => {
+    mockFetch([]);
+
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    expect(await screen.findByText("Trash is empty.")).toBeInTheDocument();
+  });
+
+  it("restores a job and refreshes the board", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Restore Acme Corp"));
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/7/restore", {
+      method: "POST",
+    });
+    await waitFor(() => {
+      expect(
+        screen.queryByText("Acme Corp - Developer")
+      ).not.toBeInTheDocument();
+    });
+    expect(mockRefresh).toHaveBeenCalled();
+  });
+
+  it("permanently deletes a job after confirmation", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(true);
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Delete Acme Corp forever"));
+
+    // Assert
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(global.fetch).toHaveBeenCalledWith("/api/jobs/trash/7", {
+      method: "DELETE",
+    });
+    await waitFor(() => {
+      expect(screen.getByText("Trash is empty.")).toBeInTheDocument();
+    });
+    confirmSpy.mockRestore();
+  });
+
+  it("does not delete when confirmation is cancelled", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch();
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Delete Acme Corp forever"));
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("Acme Corp - Developer")).toBeInTheDocument();
+    confirmSpy.mockRestore();
+  });
+
+  it("shows an error when restoring fails", async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockFetch([deletedJob], {
+      ok: false,
+      json: async () => ({ error: "Failed to restore job" }),
+    } as never);
+    render(<TrashModal open={true} onOpenChange={vi.fn()} />);
+
+    // Act
+    await user.click(await screen.findByLabelText("Restore Acme Corp"));
+
+    // Assert
+    expect(
+      await screen.findByText("Failed to restore job")
+    ).toBeInTheDocument();
+  });
+});
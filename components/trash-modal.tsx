@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Job } from "@prisma/client";
+import { RotateCcw, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { formatRelativeTime } from "@/lib/utils";
+import { daysUntilPurge } from "@/lib/trash";
+
+interface TrashModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The board whose trash to show, the first board if not set
+  boardId?: number;
+  // Hides restore and delete for boards the user may only view
+  readOnly?: boolean;
+}
+
+export function TrashModal({
+  open,
+  onOpenChange,
+  boardId,
+  readOnly = false,
+}: TrashModalProps) {
+  const [jobs, setJobs] = useState<Job[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [pendingJobId, setPendingJobId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  /**
+   * Load the trash every time the modal opens
+   */
+  useEffect(() => {
+    if (!open) {
+      setJobs(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadTrash() {
+      try {
+        const response = await fetch(
+          boardId ? `/api/jobs/trash?boardId=${boardId}` : "/api/jobs/trash"
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load deleted jobs");
+        }
+        const data: { jobs: Job[]; retentionDays: number } =
+          await response.json();
+        if (!cancelled) {
+          setJobs(data.jobs);
+          setRetentionDays(data.retentionDays);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load deleted jobs"
+          );
+        }
+      }
+    }
+
+    loadTrash();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, boardId]);
+
+  /**
+   * Restore a job to the board
+   */
+  async function handleRestore(job: Job) {
+    setPendingJobId(job.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to restore job");
+      }
+
+      setJobs((prev) => prev?.filter((j) => j.id !== job.id) ?? null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingJobId(null);
+    }
+  }
+
+  /**
+   * Permanently delete a job after confirmation
+   */
+  async function handlePermanentDelete(job: Job) {
+    const jobTitle = job.title || "Untitled";
+    const confirmed = window.confirm(
+      `Permanently delete ${job.company} - ${jobTitle}?\n\nThis action cannot be undone.`
+    );
+
+    if (!confirmed) return;
+
+    setPendingJobId(job.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/trash/${job.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete job");
+      }
+
+      setJobs((prev) => prev?.filter((j) => j.id !== job.id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingJobId(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        aria-describedby={undefined}
+      >
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {retentionDays !== null && (
+            <p className="text-sm text-muted-foreground">
+              Deleted jobs are permanently removed after {retentionDays} days.
+            </p>
+          )}
+
+          {!jobs && !error && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+
+          {jobs && jobs.length === 0 && (
+            <p className="text-sm text-muted-foreground">Trash is empty.</p>
+          )}
+
+          {jobs && jobs.length > 0 && (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {jobs.map((job) => (
+                <li
+                  key={job.id}
+                  className="flex items-center justify-between gap-4 p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {job.company}
+                      {job.title && ` - ${job.title}`}
+                    </p>
+                    {job.deletedAt && retentionDays !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        Deleted {formatRelativeTime(job.deletedAt)} · removed in{" "}
+                        {daysUntilPurge(job.deletedAt, retentionDays)} days
+                      </p>
+                    )}
+                  </div>
+                  {!readOnly && (
+                    <div className="flex shrink-0 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(job)}
+                        disabled={pendingJobId === job.id}
+                        aria-label={`Restore ${job.company}`}
+                      >
+                        <RotateCcw className="size-4" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePermanentDelete(job)}
+                        disabled={pendingJobId === job.id}
+                        aria-label={`Delete ${job.company} forever`}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg border border-destructive bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
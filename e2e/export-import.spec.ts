@@ -32,12 +32,14 @@ test.describe("Export/Import", () => {
       await page.getByLabel(/job posting url/i).fill("https://example.com/job");
       await page.getByLabel(/description/i).fill("Full job description here");
       await page.getByLabel(/notes/i).fill("Very interested in this role");
-      await page.getByLabel(/contact person/i).fill("Jane Doe");
+      await page.getByLabel(/contacts/i).fill("Jane Doe");
+      await page.getByRole("option", { name: /add “jane doe”/i }).click();
+      await expect(page.getByText("Jane Doe")).toBeVisible();
       await page.getByLabel(/date applied/i).fill("2025-01-15");
       await page.getByRole("button", { name: /add job/i }).click();
       await expect(page.getByRole("dialog")).not.toBeVisible();
 
-      // Create job with minimal fields in different status
+      // Create job with minimal fields in a different stage
       await page.getByRole("button", { name: "Add job to Applied" }).click();
       await page.getByLabel(/company/i).fill("Minimal Company");
       await page.getByLabel(/title/i).fill("Developer");
@@ -61,10 +63,12 @@ test.describe("Export/Import", () => {
       // Verify file contents
       const downloadPath = await download.path();
       const content = fs.readFileSync(downloadPath!, "utf-8");
-      const data = JSON.parse(content);
+      const envelope = JSON.parse(content);
 
-      // Verify array structure
-      expect(Array.isArray(data)).toBe(true);
+      // Verify envelope structure
+      expect(envelope.formatVersion).toBe(4);
+      expect(envelope.counts).toEqual({ jobs: 2, deletedJobs: 0, history: 0 });
+      const data = envelope.jobs;
       expect(data).toHaveLength(2);
 
       // Verify fully-populated job
@@ -77,9 +81,9 @@ test.describe("Export/Import", () => {
       expect(fullJob.jobPostingUrl).toBe("https://example.com/job");
       expect(fullJob.jobPostingText).toBe("Full job description here");
       expect(fullJob.notes).toBe("Very interested in this role");
-      expect(fullJob.contactPerson).toBe("Jane Doe");
+      expect(fullJob.contacts).toEqual([{ name: "Jane Doe" }]);
       expect(fullJob.dateApplied).toBe("2025-01-15");
-      expect(fullJob.status).toBe("WISHLIST");
+      expect(fullJob.stage).toBe("Wishlist");
 
       // Verify minimal job
       const minimalJob = data.find(
@@ -87,7 +91,7 @@ test.describe("Export/Import", () => {
       );
       expect(minimalJob).toBeDefined();
       expect(minimalJob.title).toBe("Developer");
-      expect(minimalJob.status).toBe("APPLIED");
+      expect(minimalJob.stage).toBe("Applied");
 
       // Verify excluded internal fields for both jobs
       for (const job of data) {
@@ -132,15 +136,17 @@ test.describe("Export/Import", () => {
 
       try {
         // Act
-        // Open modal and upload file
+        // Open modal, choose replace mode and upload file
         await page.getByRole("button", { name: /export and import/i }).click();
+        await page.getByRole("radio", { name: /replace/i }).check();
         await page
           .getByRole("dialog")
           .locator('input[type="file"]')
           .setInputFiles(exportPath);
 
-        // Verify preview shows correct counts
-        await expect(page.getByText(/ready to import 2 jobs/i)).toBeVisible();
+        // Verify dry-run preview shows correct counts
+        await expect(page.getByText("2 jobs created")).toBeVisible();
+        await expect(page.getByText("1 current job deleted")).toBeVisible();
         await expect(page.getByText("import-test.json")).toBeVisible();
 
         // Handle confirmation dialog
@@ -211,6 +217,7 @@ test.describe("Export/Import", () => {
 
       try {
         await page.getByRole("button", { name: /export and import/i }).click();
+        await page.getByRole("radio", { name: /replace/i }).check();
         await page
           .getByRole("dialog")
           .locator('input[type="file"]')
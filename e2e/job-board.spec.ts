@@ -13,8 +13,8 @@ test.describe("Job Board", () => {
     await page.waitForSelector('h1:has-text("Get a Job")');
   });
 
-  test("should display the job board with status columns", async ({ page }) => {
-    // Verify all status columns are present
+  test("should display the job board with stage columns", async ({ page }) => {
+    // Verify all stage columns are present
     // Use level: 2 to specifically target h2 column headings (not h3 job card titles)
     await expect(
       page.getByRole("heading", { name: "Wishlist", level: 2 })
@@ -51,8 +51,8 @@ test.describe("Job Board", () => {
     await page.getByLabel(/job posting url/i).fill("https://jobs.acme.com/123");
     await page.getByLabel(/date applied/i).fill("2025-12-15");
 
-    // Open status combobox and select option
-    await page.getByLabel(/status/i).click();
+    // Open stage combobox and select option
+    await page.getByLabel(/stage/i).click();
     await page.getByRole("option", { name: "Wishlist" }).click();
 
     // Submit the form
@@ -99,26 +99,26 @@ test.describe("Job Board", () => {
     await page.getByLabel(/title/i).fill("Backend Engineer");
     await page.getByLabel(/location/i).fill("Gothenburg");
 
-    // Verify that "Applied" status is pre-selected in the dropdown
+    // Verify that "Applied" stage is pre-selected in the dropdown
     // The Select component shows the selected value in the trigger button
-    const statusTrigger = page.getByRole("combobox", { name: /status/i });
-    await expect(statusTrigger).toContainText("Applied");
+    const stageTrigger = page.getByRole("combobox", { name: /stage/i });
+    await expect(stageTrigger).toContainText("Applied");
 
-    // Submit the form without changing status
+    // Submit the form without changing the stage
     await page.getByRole("button", { name: /add job/i }).click();
 
     // Verify modal closes
     await expect(page.getByRole("dialog")).not.toBeVisible();
 
     // Verify the job card appears in the Applied column (not Wishlist)
-    const appliedColumn = page.getByTestId("column-APPLIED");
+    const appliedColumn = page.getByTestId("column-Applied");
     await expect(
       appliedColumn.getByText(uniqueCompany, { exact: true })
     ).toBeVisible();
     await expect(appliedColumn.getByText("Backend Engineer")).toBeVisible();
 
     // Verify it's NOT in the Wishlist column
-    const wishlistColumn = page.getByTestId("column-WISHLIST");
+    const wishlistColumn = page.getByTestId("column-Wishlist");
     await expect(
       wishlistColumn.getByText(uniqueCompany, { exact: true })
     ).not.toBeVisible();
@@ -182,16 +182,16 @@ test.describe("Job Board", () => {
     await page.getByLabel(/title/i).fill("Test Role");
     await page.getByLabel(/date applied/i).fill(testDate);
 
-    // Open status combobox and select Wishlist
-    await page.getByLabel(/status/i).click();
+    // Open stage combobox and select Wishlist
+    await page.getByLabel(/stage/i).click();
     await page.getByRole("option", { name: "Wishlist" }).click();
 
     await page.getByRole("button", { name: /add job/i }).click();
     await expect(page.getByRole("dialog")).not.toBeVisible();
 
     // Locate columns by test ID
-    const wishlistColumn = page.getByTestId("column-WISHLIST");
-    const appliedColumn = page.getByTestId("column-APPLIED");
+    const wishlistColumn = page.getByTestId("column-Wishlist");
+    const appliedColumn = page.getByTestId("column-Applied");
 
     // Find the job card in Wishlist
     const jobCard = wishlistColumn.getByText(uniqueCompany).locator("..");
@@ -221,8 +221,8 @@ test.describe("Job Board", () => {
     }
 
     // Re-locate columns after drag (DOM may have updated)
-    const wishlistAfter = page.getByTestId("column-WISHLIST");
-    const appliedAfter = page.getByTestId("column-APPLIED");
+    const wishlistAfter = page.getByTestId("column-Wishlist");
+    const appliedAfter = page.getByTestId("column-Applied");
 
     // Verify the job moved to Applied column
     await expect(
@@ -276,4 +276,35 @@ test.describe("Job Board", () => {
     await expect(page.getByRole("dialog")).not.toBeVisible();
     await expect(page.getByText(uniqueCompany)).not.toBeVisible();
   });
+
+  test("should prefill a new job from a pasted URL", async ({
+    page,
+    context,
+  }) => {
+    // Served by e2e/mock-job-server.mjs and read by the stub LLM provider
+    const slug = `paste-${Date.now()}`;
+    const jobUrl = `http://127.0.0.1:3100/jobs/${slug}`;
+
+    await context.grantPermissions(["clipboard-read", "clipboard-write"]);
+    await page.evaluate((url) => navigator.clipboard.writeText(url), jobUrl);
+
+    // Paste outside any input to trigger extraction
+    await page.locator("body").click({ position: { x: 1, y: 1 } });
+    await page.evaluate(() =>
+      document.dispatchEvent(new ClipboardEvent("paste", { bubbles: true }))
+    );
+
+    // The modal opens with the extracted fields
+    await expect(page.getByRole("dialog")).toBeVisible();
+    await expect(page.getByLabel(/company/i)).toHaveValue(`Mock Corp ${slug}`);
+    await expect(page.getByLabel(/title/i)).toHaveValue(
+      `Test Engineer ${slug}`
+    );
+    await expect(page.getByLabel(/location/i)).toHaveValue("Stockholm, Sweden");
+
+    // Saving puts the job on the board
+    await page.getByRole("button", { name: /add job/i }).click();
+    await expect(page.getByRole("dialog")).not.toBeVisible();
+    await expect(page.getByText(`Mock Corp ${slug}`)).toBeVisible();
+  });
 });
@@ -0,0 +1,45 @@
+/**
+ * Local job posting server for e2e tests, started by Playwright's webServer
+ * config. Together with LLM_PROVIDER=stub (which reads "Label: value" lines)
+ * it lets the paste-a-URL flow run offline.
+ *
+ * GET /jobs/:slug returns a posting for that slug, GET /health returns 200.
+ */
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_JOB_SERVER_PORT ?? 3100);
+
+function jobPage(slug) {
+  return `<!DOCTYPE html>
+<html>
+  <head><title>Mock job ${slug}</title></head>
+  <body>
+    <h1>Mock job posting</h1>
+    <p>Company: Mock Corp ${slug}</p>
+    <p>Title: Test Engineer ${slug}</p>
+    <p>Location: Stockholm, Sweden</p>
+    <p>We are looking for a test engineer to keep our job board working end to end.</p>
+  </body>
+</html>`;
+}
+
+const server = createServer((request, response) => {
+  const { pathname } = new URL(request.url ?? "/", `http://127.0.0.1:${PORT}`);
+  const jobMatch = pathname.match(/^\/jobs\/([\w-]+)$/);
+
+  if (pathname === "/health") {
+    response.writeHead(200, { "Content-Type": "text/plain" });
+    response.end("ok");
+  } else if (jobMatch) {
+    response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    response.end(jobPage(jobMatch[1]));
+  } else {
+    response.writeHead(404, { "Content-Type": "text/plain" });
+    response.end("Not found");
+  }
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`Mock job server listening on http://127.0.0.1:${PORT}`);
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { extractJobData, isAIExtractionConfigured } from "./ai-extract";
+
+// Mock the global fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+// Test helpers
+const toolUse = (input: unknown, id = "toolu_1") => ({
+  type: "tool_use",
+  id,
+  name: "record_job_posting",
+  input,
+});
+
+const mockClaudeResponse = (content: unknown[]) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ content }),
+  });
+};
+
+const EMPTY_FIELDS = {
+  company: null,
+  title: null,
+  location: null,
+  jobPostingText: null,
+  notes: null,
+  deadline: null,
+  salaryMin: null,
+  salaryMax: null,
+  salaryCurrency: null,
+  salaryPeriod: null,
+  employmentType: null,
+  remotePolicy: null,
+  skills: null,
+  confidence: {},
+};
+
+const requestBody = (call: number) =>
+  JSON.parse(mockFetch.mock.calls[call][1].body);
+
+describe("extractJobData", () => {
+  const testUrl = "https://example.com/jobs/123";
+  const testText = "Software Engineer at Acme Corp. Remote position.";
+
+  beforeEach(() => {
+    // Reset mocks before each test
+    mockFetch.mockReset();
+
+    // Set API key for tests
+    process.env.ANTHROPIC_API_KEY = "test-api-key";
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("successful extraction", () => {
+    it("extracts job data and confidence from the tool call", async () => {
+      // Arrange
+      mockClaudeResponse([
+        toolUse({
+          ...EMPTY_FIELDS,
+          company: "Acme Corp",
+          title: "Software Engineer",
+          location: "Remote",
+          jobPostingText: "Full job description here",
+          notes: "Requires 5 years experience",
+          salaryMin: 60000,
+          salaryCurrency: "USD",
+          salaryPeriod: "YEAR",
+          remotePolicy: "REMOTE",
+          skills: [" TypeScript", "React "],
+          confidence: { company: "high", title: "high", location: "low" },
+        }),
+      ]);
+
+      // Act
+      const result = await extractJobData(testUrl, testText);
+
+      // Assert
+      expect(result).toEqual({
+        company: "Acme Corp",
+        title: "Software Engineer",
+        location: "Remote",
+        jobPostingUrl: testUrl,
+        jobPostingText: "Full job description here",
+        notes: "Requires 5 years experience",
+        salaryMin: 60000,
+        salaryCurrency: "USD",
+        salaryPeriod: "YEAR",
+        remotePolicy: "REMOTE",
+        skills: ["TypeScript", "React"],
+        confidence: { company: "high", title: "high", location: "low" },
+      });
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.anthropic.com/v1/messages",
+        expect.objectContaining({
+          method: "POST",
+          headers: expect.objectContaining({
+            "Content-Type": "application/json",
+            "x-api-key": "test-api-key",
+            "anthropic-version": "2023-06-01",
+          }),
+        })
+      );
+    });
+
+    it("forces the extraction tool with a schema for every field", async () => {
+      // Arrange
+      mockClaudeResponse([toolUse({ ...EMPTY_FIELDS, company: "Acme" })]);
+
+      // Act
+      await extractJobData(testUrl, testText);
+
+      // Assert
+      const body = requestBody(0);
+      expect(body.tool_choice).toEqual({
+        type: "tool",
+        name: "record_job_posting",
+      });
+      expect(body.tools[0].input_schema).toMatchObject({
+        type: "object",
+        required: expect.arrayContaining([
+          "company",
+          "title",
+          "location",
+          "jobPostingText",
+          "notes",
+          "confidence",
+        ]),
+      });
+      expect(body.tools[0].input_schema).not.toHaveProperty("$schema");
+    });
+
+    it("drops null and blank fields along with their confidence", async () => {
+      // Arrange
+      mockClaudeResponse([
+        { type: "text", text: "Recording the posting." },
+        toolUse({
+          ...EMPTY_FIELDS,
+          company: "  NullCo  ",
+          notes: " ",
+          confidence: { company: "medium", notes: "low" },
+        }),
+      ]);
+
+      // Act
+      const result = await extractJobData(testUrl, testText);
+
+      // Assert
+      expect(result).toEqual({
+        company: "NullCo",
+        jobPostingUrl: testUrl,
+        confidence: { company: "medium" },
+      });
+    });
+  });
+
+  describe("validation and retry", () => {
+    it("feeds validation errors back and retries once", async () => {
+      // Arrange
+      mockClaudeResponse([toolUse({ ...EMPTY_FIELDS, company: 42 })]);
+      mockClaudeResponse([
+        toolUse({ ...EMPTY_FIELDS, company: "Acme" }, "toolu_2"),
+      ]);
+
+      // Act
+      const result = await extractJobData(testUrl, testText);
+
+      // Assert
+      expect(result).toEqual({ company: "Acme", jobPostingUrl: testUrl });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const retryMessages = requestBody(1).messages;
+      expect(retryMessages).toHaveLength(3);
+      expect(retryMessages[1]).toEqual({
+        role: "assistant",
+        content: [toolUse({ ...EMPTY_FIELDS, company: 42 })],
+      });
+      expect(retryMessages[2].content[0]).toMatchObject({
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        is_error: true,
+        content: expect.stringContaining("company:"),
+      });
+    });
+
+    it("throws a short error when the retry is also invalid", async () => {
+      // Arrange
+      const invalid = toolUse({ company: "Acme", notes: "x".repeat(500) });
+      mockClaudeResponse([invalid]);
+      mockClaudeResponse([invalid]);
+
+      // Act
+      const error = await extractJobData(testUrl, testText).catch((e) => e);
+
+      // Assert
+      expect(error.message).toMatch(/^AI returned invalid job data: /);
+      expect(error.message).toContain("title:");
+      expect(error.message).not.toContain("x".repeat(50));
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("asks again when the response has no tool call", async () => {
+      // Arrange
+      mockClaudeResponse([{ type: "text", text: "Here is the data" }]);
+      mockClaudeResponse([toolUse({ ...EMPTY_FIELDS, title: "Engineer" })]);
+
+      // Act
+      const result = await extractJobData(testUrl, testText);
+
+      // Assert
+      expect(result.title).toBe("Engineer");
+      expect(requestBody(1).messages[2]).toEqual({
+        role: "user",
+        content: expect.stringContaining("record_job_posting"),
+      });
+    });
+
+    it("throws when no tool call is returned after the retry", async () => {
+      mockClaudeResponse([{ type: "text", text: "No." }]);
+      mockClaudeResponse([{ type: "text", text: "Still no." }]);
+
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "AI did not return job data"
+      );
+    });
+  });
+
+  describe("error handling", () => {
+    it("throws error when ANTHROPIC_API_KEY is missing", async () => {
+      // Arrange
+      delete process.env.ANTHROPIC_API_KEY;
+
+      // Act & Assert
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "ANTHROPIC_API_KEY environment variable is not set"
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("throws error when API request fails", async () => {
+      // Arrange
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: async () => "Unauthorized",
+      });
+
+      // Act & Assert
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "Claude API request failed: 401 Unauthorized"
+      );
+    });
+
+    it("throws error when API returns no content", async () => {
+      // Arrange
+      mockClaudeResponse([]);
+
+      // Act & Assert
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "No content in Claude API response"
+      );
+    });
+
+    it("handles network errors", async () => {
+      // Arrange
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      // Act & Assert
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "Network error"
+      );
+    });
+
+    it("handles unexpected error types", async () => {
+      // Arrange
+      mockFetch.mockRejectedValueOnce("string error");
+
+      // Act & Assert
+      await expect(extractJobData(testUrl, testText)).rejects.toThrow(
+        "Unknown error extracting job data"
+      );
+    });
+  });
+});
+
+describe("extractJobData with the stub provider", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    process.env.LLM_PROVIDER = "stub";
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it("extracts labeled lines without calling an API", async () => {
+    // Act
+    const result = await extractJobData(
+      "https://example.com/jobs/1",
+      "Company: Stub Corp\nTitle: Tester\nSome other text"
+    );
+
+    // Assert
+    expect(result).toEqual({
+      company: "Stub Corp",
+      title: "Tester",
+      jobPostingUrl: "https://example.com/jobs/1",
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("isAIExtractionConfigured", () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it("reflects whether an API key is set", () => {
+    process.env.ANTHROPIC_API_KEY = "test-api-key";
+    expect(isAIExtractionConfigured()).toBe(true);
+
+    delete process.env.ANTHROPIC_API_KEY;
+    expect(isAIExtractionConfigured()).toBe(false);
+  });
+
+  it("is always true for the stub provider", () => {
+    process.env.LLM_PROVIDER = "stub";
+    expect(isAIExtractionConfigured()).toBe(true);
+  });
+
+  it("is false for an unknown provider", () => {
+    process.env.LLM_PROVIDER = "unknown";
+    expect(isAIExtractionConfigured()).toBe(false);
+  });
+});
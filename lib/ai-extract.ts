@@ -0,0 +1,250 @@
+/**
+ * LLM integration for extracting structured job data from text
+ *
+ * The model is forced to answer through a tool whose input schema is
+ * derived from ExtractedJobData, and the tool input is validated with zod.
+ * Invalid input is sent back as a tool error once so the model can correct
+ * it. The provider (Anthropic, OpenAI-compatible or the offline stub) comes
+ * from the environment, see lib/llm.
+ */
+
+import { z } from "zod";
+import {
+  EXTRACTED_JOB_FIELDS,
+  employmentTypeSchema,
+  extractionConfidenceSchema,
+  remotePolicySchema,
+  salaryPeriodSchema,
+  type ExtractedJobData,
+  type ExtractedJobField,
+  type ExtractionConfidence,
+} from "@/lib/schemas";
+import {
+  createLLMProvider,
+  getLLMConfig,
+  isLLMConfigured,
+  type LLMMessage,
+  type LLMTool,
+} from "@/lib/llm";
+
+const TOOL_NAME = "record_job_posting";
+const MAX_ATTEMPTS = 2; // The first answer plus one retry with the errors
+
+// Re-export the type for consumers of this module
+export type { ExtractedJobData };
+
+const nullableText = (description: string) =>
+  z.string().nullable().describe(description);
+
+const nullableAmount = (description: string) =>
+  z.number().int().min(0).nullable().describe(description);
+
+// Every field is required but nullable, so the model states explicitly
+// when the posting doesn't say
+const extractedFieldSchemas = {
+  company: nullableText("Company name"),
+  title: nullableText("Job title"),
+  location: nullableText(
+    "Concise location, e.g. 'Stockholm, Sweden' or 'Remote'"
+  ),
+  jobPostingText: nullableText("The full, cleaned job description"),
+  notes: nullableText("2-3 sentence summary of key requirements or highlights"),
+  deadline: z.iso
+    .date()
+    .nullable()
+    .describe("Last day to apply, as YYYY-MM-DD"),
+  salaryMin: nullableAmount(
+    "Lowest salary of the stated range (or the only figure), as a whole number"
+  ),
+  salaryMax: nullableAmount(
+    "Highest salary of the stated range, as a whole number"
+  ),
+  salaryCurrency: z
+    .string()
+    .regex(/^[A-Z]{3}$/)
+    .nullable()
+    .describe("ISO 4217 code of the salary currency, e.g. 'SEK'"),
+  salaryPeriod: salaryPeriodSchema
+    .nullable()
+    .describe("What the salary figures are paid per"),
+  employmentType: employmentTypeSchema.nullable(),
+  remotePolicy: remotePolicySchema
+    .nullable()
+    .describe("Whether the job is on site, hybrid or fully remote"),
+  skills: z
+    .array(z.string())
+    .max(30)
+    .nullable()
+    .describe(
+      "Key skills and technologies the posting asks for, e.g. ['TypeScript', 'PostgreSQL']"
+    ),
+} satisfies Record<ExtractedJobField, z.ZodType>;
+
+const jobPostingToolSchema = z.object({
+  ...extractedFieldSchemas,
+  confidence: extractionConfidenceSchema.describe(
+    "How confident you are in each non-null field: high if stated verbatim, medium if inferred, low if guessed"
+  ),
+});
+
+type JobPostingToolInput = z.infer<typeof jobPostingToolSchema>;
+
+const toolInputJsonSchema = z.toJSONSchema(jobPostingToolSchema);
+delete toolInputJsonSchema.$schema;
+
+const extractionTool: LLMTool = {
+  name: TOOL_NAME,
+  description: "Record the structured data of a job posting",
+  inputSchema: toolInputJsonSchema,
+};
+
+/**
+ * True if the configured LLM provider can be called, so extractJobData can
+ * be used
+ */
+export function isAIExtractionConfigured(): boolean {
+  try {
+    return isLLMConfigured(getLLMConfig());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract structured job data from text using the configured LLM
+ * @param url - Original job posting URL
+ * @param text - Plain text content from job posting
+ * @returns Extracted job data, with per-field confidence
+ * @throws Error if the provider is misconfigured, the API call fails, or
+ * the response is still invalid after one retry
+ */
+export async function extractJobData(
+  url: string,
+  text: string
+): Promise<ExtractedJobData> {
+  const messages: LLMMessage[] = [
+    { role: "user", content: buildExtractionPrompt(text) },
+  ];
+
+  try {
+    const provider = createLLMProvider();
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await provider.callTool({
+        messages,
+        tool: extractionTool,
+      });
+      const toolCall =
+        response.toolCall?.name === TOOL_NAME ? response.toolCall : null;
+
+      if (toolCall) {
+        const result = jobPostingToolSchema.safeParse(toolCall.input);
+        if (result.success) return toExtractedJobData(result.data, url);
+
+        const problems = formatIssues(result.error);
+        if (attempt >= MAX_ATTEMPTS) {
+          throw new Error(`AI returned invalid job data: ${problems}`);
+        }
+
+        messages.push(
+          { role: "assistant", text: response.text, toolCall },
+          {
+            role: "tool",
+            toolCallId: toolCall.id,
+            content: `Invalid input: ${problems}. Call ${TOOL_NAME} again with corrected input.`,
+            isError: true,
+          }
+        );
+      } else {
+        if (attempt >= MAX_ATTEMPTS) {
+          throw new Error("AI did not return job data");
+        }
+
+        messages.push(
+          { role: "assistant", text: response.text },
+          {
+            role: "user",
+            content: `Call the ${TOOL_NAME} tool with the job data.`,
+          }
+        );
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error("Unknown error extracting job data");
+  }
+}
+
+/**
+ * Build the extraction prompt
+ */
+function buildExtractionPrompt(text: string): string {
+  return `You are a job posting data extractor. Extract structured information from the following job posting text and record it with the ${TOOL_NAME} tool.
+
+Important:
+- Use null for fields the posting doesn't mention
+- location should be concise (e.g., "Stockholm, Sweden" or "Remote")
+- jobPostingText should be the full, cleaned job description
+- Keep notes brief and relevant (2-3 sentences max)
+- Only fill salary fields from figures stated in the posting, never estimate them
+- deadline is the last application date; leave it null for "apply as soon as possible" or rolling hiring
+
+Job posting text:
+${text}`;
+}
+
+/**
+ * Summarize validation issues for the retry message and errors, e.g.
+ * "company: Invalid input: expected string, received number"
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * Trim text and list items, or undefined if nothing is left
+ */
+function cleanValue(
+  value: JobPostingToolInput[ExtractedJobField]
+): string | number | string[] | undefined {
+  if (value === null) return undefined;
+  if (typeof value === "number") return value;
+  if (Array.isArray(value)) {
+    const items = value.map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Map validated tool input to ExtractedJobData, dropping empty fields and
+ * confidence for fields that weren't filled
+ */
+function toExtractedJobData(
+  input: JobPostingToolInput,
+  url: string
+): ExtractedJobData {
+  const data: Record<string, unknown> = { jobPostingUrl: url };
+  const confidence: ExtractionConfidence = {};
+
+  for (const field of EXTRACTED_JOB_FIELDS) {
+    const value = cleanValue(input[field]);
+    if (value === undefined) continue;
+
+    data[field] = value;
+    if (input.confidence[field]) confidence[field] = input.confidence[field];
+  }
+
+  const extracted = data as ExtractedJobData;
+  return Object.keys(confidence).length > 0
+    ? { ...extracted, confidence }
+    : extracted;
+}
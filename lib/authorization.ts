@@ -0,0 +1,212 @@
+import { clerkClient, currentUser } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { Board } from "@prisma/client";
+import {
+  can,
+  normalizeEmail,
+  type BoardAccessRole,
+  type BoardAction,
+} from "@/lib/boards";
+import { getBoardById, getBoardsByUserId } from "@/lib/queries/boards";
+import {
+  claimBoardInvites,
+  getBoardMembership,
+} from "@/lib/queries/board-members";
+import { getJobById } from "@/lib/queries/jobs";
+
+/**
+ * Authorization for every API route. Boards and their jobs go through
+ * authorizeBoard, resolveBoard and authorizeJob, which give the board's
+ * owner every action and collaborators what their role allows (see
+ * BoardAction in lib/boards.ts). Stages, contacts and companies belong to
+ * one user and go through authorizeOwner; collaborators reach the board
+ * owner's contacts and companies through the board instead.
+ *
+ * Responses follow the routes' conventions: 404 for what doesn't exist,
+ * 403 for someone else's data or an action the role doesn't allow.
+ */
+
+const forbidden = () =>
+  NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+const notFound = (message: string, status = 404) =>
+  NextResponse.json({ error: message }, { status });
+
+/**
+ * The user's role on a board
+ *
+ * @returns OWNER, the role of their membership, or null without access
+ */
+export async function getBoardRole(
+  board: Pick<Board, "id" | "userId">,
+  userId: string
+): Promise<BoardAccessRole | null> {
+  if (board.userId === userId) return "OWNER";
+
+  const membership = await getBoardMembership(board.id, userId);
+  return membership?.role ?? null;
+}
+
+/**
+ * Authorize an action on the board in the URL
+ *
+ * @returns The board and the user's role on it, or an error response
+ */
+export async function authorizeBoard(
+  boardId: number,
+  userId: string,
+  action: BoardAction
+) {
+  const board = await getBoardById(boardId);
+
+  if (!board) {
+    return { error: notFound("Board not found") };
+  }
+
+  const role = await getBoardRole(board, userId);
+
+  if (!role || !can(role, action)) {
+    return { error: forbidden() };
+  }
+
+  return { board, role };
+}
+
+/**
+ * Authorize an action on the board a request names in its query or body,
+ * or on the user's own first board when it names none. A board the user
+ * can't open is reported as not found, like any other unknown reference.
+ *
+ * @param notFoundStatus - 404 for a query parameter, 400 for a body field
+ * @returns The board and the user's role on it, or an error response
+ */
+export async function resolveBoard(
+  boardId: number | undefined,
+  userId: string,
+  action: BoardAction,
+  notFoundStatus = 404
+) {
+  if (boardId === undefined) {
+    const [board] = await getBoardsByUserId(userId);
+    return { board, role: "OWNER" as BoardAccessRole };
+  }
+
+  const board = await getBoardById(boardId);
+  const role = board && (await getBoardRole(board, userId));
+
+  if (!board || !role) {
+    return { error: notFound("Board not found", notFoundStatus) };
+  }
+
+  if (!can(role, action)) {
+    return { error: forbidden() };
+  }
+
+  return { board, role };
+}
+
+/**
+ * Authorize an action on a job. A job's userId is always its board's
+ * owner, so only collaborators need the membership lookup.
+ *
+ * @param inTrash - Whether the job must be in the trash (restore, purge)
+ *   rather than on the board
+ * @returns The job and the user's role on its board, or an error response
+ */
+export async function authorizeJob(
+  jobId: number,
+  userId: string,
+  action: BoardAction,
+  { inTrash = false }: { inTrash?: boolean } = {}
+) {
+  const job = await getJobById(jobId);
+
+  if (!job || !!job.deletedAt !== inTrash) {
+    return {
+      error: notFound(inTrash ? "Deleted job not found" : "Job not found"),
+    };
+  }
+
+  const role = await getBoardRole(
+    { id: job.boardId, userId: job.userId },
+    userId
+  );
+
+  if (!role || !can(role, action)) {
+    return { error: forbidden() };
+  }
+
+  return { job, role };
+}
+
+/**
+ * Check that a resource of one user (a stage, contact or company) exists
+ * and is the user's
+ *
+ * @param name - What the resource is, for the 404 message
+ * @returns The resource, or an error response
+ */
+export function authorizeOwner<T extends { userId: string }>(
+  resource: T | null,
+  userId: string,
+  name: string
+) {
+  if (!resource) {
+    return { error: notFound(`${name} not found`) };
+  }
+
+  if (resource.userId !== userId) {
+    return { error: forbidden() };
+  }
+
+  return { resource };
+}
+
+/**
+ * The signed-in user's verified email addresses, normalized
+ */
+export async function getVerifiedEmails(): Promise<string[]> {
+  const user = await currentUser();
+
+  return (user?.emailAddresses ?? [])
+    .filter((address) => address.verification?.status === "verified")
+    .map((address) => normalizeEmail(address.emailAddress));
+}
+
+/**
+ * Display names of users, e.g. who made a change to a shared job: their
+ * full name, else their primary email address. Users Clerk doesn't know
+ * (or can't be asked about right now) are left out.
+ */
+export async function getUserNames(
+  userIds: string[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (userIds.length === 0) return names;
+
+  try {
+    const client = await clerkClient();
+    const { data: users } = await client.users.getUserList({
+      userId: userIds,
+      limit: userIds.length,
+    });
+
+    for (const user of users) {
+      const name =
+        user.fullName ?? user.primaryEmailAddress?.emailAddress ?? null;
+      if (name) names.set(user.id, name);
+    }
+  } catch (error) {
+    console.error("Error fetching user names:", error);
+  }
+
+  return names;
+}
+
+/**
+ * Give the signed-in user the boards they were invited to, by matching
+ * open invites against their verified email addresses
+ */
+export async function claimInvites(userId: string) {
+  await claimBoardInvites(userId, await getVerifiedEmails());
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  can,
+  findBoardByName,
+  getMoveTargets,
+  getRoleLabel,
+  normalizeEmail,
+  pickBoard,
+  sortBoards,
+  type BoardWithRole,
+} from "./boards";
+
+const board = (id: number, name = `Board ${id}`) => ({ id, name });
+
+describe("sortBoards", () => {
+  it("lists the oldest board first", () => {
+    expect(sortBoards([board(3), board(1), board(2)]).map((b) => b.id)).toEqual(
+      [1, 2, 3]
+    );
+  });
+});
+
+describe("findBoardByName", () => {
+  it("ignores case and surrounding whitespace", () => {
+    const boards = [board(1, "My board"), board(2, "Consulting")];
+
+    expect(findBoardByName(boards, "  consulting ")?.id).toBe(2);
+    expect(findBoardByName(boards, "Freelance")).toBeUndefined();
+  });
+});
+
+describe("pickBoard", () => {
+  const boards = [board(2), board(1)];
+
+  it("picks the requested board", () => {
+    expect(pickBoard(boards, "2")?.id).toBe(2);
+    expect(pickBoard(boards, 2)?.id).toBe(2);
+  });
+
+  it("falls back to the oldest board", () => {
+    expect(pickBoard(boards)?.id).toBe(1);
+    expect(pickBoard(boards, "99")?.id).toBe(1);
+  });
+
+  it("falls back to the user's own board before a shared one", () => {
+    const shared = [
+      { id: 1, role: "EDITOR" as const },
+      { id: 4, role: "OWNER" as const },
+    ];
+
+    expect(pickBoard(shared)?.id).toBe(4);
+    expect(pickBoard(shared, "1")?.id).toBe(1);
+  });
+
+  it("returns undefined without boards", () => {
+    expect(pickBoard([], "1")).toBeUndefined();
+  });
+});
+
+describe("can", () => {
+  it("gives each role the actions of the roles below it", () => {
+    expect(can("VIEWER", "view")).toBe(true);
+    expect(can("VIEWER", "comment")).toBe(false);
+    expect(can("COMMENTER", "comment")).toBe(true);
+    expect(can("COMMENTER", "edit")).toBe(false);
+    expect(can("EDITOR", "edit")).toBe(true);
+    expect(can("EDITOR", "manage")).toBe(false);
+    expect(can("OWNER", "manage")).toBe(true);
+  });
+});
+
+describe("getRoleLabel", () => {
+  it("capitalizes the role", () => {
+    expect(getRoleLabel("COMMENTER")).toBe("Commenter");
+    expect(getRoleLabel("OWNER")).toBe("Owner");
+  });
+});
+
+describe("normalizeEmail", () => {
+  it("trims and lowercases the address", () => {
+    expect(normalizeEmail("  Coach@Example.COM ")).toBe("coach@example.com");
+  });
+});
+
+describe("getMoveTargets", () => {
+  const boardWithRole = (
+    id: number,
+    userId: string,
+    role: BoardWithRole["role"]
+  ) => ({ ...board(id), userId, role }) as BoardWithRole;
+
+  it("keeps the boards of the same owner the user may edit", () => {
+    const boards = [
+      boardWithRole(1, "user_123", "OWNER"),
+      boardWithRole(2, "user_owner", "EDITOR"),
+      boardWithRole(3, "user_owner", "VIEWER"),
+      boardWithRole(4, "user_owner", "EDITOR"),
+    ];
+
+    expect(
+      getMoveTargets(boards, { userId: "user_owner" }).map((b) => b.id)
+    ).toEqual([2, 4]);
+    expect(
+      getMoveTargets(boards, { userId: "user_123" }).map((b) => b.id)
+    ).toEqual([1]);
+  });
+});
@@ -0,0 +1,119 @@
+import { Board, BoardRole } from "@prisma/client";
+
+/**
+ * Boards keep separate sets of jobs apart, e.g. a full-time search and
+ * consulting leads. Every user has at least one; the home page shows the
+ * board picked in the header (?board=ID), the first one otherwise.
+ *
+ * Owners can share a board with collaborators, who get a role (see
+ * BoardRole) deciding what they may do on it (see can).
+ */
+
+/** Name of the board every user starts with */
+export const DEFAULT_BOARD_NAME = "My board";
+
+/**
+ * Boards in the order they are listed: oldest first
+ */
+export function sortBoards<T extends Pick<Board, "id">>(boards: T[]): T[] {
+  return [...boards].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Find a board by name, ignoring case and surrounding whitespace
+ */
+export function findBoardByName<T extends Pick<Board, "name">>(
+  boards: T[],
+  name: string
+): T | undefined {
+  const key = name.trim().toLowerCase();
+  return boards.find((board) => board.name.trim().toLowerCase() === key);
+}
+
+/**
+ * The board to show: the requested one if the user has it, their first
+ * own board otherwise
+ *
+ * @param boards - The boards the user can open
+ * @param requested - Board ID from the URL, if any
+ */
+export function pickBoard<
+  T extends Pick<Board, "id"> & { role?: BoardAccessRole },
+>(boards: T[], requested?: string | number | null): T | undefined {
+  const sorted = sortBoards(boards);
+  return (
+    sorted.find((board) => String(board.id) === String(requested)) ??
+    sorted.find((board) => (board.role ?? "OWNER") === "OWNER") ??
+    sorted[0]
+  );
+}
+
+/** A user's role on a board: its owner or a collaborator's role */
+export type BoardAccessRole = BoardRole | "OWNER";
+
+/**
+ * A board with the signed-in user's role on it, and on a shared board the
+ * ID of their membership (for leaving it)
+ */
+export type BoardWithRole = Board & {
+  role: BoardAccessRole;
+  memberId?: number;
+};
+
+/**
+ * What can be done on a board:
+ * - view: see the board, its jobs, their history and interviews, export
+ * - comment: discuss jobs
+ * - edit: add, change, move, delete and restore jobs, import
+ * - manage: rename or delete the board, invite and remove collaborators
+ */
+export type BoardAction = "view" | "comment" | "edit" | "manage";
+
+const ROLE_ACTIONS: Record<BoardAccessRole, BoardAction[]> = {
+  VIEWER: ["view"],
+  COMMENTER: ["view", "comment"],
+  EDITOR: ["view", "comment", "edit"],
+  OWNER: ["view", "comment", "edit", "manage"],
+};
+
+/** Roles a collaborator can be given, least access first */
+export const BOARD_ROLES = [
+  "VIEWER",
+  "COMMENTER",
+  "EDITOR",
+] as const satisfies readonly BoardRole[];
+
+/**
+ * Whether a role allows an action
+ */
+export function can(role: BoardAccessRole, action: BoardAction): boolean {
+  return ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * Display label for a role, e.g. "Editor"
+ */
+export function getRoleLabel(role: BoardAccessRole): string {
+  return role.charAt(0) + role.slice(1).toLowerCase();
+}
+
+/**
+ * The boards a job on a board can be moved to: the boards of the same
+ * owner (a job's stages and contacts are its owner's) that the user may
+ * edit, including the board itself
+ */
+export function getMoveTargets<T extends BoardWithRole>(
+  boards: T[],
+  board: Pick<Board, "userId">
+): T[] {
+  return boards.filter(
+    (target) => target.userId === board.userId && can(target.role, "edit")
+  );
+}
+
+/**
+ * Normalize an email address for matching invites: trimmed, lowercase
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
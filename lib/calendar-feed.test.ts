@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  createCalendarFeedToken,
+  getCalendarFeedSecret,
+  verifyCalendarFeedToken,
+} from "./calendar-feed";
+
+describe("getCalendarFeedSecret", () => {
+  afterEach(() => {
+    delete process.env.CALENDAR_FEED_SECRET;
+  });
+
+  it("reads CALENDAR_FEED_SECRET", () => {
+    process.env.CALENDAR_FEED_SECRET = "s3cret";
+
+    expect(getCalendarFeedSecret()).toBe("s3cret");
+  });
+
+  it("returns null when the feed is not configured", () => {
+    expect(getCalendarFeedSecret()).toBe(null);
+  });
+});
+
+describe("calendar feed tokens", () => {
+  it("verifies a token it created", () => {
+    const token = createCalendarFeedToken("user_123", "s3cret");
+
+    expect(verifyCalendarFeedToken(token, "s3cret")).toBe("user_123");
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = createCalendarFeedToken("user_123", "old-secret");
+
+    expect(verifyCalendarFeedToken(token, "s3cret")).toBe(null);
+  });
+
+  it("rejects a token for another user", () => {
+    const [, signature] = createCalendarFeedToken("user_123", "s3cret").split(
+      "."
+    );
+    const forged = `${Buffer.from("user_456").toString("base64url")}.${signature}`;
+
+    expect(verifyCalendarFeedToken(forged, "s3cret")).toBe(null);
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifyCalendarFeedToken("", "s3cret")).toBe(null);
+    expect(verifyCalendarFeedToken("no-signature", "s3cret")).toBe(null);
+  });
+});
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Tokens for the per-user interview calendar feed. Calendar apps fetch the
+ * feed without a Clerk session, so the URL carries a token instead: the
+ * user id plus an HMAC of it, signed with CALENDAR_FEED_SECRET. Changing
+ * the secret revokes every feed URL.
+ */
+
+/**
+ * Secret used to sign feed tokens, or null when the feed is not configured
+ */
+export function getCalendarFeedSecret(): string | null {
+  return process.env.CALENDAR_FEED_SECRET || null;
+}
+
+function sign(userId: string, secret: string): string {
+  return createHmac("sha256", secret).update(userId).digest("base64url");
+}
+
+/**
+ * Create the feed token for a user
+ */
+export function createCalendarFeedToken(
+  userId: string,
+  secret: string
+): string {
+  return `${Buffer.from(userId).toString("base64url")}.${sign(userId, secret)}`;
+}
+
+/**
+ * Check a feed token
+ *
+ * @returns The user id the token was issued for, or null if it's invalid
+ */
+export function verifyCalendarFeedToken(
+  token: string,
+  secret: string
+): string | null {
+  const [encodedUserId, signature] = token.split(".");
+  if (!encodedUserId || !signature) return null;
+
+  const userId = Buffer.from(encodedUserId, "base64url").toString();
+  const expected = Buffer.from(sign(userId, secret));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? userId
+    : null;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  cleanAliases,
+  findCompanyByName,
+  normalizeCompanyName,
+  summarizeCompanyOutcomes,
+} from "./companies";
+
+describe("normalizeCompanyName", () => {
+  it("ignores case, punctuation and extra whitespace", () => {
+    expect(normalizeCompanyName("  Acme,  Rockets & Co.! ")).toBe(
+      "acme rockets"
+    );
+  });
+
+  it("drops trailing legal suffixes", () => {
+    expect(normalizeCompanyName("Spotify AB (publ)")).toBe("spotify");
+    expect(normalizeCompanyName("Klarna Bank AB")).toBe("klarna bank");
+    expect(normalizeCompanyName("Google LLC")).toBe("google");
+  });
+
+  it("keeps a name that is only a suffix", () => {
+    expect(normalizeCompanyName("AB")).toBe("ab");
+  });
+
+  it("keeps non-Latin letters", () => {
+    expect(normalizeCompanyName("Ålö Möbler AB")).toBe("ålö möbler");
+  });
+});
+
+describe("findCompanyByName", () => {
+  const companies = [
+    { id: 1, name: "Spotify", aliases: ["Spotify Technology"] },
+    { id: 2, name: "Klarna", aliases: [] },
+  ];
+
+  it("matches by normalized name", () => {
+    expect(findCompanyByName(companies, "spotify ab")?.id).toBe(1);
+  });
+
+  it("matches by alias", () => {
+    expect(findCompanyByName(companies, "Spotify Technology S.A.")?.id).toBe(1);
+  });
+
+  it("returns undefined for unknown or blank names", () => {
+    expect(findCompanyByName(companies, "Acme")).toBeUndefined();
+    expect(findCompanyByName(companies, " - ")).toBeUndefined();
+  });
+});
+
+describe("cleanAliases", () => {
+  it("trims and drops blanks, duplicates and the company's own name", () => {
+    expect(
+      cleanAliases("Spotify", [
+        " Spotify Tech ",
+        "",
+        "Spotify AB",
+        "spotify tech",
+      ])
+    ).toEqual(["Spotify Tech"]);
+  });
+});
+
+describe("summarizeCompanyOutcomes", () => {
+  it("counts applications by outcome", () => {
+    expect(
+      summarizeCompanyOutcomes([
+        { stage: { category: "WISHLIST" } },
+        { stage: { category: "INTERVIEW" } },
+        { stage: { category: "OFFER" } },
+        { stage: { category: "REJECTED" } },
+        { stage: { category: "REJECTED" } },
+      ])
+    ).toEqual({ total: 5, active: 2, offers: 1, accepted: 0, rejected: 2 });
+  });
+});
@@ -0,0 +1,124 @@
+import { Company, Stage, StageCategory } from "@prisma/client";
+
+/**
+ * Companies group applications to the same employer. A job is linked to
+ * the user's company whose name or alias matches the job's company name.
+ */
+
+/**
+ * Legal-form and listing suffixes ignored when matching names, so
+ * "Spotify AB (publ)" matches "Spotify". Keep in sync with the
+ * add_companies migration.
+ */
+export const COMPANY_NAME_SUFFIXES = [
+  "ab",
+  "ag",
+  "as",
+  "asa",
+  "bv",
+  "co",
+  "corp",
+  "corporation",
+  "gmbh",
+  "inc",
+  "incorporated",
+  "limited",
+  "llc",
+  "ltd",
+  "nv",
+  "oy",
+  "oyj",
+  "plc",
+  "publ",
+  "sa",
+] as const;
+
+const SUFFIXES = new Set<string>(COMPANY_NAME_SUFFIXES);
+
+/**
+ * Key for matching company names: case-insensitive, punctuation and extra
+ * whitespace ignored, trailing legal suffixes dropped (but never the whole
+ * name). Periods are removed first so "S.A." reads as "sa". Keep in sync
+ * with the add_companies migration.
+ *
+ * @example normalizeCompanyName("Spotify AB (publ)") // "spotify"
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replaceAll(".", "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  while (words.length > 1 && SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(" ");
+}
+
+/**
+ * Find the company a name refers to, by its name or one of its aliases
+ * (see normalizeCompanyName)
+ */
+export function findCompanyByName<T extends Pick<Company, "name" | "aliases">>(
+  companies: T[],
+  name: string
+): T | undefined {
+  const key = normalizeCompanyName(name);
+  if (!key) return undefined;
+
+  return companies.find((company) =>
+    [company.name, ...company.aliases].some(
+      (candidate) => normalizeCompanyName(candidate) === key
+    )
+  );
+}
+
+/**
+ * Clean up an alias list: trimmed, without blanks, without the company's
+ * own name and without duplicates (compared by normalizeCompanyName)
+ */
+export function cleanAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([normalizeCompanyName(name)]);
+
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = normalizeCompanyName(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** How applications to a company turned out */
+export type CompanyOutcomes = {
+  total: number;
+  /** Still in progress: wishlist, applied or interviewing */
+  active: number;
+  offers: number;
+  accepted: number;
+  rejected: number;
+};
+
+const ACTIVE_CATEGORIES: StageCategory[] = ["WISHLIST", "APPLIED", "INTERVIEW"];
+
+/**
+ * Count a company's applications by outcome, from their stages' categories
+ */
+export function summarizeCompanyOutcomes(
+  jobs: { stage: Pick<Stage, "category"> }[]
+): CompanyOutcomes {
+  const count = (category: StageCategory) =>
+    jobs.filter((job) => job.stage.category === category).length;
+
+  return {
+    total: jobs.length,
+    active: jobs.filter((job) => ACTIVE_CATEGORIES.includes(job.stage.category))
+      .length,
+    offers: count("OFFER"),
+    accepted: count("ACCEPTED"),
+    rejected: count("REJECTED"),
+  };
+}
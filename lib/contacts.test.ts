@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  findContactByName,
+  normalizeContactName,
+  searchContacts,
+} from "./contacts";
+
+const contacts = [
+  { id: 1, name: "Jane Doe", role: "Recruiter", company: "Acme" },
+  { id: 2, name: "John Smith", role: "Hiring manager", company: "Globex" },
+  { id: 3, name: "Anna Janesson", role: null, company: null },
+];
+
+describe("normalizeContactName", () => {
+  it("ignores case and extra whitespace", () => {
+    expect(normalizeContactName("  Jane   DOE ")).toBe("jane doe");
+  });
+});
+
+describe("findContactByName", () => {
+  it("finds a contact regardless of case and spacing", () => {
+    expect(findContactByName(contacts, "jane  doe")?.id).toBe(1);
+  });
+
+  it("returns undefined when no name matches", () => {
+    expect(findContactByName(contacts, "Jane")).toBeUndefined();
+  });
+});
+
+describe("searchContacts", () => {
+  it("lists name matches at the start of a word first", () => {
+    expect(searchContacts(contacts, "jan").map((c) => c.id)).toEqual([1, 3]);
+    expect(searchContacts(contacts, "anes").map((c) => c.id)).toEqual([3]);
+  });
+
+  it("matches role and company", () => {
+    expect(searchContacts(contacts, "globex").map((c) => c.id)).toEqual([2]);
+    expect(searchContacts(contacts, "recruit").map((c) => c.id)).toEqual([1]);
+  });
+
+  it("leaves out contacts already picked", () => {
+    expect(searchContacts(contacts, "jan", [1]).map((c) => c.id)).toEqual([3]);
+  });
+
+  it("returns every remaining contact for an empty query", () => {
+    expect(searchContacts(contacts, " ", [2])).toHaveLength(2);
+  });
+});
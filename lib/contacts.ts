@@ -0,0 +1,58 @@
+import { Contact } from "@prisma/client";
+
+/**
+ * Contacts are people tied to applications (recruiters, hiring managers).
+ * One contact can be linked to many jobs and a job to many contacts.
+ */
+
+/**
+ * Key for matching contacts by name: case-insensitive, ignoring extra
+ * whitespace. Keep in sync with the add_contacts migration.
+ */
+export function normalizeContactName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Find a contact by name (see normalizeContactName)
+ */
+export function findContactByName<T extends Pick<Contact, "name">>(
+  contacts: T[],
+  name: string
+): T | undefined {
+  const key = normalizeContactName(name);
+  return contacts.find((contact) => normalizeContactName(contact.name) === key);
+}
+
+/**
+ * Contacts matching a search query by name, role or company, for
+ * autocomplete. Name matches at the start of a word come first.
+ *
+ * @param contacts - Contacts to search
+ * @param query - Text typed so far
+ * @param excludeIds - Contacts already picked
+ */
+export function searchContacts<
+  T extends Pick<Contact, "id" | "name" | "role" | "company">,
+>(contacts: T[], query: string, excludeIds: number[] = []): T[] {
+  const q = normalizeContactName(query);
+  const candidates = contacts.filter((c) => !excludeIds.includes(c.id));
+  if (!q) return candidates;
+
+  const startsWord = (text: string | null) =>
+    (text ?? "")
+      .toLowerCase()
+      .split(/\s+/)
+      .some((word) => word.startsWith(q));
+  const includes = (text: string | null) =>
+    (text ?? "").toLowerCase().includes(q);
+
+  return [
+    ...candidates.filter((c) => startsWord(c.name)),
+    ...candidates.filter(
+      (c) =>
+        !startsWord(c.name) &&
+        (includes(c.name) || includes(c.role) || includes(c.company))
+    ),
+  ];
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { parseCSV, toCSV } from "./csv";
+
+describe("toCSV", () => {
+  it("joins cells with commas and rows with CRLF", () => {
+    expect(
+      toCSV([
+        ["company", "title"],
+        ["Acme", "Developer"],
+      ])
+    ).toBe("company,title\r\nAcme,Developer");
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    expect(toCSV([["Acme, Inc", 'The "best"', "line 1\nline 2"]])).toBe(
+      '"Acme, Inc","The ""best""","line 1\nline 2"'
+    );
+  });
+
+  it("prefixes fields that start a formula with an apostrophe", () => {
+    expect(
+      toCSV([['=HYPERLINK("x")', "+46 70", "-1", "@SUM(A1)", "a=b"]])
+    ).toBe(`"'=HYPERLINK(""x"")",'+46 70,'-1,'@SUM(A1),a=b`);
+  });
+});
+
+describe("parseCSV", () => {
+  it("parses simple rows", () => {
+    expect(parseCSV("a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("handles quoted fields with commas, escaped quotes and newlines", () => {
+    const text = 'name,notes\r\n"Acme, Inc","Said ""hi""\r\nCall back"\r\n';
+
+    expect(parseCSV(text)).toEqual([
+      ["name", "notes"],
+      ["Acme, Inc", 'Said "hi"\r\nCall back'],
+    ]);
+  });
+
+  it("keeps empty cells and skips blank lines", () => {
+    expect(parseCSV("a,,c\n\n,,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("strips a leading byte order mark", () => {
+    expect(parseCSV("\uFEFFcompany\nAcme")).toEqual([["company"], ["Acme"]]);
+  });
+
+  it("round-trips values written by toCSV", () => {
+    const rows = [
+      ["company", "notes"],
+      ["Acme", 'Multi\nline, with "quotes"'],
+      ["", "trailing"],
+      ["=1+1", "- a list"],
+      ["'=quoted", "'kept"],
+    ];
+
+    expect(parseCSV(toCSV(rows))).toEqual(rows);
+  });
+
+  it("throws on an unclosed quoted field", () => {
+    expect(() => parseCSV('a,"b\nc')).toThrow("unclosed quoted field");
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing.
+ * Fields containing commas, quotes or line breaks are quoted, and quoted
+ * fields may span several lines - notes and job descriptions often do.
+ * Fields that would start a spreadsheet formula get a leading "'" so
+ * they open as text (CSV injection), which parsing removes again.
+ */
+
+// A formula start, after any apostrophes so a value that already begins
+// with one still round-trips
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/**
+ * Guard a field against formulas, then quote it if needed, doubling any
+ * quotes inside it
+ */
+function escapeField(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Remove the "'" escapeField puts before a formula start
+ */
+function unescapeField(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value)
+    ? value.slice(1)
+    : value;
+}
+
+/**
+ * Serialize rows to CSV text. Lines end in CRLF as the RFC recommends,
+ * which spreadsheet apps handle best.
+ *
+ * @param rows - Rows of cell values, typically starting with a header row
+ */
+export function toCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n");
+}
+
+/**
+ * Parse CSV text into rows of cell values.
+ * Handles quoted fields, escaped quotes, multiline values, CRLF/LF line
+ * endings, a leading byte order mark (Excel adds one) and fields guarded
+ * against formulas. Blank lines are skipped.
+ *
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  function endRow() {
+    row.push(field);
+    // A row with a single empty cell is a blank line
+    if (row.length > 1 || row[0] !== "") rows.push(row.map(unescapeField));
+    row = [];
+    field = "";
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV file: unclosed quoted field");
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
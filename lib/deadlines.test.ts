@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import type { Job, Stage } from "@prisma/client";
+import {
+  daysUntilDeadline,
+  formatDeadlineCountdown,
+  getDeadlineUrgency,
+  isOverdue,
+  sortWishlistByDeadline,
+} from "./deadlines";
+import { makeJob } from "@/lib/test-fixtures";
+
+const WISHLIST = { category: "WISHLIST" } as Stage;
+const APPLIED = { category: "APPLIED" } as Stage;
+
+function createJob(
+  overrides: Partial<Job & { stage: Stage }> = {}
+): Job & { stage: Stage } {
+  return {
+    ...makeJob({
+      company: "Acme",
+      title: "Frontend Developer",
+      location: "Stockholm",
+      order: "i",
+      createdAt: new Date("2025-01-01"),
+      updatedAt: new Date("2025-01-01"),
+    }),
+    stage: WISHLIST,
+    ...overrides,
+  };
+}
+
+// Late in the local day, so a UTC-based count would be off by one
+const now = new Date(2025, 2, 15, 23, 30);
+
+describe("daysUntilDeadline", () => {
+  it("counts whole calendar days from today", () => {
+    expect(daysUntilDeadline(new Date("2025-03-15"), now)).toBe(0);
+    expect(daysUntilDeadline(new Date("2025-03-20"), now)).toBe(5);
+    expect(daysUntilDeadline("2025-03-13T00:00:00.000Z", now)).toBe(-2);
+  });
+});
+
+describe("getDeadlineUrgency", () => {
+  it("marks passed deadlines overdue and close ones soon", () => {
+    expect(getDeadlineUrgency(-1)).toBe("overdue");
+    expect(getDeadlineUrgency(0)).toBe("soon");
+    expect(getDeadlineUrgency(3)).toBe("soon");
+    expect(getDeadlineUrgency(4)).toBe("upcoming");
+  });
+});
+
+describe("formatDeadlineCountdown", () => {
+  it("formats the days left", () => {
+    expect(formatDeadlineCountdown(-3)).toBe("Closed 3 days ago");
+    expect(formatDeadlineCountdown(-1)).toBe("Closed yesterday");
+    expect(formatDeadlineCountdown(0)).toBe("Due today");
+    expect(formatDeadlineCountdown(1)).toBe("Due tomorrow");
+    expect(formatDeadlineCountdown(12)).toBe("12 days left");
+  });
+});
+
+describe("isOverdue", () => {
+  it("is true for wishlist jobs past their deadline", () => {
+    const deadline = new Date("2025-03-14");
+
+    expect(isOverdue(createJob({ deadline }), now)).toBe(true);
+    expect(isOverdue(createJob({ deadline, stage: APPLIED }), now)).toBe(false);
+    expect(
+      isOverdue(createJob({ deadline: new Date("2025-03-15") }), now)
+    ).toBe(false);
+    expect(isOverdue(createJob(), now)).toBe(false);
+  });
+});
+
+describe("sortWishlistByDeadline", () => {
+  it("orders the wishlist by urgency and leaves other columns alone", () => {
+    // Arrange
+    const jobs = [
+      createJob({ id: 1 }),
+      createJob({ id: 2, deadline: new Date("2025-03-10") }),
+      createJob({ id: 3, stage: APPLIED }),
+      createJob({ id: 4, deadline: new Date("2025-03-30") }),
+      createJob({ id: 5, deadline: new Date("2025-03-14") }),
+      createJob({ id: 6 }),
+      createJob({ id: 7, deadline: new Date("2025-03-16") }),
+    ];
+
+    // Act
+    const sorted = sortWishlistByDeadline(jobs, now);
+
+    // Assert
+    expect(sorted.map((job) => job.id)).toEqual([7, 4, 3, 1, 6, 5, 2]);
+  });
+});
@@ -0,0 +1,110 @@
+import { Job, Stage } from "@prisma/client";
+
+/**
+ * Application deadlines. A deadline is a calendar date (stored at midnight
+ * UTC, like dateApplied) and counts as open for the whole of that day.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Deadlines this many days away or closer are shown as urgent */
+export const DEADLINE_SOON_DAYS = 3;
+
+export type DeadlineUrgency = "overdue" | "soon" | "upcoming";
+
+/**
+ * Whole days from today until the deadline: 0 on the day itself, negative
+ * once it has passed. Today is the user's local date.
+ *
+ * @param deadline - The deadline date
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function daysUntilDeadline(
+  deadline: Date | string,
+  now: Date = new Date()
+): number {
+  const d = typeof deadline === "string" ? new Date(deadline) : deadline;
+  const deadlineDay = Date.UTC(
+    d.getUTCFullYear(),
+    d.getUTCMonth(),
+    d.getUTCDate()
+  );
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((deadlineDay - today) / DAY_MS);
+}
+
+export function getDeadlineUrgency(daysLeft: number): DeadlineUrgency {
+  if (daysLeft < 0) return "overdue";
+  return daysLeft <= DEADLINE_SOON_DAYS ? "soon" : "upcoming";
+}
+
+/**
+ * Format the days left as a countdown, e.g. "Due today", "5 days left" or
+ * "Closed 2 days ago"
+ */
+export function formatDeadlineCountdown(daysLeft: number): string {
+  if (daysLeft < -1) return `Closed ${-daysLeft} days ago`;
+  if (daysLeft === -1) return "Closed yesterday";
+  if (daysLeft === 0) return "Due today";
+  if (daysLeft === 1) return "Due tomorrow";
+  return `${daysLeft} days left`;
+}
+
+type StagedJob = { stage: Pick<Stage, "category"> };
+
+/**
+ * Whether a job is in a wishlist stage, where deadlines still matter
+ */
+export function isWishlisted(job: StagedJob): boolean {
+  return job.stage.category === "WISHLIST";
+}
+
+/**
+ * True for a wishlist job whose deadline has passed before it was applied to
+ */
+export function isOverdue(
+  job: Pick<Job, "deadline"> & StagedJob,
+  now: Date = new Date()
+): boolean {
+  return (
+    isWishlisted(job) &&
+    job.deadline !== null &&
+    daysUntilDeadline(job.deadline, now) < 0
+  );
+}
+
+// Open deadlines first, then jobs without one, then those already missed
+function urgencyGroup(daysLeft: number | null): number {
+  if (daysLeft === null) return 1;
+  return daysLeft < 0 ? 2 : 0;
+}
+
+/**
+ * Order the wishlist stages by urgency: the nearest open deadline first, then jobs
+ * without a deadline (in board order), then overdue jobs, most recently
+ * missed first. Jobs in other columns keep their place.
+ *
+ * @param jobs - Board-ordered jobs
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function sortWishlistByDeadline<T extends Job & StagedJob>(
+  jobs: T[],
+  now: Date = new Date()
+): T[] {
+  const daysLeft = (job: Job) =>
+    job.deadline ? daysUntilDeadline(job.deadline, now) : null;
+
+  const wishlist = jobs
+    .filter(isWishlisted)
+    .map((job) => ({ job, daysLeft: daysLeft(job) }))
+    .sort((a, b) => {
+      const group = urgencyGroup(a.daysLeft) - urgencyGroup(b.daysLeft);
+      if (group !== 0 || a.daysLeft === null || b.daysLeft === null) {
+        return group;
+      }
+      return a.daysLeft < 0 ? b.daysLeft - a.daysLeft : a.daysLeft - b.daysLeft;
+    });
+
+  let next = 0;
+  return jobs.map((job) => (isWishlisted(job) ? wishlist[next++].job : job));
+}
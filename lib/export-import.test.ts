@@ -1,23 +1,59 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { Job } from "@prisma/client";
+import { Contact, JobHistory, Stage } from "@prisma/client";
 import {
   jobToExportedJob,
   generateExportFilename,
   downloadJSON,
   parseJSONFile,
+  parseCSVFile,
+  jobsToCSV,
+  guessColumnMapping,
+  csvRowsToJobs,
+  createExportEnvelope,
+  upgradeExport,
+  envelopeToImportJobs,
+  historyToExportedHistory,
+  exportedHistoryToStageIds,
+  stageToExportedStage,
+  EXPORT_FORMAT_VERSION,
+  EXPORT_FIELDS,
+  EXPORT_FILENAME_PATTERN,
   EXPORT_FILENAME_PREFIX,
 } from "./export-import";
+import { importRequestSchema, type ExportedJob } from "./schemas";
+import { DEFAULT_STAGES } from "./stages";
+import { makeJob } from "@/lib/test-fixtures";
+
+// Test helpers
+const stage = (overrides: Partial<Stage> = {}): Stage => ({
+  id: 1,
+  userId: "user_123",
+  name: "Wishlist",
+  color: "gray",
+  position: 0,
+  category: "WISHLIST",
+  archivedAt: null,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  ...overrides,
+});
+
+const WISHLIST = stage();
+const APPLIED = stage({
+  id: 2,
+  name: "Applied",
+  color: "blue",
+  position: 1,
+  category: "APPLIED",
+});
 
 describe("jobToExportedJob", () => {
   it("removes auto-generated fields from exported job", () => {
     // Arrange
-    const job: Job = {
-      id: 1,
-      userId: "user_123",
-      company: "Test Company",
+    const job = makeJob({
       title: "Software Engineer",
       location: "Stockholm",
-      status: "WISHLIST",
+      stageId: WISHLIST.id,
       order: "a0",
       dateApplied: new Date("2024-01-15"),
       jobPostingUrl: "https://example.com/job",
@@ -25,14 +61,35 @@ describe("jobToExportedJob", () => {
       notes: "Some notes",
       resumeUrl: "https://example.com/resume.pdf",
       coverLetterUrl: "https://example.com/cover.pdf",
-      contactPerson: "John Doe",
-      deletedAt: null,
+      deadline: new Date("2024-02-01"),
+      salaryMin: 45000,
+      salaryMax: 55000,
+      salaryCurrency: "SEK",
+      salaryPeriod: "MONTH",
+      employmentType: "FULL_TIME",
+      remotePolicy: "HYBRID",
+      skills: ["TypeScript", "React"],
       createdAt: new Date("2024-01-10"),
       updatedAt: new Date("2024-01-11"),
-    };
+    });
+    const contacts: Contact[] = [
+      {
+        id: 4,
+        userId: "user_123",
+        name: "John Doe",
+        email: "john@example.com",
+        phone: null,
+        linkedinUrl: null,
+        role: "Recruiter",
+        company: null,
+        notes: null,
+        createdAt: new Date("2024-01-09"),
+        updatedAt: new Date("2024-01-09"),
+      },
+    ];
 
     // Act
-    const exported = jobToExportedJob(job);
+    const exported = jobToExportedJob({ ...job, stage: WISHLIST, contacts });
 
     // Assert
     expect(exported).not.toHaveProperty("id");
@@ -44,41 +101,38 @@ describe("jobToExportedJob", () => {
     expect(exported.company).toBe("Test Company");
     expect(exported.title).toBe("Software Engineer");
     expect(exported.location).toBe("Stockholm");
-    expect(exported.status).toBe("WISHLIST");
+    expect(exported.stage).toBe("Wishlist");
     expect(exported.order).toBe("a0");
     expect(exported.dateApplied).toBe("2024-01-15");
+    expect(exported.deadline).toBe("2024-02-01");
     expect(exported.jobPostingUrl).toBe("https://example.com/job");
     expect(exported.jobPostingText).toBe("Job description here");
     expect(exported.notes).toBe("Some notes");
     expect(exported.resumeUrl).toBe("https://example.com/resume.pdf");
     expect(exported.coverLetterUrl).toBe("https://example.com/cover.pdf");
-    expect(exported.contactPerson).toBe("John Doe");
+    expect(exported.contacts).toEqual([
+      { name: "John Doe", email: "john@example.com", role: "Recruiter" },
+    ]);
+    expect(exported.salaryMin).toBe(45000);
+    expect(exported.salaryMax).toBe(55000);
+    expect(exported.salaryCurrency).toBe("SEK");
+    expect(exported.salaryPeriod).toBe("MONTH");
+    expect(exported.employmentType).toBe("FULL_TIME");
+    expect(exported.remotePolicy).toBe("HYBRID");
+    expect(exported.skills).toEqual(["TypeScript", "React"]);
   });
 
   it("converts dateApplied Date to YYYY-MM-DD string", () => {
     // Arrange
-    const job: Job = {
-      id: 1,
-      userId: "user_123",
+    const job = makeJob({
       company: "Test Co",
       title: null,
-      location: null,
-      status: "APPLIED",
-      order: "0",
+      stageId: APPLIED.id,
       dateApplied: new Date("2024-01-15"),
-      jobPostingUrl: null,
-      jobPostingText: null,
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      contactPerson: null,
-      deletedAt: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    });
 
     // Act
-    const exported = jobToExportedJob(job);
+    const exported = jobToExportedJob({ ...job, stage: APPLIED });
 
     // Assert
     expect(typeof exported.dateApplied).toBe("string");
@@ -87,28 +141,14 @@ describe("jobToExportedJob", () => {
 
   it("preserves null values in exported job for schema documentation", () => {
     // Arrange
-    const job: Job = {
-      id: 1,
-      userId: "user_123",
+    const job = makeJob({
       company: "Test Co",
       title: null,
-      location: null,
-      status: "WISHLIST",
-      order: "0",
-      dateApplied: null,
-      jobPostingUrl: null,
-      jobPostingText: null,
-      notes: null,
-      resumeUrl: null,
-      coverLetterUrl: null,
-      contactPerson: null,
-      deletedAt: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+      stageId: WISHLIST.id,
+    });
 
     // Act
-    const exported = jobToExportedJob(job);
+    const exported = jobToExportedJob({ ...job, stage: WISHLIST });
 
     // Assert - empty fields should be explicitly null (not undefined/omitted)
     expect(exported.title).toBeNull();
@@ -119,7 +159,7 @@ describe("jobToExportedJob", () => {
     expect(exported.notes).toBeNull();
     expect(exported.resumeUrl).toBeNull();
     expect(exported.coverLetterUrl).toBeNull();
-    expect(exported.contactPerson).toBeNull();
+    expect(exported.contacts).toEqual([]);
   });
 });
 
@@ -134,6 +174,99 @@ describe("generateExportFilename", () => {
     // Assert
     expect(filename).toBe(`${EXPORT_FILENAME_PREFIX}-${today}.json`);
   });
+
+  it("uses the extension of the requested format", () => {
+    // Act
+    const filename = generateExportFilename("csv");
+
+    // Assert
+    expect(filename).toMatch(/\.csv$/);
+    expect(filename).toMatch(EXPORT_FILENAME_PATTERN);
+  });
+});
+
+describe("jobsToCSV", () => {
+  const exportedJob: ExportedJob = {
+    company: "Acme, Inc",
+    title: "Developer",
+    location: null,
+    stage: "Phone screen",
+    order: "i",
+    dateApplied: "2024-01-15",
+    jobPostingUrl: null,
+    jobPostingText: 'Line one\nLine "two"',
+    notes: null,
+    resumeUrl: null,
+    coverLetterUrl: null,
+    contacts: [
+      { name: "Jane Doe", email: "jane@example.com" },
+      { name: "Doe, John" },
+    ],
+    deadline: "2024-02-01",
+    followUpAt: null,
+    salaryMin: 40000,
+    salaryMax: null,
+    salaryCurrency: "SEK",
+    salaryPeriod: "MONTH",
+    employmentType: "FULL_TIME",
+    remotePolicy: null,
+    skills: ["TypeScript", "SQL"],
+  };
+
+  it("starts with a header row of all exported fields", () => {
+    // Act
+    const csv = jobsToCSV([]);
+
+    // Assert
+    expect(csv).toBe(EXPORT_FIELDS.join(","));
+  });
+
+  it("writes null values as empty cells and quotes special characters", () => {
+    // Act
+    const [, row] = jobsToCSV([exportedJob]).split("\r\n");
+
+    // Assert
+    expect(row).toBe(
+      '"Acme, Inc",Developer,,Phone screen,i,2024-01-15,2024-02-01,,,"Line one\nLine ""two""",,,,"Jane Doe; Doe, John",40000,,SEK,MONTH,FULL_TIME,,TypeScript; SQL'
+    );
+  });
+
+  it("guards cells that spreadsheet apps would run as formulas", () => {
+    // Act
+    const [, row] = jobsToCSV([
+      { ...exportedJob, company: "=cmd|' /C calc'!A0", notes: "- Call Jane" },
+    ]).split("\r\n");
+
+    // Assert
+    expect(row).toMatch(/^'=cmd\|' \/C calc'!A0,/);
+    expect(row).toContain(",'- Call Jane,");
+  });
+
+  it("round-trips through CSV import into valid import data", async () => {
+    // Arrange
+    const file = new File([jobsToCSV([exportedJob])], "export.csv");
+
+    // Act
+    const { headers, rows } = await parseCSVFile(file);
+    const jobs = csvRowsToJobs(rows, guessColumnMapping(headers));
+    const result = importRequestSchema.parse({ jobs });
+
+    // Assert
+    expect(result.jobs[0]).toMatchObject({
+      company: "Acme, Inc",
+      stage: "Phone screen",
+      order: "i",
+      dateApplied: "2024-01-15",
+      jobPostingText: 'Line one\nLine "two"',
+      deadline: "2024-02-01",
+      contacts: [{ name: "Jane Doe" }, { name: "Doe, John" }],
+      salaryMin: 40000,
+      salaryCurrency: "SEK",
+      salaryPeriod: "MONTH",
+      employmentType: "FULL_TIME",
+      skills: ["TypeScript", "SQL"],
+    });
+  });
 });
 
 describe("downloadJSON", () => {
@@ -314,3 +447,409 @@ describe("parseJSONFile", () => {
     expect(result.settings.theme).toBe("dark");
   });
 });
+
+describe("parseCSVFile", () => {
+  it("splits the header row from the data rows", async () => {
+    // Arrange
+    const file = new File(["Company,Role\nAcme,Dev\nGlobex,QA"], "jobs.csv");
+
+    // Act
+    const result = await parseCSVFile(file);
+
+    // Assert
+    expect(result).toEqual({
+      headers: ["Company", "Role"],
+      rows: [
+        ["Acme", "Dev"],
+        ["Globex", "QA"],
+      ],
+    });
+  });
+
+  it("rejects an empty file", async () => {
+    // Arrange
+    const file = new File([""], "empty.csv");
+
+    // Act & Assert
+    await expect(parseCSVFile(file)).rejects.toThrow("CSV file is empty");
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("recognises export headers and common spreadsheet names", () => {
+    // Act
+    const mapping = guessColumnMapping([
+      "Company Name",
+      "Position",
+      "Stage",
+      "Date Applied",
+      "Job Link",
+      "Salary",
+    ]);
+
+    // Assert
+    expect(mapping).toEqual([
+      "company",
+      "title",
+      "stage",
+      "dateApplied",
+      "jobPostingUrl",
+      null,
+    ]);
+  });
+
+  it("maps each field at most once", () => {
+    // Act
+    const mapping = guessColumnMapping(["Company", "Employer"]);
+
+    // Assert
+    expect(mapping).toEqual(["company", null]);
+  });
+});
+
+describe("csvRowsToJobs", () => {
+  it("builds jobs from mapped columns and skips empty cells", () => {
+    // Act
+    const jobs = csvRowsToJobs(
+      [
+        ["Acme", "", "ignored"],
+        [" Globex ", "Stockholm", "x"],
+      ],
+      ["company", "location", null]
+    );
+
+    // Assert
+    expect(jobs).toEqual([
+      { company: "Acme" },
+      { company: "Globex", location: "Stockholm" },
+    ]);
+  });
+
+  it("translates common status names to default stages", () => {
+    // Act
+    const jobs = csvRowsToJobs(
+      [["Interviewing"], ["saved"], ["Phone screen"]],
+      ["stage"]
+    );
+
+    // Assert
+    expect(jobs.map((job) => job.stage)).toEqual([
+      "Interview",
+      "Wishlist",
+      "Phone screen",
+    ]);
+  });
+
+  it("converts amounts, enum labels and skill lists", () => {
+    // Act
+    const [job] = csvRowsToJobs(
+      [["45 000", "Part-time", "remote", "React, Node.js; SQL", "lots"]],
+      ["salaryMin", "employmentType", "remotePolicy", "skills", "salaryMax"]
+    );
+
+    // Assert
+    expect(job).toEqual({
+      salaryMin: 45000,
+      employmentType: "PART_TIME",
+      remotePolicy: "REMOTE",
+      skills: ["React", "Node.js", "SQL"],
+      salaryMax: "lots",
+    });
+  });
+});
+
+describe("createExportEnvelope", () => {
+  const job: ExportedJob = {
+    company: "Acme",
+    stage: "Applied",
+    order: "i",
+    history: [
+      {
+        fieldChanged: "created",
+        oldValue: null,
+        newValue: "Wishlist",
+        changedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ],
+  };
+
+  it("wraps jobs with version, metadata, counts and stages", () => {
+    // Act
+    const envelope = createExportEnvelope([job], {
+      stages: [APPLIED, WISHLIST],
+      appVersion: "1.2.3",
+      exportedAt: new Date("2024-05-01T12:00:00Z"),
+    });
+
+    // Assert
+    expect(envelope).toEqual({
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: "2024-05-01T12:00:00.000Z",
+      appVersion: "1.2.3",
+      counts: { jobs: 1, deletedJobs: 0, history: 1 },
+      stages: [
+        { name: "Wishlist", color: "gray", category: "WISHLIST" },
+        { name: "Applied", color: "blue", category: "APPLIED" },
+      ],
+      jobs: [job],
+    });
+  });
+
+  it("includes deleted jobs and counts their history", () => {
+    // Act
+    const envelope = createExportEnvelope([], {
+      stages: [],
+      appVersion: "1.2.3",
+      deletedJobs: [{ ...job, deletedAt: "2024-04-01T00:00:00.000Z" }],
+    });
+
+    // Assert
+    expect(envelope.counts).toEqual({ jobs: 0, deletedJobs: 1, history: 1 });
+    expect(envelope.deletedJobs).toHaveLength(1);
+  });
+});
+
+describe("stageToExportedStage", () => {
+  it("keeps the definition and flags archived stages", () => {
+    expect(
+      stageToExportedStage({ ...APPLIED, archivedAt: new Date("2024-01-05") })
+    ).toEqual({
+      name: "Applied",
+      color: "blue",
+      category: "APPLIED",
+      archived: true,
+    });
+  });
+});
+
+describe("historyToExportedHistory", () => {
+  it("keeps only the change and its time, with stages by name", () => {
+    // Arrange
+    const history: JobHistory[] = [
+      {
+        id: 8,
+        jobId: 3,
+        userId: "user_123",
+        fieldChanged: "created",
+        oldValue: null,
+        newValue: "1",
+        changedAt: new Date("2024-02-01T08:00:00Z"),
+      },
+      {
+        id: 9,
+        jobId: 3,
+        userId: "user_123",
+        fieldChanged: "stageId",
+        oldValue: "1",
+        newValue: "2",
+        changedAt: new Date("2024-02-02T08:00:00Z"),
+      },
+    ];
+
+    // Act & Assert
+    expect(historyToExportedHistory(history, [WISHLIST, APPLIED])).toEqual([
+      {
+        fieldChanged: "created",
+        oldValue: null,
+        newValue: "Wishlist",
+        changedAt: "2024-02-01T08:00:00.000Z",
+      },
+      {
+        fieldChanged: "stage",
+        oldValue: "Wishlist",
+        newValue: "Applied",
+        changedAt: "2024-02-02T08:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("exportedHistoryToStageIds", () => {
+  it("turns stage names back into the IDs of the importing user", () => {
+    // Arrange
+    const ids: Record<string, number> = { Wishlist: 11, "Phone screen": 12 };
+
+    // Act
+    const history = exportedHistoryToStageIds(
+      [
+        {
+          fieldChanged: "stage",
+          oldValue: "Wishlist",
+          newValue: "Phone screen",
+          changedAt: "2024-02-02T08:00:00.000Z",
+        },
+        {
+          fieldChanged: "notes",
+          oldValue: null,
+          newValue: "Wishlist",
+          changedAt: "2024-02-03T08:00:00.000Z",
+        },
+      ],
+      (name) => ids[name]
+    );
+
+    // Assert
+    expect(history.map((entry) => entry.fieldChanged)).toEqual([
+      "stageId",
+      "notes",
+    ]);
+    expect(history[0]).toMatchObject({ oldValue: "11", newValue: "12" });
+    expect(history[1].newValue).toBe("Wishlist");
+  });
+});
+
+describe("upgradeExport", () => {
+  it("upgrades a version 1 bare array to the current envelope", () => {
+    // Arrange
+    const legacy = [{ company: "Acme", status: "WISHLIST", order: "a0" }];
+
+    // Act
+    const envelope = upgradeExport(legacy);
+
+    // Assert
+    expect(envelope).toEqual({
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: null,
+      appVersion: null,
+      counts: { jobs: 1, deletedJobs: 0, history: 0 },
+      stages: DEFAULT_STAGES,
+      jobs: [{ company: "Acme", stage: "Wishlist", order: "a0", contacts: [] }],
+    });
+  });
+
+  it("turns a version 2 contact person into a linked contact", () => {
+    // Arrange
+    const v2 = {
+      formatVersion: 2,
+      exportedAt: null,
+      appVersion: null,
+      counts: { jobs: 1, deletedJobs: 1, history: 0 },
+      jobs: [
+        {
+          company: "Acme",
+          status: "APPLIED",
+          order: "i",
+          contactPerson: "Jane Doe",
+        },
+      ],
+      deletedJobs: [
+        { company: "Globex", status: "APPLIED", order: "r", contactPerson: "" },
+      ],
+    };
+
+    // Act
+    const envelope = upgradeExport(v2);
+
+    // Assert
+    expect(envelope.jobs[0]).toEqual({
+      company: "Acme",
+      stage: "Applied",
+      order: "i",
+      contacts: [{ name: "Jane Doe" }],
+    });
+    expect(envelope.deletedJobs?.[0]).toEqual({
+      company: "Globex",
+      stage: "Applied",
+      order: "r",
+      contacts: [],
+    });
+  });
+
+  it("turns version 3 statuses into default stage names", () => {
+    // Arrange
+    const v3 = {
+      formatVersion: 3,
+      exportedAt: null,
+      appVersion: null,
+      counts: { jobs: 1, deletedJobs: 0, history: 2 },
+      jobs: [
+        {
+          company: "Acme",
+          status: "INTERVIEW",
+          order: "i",
+          history: [
+            {
+              fieldChanged: "created",
+              oldValue: null,
+              newValue: "WISHLIST",
+              changedAt: "2024-01-01T00:00:00.000Z",
+            },
+            {
+              fieldChanged: "status",
+              oldValue: "WISHLIST",
+              newValue: "INTERVIEW",
+              changedAt: "2024-01-05T00:00:00.000Z",
+            },
+          ],
+        },
+      ],
+    };
+
+    // Act
+    const envelope = upgradeExport(v3);
+
+    // Assert
+    expect(envelope.formatVersion).toBe(4);
+    expect(envelope.stages).toEqual(DEFAULT_STAGES);
+    expect(envelope.jobs[0]).toMatchObject({
+      stage: "Interview",
+      history: [
+        { fieldChanged: "created", newValue: "Wishlist" },
+        { fieldChanged: "stage", oldValue: "Wishlist", newValue: "Interview" },
+      ],
+    });
+  });
+
+  it("passes a current envelope through unchanged", () => {
+    // Arrange
+    const envelope = createExportEnvelope([], {
+      stages: [WISHLIST],
+      appVersion: "1.0.0",
+    });
+
+    // Act & Assert
+    expect(upgradeExport(JSON.parse(JSON.stringify(envelope)))).toEqual(
+      envelope
+    );
+  });
+
+  it("rejects files from a newer format version", () => {
+    expect(() => upgradeExport({ formatVersion: 99, jobs: [] })).toThrow(
+      "export format version 99"
+    );
+  });
+
+  it("rejects data that isn't an export file", () => {
+    expect(() => upgradeExport({ jobs: [] })).toThrow(
+      "Unrecognized export file format"
+    );
+    expect(() => upgradeExport({ formatVersion: 2, jobs: "nope" })).toThrow(
+      "malformed envelope"
+    );
+  });
+});
+
+describe("envelopeToImportJobs", () => {
+  it("returns active jobs followed by deleted jobs", () => {
+    // Arrange
+    const envelope = upgradeExport({
+      ...createExportEnvelope(
+        [{ company: "A", stage: "Applied", order: "i" }],
+        {
+          stages: [APPLIED],
+          appVersion: "1.0.0",
+          deletedJobs: [{ company: "B", stage: "Applied", order: "r" }],
+        }
+      ),
+    });
+
+    // Act
+    const jobs = envelopeToImportJobs(envelope);
+
+    // Assert
+    expect(jobs).toEqual([
+      expect.objectContaining({ company: "A" }),
+      expect.objectContaining({ company: "B" }),
+    ]);
+  });
+});
@@ -1,64 +1,511 @@
-import { Job } from "@prisma/client";
-import { ExportedJob } from "./schemas";
+import { Contact, Job, JobHistory, Stage } from "@prisma/client";
+import {
+  ExportEnvelope,
+  ExportedContact,
+  ExportedHistoryEntry,
+  ExportedJob,
+  ExportedStage,
+  exportEnvelopeSchema,
+} from "./schemas";
+import { parseCSV, toCSV } from "./csv";
+import { HISTORY_EVENTS } from "./job-history";
+import { DEFAULT_STAGES, sortStages } from "./stages";
 
 /** Application name prefix for export files */
 export const EXPORT_FILENAME_PREFIX = "get-a-job-export";
 
 /** Regex pattern for validating export filenames */
 export const EXPORT_FILENAME_PATTERN =
-  /^get-a-job-export-\d{4}-\d{2}-\d{2}\.json$/;
+  /^get-a-job-export-\d{4}-\d{2}-\d{2}\.(json|csv)$/;
+
+export type ExportFormat = "json" | "csv";
+
+/**
+ * Current JSON export format version. Bump it when the export shape
+ * changes, and add an upgrade from the previous version to EXPORT_UPGRADES.
+ *
+ * - 1: bare array of ExportedJob
+ * - 2: envelope with metadata, counts and optional deleted jobs and history
+ * - 3: contactPerson replaced by a list of linked contacts
+ * - 4: status replaced by a stage name, with the user's stages in the envelope
+ */
+export const EXPORT_FORMAT_VERSION = 4;
+
+/**
+ * Exported job fields in CSV column order. The CSV header row is exactly
+ * this list, so it stays stable between exports.
+ */
+export const EXPORT_FIELDS = [
+  "company",
+  "title",
+  "location",
+  "stage",
+  "order",
+  "dateApplied",
+  "deadline",
+  "followUpAt",
+  "jobPostingUrl",
+  "jobPostingText",
+  "notes",
+  "resumeUrl",
+  "coverLetterUrl",
+  "contacts",
+  "salaryMin",
+  "salaryMax",
+  "salaryCurrency",
+  "salaryPeriod",
+  "employmentType",
+  "remotePolicy",
+  "skills",
+] as const satisfies readonly (keyof ExportedJob)[];
+
+export type ExportField = (typeof EXPORT_FIELDS)[number];
+
+/**
+ * Which job field each CSV column maps to, by column index.
+ * null means the column is ignored.
+ */
+export type ColumnMapping = (ExportField | null)[];
+
+// Dates can be Date objects or ISO strings depending on the data source
+function toISODate(date: Date | string): string {
+  return (typeof date === "string" ? date : date.toISOString()).split("T")[0];
+}
+
+/**
+ * Transform a linked contact to the format nested in exported jobs.
+ * Drops IDs and leaves out empty fields.
+ */
+export function contactToExportedContact(contact: Contact): ExportedContact {
+  return {
+    name: contact.name,
+    ...(contact.email && { email: contact.email }),
+    ...(contact.phone && { phone: contact.phone }),
+    ...(contact.linkedinUrl && { linkedinUrl: contact.linkedinUrl }),
+    ...(contact.role && { role: contact.role }),
+    ...(contact.company && { company: contact.company }),
+    ...(contact.notes && { notes: contact.notes }),
+  };
+}
+
+/**
+ * Transform a stage to the format listed in export envelopes
+ */
+export function stageToExportedStage(stage: Stage): ExportedStage {
+  return {
+    name: stage.name,
+    color: stage.color as ExportedStage["color"],
+    category: stage.category,
+    ...(stage.archivedAt && { archived: true }),
+  };
+}
 
 /**
  * Transform Job from database to exportable format.
- * Removes auto-generated fields (id, userId, timestamps, deletedAt).
- * Keeps null values
+ * Removes auto-generated fields (id, userId, timestamps, deletedAt) and
+ * refers to the stage by name. Keeps null values
  *
- * @param job - The job object from the database
+ * @param job - The job object from the database, with its stage and, if loaded, contacts
  * @returns Exportable job object with only user-editable fields
  */
-export function jobToExportedJob(job: Job): ExportedJob {
+export function jobToExportedJob(
+  job: Job & { stage: Stage; contacts?: Contact[] }
+): ExportedJob {
   return {
     company: job.company,
     title: job.title ?? null,
     location: job.location ?? null,
-    status: job.status,
+    stage: job.stage.name,
     order: job.order,
-    dateApplied: job.dateApplied
-      ? (typeof job.dateApplied === "string"
-          ? job.dateApplied
-          : job.dateApplied.toISOString()
-        ).split("T")[0]
-      : null,
+    dateApplied: job.dateApplied ? toISODate(job.dateApplied) : null,
+    deadline: job.deadline ? toISODate(job.deadline) : null,
+    followUpAt: job.followUpAt ? toISODate(job.followUpAt) : null,
     jobPostingUrl: job.jobPostingUrl ?? null,
     jobPostingText: job.jobPostingText ?? null,
     notes: job.notes ?? null,
     resumeUrl: job.resumeUrl ?? null,
     coverLetterUrl: job.coverLetterUrl ?? null,
-    contactPerson: job.contactPerson ?? null,
+    contacts: (job.contacts ?? []).map(contactToExportedContact),
+    salaryMin: job.salaryMin ?? null,
+    salaryMax: job.salaryMax ?? null,
+    salaryCurrency: job.salaryCurrency ?? null,
+    salaryPeriod: job.salaryPeriod ?? null,
+    employmentType: job.employmentType ?? null,
+    remotePolicy: job.remotePolicy ?? null,
+    skills: job.skills ?? [],
   };
 }
 
+// Lifecycle events whose newValue is the job's stage
+const STAGE_EVENTS: string[] = [
+  HISTORY_EVENTS.CREATED,
+  HISTORY_EVENTS.IMPORTED,
+];
+
+/**
+ * Replace the stage references in a history entry: stage changes and the
+ * initial stage of created and imported jobs. Other entries are returned
+ * as they are.
+ *
+ * @param entry - The history entry
+ * @param fieldChanged - Field name to use for stage changes
+ * @param convert - Converts one stage reference (ID or name)
+ */
+function convertStageValues<T extends ExportedHistoryEntry>(
+  entry: T,
+  fieldChanged: string,
+  convert: (value: string) => string | null
+): T {
+  const convertValue = (value: string | null) =>
+    value === null ? null : convert(value);
+
+  if (entry.fieldChanged === "stageId" || entry.fieldChanged === "stage") {
+    return {
+      ...entry,
+      fieldChanged,
+      oldValue: convertValue(entry.oldValue),
+      newValue: convertValue(entry.newValue),
+    };
+  }
+  if (STAGE_EVENTS.includes(entry.fieldChanged)) {
+    return { ...entry, newValue: convertValue(entry.newValue) };
+  }
+  return entry;
+}
+
+/**
+ * Transform JobHistory rows to the format nested in exported jobs.
+ * Drops IDs and the user - an import re-attaches them to the new job.
+ * Stage IDs become stage names, recorded as changes to "stage".
+ *
+ * @param history - History rows
+ * @param stages - The user's stages, to look up names
+ */
+export function historyToExportedHistory(
+  history: JobHistory[],
+  stages: Pick<Stage, "id" | "name">[]
+): ExportedHistoryEntry[] {
+  const names = new Map(stages.map((stage) => [String(stage.id), stage.name]));
+
+  return history.map((entry) =>
+    convertStageValues(
+      {
+        fieldChanged: entry.fieldChanged,
+        oldValue: entry.oldValue,
+        newValue: entry.newValue,
+        changedAt: new Date(entry.changedAt).toISOString(),
+      },
+      "stage",
+      (id) => names.get(id) ?? null
+    )
+  );
+}
+
+/**
+ * The stage names an exported history refers to, for resolving them to
+ * stages before the import
+ */
+export function getHistoryStageNames(
+  history: ExportedHistoryEntry[]
+): string[] {
+  const names: string[] = [];
+  for (const entry of history) {
+    convertStageValues(entry, "stage", (name) => {
+      names.push(name);
+      return name;
+    });
+  }
+  return names;
+}
+
+/**
+ * Transform exported history back to JobHistory values: stage names
+ * become the IDs of the stages they were resolved to
+ *
+ * @param history - History from an export file
+ * @param getStageId - Stage ID for a stage name, undefined if unknown
+ */
+export function exportedHistoryToStageIds(
+  history: ExportedHistoryEntry[],
+  getStageId: (name: string) => number | undefined
+): ExportedHistoryEntry[] {
+  return history.map((entry) =>
+    convertStageValues(entry, "stageId", (name) => {
+      const id = getStageId(name);
+      return id === undefined ? null : String(id);
+    })
+  );
+}
+
+/**
+ * Wrap exported jobs in the current export envelope.
+ *
+ * @param jobs - Active jobs in export format
+ * @param options.stages - The user's stages, archived ones too
+ * @param options.deletedJobs - Jobs from the trash, if included
+ * @param options.appVersion - Version of the app creating the export
+ * @param options.exportedAt - Export time (injectable for tests)
+ */
+export function createExportEnvelope(
+  jobs: ExportedJob[],
+  {
+    stages,
+    deletedJobs,
+    appVersion,
+    exportedAt = new Date(),
+  }: {
+    stages: Stage[];
+    deletedJobs?: ExportedJob[];
+    appVersion: string;
+    exportedAt?: Date;
+  }
+): ExportEnvelope {
+  const allJobs = [...jobs, ...(deletedJobs ?? [])];
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    appVersion,
+    counts: {
+      jobs: jobs.length,
+      deletedJobs: deletedJobs?.length ?? 0,
+      history: allJobs.reduce(
+        (sum, job) => sum + (job.history?.length ?? 0),
+        0
+      ),
+    },
+    stages: sortStages(stages).map(stageToExportedStage),
+    jobs,
+    ...(deletedJobs && { deletedJobs }),
+  };
+}
+
+/** Name of the default stage for a status of export format 3 and older */
+function statusToStageName(status: unknown): unknown {
+  return (
+    DEFAULT_STAGES.find((stage) => stage.category === status)?.name ?? status
+  );
+}
+
+/**
+ * Upgrades from each format version to the next. Each function receives
+ * a file of version N and returns the same data as version N + 1.
+ */
+const EXPORT_UPGRADES: Record<number, (data: unknown) => unknown> = {
+  // 1 -> 2: wrap the bare job array in an envelope
+  1: (data) => {
+    const jobs = data as unknown[];
+    return {
+      formatVersion: 2,
+      exportedAt: null,
+      appVersion: null,
+      counts: { jobs: jobs.length, deletedJobs: 0, history: 0 },
+      jobs,
+    };
+  },
+  // 2 -> 3: the contactPerson string becomes a contact with that name.
+  // Anything malformed is passed on for the envelope validation to reject.
+  2: (data) => {
+    const envelope = data as { jobs?: unknown; deletedJobs?: unknown };
+    const upgradeJob = (job: unknown) => {
+      if (typeof job !== "object" || job === null) return job;
+      const { contactPerson, ...rest } = job as Record<string, unknown>;
+      return {
+        ...rest,
+        contacts:
+          typeof contactPerson === "string" && contactPerson.trim()
+            ? [{ name: contactPerson }]
+            : [],
+      };
+    };
+    const upgradeJobs = (jobs: unknown) =>
+      Array.isArray(jobs) ? jobs.map(upgradeJob) : jobs;
+
+    return {
+      ...envelope,
+      formatVersion: 3,
+      jobs: upgradeJobs(envelope.jobs),
+      ...(envelope.deletedJobs !== undefined && {
+        deletedJobs: upgradeJobs(envelope.deletedJobs),
+      }),
+    };
+  },
+  // 3 -> 4: statuses become the matching default stages, in the jobs and
+  // in their history
+  3: (data) => {
+    const envelope = data as { jobs?: unknown; deletedJobs?: unknown };
+    const upgradeEntry = (entry: unknown) => {
+      if (typeof entry !== "object" || entry === null) return entry;
+      const { fieldChanged, oldValue, newValue } = entry as Record<
+        string,
+        unknown
+      >;
+      if (fieldChanged === "status") {
+        return {
+          ...entry,
+          fieldChanged: "stage",
+          oldValue: statusToStageName(oldValue),
+          newValue: statusToStageName(newValue),
+        };
+      }
+      return STAGE_EVENTS.includes(fieldChanged as string)
+        ? { ...entry, newValue: statusToStageName(newValue) }
+        : entry;
+    };
+    const upgradeJob = (job: unknown) => {
+      if (typeof job !== "object" || job === null) return job;
+      const { status, history, ...rest } = job as Record<string, unknown>;
+      return {
+        ...rest,
+        ...(status !== undefined && { stage: statusToStageName(status) }),
+        ...(history !== undefined && {
+          history: Array.isArray(history) ? history.map(upgradeEntry) : history,
+        }),
+      };
+    };
+    const upgradeJobs = (jobs: unknown) =>
+      Array.isArray(jobs) ? jobs.map(upgradeJob) : jobs;
+
+    return {
+      ...envelope,
+      formatVersion: 4,
+      stages: DEFAULT_STAGES,
+      jobs: upgradeJobs(envelope.jobs),
+      ...(envelope.deletedJobs !== undefined && {
+        deletedJobs: upgradeJobs(envelope.deletedJobs),
+      }),
+    };
+  },
+};
+
+/**
+ * Detect the format version of a parsed export file
+ *
+ * @throws Error if the data doesn't look like an export file
+ */
+function getExportFormatVersion(data: unknown): number {
+  if (Array.isArray(data)) return 1;
+
+  if (
+    typeof data === "object" &&
+    data !== null &&
+    "formatVersion" in data &&
+    Number.isInteger(data.formatVersion)
+  ) {
+    return data.formatVersion as number;
+  }
+
+  throw new Error("Unrecognized export file format");
+}
+
+/**
+ * Bring a parsed export file of any known version up to the current
+ * envelope, running the upgrade chain one version at a time. Jobs are not
+ * validated here - use importRequestSchema on the result of
+ * envelopeToImportJobs for that.
+ *
+ * @param data - Parsed JSON from an export file
+ * @throws Error if the format is unknown, too new or malformed
+ */
+export function upgradeExport(data: unknown): ExportEnvelope {
+  let version = getExportFormatVersion(data);
+
+  if (version > EXPORT_FORMAT_VERSION) {
+    throw new Error(
+      `This file uses export format version ${version}, but only versions up to ${EXPORT_FORMAT_VERSION} are supported. Please update the app.`
+    );
+  }
+
+  let upgraded = data;
+  while (version < EXPORT_FORMAT_VERSION) {
+    const upgrade = EXPORT_UPGRADES[version];
+    if (!upgrade) {
+      throw new Error(`Unsupported export format version ${version}`);
+    }
+    upgraded = upgrade(upgraded);
+    version++;
+  }
+
+  const result = exportEnvelopeSchema.safeParse(upgraded);
+  if (!result.success) {
+    throw new Error("Invalid export file: malformed envelope");
+  }
+
+  return result.data;
+}
+
+/**
+ * All jobs in an envelope, active first, ready for import validation
+ */
+export function envelopeToImportJobs(envelope: ExportEnvelope): unknown[] {
+  return [...envelope.jobs, ...(envelope.deletedJobs ?? [])];
+}
+
+/** Separator for list values (skills, contacts) within a single CSV cell */
+const CSV_LIST_SEPARATOR = "; ";
+
+function toCSVCell(value: ExportedJob[ExportField]): string {
+  if (Array.isArray(value)) {
+    // Contacts are written by name only
+    return value
+      .map((item) => (typeof item === "string" ? item : item.name))
+      .join(CSV_LIST_SEPARATOR);
+  }
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Serialize exported jobs to CSV with a header row of EXPORT_FIELDS.
+ * Null values become empty cells, and skills and contact names are joined
+ * with "; ".
+ *
+ * @param jobs - Jobs in export format
+ * @returns CSV text
+ */
+export function jobsToCSV(jobs: ExportedJob[]): string {
+  return toCSV([
+    [...EXPORT_FIELDS],
+    ...jobs.map((job) => EXPORT_FIELDS.map((field) => toCSVCell(job[field]))),
+  ]);
+}
+
 /**
  * Generate export filename with current date.
- * Format: get-a-job-export-YYYY-MM-DD.json
+ * Format: get-a-job-export-YYYY-MM-DD.json (or .csv)
  *
+ * @param format - File format, decides the extension
  * @returns Filename string with current date
  */
-export function generateExportFilename(): string {
+export function generateExportFilename(format: ExportFormat = "json"): string {
   const date = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-  return `${EXPORT_FILENAME_PREFIX}-${date}.json`;
+  return `${EXPORT_FILENAME_PREFIX}-${date}.${format}`;
 }
 
 /**
  * Trigger browser download of JSON data.
- * Creates a Blob and uses a temporary anchor element to trigger download.
  *
  * @param data - The data to download as JSON
  * @param filename - The filename for the download
  */
 export function downloadJSON(data: unknown, filename: string): void {
-  const json = JSON.stringify(data, null, 2);
-  const blob = new Blob([json], { type: "application/json" });
+  downloadFile(JSON.stringify(data, null, 2), filename, "application/json");
+}
+
+/**
+ * Trigger browser download of CSV text.
+ *
+ * @param csv - The CSV content
+ * @param filename - The filename for the download
+ */
+export function downloadCSV(csv: string, filename: string): void {
+  downloadFile(csv, filename, "text/csv;charset=utf-8");
+}
+
+/**
+ * Creates a Blob and uses a temporary anchor element to trigger download.
+ */
+function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement("a");
@@ -72,6 +519,21 @@ export function downloadJSON(data: unknown, filename: string): void {
   setTimeout(() => URL.revokeObjectURL(url), 100);
 }
 
+/**
+ * Read a File object as text.
+ *
+ * @param file - The File object to read
+ * @returns Promise that resolves with the file contents
+ */
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsText(file);
+  });
+}
+
 /**
  * Read and parse JSON file from File object.
  * Returns a promise that resolves with the parsed data or rejects with an error.
@@ -80,20 +542,156 @@ export function downloadJSON(data: unknown, filename: string): void {
  * @returns Promise that resolves with parsed JSON data
  */
 export async function parseJSONFile<T>(file: File): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+  const text = await readFileAsText(file);
 
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const data = JSON.parse(text) as T;
-        resolve(data);
-      } catch {
-        reject(new Error("Invalid JSON file"));
-      }
-    };
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error("Invalid JSON file");
+  }
+}
 
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsText(file);
+/**
+ * Read and parse CSV file from File object.
+ *
+ * @param file - The File object to read
+ * @returns Promise that resolves with the header row and the data rows
+ */
+export async function parseCSVFile(
+  file: File
+): Promise<{ headers: string[]; rows: string[][] }> {
+  const [headers, ...rows] = parseCSV(await readFileAsText(file));
+
+  if (!headers) {
+    throw new Error("CSV file is empty");
+  }
+
+  return { headers, rows };
+}
+
+// Header names used by other trackers and spreadsheets, compared after
+// lowercasing and dropping everything but letters and digits
+const COLUMN_ALIASES: Record<ExportField, string[]> = {
+  company: ["company", "companyname", "employer", "organization"],
+  title: ["title", "jobtitle", "position", "role"],
+  location: ["location", "city", "joblocation"],
+  stage: ["stage", "status", "applicationstatus", "column"],
+  order: ["order"],
+  dateApplied: ["dateapplied", "applied", "appliedon", "applicationdate"],
+  deadline: ["deadline", "applyby", "closingdate", "lastapplicationdate"],
+  followUpAt: ["followupat", "followup", "followupdate", "remindon"],
+  jobPostingUrl: ["jobpostingurl", "url", "link", "joburl", "joblink"],
+  jobPostingText: ["jobpostingtext", "description", "jobdescription"],
+  notes: ["notes", "note", "comments"],
+  resumeUrl: ["resumeurl", "resume", "cv"],
+  coverLetterUrl: ["coverletterurl", "coverletter"],
+  contacts: ["contacts", "contactperson", "contact", "recruiter"],
+  salaryMin: ["salarymin", "minsalary", "salaryfrom"],
+  salaryMax: ["salarymax", "maxsalary", "salaryto"],
+  salaryCurrency: ["salarycurrency", "currency"],
+  salaryPeriod: ["salaryperiod", "payperiod"],
+  employmentType: ["employmenttype", "jobtype", "type"],
+  remotePolicy: ["remotepolicy", "remote", "workplacetype", "worksite"],
+  skills: ["skills", "tags", "technologies"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Suggest a job field for each CSV column based on its header.
+ * Each field is used at most once (the first matching column wins);
+ * unrecognised columns are ignored.
+ *
+ * @param headers - The CSV header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ExportField>();
+
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const field = EXPORT_FIELDS.find(
+      (f) => !used.has(f) && COLUMN_ALIASES[f].includes(normalized)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+// Status names used by other trackers, keyed by lowercased value, with
+// the default stage they mean. Other values are taken as stage names.
+const STAGE_ALIASES: Record<string, string> = {
+  saved: "Wishlist",
+  bookmarked: "Wishlist",
+  interviewing: "Interview",
+  offered: "Offer",
+  hired: "Accepted",
+  declined: "Rejected",
+};
+
+/**
+ * Convert a CSV cell to the value type of its field. Enum values are
+ * upper-cased with dashes and spaces as underscores ("Full-time" ->
+ * "FULL_TIME"), amounts lose thousands separators, skills are split on
+ * ";" or "," and contact names on ";". Anything that can't be converted
+ * is passed through as-is and reported by validation.
+ */
+function csvValueToField(field: ExportField, value: string): unknown {
+  switch (field) {
+    case "stage":
+      return STAGE_ALIASES[value.toLowerCase()] ?? value;
+    case "salaryMin":
+    case "salaryMax": {
+      const amount = Number(value.replace(/[\s,]/g, ""));
+      return Number.isFinite(amount) ? amount : value;
+    }
+    case "salaryPeriod":
+    case "employmentType":
+    case "remotePolicy":
+      return value.toUpperCase().replace(/[\s-]+/g, "_");
+    case "skills":
+      return value
+        .split(/[;,]/)
+        .map((skill) => skill.trim())
+        .filter(Boolean);
+    // Names can contain commas ("Doe, Jane"), so only ";" separates them
+    case "contacts":
+      return value
+        .split(";")
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .map((name) => ({ name }));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Turn mapped CSV rows into job objects for import validation.
+ * Empty cells are left out so schema defaults apply, common status
+ * names ("Interviewing", "Saved") become stages and the other non-text
+ * fields are converted (see csvValueToField). Anything else is passed
+ * through as-is and reported by validation.
+ *
+ * @param rows - CSV data rows (without the header row)
+ * @param mapping - Field for each column
+ */
+export function csvRowsToJobs(
+  rows: string[][],
+  mapping: ColumnMapping
+): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const job: Record<string, unknown> = {};
+
+    mapping.forEach((field, column) => {
+      const value = row[column]?.trim();
+      if (!field || !value) return;
+
+      job[field] = csvValueToField(field, value);
+    });
+
+    return job;
   });
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { aiExtractor } from "./ai";
+
+vi.mock("@/lib/ai-extract", () => ({
+  extractJobData: vi.fn(),
+  isAIExtractionConfigured: vi.fn(() => true),
+}));
+
+import { extractJobData } from "@/lib/ai-extract";
+
+const JOB_URL = "https://careers.example.com/jobs/42";
+
+const DESCRIPTION =
+  "We are looking for an electrician to wire the new town centre in Kiruna.";
+
+const PAGE_WITH_TITLE = `<html><head><script type="application/ld+json">${JSON.stringify(
+  { "@type": "JobPosting", title: "Electrician" }
+)}</script></head><body><p>${DESCRIPTION}</p></body></html>`;
+
+describe("aiExtractor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("asks Claude only for the fields the structured data lacks", async () => {
+    // Arrange
+    vi.mocked(extractJobData).mockResolvedValue({
+      company: "Volt AB",
+      title: "Claude's title",
+      location: "Kiruna",
+      jobPostingUrl: JOB_URL,
+    });
+    const context = { fetchPage: vi.fn().mockResolvedValue(PAGE_WITH_TITLE) };
+
+    // Act
+    const data = await aiExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(extractJobData).toHaveBeenCalledWith(
+      JOB_URL,
+      expect.stringContaining(DESCRIPTION)
+    );
+    expect(data).toEqual({
+      company: "Volt AB",
+      title: "Electrician",
+      location: "Kiruna",
+      jobPostingUrl: JOB_URL,
+    });
+  });
+
+  it("returns the structured data when Claude fails", async () => {
+    vi.mocked(extractJobData).mockRejectedValue(
+      new Error("ANTHROPIC_API_KEY environment variable is not set")
+    );
+    const context = { fetchPage: vi.fn().mockResolvedValue(PAGE_WITH_TITLE) };
+
+    const data = await aiExtractor.extract(JOB_URL, context);
+
+    expect(data).toEqual({ title: "Electrician", jobPostingUrl: JOB_URL });
+  });
+
+  it("throws when there is neither structured data nor enough text", async () => {
+    const context = {
+      fetchPage: vi.fn().mockResolvedValue("<html><body>Hi</body></html>"),
+    };
+
+    await expect(aiExtractor.extract(JOB_URL, context)).rejects.toThrow(
+      "Insufficient text content"
+    );
+    expect(extractJobData).not.toHaveBeenCalled();
+  });
+});
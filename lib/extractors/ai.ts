@@ -0,0 +1,42 @@
+import { htmlToText } from "@/lib/html-to-text";
+import { extractJobData } from "@/lib/ai-extract";
+import type { JobExtractor } from "./types";
+import {
+  fillMissingFields,
+  hasJobIdentity,
+  parseStructuredData,
+} from "./structured-data";
+
+const MIN_TEXT_LENGTH = 50;
+
+/**
+ * Generic fallback: convert the page to text and let the configured LLM
+ * pick out the fields. Values from the page's structured data take
+ * precedence, so the LLM only fills the fields it lacks; if it fails,
+ * partial structured data is still returned. Matches every URL, so it must stay
+ * last in the registry.
+ */
+export const aiExtractor: JobExtractor = {
+  id: "ai",
+  name: "AI",
+  matches: () => true,
+  async extract(url, { fetchPage }) {
+    const html = await fetchPage();
+    const structured = { ...parseStructuredData(html), jobPostingUrl: url };
+    const text = htmlToText(html);
+
+    try {
+      if (!text || text.length < MIN_TEXT_LENGTH) {
+        throw new Error(
+          `Insufficient text content (${text.length} characters, minimum ${MIN_TEXT_LENGTH} required)`
+        );
+      }
+
+      return fillMissingFields(structured, await extractJobData(url, text));
+    } catch (error) {
+      if (hasJobIdentity(structured)) return structured;
+
+      throw error instanceof Error ? error : new Error("AI extraction failed");
+    }
+  },
+};
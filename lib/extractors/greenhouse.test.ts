@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { greenhouseExtractor } from "./greenhouse";
+import fixture from "./__fixtures__/greenhouse-job.json";
+
+const JOB_URL = "https://job-boards.greenhouse.io/acmerobotics/jobs/4012345";
+const context = { fetchPage: vi.fn() };
+
+describe("greenhouseExtractor", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => fixture,
+    });
+  });
+
+  it("matches hosted board URLs on both Greenhouse domains", () => {
+    expect(greenhouseExtractor.matches(JOB_URL)).toBe(true);
+    expect(
+      greenhouseExtractor.matches(
+        "https://boards.greenhouse.io/acmerobotics/jobs/4012345?gh_src=abc"
+      )
+    ).toBe(true);
+    expect(
+      greenhouseExtractor.matches("https://boards.greenhouse.io/acmerobotics")
+    ).toBe(false);
+  });
+
+  it("maps the Job Board API response and unescapes the content", async () => {
+    // Act
+    const data = await greenhouseExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://boards-api.greenhouse.io/v1/boards/acmerobotics/jobs/4012345",
+      expect.anything()
+    );
+    expect(data).toEqual({
+      company: "Acme Robotics",
+      title: "Senior Platform Engineer",
+      location: "Stockholm, Sweden",
+      jobPostingUrl: JOB_URL,
+      jobPostingText: expect.stringContaining(
+        "Join our platform team & build the robots of tomorrow."
+      ),
+      notes: "Engineering",
+    });
+    expect(data?.jobPostingText).toContain("What you'll do");
+    expect(data?.jobPostingText).not.toContain("<");
+  });
+
+  it("falls back to the board slug for the company name", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ ...fixture, company_name: undefined }),
+    });
+
+    const data = await greenhouseExtractor.extract(
+      "https://boards.greenhouse.io/acme-robotics/jobs/1",
+      context
+    );
+
+    expect(data?.company).toBe("Acme Robotics");
+  });
+});
@@ -0,0 +1,45 @@
+import { decodeHtmlEntities, htmlToText } from "@/lib/html-to-text";
+import type { JobExtractor } from "./types";
+import { fetchSourceResponse, humanizeSlug, joinNotes } from "./shared";
+
+const URL_PATTERN =
+  /(?:boards|job-boards)(?:\.eu)?\.greenhouse\.io\/([^/?#]+)\/jobs\/(\d+)/;
+
+type GreenhouseJob = {
+  title?: string;
+  company_name?: string;
+  location?: { name?: string };
+  /** Entity-escaped HTML */
+  content?: string;
+  departments?: { name: string }[];
+};
+
+/**
+ * Greenhouse hosted job boards, via the public Job Board API
+ */
+export const greenhouseExtractor: JobExtractor = {
+  id: "greenhouse",
+  name: "Greenhouse",
+  matches: (url) => URL_PATTERN.test(url),
+  async extract(url) {
+    const [, board, jobId] = url.match(URL_PATTERN)!;
+    const response = await fetchSourceResponse(
+      `https://boards-api.greenhouse.io/v1/boards/${board}/jobs/${jobId}`,
+      "Greenhouse API"
+    );
+    const job: GreenhouseJob = await response.json();
+
+    return {
+      company: job.company_name || humanizeSlug(board),
+      title: job.title,
+      location: job.location?.name || undefined,
+      jobPostingUrl: url,
+      jobPostingText: job.content
+        ? htmlToText(decodeHtmlEntities(job.content), { format: "markdown" })
+        : undefined,
+      notes: joinNotes(
+        (job.departments ?? []).map((department) => department.name)
+      ),
+    };
+  },
+};
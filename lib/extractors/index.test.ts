@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { extractJobFromUrl, JOB_EXTRACTORS, type JobExtractor } from "./index";
+
+const JOB_URL = "https://example.com/jobs/1";
+
+function createExtractor(overrides: Partial<JobExtractor>): JobExtractor {
+  return {
+    id: "test",
+    name: "Test",
+    matches: () => true,
+    extract: async () => null,
+    ...overrides,
+  };
+}
+
+describe("JOB_EXTRACTORS", () => {
+  it("picks the source-specific extractor for known job boards", () => {
+    const cases = {
+      "https://arbetsformedlingen.se/platsbanken/annonser/123": "platsbanken",
+      "https://www.linkedin.com/jobs/view/123": "linkedin",
+      "https://boards.greenhouse.io/acme/jobs/123": "greenhouse",
+      "https://jobs.lever.co/acme/5d3c1e2a-8f4b-4c6d-9e0f-1a2b3c4d5e6f":
+        "lever",
+      "https://acme.wd1.myworkdayjobs.com/Careers/job/Oslo/Dev_R-1": "workday",
+      "https://acme.teamtailor.com/jobs/123-dev": "teamtailor",
+      [JOB_URL]: "structured-data",
+    };
+
+    for (const [url, id] of Object.entries(cases)) {
+      expect(JOB_EXTRACTORS.find((e) => e.matches(url))?.id).toBe(id);
+    }
+  });
+
+  it("ends with the AI fallback", () => {
+    expect(JOB_EXTRACTORS.at(-1)?.id).toBe("ai");
+  });
+});
+
+describe("extractJobFromUrl", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers({ "content-type": "text/html" }),
+      text: async () => "<html>Job</html>",
+    });
+  });
+
+  it("skips non-matching extractors and reports the one that handled the JOB_URL", async () => {
+    // Arrange
+    const data = { company: "Acme", jobPostingUrl: JOB_URL };
+    const extractors = [
+      createExtractor({ id: "other", matches: () => false }),
+      createExtractor({ id: "first", extract: async () => data }),
+    ];
+
+    // Act
+    const result = await extractJobFromUrl(JOB_URL, extractors);
+
+    // Assert
+    expect(result).toEqual({ success: true, extractor: "first", data });
+  });
+
+  it("falls through to the next extractor when one returns null", async () => {
+    const result = await extractJobFromUrl(JOB_URL, [
+      createExtractor({ id: "empty" }),
+      createExtractor({
+        id: "next",
+        extract: async () => ({ jobPostingUrl: JOB_URL }),
+      }),
+    ]);
+
+    expect(result).toMatchObject({ success: true, extractor: "next" });
+  });
+
+  it("stops at an extractor that throws and reports its error", async () => {
+    const next = createExtractor({ id: "next" });
+    const extractNext = vi.spyOn(next, "extract");
+
+    const result = await extractJobFromUrl(JOB_URL, [
+      createExtractor({
+        id: "broken",
+        extract: async () => {
+          throw new Error("API down");
+        },
+      }),
+      next,
+    ]);
+
+    expect(result).toEqual({
+      success: false,
+      extractor: "broken",
+      error: "API down",
+    });
+    expect(extractNext).not.toHaveBeenCalled();
+  });
+
+  it("fetches the page once for all extractors that read it", async () => {
+    const readPage: JobExtractor["extract"] = async (_url, { fetchPage }) => {
+      await fetchPage();
+      return null;
+    };
+
+    await extractJobFromUrl(JOB_URL, [
+      createExtractor({ extract: readPage }),
+      createExtractor({ extract: readPage }),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Job extractor registry: turns a job posting URL into ExtractedJobData.
+ *
+ * Source-specific extractors (job board APIs) come first, then the page's
+ * structured data (JSON-LD/OpenGraph), then the AI fallback which accepts
+ * any page and fills whatever the structured data left out. To support a
+ * new source, add an extractor module and list it here.
+ */
+
+import type { ExtractedJobData } from "@/lib/schemas";
+import type { ExtractorContext, JobExtractor } from "./types";
+import { fetchJobPage } from "./shared";
+import { platsbankenExtractor } from "./platsbanken";
+import { linkedinExtractor } from "./linkedin";
+import { greenhouseExtractor } from "./greenhouse";
+import { leverExtractor } from "./lever";
+import { workdayExtractor } from "./workday";
+import { teamtailorExtractor } from "./teamtailor";
+import { structuredDataExtractor } from "./structured-data";
+import { aiExtractor } from "./ai";
+
+export type { JobExtractor, ExtractorContext };
+
+export const JOB_EXTRACTORS: JobExtractor[] = [
+  platsbankenExtractor,
+  linkedinExtractor,
+  greenhouseExtractor,
+  leverExtractor,
+  workdayExtractor,
+  teamtailorExtractor,
+  structuredDataExtractor,
+  aiExtractor,
+];
+
+export type ExtractionResult =
+  | { success: true; extractor: string; data: ExtractedJobData }
+  | { success: false; extractor: string; error: string };
+
+/**
+ * Run the registered extractors against a URL, in order, until one
+ * returns data. An extractor that throws ends the run with its error
+ * rather than falling through, so source failures are reported as such.
+ *
+ * Note: Caller must check the URL is safe to fetch (SSRF protection)
+ */
+export async function extractJobFromUrl(
+  url: string,
+  extractors: JobExtractor[] = JOB_EXTRACTORS
+): Promise<ExtractionResult> {
+  let page: Promise<string> | undefined;
+  const context: ExtractorContext = {
+    fetchPage: () => (page ??= fetchJobPage(url)),
+  };
+
+  for (const extractor of extractors) {
+    if (!extractor.matches(url)) continue;
+
+    try {
+      const data = await extractor.extract(url, context);
+      if (data) return { success: true, extractor: extractor.id, data };
+    } catch (error) {
+      return {
+        success: false,
+        extractor: extractor.id,
+        error:
+          error instanceof Error
+            ? error.message
+            : `Unknown error from ${extractor.name}`,
+      };
+    }
+  }
+
+  return {
+    success: false,
+    extractor: "none",
+    error: "No extractor could handle this URL",
+  };
+}
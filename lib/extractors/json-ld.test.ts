@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseJobPostingJsonLd } from "./json-ld";
+
+const fixture = readFileSync(
+  path.join(__dirname, "__fixtures__", "json-ld-job.html"),
+  "utf-8"
+);
+
+describe("parseJobPostingJsonLd", () => {
+  it("finds a JobPosting inside @graph, skipping malformed blocks", () => {
+    expect(parseJobPostingJsonLd(fixture)).toEqual({
+      company: "Initech",
+      title: "Site Reliability Engineer",
+      location: "Remote",
+      jobPostingText: "Keep our TPS report pipeline running.",
+      deadline: "2025-04-15",
+      employmentType: "FULL_TIME",
+      remotePolicy: "REMOTE",
+      skills: ["Kubernetes", "Terraform"],
+    });
+  });
+
+  it("reads city and country from the job location address", () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      "@type": ["JobPosting"],
+      title: "Chef",
+      hiringOrganization: "Café Blå",
+      jobLocation: [
+        {
+          address: {
+            addressLocality: "Lund",
+            addressCountry: { name: "Sweden" },
+          },
+        },
+      ],
+    })}</script>`;
+
+    expect(parseJobPostingJsonLd(html)).toMatchObject({
+      company: "Café Blå",
+      location: "Lund, Sweden",
+    });
+  });
+
+  it("reads the base salary range, currency and period", () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      "@type": "JobPosting",
+      title: "Nurse",
+      baseSalary: {
+        "@type": "MonetaryAmount",
+        currency: "SEK",
+        value: {
+          "@type": "QuantitativeValue",
+          minValue: 38000,
+          maxValue: "42000",
+          unitText: "MONTH",
+        },
+      },
+    })}</script>`;
+
+    expect(parseJobPostingJsonLd(html)).toMatchObject({
+      salaryMin: 38000,
+      salaryMax: 42000,
+      salaryCurrency: "SEK",
+      salaryPeriod: "MONTH",
+    });
+  });
+
+  it("stores a single salary value as the minimum", () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      "@type": "JobPosting",
+      title: "Barista",
+      skills: ["Latte art", "Customer service"],
+      baseSalary: { currency: "eur", value: 15.5 },
+    })}</script>`;
+
+    const posting = parseJobPostingJsonLd(html);
+
+    expect(posting).toMatchObject({
+      salaryMin: 16,
+      salaryCurrency: "EUR",
+      skills: ["Latte art", "Customer service"],
+    });
+    expect(posting?.salaryMax).toBeUndefined();
+    expect(posting?.salaryPeriod).toBeUndefined();
+  });
+
+  it("returns null when there is no JobPosting", () => {
+    expect(
+      parseJobPostingJsonLd(
+        '<script type="application/ld+json">{"@type":"Organization"}</script>'
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { decodeHtmlEntities, htmlToText } from "@/lib/html-to-text";
+import type { ExtractedJobData } from "@/lib/schemas";
+import {
+  parseDeadline,
+  parseEmploymentType,
+  parseSalaryPeriod,
+} from "./shared";
+
+const JSON_LD_PATTERN =
+  /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+type JsonLdNode = Record<string, unknown>;
+
+type StructuredFields = Omit<ExtractedJobData, "jobPostingUrl">;
+
+/**
+ * Collect every object in a JSON-LD document, including arrays of nodes
+ * and nodes nested in "@graph"
+ */
+function flattenJsonLd(value: unknown): JsonLdNode[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (!value || typeof value !== "object") return [];
+
+  const node = value as JsonLdNode;
+  return [node, ...flattenJsonLd(node["@graph"])];
+}
+
+function isJobPosting(node: JsonLdNode): boolean {
+  const type = node["@type"];
+  return Array.isArray(type)
+    ? type.includes("JobPosting")
+    : type === "JobPosting";
+}
+
+/** Read a schema.org value that may be a plain string or a { name } object */
+function nameOf(value: unknown): string | undefined {
+  if (typeof value === "string") return value || undefined;
+  if (value && typeof value === "object" && "name" in value) {
+    return nameOf((value as { name: unknown }).name);
+  }
+  return undefined;
+}
+
+function formatLocation(posting: JsonLdNode): string | undefined {
+  const places = [posting.jobLocation].flat().filter(Boolean) as JsonLdNode[];
+  const [address] = places.map((place) => place.address as JsonLdNode);
+
+  const location = address
+    ? [nameOf(address.addressLocality), nameOf(address.addressCountry)]
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+  if (location) return location;
+  return posting.jobLocationType === "TELECOMMUTE" ? "Remote" : undefined;
+}
+
+/** Read a schema.org number that may be serialized as a string */
+function numberOf(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+/**
+ * Read a baseSalary MonetaryAmount, e.g. 38000-42000 SEK per MONTH. A
+ * single value is stored as the minimum.
+ */
+function parseSalary(
+  salary: unknown
+): Pick<
+  StructuredFields,
+  "salaryMin" | "salaryMax" | "salaryCurrency" | "salaryPeriod"
+> {
+  if (!salary || typeof salary !== "object") return {};
+
+  const { currency, value } = salary as JsonLdNode;
+  const amount = (
+    value && typeof value === "object" ? value : { value }
+  ) as JsonLdNode;
+
+  const min = numberOf(amount.minValue) ?? numberOf(amount.value);
+  const max = numberOf(amount.maxValue);
+  if (min === undefined && max === undefined) return {};
+
+  return {
+    salaryMin: min !== undefined ? Math.round(min) : undefined,
+    salaryMax: max !== undefined && max !== min ? Math.round(max) : undefined,
+    salaryCurrency: nameOf(currency)?.toUpperCase(),
+    salaryPeriod: parseSalaryPeriod(nameOf(amount.unitText)),
+  };
+}
+
+/** schema.org skills may be a comma-separated string or a list */
+function parseSkills(skills: unknown): string[] | undefined {
+  const list = [skills]
+    .flat()
+    .flatMap((skill) => nameOf(skill)?.split(",") ?? [])
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Find a schema.org JobPosting in a page's JSON-LD script tags.
+ * Malformed JSON-LD blocks are ignored.
+ *
+ * @returns The posting's fields, or null if the page has no JobPosting
+ */
+export function parseJobPostingJsonLd(html: string): StructuredFields | null {
+  for (const [, json] of html.matchAll(JSON_LD_PATTERN)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      continue;
+    }
+
+    const posting = flattenJsonLd(parsed).find(isJobPosting);
+    if (!posting) continue;
+
+    const description = nameOf(posting.description);
+
+    return {
+      company: nameOf(posting.hiringOrganization),
+      title: nameOf(posting.title),
+      location: formatLocation(posting),
+      // Some sites entity-escape the description HTML
+      jobPostingText: description
+        ? htmlToText(decodeHtmlEntities(description), { format: "markdown" })
+        : undefined,
+      deadline: parseDeadline(nameOf(posting.validThrough)),
+      ...parseSalary(posting.baseSalary),
+      // The first listed type we recognize, e.g. FULL_TIME of [FULL_TIME, CONTRACTOR]
+      employmentType: [posting.employmentType]
+        .flat()
+        .map((type) => parseEmploymentType(nameOf(type)))
+        .find(Boolean),
+      remotePolicy:
+        posting.jobLocationType === "TELECOMMUTE" ? "REMOTE" : undefined,
+      skills: parseSkills(posting.skills),
+    };
+  }
+
+  return null;
+}
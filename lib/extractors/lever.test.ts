@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { leverExtractor } from "./lever";
+import fixture from "./__fixtures__/lever-posting.json";
+
+const JOB_URL =
+  "https://jobs.lever.co/north-star-labs/5d3c1e2a-8f4b-4c6d-9e0f-1a2b3c4d5e6f";
+const context = { fetchPage: vi.fn() };
+
+describe("leverExtractor", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => fixture,
+    });
+  });
+
+  it("matches posting URLs, including the apply page", () => {
+    expect(leverExtractor.matches(JOB_URL)).toBe(true);
+    expect(leverExtractor.matches(`${JOB_URL}/apply`)).toBe(true);
+    expect(
+      leverExtractor.matches("https://jobs.lever.co/north-star-labs")
+    ).toBe(false);
+  });
+
+  it("maps the Postings API response", async () => {
+    // Act
+    const data = await leverExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://api.lever.co/v0/postings/north-star-labs/5d3c1e2a-8f4b-4c6d-9e0f-1a2b3c4d5e6f",
+      expect.anything()
+    );
+    expect(data).toMatchObject({
+      company: "North Star Labs",
+      title: "Product Designer",
+      location: "Berlin",
+      jobPostingUrl: JOB_URL,
+      notes: "Design",
+      salaryMin: 65000,
+      salaryMax: 80000,
+      salaryCurrency: "EUR",
+      salaryPeriod: "YEAR",
+      employmentType: "FULL_TIME",
+      remotePolicy: "HYBRID",
+    });
+    expect(data?.jobPostingText).toContain("shape our mobile app");
+    expect(data?.jobPostingText).toContain("Requirements");
+    expect(data?.jobPostingText).toContain("4+ years of product design");
+    expect(data?.jobPostingText).toContain("30 days of vacation");
+  });
+
+  it("uses the EU API for EU postings", async () => {
+    await leverExtractor.extract(
+      JOB_URL.replace("jobs.lever.co", "jobs.eu.lever.co"),
+      context
+    );
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringMatching(/^https:\/\/api\.eu\.lever\.co\/v0\/postings\//),
+      expect.anything()
+    );
+  });
+
+  it("reports remote postings without a location as Remote", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        ...fixture,
+        workplaceType: "remote",
+        categories: { team: "Design" },
+      }),
+    });
+
+    const data = await leverExtractor.extract(JOB_URL, context);
+
+    expect(data?.location).toBe("Remote");
+    expect(data?.remotePolicy).toBe("REMOTE");
+  });
+});
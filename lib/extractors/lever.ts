@@ -0,0 +1,80 @@
+import { htmlToText } from "@/lib/html-to-text";
+import type { JobExtractor } from "./types";
+import {
+  fetchSourceResponse,
+  humanizeSlug,
+  parseEmploymentType,
+  parseRemotePolicy,
+  parseSalaryPeriod,
+} from "./shared";
+
+const URL_PATTERN = /jobs\.(eu\.)?lever\.co\/([^/?#]+)\/([0-9a-f-]{36})/i;
+
+type LeverPosting = {
+  text?: string;
+  categories?: { location?: string; team?: string; commitment?: string };
+  /** "on-site", "remote", "hybrid" or "unspecified" */
+  workplaceType?: string;
+  /** interval is e.g. "per-year-salary" or "per-hour-wage" */
+  salaryRange?: {
+    currency?: string;
+    interval?: string;
+    min?: number;
+    max?: number;
+  };
+  description?: string;
+  lists?: { text: string; content: string }[];
+  additional?: string;
+};
+
+/**
+ * Lever hosted job pages, via the public Postings API
+ */
+export const leverExtractor: JobExtractor = {
+  id: "lever",
+  name: "Lever",
+  matches: (url) => URL_PATTERN.test(url),
+  async extract(url) {
+    const [, eu, company, postingId] = url.match(URL_PATTERN)!;
+    const response = await fetchSourceResponse(
+      `https://api.${eu ?? ""}lever.co/v0/postings/${company}/${postingId}`,
+      "Lever API"
+    );
+    const posting: LeverPosting = await response.json();
+
+    // The description, each list ("Requirements", ...) and the closing
+    // section are separate HTML fragments
+    const html = [
+      posting.description,
+      ...(posting.lists ?? []).map(
+        (list) => `<h3>${list.text}</h3><ul>${list.content}</ul>`
+      ),
+      posting.additional,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const remotePolicy = parseRemotePolicy(posting.workplaceType);
+    const salary = posting.salaryRange;
+
+    return {
+      // Lever only identifies the company by its slug
+      company: humanizeSlug(company),
+      title: posting.text,
+      location:
+        posting.categories?.location ||
+        (remotePolicy === "REMOTE" ? "Remote" : undefined),
+      jobPostingUrl: url,
+      jobPostingText: html
+        ? htmlToText(html, { format: "markdown" })
+        : undefined,
+      notes: posting.categories?.team || undefined,
+      salaryMin: salary?.min,
+      salaryMax: salary?.max,
+      salaryCurrency: salary?.currency,
+      salaryPeriod: parseSalaryPeriod(salary?.interval),
+      employmentType: parseEmploymentType(posting.categories?.commitment),
+      remotePolicy,
+    };
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { linkedinExtractor } from "./linkedin";
+
+const fixture = readFileSync(
+  path.join(__dirname, "__fixtures__", "linkedin-job.html"),
+  "utf-8"
+);
+
+const JOB_URL =
+  "https://se.linkedin.com/jobs/view/frontend-developer-at-nordic-apps-3998877665";
+const context = { fetchPage: vi.fn() };
+
+describe("linkedinExtractor", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: async () => fixture,
+    });
+  });
+
+  it("matches job view URLs and search pages with a selected job", () => {
+    expect(linkedinExtractor.matches(JOB_URL)).toBe(true);
+    expect(
+      linkedinExtractor.matches(
+        "https://www.linkedin.com/jobs/view/3998877665/"
+      )
+    ).toBe(true);
+    expect(
+      linkedinExtractor.matches(
+        "https://www.linkedin.com/jobs/search/?currentJobId=3998877665&keywords=react"
+      )
+    ).toBe(true);
+    expect(
+      linkedinExtractor.matches("https://www.linkedin.com/company/nordic-apps")
+    ).toBe(false);
+  });
+
+  it("reads the guest job posting fragment", async () => {
+    // Act
+    const data = await linkedinExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://www.linkedin.com/jobs-guest/jobs/api/jobPosting/3998877665",
+      expect.anything()
+    );
+    expect(data).toEqual({
+      company: "Nordic Apps",
+      title: "Frontend Developer",
+      location: "Uppsala, Uppsala County, Sweden",
+      jobPostingUrl: JOB_URL,
+      jobPostingText: expect.stringContaining(
+        "Nordic Apps is hiring a frontend developer"
+      ),
+      notes: "Seniority level: Mid-Senior level",
+      employmentType: "FULL_TIME",
+    });
+    expect(data?.jobPostingText).toContain("3+ years with React");
+  });
+});
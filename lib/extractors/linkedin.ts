@@ -0,0 +1,81 @@
+import { htmlToText, type HtmlToTextOptions } from "@/lib/html-to-text";
+import type { JobExtractor } from "./types";
+import { fetchSourceResponse, joinNotes, parseEmploymentType } from "./shared";
+
+// /jobs/view/123, /jobs/view/some-title-at-acme-123, or any jobs page with
+// ?currentJobId=123 (search results, collections)
+const VIEW_PATTERN = /linkedin\.com\/jobs\/view\/(?:[^/?#]*-)?(\d+)/;
+const CURRENT_JOB_PATTERN = /linkedin\.com\/jobs\/.*[?&]currentJobId=(\d+)/;
+
+function matchJobId(url: string): string | undefined {
+  return (url.match(VIEW_PATTERN) ?? url.match(CURRENT_JOB_PATTERN))?.[1];
+}
+
+/**
+ * Text of the first element carrying the given class. Good enough for the
+ * guest job fragment, whose fields aren't nested in same-named tags.
+ */
+function textOfClass(
+  html: string,
+  className: string,
+  options?: HtmlToTextOptions
+): string | undefined {
+  const match = html.match(
+    new RegExp(
+      `<(\\w+)[^>]*class="[^"]*\\b${className}\\b[^"]*"[^>]*>([\\s\\S]*?)</\\1>`
+    )
+  );
+  return match ? htmlToText(match[2], options) || undefined : undefined;
+}
+
+/**
+ * Seniority level: Entry level, Employment type: Full-time, ...
+ */
+function jobCriteria(html: string): { label: string; value: string }[] {
+  const items = html.match(
+    /<li[^>]*class="[^"]*description__job-criteria-item[^"]*"[^>]*>[\s\S]*?<\/li>/g
+  );
+
+  return (items ?? []).flatMap((item) => {
+    const label = textOfClass(item, "description__job-criteria-subheader");
+    const value = textOfClass(item, "description__job-criteria-text");
+    return label && value ? [{ label, value }] : [];
+  });
+}
+
+/**
+ * LinkedIn job posts, via the guest endpoint that renders a posting for
+ * logged-out visitors (the regular page requires a login)
+ */
+export const linkedinExtractor: JobExtractor = {
+  id: "linkedin",
+  name: "LinkedIn",
+  matches: (url) => matchJobId(url) !== undefined,
+  async extract(url) {
+    const response = await fetchSourceResponse(
+      `https://www.linkedin.com/jobs-guest/jobs/api/jobPosting/${matchJobId(url)}`,
+      "LinkedIn"
+    );
+    const html = await response.text();
+    const criteria = jobCriteria(html);
+    const employmentType = criteria.find(
+      ({ label }) => label === "Employment type"
+    );
+
+    return {
+      company: textOfClass(html, "topcard__org-name-link"),
+      title: textOfClass(html, "top-card-layout__title"),
+      location: textOfClass(html, "topcard__flavor--bullet"),
+      jobPostingUrl: url,
+      jobPostingText: textOfClass(html, "show-more-less-html__markup", {
+        format: "markdown",
+      }),
+      notes: joinNotes(
+        criteria
+          .filter((criterion) => criterion !== employmentType)
+          .map(({ label, value }) => `${label}: ${value}`)
+      ),
+      employmentType: parseEmploymentType(employmentType?.value),
+    };
+  },
+};
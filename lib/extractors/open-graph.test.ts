@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { parseOpenGraph } from "./open-graph";
+
+describe("parseOpenGraph", () => {
+  it("reads the title and site name in any attribute order", () => {
+    const html = `
+      <meta property="og:title" content="Barista &amp; Shift Lead">
+      <meta content='Kaffebaren' property='og:site_name' />
+      <meta property="og:description" content="Join us!">`;
+
+    expect(parseOpenGraph(html)).toEqual({
+      company: "Kaffebaren",
+      title: "Barista & Shift Lead",
+    });
+  });
+
+  it("ignores empty and non-OpenGraph tags", () => {
+    const html = `
+      <meta name="title" content="Not OpenGraph">
+      <meta property="og:title" content="  ">`;
+
+    expect(parseOpenGraph(html)).toEqual({
+      company: undefined,
+      title: undefined,
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { decodeHtmlEntities } from "@/lib/html-to-text";
+import type { ExtractedJobData } from "@/lib/schemas";
+
+const META_TAG_PATTERN = /<meta\b[^>]*>/gi;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Read `<meta property="og:..." content="...">` tags into a map.
+ * Attribute order varies between sites, so each tag is parsed whole.
+ */
+function readOpenGraphTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(META_TAG_PATTERN)) {
+    const attributes = new Map<string, string>();
+    for (const [, name, doubleQuoted, singleQuoted] of tag.matchAll(
+      ATTRIBUTE_PATTERN
+    )) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted);
+    }
+
+    const property = attributes.get("property") ?? attributes.get("name");
+    const content = attributes.get("content")?.trim();
+    if (property?.startsWith("og:") && content && !tags.has(property)) {
+      tags.set(property, decodeHtmlEntities(content));
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Read the job title and company from a page's OpenGraph tags.
+ * og:description is deliberately ignored: it's a teaser, and using it as
+ * the posting text would hide the full description from the AI fallback.
+ */
+export function parseOpenGraph(
+  html: string
+): Pick<ExtractedJobData, "company" | "title"> {
+  const tags = readOpenGraphTags(html);
+
+  return {
+    company: tags.get("og:site_name"),
+    title: tags.get("og:title"),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { platsbankenExtractor } from "./platsbanken";
+import fixture from "./__fixtures__/platsbanken-job.json";
+
+const JOB_URL = "https://arbetsformedlingen.se/platsbanken/annonser/29481516";
+const context = { fetchPage: vi.fn() };
+
+describe("platsbankenExtractor", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => fixture,
+    });
+  });
+
+  it("matches Platsbanken ad URLs only", () => {
+    expect(platsbankenExtractor.matches(JOB_URL)).toBe(true);
+    expect(
+      platsbankenExtractor.matches("https://arbetsformedlingen.se/platsbanken")
+    ).toBe(false);
+  });
+
+  it("maps the Platsbanken API response", async () => {
+    // Act
+    const data = await platsbankenExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://platsbanken-api.arbetsformedlingen.se/jobs/v1/job/29481516",
+      expect.anything()
+    );
+    expect(data).toEqual({
+      company: "Betala Nu AB",
+      title: "Backendutvecklare till fintechbolag",
+      location: "Göteborg, Sverige",
+      jobPostingUrl: JOB_URL,
+      jobPostingText: expect.stringContaining(
+        "Vi söker en backendutvecklare med erfarenhet av Kotlin."
+      ),
+      notes: "Mjukvaru- och systemutvecklare m.fl. - 2 positions",
+      deadline: "2025-03-31",
+      employmentType: "FULL_TIME",
+    });
+    expect(context.fetchPage).not.toHaveBeenCalled();
+  });
+
+  it("prefers the kind of employment over the work time", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        ...fixture,
+        employmentType: "Sommarjobb / feriejobb",
+      }),
+    });
+
+    const data = await platsbankenExtractor.extract(JOB_URL, context);
+
+    expect(data?.employmentType).toBe("TEMPORARY");
+  });
+
+  it("throws when the job is not found", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+
+    await expect(
+      platsbankenExtractor.extract(JOB_URL, context)
+    ).rejects.toThrow("Arbetsförmedlingen API returned 404 (job not found)");
+  });
+});
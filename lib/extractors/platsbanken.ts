@@ -0,0 +1,69 @@
+import { htmlToText } from "@/lib/html-to-text";
+import type { JobExtractor } from "./types";
+import {
+  fetchSourceResponse,
+  joinNotes,
+  parseDeadline,
+  parseEmploymentType,
+} from "./shared";
+
+const URL_PATTERN = /arbetsformedlingen\.se\/platsbanken\/annonser\/(\d+)/;
+
+type PlatsbankenJob = {
+  title?: string;
+  company?: { name?: string };
+  workplace?: { city?: string; region?: string; country?: string };
+  description?: string;
+  occupation?: string;
+  positions?: number;
+  lastApplicationDate?: string;
+  /** e.g. "Vanlig anställning" or "Sommarjobb / feriejobb" */
+  employmentType?: string;
+  /** "Heltid" or "Deltid" */
+  workTimeExtent?: string;
+};
+
+/**
+ * Arbetsförmedlingen's Platsbanken.
+ * Uses their public API instead of scraping the (client-rendered) page.
+ */
+export const platsbankenExtractor: JobExtractor = {
+  id: "platsbanken",
+  name: "Arbetsförmedlingen",
+  matches: (url) => URL_PATTERN.test(url),
+  async extract(url) {
+    const [, jobId] = url.match(URL_PATTERN)!;
+    const response = await fetchSourceResponse(
+      `https://platsbanken-api.arbetsformedlingen.se/jobs/v1/job/${jobId}`,
+      "Arbetsförmedlingen API"
+    );
+    const job: PlatsbankenJob = await response.json();
+
+    const location =
+      job.workplace?.city && job.workplace?.country
+        ? `${job.workplace.city}, ${job.workplace.country}`
+        : job.workplace?.city || job.workplace?.region;
+
+    return {
+      company: job.company?.name,
+      title: job.title,
+      location,
+      jobPostingUrl: url,
+      jobPostingText: job.description
+        ? htmlToText(job.description, { format: "markdown" })
+        : undefined,
+      notes: joinNotes([
+        job.occupation,
+        job.positions && job.positions > 1
+          ? `${job.positions} positions`
+          : undefined,
+      ]),
+      deadline: parseDeadline(job.lastApplicationDate),
+      // The kind of employment wins over the work time, so a full-time
+      // summer job is TEMPORARY
+      employmentType: parseEmploymentType(
+        joinNotes([job.employmentType, job.workTimeExtent])
+      ),
+    };
+  },
+};
@@ -0,0 +1,161 @@
+/**
+ * Fetch and formatting helpers shared by the job extractors
+ */
+
+import type { EmploymentType, RemotePolicy, SalaryPeriod } from "@/lib/schemas";
+
+const FETCH_TIMEOUT_MS = 10000;
+
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; GetAJob/1.0; +https://getajob.app)";
+
+/**
+ * Fetch a job posting page as HTML
+ * @throws Error on HTTP errors, timeouts or non-HTML responses
+ */
+export async function fetchJobPage(url: string): Promise<string> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    headers: { "User-Agent": USER_AGENT },
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} when fetching URL`);
+  }
+
+  const contentType = response.headers.get("content-type");
+  if (contentType && !contentType.includes("text/html")) {
+    throw new Error(
+      `Invalid content type: ${contentType} (expected text/html)`
+    );
+  }
+
+  return await response.text();
+}
+
+/**
+ * Fetch a job from a job board's public API
+ * @param apiUrl - URL built by the extractor from the matched posting URL
+ * @param sourceName - Used in the error message, e.g. "Greenhouse API"
+ * @throws Error if the API responds with an error status
+ */
+export async function fetchSourceResponse(
+  apiUrl: string,
+  sourceName: string
+): Promise<Response> {
+  const response = await fetch(apiUrl, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    headers: { "User-Agent": USER_AGENT },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `${sourceName} returned ${response.status}${response.status === 404 ? " (job not found)" : ""}`
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Turn a URL slug into a display name, e.g. "acme-corp" -> "Acme Corp".
+ * Used when a source identifies the company only by its board slug.
+ */
+export function humanizeSlug(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Join the non-empty parts into a notes string, or undefined if none
+ */
+export function joinNotes(
+  parts: (string | null | undefined)[]
+): string | undefined {
+  const notes = parts.filter(Boolean);
+  return notes.length > 0 ? notes.join(" - ") : undefined;
+}
+
+/**
+ * Read an application deadline as a YYYY-MM-DD date. The date part of an
+ * ISO timestamp is kept as written, since the posting's own time zone is
+ * the one the deadline is meant in.
+ */
+export function parseDeadline(
+  date: string | null | undefined
+): string | undefined {
+  if (!date) return undefined;
+
+  const isoDate = date.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  if (isoDate) return isoDate;
+
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime())
+    ? undefined
+    : parsed.toISOString().slice(0, 10);
+}
+
+// Patterns are checked in order, so more specific kinds come first (a
+// "temporary full-time" job is TEMPORARY). Swedish terms cover Platsbanken.
+const EMPLOYMENT_TYPE_PATTERNS: [EmploymentType, RegExp][] = [
+  ["INTERNSHIP", /intern|praktik|trainee/i],
+  ["CONTRACT", /contract|freelance|konsult/i],
+  [
+    "TEMPORARY",
+    /temp|seasonal|visstid|vikariat|tidsbegränsad|sommarjobb|behovsanställning/i,
+  ],
+  ["PART_TIME", /part[\s_-]?time|deltid/i],
+  ["FULL_TIME", /full[\s_-]?time|heltid|permanent|tillsvidare|regular/i],
+];
+
+const REMOTE_POLICY_PATTERNS: [RemotePolicy, RegExp][] = [
+  ["HYBRID", /hybrid|flexible/i],
+  ["REMOTE", /remote|telecommute|distans|work from home/i],
+  ["ONSITE", /on[\s_-]?site|in[\s_-]?office|on[\s_-]?premises?|på plats/i],
+];
+
+const SALARY_PERIOD_PATTERNS: [SalaryPeriod, RegExp][] = [
+  ["HOUR", /hour|timme|tim\b/i],
+  ["MONTH", /month|mån/i],
+  ["YEAR", /year|annual|annum|år/i],
+];
+
+function matchPattern<T>(
+  patterns: [T, RegExp][],
+  text: string | null | undefined
+): T | undefined {
+  if (!text) return undefined;
+  return patterns.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Read an employment type from a source's label, e.g. "Full-time",
+ * "CONTRACTOR" or "Deltid"
+ */
+export function parseEmploymentType(
+  text: string | null | undefined
+): EmploymentType | undefined {
+  return matchPattern(EMPLOYMENT_TYPE_PATTERNS, text);
+}
+
+/**
+ * Read a remote policy from a source's label, e.g. "remote", "Hybrid" or
+ * "On-site"
+ */
+export function parseRemotePolicy(
+  text: string | null | undefined
+): RemotePolicy | undefined {
+  return matchPattern(REMOTE_POLICY_PATTERNS, text);
+}
+
+/**
+ * Read a salary period from a unit label, e.g. "MONTH" or "per-year-salary"
+ */
+export function parseSalaryPeriod(
+  text: string | null | undefined
+): SalaryPeriod | undefined {
+  return matchPattern(SALARY_PERIOD_PATTERNS, text);
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  fillMissingFields,
+  parseStructuredData,
+  structuredDataExtractor,
+} from "./structured-data";
+
+vi.mock("@/lib/ai-extract", () => ({
+  isAIExtractionConfigured: vi.fn(),
+}));
+
+import { isAIExtractionConfigured } from "@/lib/ai-extract";
+
+const JOB_URL = "https://careers.example.com/jobs/42";
+
+const jsonLd = (posting: object) =>
+  `<script type="application/ld+json">${JSON.stringify({
+    "@type": "JobPosting",
+    ...posting,
+  })}</script>`;
+
+const COMPLETE_PAGE = jsonLd({
+  title: "Electrician",
+  hiringOrganization: { name: "Volt AB" },
+  jobLocation: { address: { addressLocality: "Kiruna" } },
+  description: "<p>Wire the new town centre.</p>",
+});
+
+const PARTIAL_PAGE = `<meta property="og:site_name" content="Volt AB">${jsonLd({
+  title: "Electrician",
+})}`;
+
+describe("fillMissingFields", () => {
+  it("only fills fields that are missing or empty", () => {
+    expect(
+      fillMissingFields(
+        { company: "Kept", title: "" },
+        { company: "Ignored", title: "Filled", location: "Added" }
+      )
+    ).toEqual({ company: "Kept", title: "Filled", location: "Added" });
+  });
+
+  it("keeps confidence only for the fields it filled", () => {
+    expect(
+      fillMissingFields(
+        { title: "From JSON-LD" },
+        {
+          title: "Guessed",
+          location: "Umeå",
+          confidence: { title: "low", location: "medium" },
+        }
+      )
+    ).toEqual({
+      title: "From JSON-LD",
+      location: "Umeå",
+      confidence: { location: "medium" },
+    });
+  });
+});
+
+describe("parseStructuredData", () => {
+  it("prefers JSON-LD and fills gaps from OpenGraph", () => {
+    const html = `<meta property="og:title" content="Ignored title">${PARTIAL_PAGE}`;
+
+    expect(parseStructuredData(html)).toMatchObject({
+      company: "Volt AB",
+      title: "Electrician",
+    });
+  });
+});
+
+describe("structuredDataExtractor", () => {
+  beforeEach(() => {
+    vi.mocked(isAIExtractionConfigured).mockReturnValue(true);
+  });
+
+  it("handles pages whose structured data has every core field", async () => {
+    const context = { fetchPage: vi.fn().mockResolvedValue(COMPLETE_PAGE) };
+
+    const data = await structuredDataExtractor.extract(JOB_URL, context);
+
+    expect(data).toEqual({
+      company: "Volt AB",
+      title: "Electrician",
+      location: "Kiruna",
+      jobPostingUrl: JOB_URL,
+      jobPostingText: "Wire the new town centre.",
+    });
+  });
+
+  it("leaves partial data to the AI fallback", async () => {
+    const context = { fetchPage: vi.fn().mockResolvedValue(PARTIAL_PAGE) };
+
+    expect(await structuredDataExtractor.extract(JOB_URL, context)).toBeNull();
+  });
+
+  it("returns partial data when AI extraction isn't configured", async () => {
+    // Arrange
+    vi.mocked(isAIExtractionConfigured).mockReturnValue(false);
+    const context = { fetchPage: vi.fn().mockResolvedValue(PARTIAL_PAGE) };
+
+    // Act
+    const data = await structuredDataExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(data).toEqual({
+      company: "Volt AB",
+      title: "Electrician",
+      jobPostingUrl: JOB_URL,
+    });
+  });
+
+  it("returns null when the page has no job data or can't be fetched", async () => {
+    vi.mocked(isAIExtractionConfigured).mockReturnValue(false);
+
+    expect(
+      await structuredDataExtractor.extract(JOB_URL, {
+        fetchPage: vi.fn().mockResolvedValue("<html>Hello</html>"),
+      })
+    ).toBeNull();
+    expect(
+      await structuredDataExtractor.extract(JOB_URL, {
+        fetchPage: vi.fn().mockRejectedValue(new Error("HTTP 403")),
+      })
+    ).toBeNull();
+  });
+});
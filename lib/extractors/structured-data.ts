@@ -0,0 +1,86 @@
+import { EXTRACTED_JOB_FIELDS, type ExtractedJobData } from "@/lib/schemas";
+import { isAIExtractionConfigured } from "@/lib/ai-extract";
+import type { JobExtractor } from "./types";
+import { parseJobPostingJsonLd } from "./json-ld";
+import { parseOpenGraph } from "./open-graph";
+
+export type StructuredJobData = Omit<ExtractedJobData, "jobPostingUrl">;
+
+/** Fields a posting needs before the AI fallback can be skipped */
+const CORE_FIELDS = ["company", "title", "location", "jobPostingText"] as const;
+
+function hasValue(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0
+    : value !== undefined && value !== "";
+}
+
+/**
+ * Fill the fields `data` lacks from `extra`, never overwriting a value.
+ * Confidence is carried over only for the fields `extra` filled.
+ */
+export function fillMissingFields<T extends StructuredJobData>(
+  data: T,
+  extra: StructuredJobData
+): T {
+  const filled = { ...data };
+  for (const field of EXTRACTED_JOB_FIELDS) {
+    const value = extra[field];
+    if (hasValue(filled[field]) || !hasValue(value)) continue;
+
+    Object.assign(filled, { [field]: value });
+    const confidence = extra.confidence?.[field];
+    if (confidence) {
+      filled.confidence = { ...filled.confidence, [field]: confidence };
+    }
+  }
+  return filled;
+}
+
+/**
+ * Read the machine-readable job data a page embeds: a schema.org
+ * JobPosting (JSON-LD), with OpenGraph tags filling any gaps.
+ * Must run on the raw HTML, since htmlToText strips script tags.
+ */
+export function parseStructuredData(html: string): StructuredJobData {
+  return fillMissingFields(
+    parseJobPostingJsonLd(html) ?? {},
+    parseOpenGraph(html)
+  );
+}
+
+/**
+ * True if the data identifies a job at all (a company or title)
+ */
+export function hasJobIdentity(data: StructuredJobData): boolean {
+  return Boolean(data.company || data.title);
+}
+
+/**
+ * True if the data has every core field, so the AI has nothing to add
+ */
+export function hasCoreFields(data: StructuredJobData): boolean {
+  return CORE_FIELDS.every((field) => data[field]);
+}
+
+/**
+ * Any page with embedded job data, which most career sites have for search
+ * engines. Handles the URL when that data is complete, or when AI
+ * extraction isn't configured; otherwise the AI fallback fills the gaps.
+ */
+export const structuredDataExtractor: JobExtractor = {
+  id: "structured-data",
+  name: "Structured data",
+  matches: (url) => /^https?:\/\//.test(url),
+  async extract(url, { fetchPage }) {
+    // Leave page fetch errors to the AI fallback, which reports them
+    const html = await fetchPage().catch(() => null);
+    if (!html) return null;
+
+    const data = parseStructuredData(html);
+    if (!hasJobIdentity(data)) return null;
+    if (!hasCoreFields(data) && isAIExtractionConfigured()) return null;
+
+    return { ...data, jobPostingUrl: url };
+  },
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { teamtailorExtractor } from "./teamtailor";
+
+const fixture = readFileSync(
+  path.join(__dirname, "__fixtures__", "teamtailor-job.html"),
+  "utf-8"
+);
+
+const JOB_URL =
+  "https://fika-systems.teamtailor.com/jobs/4711-supportspecialist";
+
+describe("teamtailorExtractor", () => {
+  it("matches job pages on teamtailor.com subdomains", () => {
+    expect(teamtailorExtractor.matches(JOB_URL)).toBe(true);
+    expect(
+      teamtailorExtractor.matches("https://fika-systems.teamtailor.com/jobs")
+    ).toBe(false);
+  });
+
+  it("reads the page's JobPosting and names the company after the subdomain", async () => {
+    // Arrange
+    const context = { fetchPage: vi.fn().mockResolvedValue(fixture) };
+
+    // Act
+    const data = await teamtailorExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(data).toEqual({
+      company: "Fika Systems",
+      title: "Supportspecialist",
+      location: "Umeå, SE",
+      jobPostingUrl: JOB_URL,
+      jobPostingText:
+        "Hjälp våra kunder att lyckas med Fika.\n\nDu har minst två års erfarenhet av kundsupport.",
+      deadline: "2025-02-28",
+      employmentType: "FULL_TIME",
+    });
+  });
+
+  it("returns null when the page has no JobPosting", async () => {
+    const context = {
+      fetchPage: vi.fn().mockResolvedValue("<html><body>Gone</body></html>"),
+    };
+
+    expect(await teamtailorExtractor.extract(JOB_URL, context)).toBeNull();
+  });
+});
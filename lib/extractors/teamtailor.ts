@@ -0,0 +1,28 @@
+import type { JobExtractor } from "./types";
+import { parseJobPostingJsonLd } from "./json-ld";
+import { humanizeSlug } from "./shared";
+
+const URL_PATTERN = /^https:\/\/([\w-]+)\.teamtailor\.com\/jobs\/\d+/;
+
+/**
+ * Teamtailor career sites. Their public API needs a per-company key, but
+ * every job page embeds a JobPosting, so read that and fall back to the
+ * subdomain for the company name.
+ */
+export const teamtailorExtractor: JobExtractor = {
+  id: "teamtailor",
+  name: "Teamtailor",
+  matches: (url) => URL_PATTERN.test(url),
+  async extract(url, { fetchPage }) {
+    const [, subdomain] = url.match(URL_PATTERN)!;
+    const posting = parseJobPostingJsonLd(await fetchPage());
+
+    if (!posting) return null;
+
+    return {
+      ...posting,
+      company: posting.company || humanizeSlug(subdomain),
+      jobPostingUrl: url,
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import type { ExtractedJobData } from "@/lib/schemas";
+
+export type ExtractorContext = {
+  /**
+   * Fetch the posting page itself. Memoized per request, so extractors that
+   * inspect the page and the AI fallback share a single fetch.
+   */
+  fetchPage: () => Promise<string>;
+};
+
+/**
+ * A source of job data, e.g. a job board API or a page format.
+ * Extractors are tried in registry order; the first one whose `matches`
+ * returns true and whose `extract` returns data handles the URL.
+ */
+export type JobExtractor = {
+  /** Stable identifier reported by the extract route */
+  id: string;
+  /** Human-readable source name, used in error messages */
+  name: string;
+  matches: (url: string) => boolean;
+  /**
+   * @returns Extracted data, or null to let the next matching extractor try
+   * @throws Error if the source failed (the route returns a fallback)
+   */
+  extract: (
+    url: string,
+    context: ExtractorContext
+  ) => Promise<ExtractedJobData | null>;
+};
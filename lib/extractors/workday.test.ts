@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { workdayExtractor } from "./workday";
+import fixture from "./__fixtures__/workday-job.json";
+
+const JOB_URL =
+  "https://globex.wd3.myworkdayjobs.com/en-US/Globex_Careers/job/Malmo/Data-Analyst_R-10234";
+const context = { fetchPage: vi.fn() };
+
+describe("workdayExtractor", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => fixture,
+    });
+  });
+
+  it("matches job URLs with or without a locale", () => {
+    expect(workdayExtractor.matches(JOB_URL)).toBe(true);
+    expect(workdayExtractor.matches(JOB_URL.replace("/en-US", ""))).toBe(true);
+    expect(
+      workdayExtractor.matches(
+        "https://globex.wd3.myworkdayjobs.com/Globex_Careers"
+      )
+    ).toBe(false);
+  });
+
+  it("maps the career site's job endpoint response", async () => {
+    // Act
+    const data = await workdayExtractor.extract(JOB_URL, context);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://globex.wd3.myworkdayjobs.com/wday/cxs/globex/Globex_Careers/job/Malmo/Data-Analyst_R-10234",
+      expect.anything()
+    );
+    expect(data).toEqual({
+      company: "Globex Corporation",
+      title: "Data Analyst",
+      location: "Malmö",
+      jobPostingUrl: JOB_URL,
+      jobPostingText:
+        "Turn our supply chain data into decisions.\n\nYou will work with SQL and Python.",
+      employmentType: "FULL_TIME",
+      remotePolicy: "HYBRID",
+    });
+  });
+
+  it("throws when the career site returns an error", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+
+    await expect(workdayExtractor.extract(JOB_URL, context)).rejects.toThrow(
+      "Workday API returned 500"
+    );
+  });
+});
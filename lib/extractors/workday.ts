@@ -0,0 +1,53 @@
+import { htmlToText } from "@/lib/html-to-text";
+import type { JobExtractor } from "./types";
+import {
+  fetchSourceResponse,
+  humanizeSlug,
+  parseEmploymentType,
+  parseRemotePolicy,
+} from "./shared";
+
+// https://{tenant}.wd{N}.myworkdayjobs.com/[{locale}/]{site}/job/{location}/{title_id}
+const URL_PATTERN =
+  /^https:\/\/([\w-]+)\.(wd\d+)\.myworkdayjobs\.com\/(?:[a-z]{2}-[A-Z]{2}\/)?([^/?#]+)\/job\/([^?#]+)/;
+
+type WorkdayJob = {
+  jobPostingInfo?: {
+    title?: string;
+    location?: string;
+    jobDescription?: string;
+    timeType?: string;
+    remoteType?: string;
+  };
+  hiringOrganization?: { name?: string };
+};
+
+/**
+ * Workday career sites, via the JSON endpoint their own pages load from
+ */
+export const workdayExtractor: JobExtractor = {
+  id: "workday",
+  name: "Workday",
+  matches: (url) => URL_PATTERN.test(url),
+  async extract(url) {
+    const [, tenant, instance, site, jobPath] = url.match(URL_PATTERN)!;
+    const response = await fetchSourceResponse(
+      `https://${tenant}.${instance}.myworkdayjobs.com/wday/cxs/${tenant}/${site}/job/${jobPath}`,
+      "Workday API"
+    );
+    const { jobPostingInfo: job, hiringOrganization }: WorkdayJob =
+      await response.json();
+
+    return {
+      company: hiringOrganization?.name || humanizeSlug(tenant),
+      title: job?.title,
+      location: job?.location,
+      jobPostingUrl: url,
+      jobPostingText: job?.jobDescription
+        ? htmlToText(job.jobDescription, { format: "markdown" })
+        : undefined,
+      employmentType: parseEmploymentType(job?.timeType),
+      remotePolicy: parseRemotePolicy(job?.remoteType),
+    };
+  },
+};
@@ -253,6 +253,81 @@ describe("htmlToText", () => {
     });
   });
 
+  describe("markdown output", () => {
+    const toMarkdown = (html: string) =>
+      htmlToText(html, { format: "markdown" });
+
+    it("keeps headings and paragraphs", () => {
+      const html = "<h2>About the role</h2><p>You will build APIs.</p>";
+
+      expect(toMarkdown(html)).toBe(
+        "## About the role\n\nYou will build APIs."
+      );
+    });
+
+    it("turns list items into a bullet list", () => {
+      const html = `
+        <p>Requirements:</p>
+        <ul>
+          <li><p>TypeScript</p></li>
+          <li>
+            PostgreSQL
+          </li>
+        </ul>
+        <ol><li>Apply</li><li>Interview</li></ol>
+      `;
+
+      expect(toMarkdown(html)).toBe(
+        "Requirements:\n\n- TypeScript\n- PostgreSQL\n\n- Apply\n- Interview"
+      );
+    });
+
+    it("keeps the items of nested lists", () => {
+      const html =
+        "<ul><li>Backend<ul><li>Go</li><li>Rust</li></ul></li><li>Ops</li></ul>";
+      const result = toMarkdown(html);
+
+      expect(result).toContain("- Backend");
+      expect(result).toContain("- Go\n- Rust");
+      expect(result).toContain("- Ops");
+    });
+
+    it("turns links into markdown links", () => {
+      const html =
+        '<p>Read <a href="https://example.com/about?a=1&amp;b=2">about us</a> or mail <a href="mailto:jobs@example.com">jobs@example.com</a>.</p>';
+
+      expect(toMarkdown(html)).toBe(
+        "Read [about us](https://example.com/about?a=1&b=2) or mail [jobs@example.com](mailto:jobs@example.com)."
+      );
+    });
+
+    it("leaves bare URLs as they are", () => {
+      const html =
+        '<a href="https://example.com/apply">https://example.com/apply</a>';
+
+      expect(toMarkdown(html)).toBe("https://example.com/apply");
+    });
+
+    it("drops unsafe link URLs but keeps the text", () => {
+      const html = '<a href="javascript:alert(1)">Apply now</a>';
+
+      expect(toMarkdown(html)).toBe("Apply now");
+    });
+
+    it("turns bullet characters into list items", () => {
+      const html = "<p>&bull; Flexible hours<br>&bull; Pension</p>";
+
+      expect(toMarkdown(html)).toBe("- Flexible hours\n- Pension");
+    });
+
+    it("keeps flattening structure in text mode", () => {
+      const html =
+        '<h2>Perks</h2><ul><li><a href="https://x.io">Gym</a></li></ul>';
+
+      expect(htmlToText(html)).toBe("Perks\n\nGym");
+    });
+  });
+
   describe("real-world job posting scenarios", () => {
     it("extracts job posting with typical structure", () => {
       const html = `
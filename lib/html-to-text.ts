@@ -1,10 +1,21 @@
 /**
- * Converts HTML to plain text for AI processing.
+ * Converts HTML to plain text for AI processing, or to markdown for job
+ * posting text shown in the app.
  * Strips scripts, styles, and navigation elements while preserving content structure.
  */
 
+import { safeHref } from "@/lib/markdown";
+
 const MAX_TEXT_LENGTH = 10000;
 
+export interface HtmlToTextOptions {
+  /**
+   * "markdown" keeps headings (#), list items (- ) and links ([text](url))
+   * as markdown (see lib/markdown.ts) instead of flattening them
+   */
+  format?: "text" | "markdown";
+}
+
 // HTML entities to decode
 const HTML_ENTITIES: Record<string, string> = {
   "&nbsp;": " ",
@@ -38,8 +49,9 @@ function stripNonContentTags(html: string): string {
 
 /**
  * Decode HTML entities
+ * Exported for sources that deliver entity-escaped HTML (e.g. Greenhouse)
  */
-function decodeHtmlEntities(text: string): string {
+export function decodeHtmlEntities(text: string): string {
   let decoded = text;
 
   // Replace known entities
@@ -77,6 +89,53 @@ function extractTextContent(html: string): string {
   return text;
 }
 
+/**
+ * Put the contents of an element on one line, for a heading or list item
+ */
+function flattenInline(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/?(?:p|div)\b[^>]*>/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Turn links, headings and list items (numbered ones too) into markdown
+ * before the remaining tags are removed. Link URLs other than http(s) and
+ * mailto are dropped, keeping the link text.
+ */
+function markStructure(html: string): string {
+  return (
+    html
+      // Indentation between items would leave blank lines inside the list
+      .replace(/\s+(?=<\/?(?:li|ul|ol)\b)/gi, "")
+      .replace(
+        /<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+        (_match, _quote, url: string, content: string) => {
+          const text = flattenInline(content);
+          const href = safeHref(decodeHtmlEntities(url));
+          if (!href || !text.replace(/<[^>]+>/g, "").trim()) return text;
+          // Bare URLs are linked by the markdown parser
+          if (text === href) return href;
+          return `[${text}](${href.replace(/[ ()]/g, encodeURIComponent)})`;
+        }
+      )
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+        (_match, level: string, content: string) =>
+          `\n\n${"#".repeat(Number(level))} ${flattenInline(content)}\n\n`
+      )
+      // Innermost list items first; items holding a nested list only get
+      // their marker
+      .replace(
+        /<li\b[^>]*>((?:(?!<\/?li\b)[\s\S])*)<\/li>/gi,
+        (_match, content: string) => `\n- ${flattenInline(content)}`
+      )
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<\/?(?:ul|ol)\b[^>]*>/gi, "\n\n")
+  );
+}
+
 /**
  * Clean up whitespace
  */
@@ -127,9 +186,13 @@ function truncateText(text: string, maxLength: number): string {
 /**
  * Convert HTML to plain text suitable for AI processing
  * @param html - Raw HTML string
- * @returns Cleaned plain text
+ * @param options - format: "markdown" to keep headings, lists and links
+ * @returns Cleaned plain text, or markdown
  */
-export function htmlToText(html: string): string {
+export function htmlToText(
+  html: string,
+  { format = "text" }: HtmlToTextOptions = {}
+): string {
   if (!html || typeof html !== "string") {
     return "";
   }
@@ -138,6 +201,9 @@ export function htmlToText(html: string): string {
   let text = stripNonContentTags(html);
 
   // Step 2: Extract text from remaining HTML
+  if (format === "markdown") {
+    text = markStructure(text);
+  }
   text = extractTextContent(text);
 
   // Step 3: Decode HTML entities
@@ -145,6 +211,11 @@ export function htmlToText(html: string): string {
 
   // Step 4: Normalize whitespace
   text = normalizeWhitespace(text);
+  if (format === "markdown") {
+    // Bullet characters used as list markers in plain paragraphs, and the
+    // blank lines left by whitespace-only lines
+    text = text.replace(/^[•·▪]\s*/gm, "- ").replace(/\n{3,}/g, "\n\n");
+  }
 
   // Step 5: Truncate to max length
   text = truncateText(text, MAX_TEXT_LENGTH);
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInterviewCalendar,
+  escapeText,
+  foldLine,
+  type CalendarInterview,
+} from "./ical";
+
+function createInterview(
+  overrides: Partial<CalendarInterview> = {}
+): CalendarInterview {
+  return {
+    id: 7,
+    round: "Technical",
+    startsAt: new Date("2025-03-03T13:00:00Z"),
+    endsAt: new Date("2025-03-03T14:30:00Z"),
+    location: null,
+    videoUrl: null,
+    interviewers: [],
+    prepNotes: null,
+    outcome: "PENDING",
+    updatedAt: new Date("2025-03-01T09:00:00Z"),
+    job: { company: "Acme", title: null },
+    ...overrides,
+  };
+}
+
+describe("escapeText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Technical")).toBe("SUMMARY:Technical");
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const folded = foldLine(`DESCRIPTION:${"x".repeat(150)}`);
+    const lines = folded.split("\r\n");
+
+    expect(lines[0]).toHaveLength(75);
+    expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+    expect(lines.map((line, i) => (i ? line.slice(1) : line)).join("")).toBe(
+      `DESCRIPTION:${"x".repeat(150)}`
+    );
+  });
+
+  it("never splits a multi-byte character", () => {
+    const folded = foldLine(`SUMMARY:${"å".repeat(60)}`);
+
+    for (const line of folded.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"å".repeat(60)}`);
+  });
+});
+
+describe("buildInterviewCalendar", () => {
+  it("builds an empty calendar", () => {
+    const calendar = buildInterviewCalendar([]);
+
+    expect(calendar).toBe(
+      [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Get a Job//Interviews//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Job interviews",
+        "END:VCALENDAR",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("writes an event per interview in UTC", () => {
+    // Act
+    const calendar = buildInterviewCalendar([
+      createInterview({
+        location: "Office, floor 3",
+        interviewers: ["Jane Doe", "John Smith"],
+        job: { company: "Acme", title: "Developer" },
+      }),
+    ]);
+
+    // Assert
+    const lines = calendar.split("\r\n");
+    expect(lines).toContain("BEGIN:VEVENT");
+    expect(lines).toContain("UID:interview-7@get-a-job");
+    expect(lines).toContain("DTSTAMP:20250301T090000Z");
+    expect(lines).toContain("DTSTART:20250303T130000Z");
+    expect(lines).toContain("DTEND:20250303T143000Z");
+    expect(lines).toContain("SUMMARY:Technical - Acme");
+    expect(lines).toContain("LOCATION:Office\\, floor 3");
+    expect(lines).toContain(
+      "DESCRIPTION:Role: Developer\\nInterviewers: Jane Doe\\, John Smith"
+    );
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(lines).toContain("END:VEVENT");
+  });
+
+  it("assumes an hour for interviews without an end time", () => {
+    const calendar = buildInterviewCalendar([
+      createInterview({ endsAt: null }),
+    ]);
+
+    expect(calendar).toContain("DTEND:20250303T140000Z");
+  });
+
+  it("uses the video link as location when there is no place", () => {
+    const calendar = buildInterviewCalendar([
+      createInterview({ videoUrl: "https://meet.example.com/abc" }),
+    ]);
+
+    expect(calendar).toContain("LOCATION:https://meet.example.com/abc");
+    expect(calendar).toContain("URL:https://meet.example.com/abc");
+  });
+
+  it("marks cancelled interviews as cancelled", () => {
+    const calendar = buildInterviewCalendar([
+      createInterview({ outcome: "CANCELLED" }),
+    ]);
+
+    expect(calendar).toContain("STATUS:CANCELLED");
+  });
+});
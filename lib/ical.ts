@@ -0,0 +1,124 @@
+import { Interview, Job } from "@prisma/client";
+import { DEFAULT_INTERVIEW_MINUTES } from "@/lib/interviews";
+
+/**
+ * iCalendar (RFC 5545) feed of interviews, for subscribing from a calendar
+ * app. Times are written in UTC, which every client converts to the
+ * viewer's zone, so no VTIMEZONE definitions are needed.
+ */
+
+export type CalendarInterview = Pick<
+  Interview,
+  | "id"
+  | "round"
+  | "startsAt"
+  | "endsAt"
+  | "location"
+  | "videoUrl"
+  | "interviewers"
+  | "prepNotes"
+  | "outcome"
+  | "updatedAt"
+> & {
+  job: Pick<Job, "company" | "title">;
+};
+
+const PRODUCT_ID = "-//Get a Job//Interviews//EN";
+const UID_DOMAIN = "get-a-job";
+
+// Content lines are folded at 75 octets (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+/** 20250303T130000Z */
+function formatUtc(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+/** Escape a TEXT value (RFC 5545 section 3.3.11) */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line, continuing with a leading space */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let limit = MAX_LINE_OCTETS;
+
+  // Iterate by code point so multi-byte characters are never split
+  for (const char of line) {
+    if (encoder.encode(chunk + char).length > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      // Continuation lines start with a space, which counts towards the limit
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
+
+function eventLines(interview: CalendarInterview): string[] {
+  const { job } = interview;
+  const endsAt =
+    interview.endsAt ??
+    new Date(
+      new Date(interview.startsAt).getTime() +
+        DEFAULT_INTERVIEW_MINUTES * 60 * 1000
+    );
+  const description = [
+    job.title && `Role: ${job.title}`,
+    interview.interviewers.length > 0 &&
+      `Interviewers: ${interview.interviewers.join(", ")}`,
+    interview.videoUrl && `Video link: ${interview.videoUrl}`,
+    interview.prepNotes && `\n${interview.prepNotes}`,
+  ].filter(Boolean) as string[];
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:interview-${interview.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(interview.updatedAt)}`,
+    `DTSTART:${formatUtc(interview.startsAt)}`,
+    `DTEND:${formatUtc(endsAt)}`,
+    `SUMMARY:${escapeText(`${interview.round} - ${job.company}`)}`,
+    ...(interview.location || interview.videoUrl
+      ? [`LOCATION:${escapeText(interview.location || interview.videoUrl!)}`]
+      : []),
+    ...(interview.videoUrl ? [`URL:${interview.videoUrl}`] : []),
+    ...(description.length > 0
+      ? [`DESCRIPTION:${escapeText(description.join("\n"))}`]
+      : []),
+    `STATUS:${interview.outcome === "CANCELLED" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Build an iCalendar document with one event per interview
+ *
+ * @param interviews - Interviews with their job's company and title
+ * @returns The calendar, with CRLF line endings
+ */
+export function buildInterviewCalendar(
+  interviews: CalendarInterview[]
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Job interviews",
+    ...interviews.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from "vitest";
+import type { Job } from "@prisma/client";
+import {
+  getSuppliedFields,
+  ImportJobRow,
+  planImport,
+  summarizeImportPlan,
+} from "./import-plan";
+import { makeJob } from "@/lib/test-fixtures";
+
+const USER_ID = "user_123";
+
+// Test helpers
+function createJob(overrides: Partial<Job> = {}): Job {
+  return makeJob({
+    userId: USER_ID,
+    company: "Acme",
+    order: "i",
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    ...overrides,
+  });
+}
+
+function createRow(overrides: Partial<ImportJobRow> = {}): ImportJobRow {
+  return {
+    userId: USER_ID,
+    boardId: 1,
+    company: "Acme",
+    title: "Developer",
+    location: null,
+    jobPostingUrl: null,
+    jobPostingText: null,
+    stageId: 1,
+    notes: null,
+    resumeUrl: null,
+    coverLetterUrl: null,
+    dateApplied: null,
+    deadline: null,
+    followUpAt: null,
+    followUpCompletedAt: null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+    employmentType: null,
+    remotePolicy: null,
+    skills: [],
+    order: "a0",
+    ...overrides,
+  };
+}
+
+describe("planImport", () => {
+  it("replace creates every row and deletes all current jobs", () => {
+    const plan = planImport(
+      [createJob({ id: 1 }), createJob({ id: 2 })],
+      [createRow()],
+      "replace",
+      USER_ID
+    );
+
+    expect(summarizeImportPlan(plan)).toEqual({
+      created: 1,
+      updated: 0,
+      deleted: 2,
+      skipped: 0,
+      conflicted: 0,
+    });
+  });
+
+  it("append creates every row, even duplicates, and deletes nothing", () => {
+    const plan = planImport([createJob()], [createRow()], "append", USER_ID);
+
+    expect(plan.create).toHaveLength(1);
+    expect(plan.deleted).toBe(0);
+  });
+
+  it("merge matches by job posting URL ignoring case and trailing slash", () => {
+    const existing = createJob({
+      id: 5,
+      company: "Acme AB",
+      jobPostingUrl: "https://acme.com/jobs/1",
+    });
+
+    const plan = planImport(
+      [existing],
+      [
+        createRow({
+          company: "Acme",
+          jobPostingUrl: "https://ACME.com/jobs/1/",
+          stageId: 2,
+        }),
+      ],
+      "merge",
+      USER_ID
+    );
+
+    expect(plan.create).toEqual([]);
+    expect(plan.update).toEqual([
+      {
+        id: 5,
+        data: {
+          company: "Acme",
+          jobPostingUrl: "https://ACME.com/jobs/1/",
+          stageId: 2,
+        },
+        history: expect.arrayContaining([
+          expect.objectContaining({
+            fieldChanged: "stageId",
+            oldValue: "1",
+            newValue: "2",
+          }),
+        ]),
+      },
+    ]);
+  });
+
+  it("merge falls back to company and title", () => {
+    const plan = planImport(
+      [createJob({ id: 3, company: "Klarna", title: "Engineer" })],
+      [createRow({ company: " klarna ", title: "ENGINEER", notes: "Hi" })],
+      "merge",
+      USER_ID
+    );
+
+    expect(plan.update).toHaveLength(1);
+    expect(plan.update[0].id).toBe(3);
+    expect(plan.update[0].data).toMatchObject({ notes: "Hi" });
+  });
+
+  it("merge skips rows identical to their match and creates unmatched rows", () => {
+    const plan = planImport(
+      [createJob({ id: 1 })],
+      [createRow(), createRow({ company: "New Co" })],
+      "merge",
+      USER_ID
+    );
+
+    expect(summarizeImportPlan(plan)).toMatchObject({
+      created: 1,
+      updated: 0,
+      skipped: 1,
+    });
+    expect(plan.create[0].company).toBe("New Co");
+  });
+
+  it("merge does not touch the board position of matched jobs", () => {
+    const plan = planImport(
+      [createJob({ order: "i" })],
+      [createRow({ order: "a0", notes: "Changed" })],
+      "merge",
+      USER_ID
+    );
+
+    expect(plan.update[0].data).not.toHaveProperty("order");
+  });
+
+  it("merge always creates deleted rows instead of matching live jobs", () => {
+    const plan = planImport(
+      [createJob({ id: 1 })],
+      [createRow({ deletedAt: new Date("2025-02-01") })],
+      "merge",
+      USER_ID
+    );
+
+    expect(plan.create).toHaveLength(1);
+    expect(plan.update).toEqual([]);
+  });
+
+  it("merge only compares the fields a row supplied", () => {
+    // Arrange
+    const existing = createJob({ id: 4, stageId: 3, skills: ["Go", "SQL"] });
+    // Validation gave the row the default stage and no skills
+    const row = createRow({ stageId: 1, skills: [], notes: "Referral" });
+
+    // Act
+    const plan = planImport([existing], [row], "merge", USER_ID, [
+      new Set(["company", "title", "notes"]),
+    ]);
+
+    // Assert
+    expect(plan.update).toEqual([
+      {
+        id: 4,
+        data: { notes: "Referral" },
+        history: [expect.objectContaining({ fieldChanged: "notes" })],
+      },
+    ]);
+  });
+
+  it("merge reports ambiguous and duplicate matches as conflicts", () => {
+    const plan = planImport(
+      [
+        createJob({ id: 1, company: "Twin" }),
+        createJob({ id: 2, company: "Twin" }),
+        createJob({ id: 3, company: "Solo" }),
+      ],
+      [
+        createRow({ company: "Twin" }),
+        createRow({ company: "Solo", notes: "First" }),
+        createRow({ company: "Solo", notes: "Second" }),
+      ],
+      "merge",
+      USER_ID
+    );
+
+    expect(plan.update).toHaveLength(1);
+    expect(plan.conflicts).toEqual([
+      { row: 1, reason: "Matches 2 existing jobs" },
+      { row: 3, reason: "Matches the same job as an earlier row" },
+    ]);
+  });
+});
+
+describe("getSuppliedFields", () => {
+  it("lists the tracked fields the job has a value for, empty included", () => {
+    const fields = getSuppliedFields({
+      company: "Acme",
+      stage: "Applied",
+      notes: "",
+      contacts: [],
+    });
+
+    expect([...fields]).toEqual(["company", "stageId", "notes"]);
+  });
+
+  it("leaves out fields that are missing", () => {
+    expect(getSuppliedFields({ company: "Acme", title: undefined })).toEqual(
+      new Set(["company"])
+    );
+  });
+});
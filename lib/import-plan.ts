@@ -0,0 +1,203 @@
+import { Job, Prisma } from "@prisma/client";
+import {
+  diffJobChanges,
+  JobHistoryEntry,
+  TRACKED_JOB_FIELDS,
+  TrackedJobField,
+} from "@/lib/job-history";
+import type { ImportMode } from "@/lib/schemas";
+
+/** An imported row, ready to be written (userId set, empty values as null) */
+export type ImportJobRow = Prisma.JobCreateManyInput;
+
+export type ImportJobUpdate = {
+  id: number;
+  data: Partial<Pick<ImportJobRow, TrackedJobField>>;
+  history: JobHistoryEntry[];
+};
+
+export type ImportConflict = {
+  /** 1-based row number in the imported file */
+  row: number;
+  reason: string;
+};
+
+export type ImportPlan = {
+  create: ImportJobRow[];
+  update: ImportJobUpdate[];
+  /** Current jobs removed by a replace import */
+  deleted: number;
+  /** Rows matching an existing job that has no differences */
+  skipped: number;
+  conflicts: ImportConflict[];
+};
+
+export type ImportSummary = {
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  conflicted: number;
+};
+
+function normalizeUrl(url: string | null | undefined): string | null {
+  const normalized = url?.trim().replace(/\/+$/, "").toLowerCase();
+  return normalized || null;
+}
+
+function companyTitleKey(company: string, title: string | null | undefined) {
+  return `${company.trim().toLowerCase()}\n${(title ?? "").trim().toLowerCase()}`;
+}
+
+/**
+ * The tracked fields an imported job supplies: those with a value once
+ * validated. Validation drops null like a left-out field (exports write
+ * null for every empty field), so neither changes a merged job; "" clears
+ * the field. Files name the stage in "stage" rather than "stageId".
+ *
+ * @param job - A validated imported job
+ */
+export function getSuppliedFields(
+  job: Record<string, unknown>
+): Set<TrackedJobField> {
+  return new Set(
+    TRACKED_JOB_FIELDS.filter(
+      (field) => job[field === "stageId" ? "stage" : field] !== undefined
+    )
+  );
+}
+
+/** Add a job to a lookup map, keeping every job per key so ambiguity shows */
+function addToIndex(index: Map<string, Job[]>, key: string | null, job: Job) {
+  if (!key) return;
+  index.set(key, [...(index.get(key) ?? []), job]);
+}
+
+/**
+ * Work out what an import would do without touching the database.
+ * Used both for the dry-run preview and for the import itself.
+ *
+ * In merge mode a row matches an existing job by job posting URL first,
+ * then by company + title (case-insensitive). Rows matching several jobs,
+ * or a job already matched by an earlier row, are reported as conflicts
+ * and left out. Matched jobs keep their board position - only tracked
+ * fields are updated, and only those the row supplied, so the defaults of
+ * a partial file (the default stage, no skills) never overwrite a job.
+ * Rows for deleted jobs are always created.
+ *
+ * @param existing - The user's current (non-deleted) jobs
+ * @param rows - Validated imported rows
+ * @param mode - Import mode
+ * @param userId - The importing user (for history entries)
+ * @param suppliedFields - Per row, the fields it supplied (see
+ *   getSuppliedFields); every tracked field when left out
+ */
+export function planImport(
+  existing: Job[],
+  rows: ImportJobRow[],
+  mode: ImportMode,
+  userId: string,
+  suppliedFields?: Set<TrackedJobField>[]
+): ImportPlan {
+  if (mode !== "merge") {
+    return {
+      create: rows,
+      update: [],
+      deleted: mode === "replace" ? existing.length : 0,
+      skipped: 0,
+      conflicts: [],
+    };
+  }
+
+  const byUrl = new Map<string, Job[]>();
+  const byCompanyTitle = new Map<string, Job[]>();
+  for (const job of existing) {
+    addToIndex(byUrl, normalizeUrl(job.jobPostingUrl), job);
+    addToIndex(byCompanyTitle, companyTitleKey(job.company, job.title), job);
+  }
+
+  const plan: ImportPlan = {
+    create: [],
+    update: [],
+    deleted: 0,
+    skipped: 0,
+    conflicts: [],
+  };
+  const matchedIds = new Set<number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+
+    // Deleted jobs go straight to the trash; they never replace a live job
+    if (row.deletedAt) {
+      plan.create.push(row);
+      return;
+    }
+
+    const url = normalizeUrl(row.jobPostingUrl);
+    const candidates =
+      (url && byUrl.get(url)) ||
+      byCompanyTitle.get(companyTitleKey(row.company, row.title)) ||
+      [];
+
+    if (candidates.length === 0) {
+      plan.create.push(row);
+      return;
+    }
+
+    if (candidates.length > 1) {
+      plan.conflicts.push({
+        row: rowNumber,
+        reason: `Matches ${candidates.length} existing jobs`,
+      });
+      return;
+    }
+
+    const [match] = candidates;
+    if (matchedIds.has(match.id)) {
+      plan.conflicts.push({
+        row: rowNumber,
+        reason: "Matches the same job as an earlier row",
+      });
+      return;
+    }
+    matchedIds.add(match.id);
+
+    const fields = TRACKED_JOB_FIELDS.filter(
+      (field) => suppliedFields?.[index].has(field) ?? true
+    );
+    const history = diffJobChanges(
+      match,
+      Object.fromEntries(fields.map((field) => [field, row[field]])),
+      userId
+    );
+
+    if (history.length === 0) {
+      plan.skipped++;
+    } else {
+      // Only write the fields that differ
+      const data = Object.fromEntries(
+        history.map((entry) => [
+          entry.fieldChanged,
+          row[entry.fieldChanged as TrackedJobField],
+        ])
+      ) as ImportJobUpdate["data"];
+      plan.update.push({ id: match.id, data, history });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Counts reported to the client for a (dry-run) import
+ */
+export function summarizeImportPlan(plan: ImportPlan): ImportSummary {
+  return {
+    created: plan.create.length,
+    updated: plan.update.length,
+    deleted: plan.deleted,
+    skipped: plan.skipped,
+    conflicted: plan.conflicts.length,
+  };
+}
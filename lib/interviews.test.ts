@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import type { Interview } from "@prisma/client";
+import {
+  formatInterviewTime,
+  interviewFormToData,
+  interviewToFormValues,
+  isValidTimeZone,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "./interviews";
+
+function createInterview(overrides: Partial<Interview> = {}): Interview {
+  return {
+    id: 1,
+    jobId: 1,
+    userId: "user_123",
+    round: "Technical",
+    startsAt: new Date("2025-03-03T13:00:00Z"),
+    endsAt: new Date("2025-03-03T14:30:00Z"),
+    timeZone: "Europe/Stockholm",
+    location: null,
+    videoUrl: null,
+    interviewers: [],
+    prepNotes: null,
+    outcome: "PENDING",
+    createdAt: new Date("2025-03-01T09:00:00Z"),
+    updatedAt: new Date("2025-03-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zone names and rejects anything else", () => {
+    expect(isValidTimeZone("Europe/Stockholm")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("converts local time using the zone's offset", () => {
+    // CET is UTC+1 in winter, CEST UTC+2 in summer
+    expect(zonedTimeToUtc("2025-03-03T14:00", "Europe/Stockholm")).toEqual(
+      new Date("2025-03-03T13:00:00Z")
+    );
+    expect(zonedTimeToUtc("2025-06-03T14:00", "Europe/Stockholm")).toEqual(
+      new Date("2025-06-03T12:00:00Z")
+    );
+    expect(zonedTimeToUtc("2025-06-03T09:00", "America/New_York")).toEqual(
+      new Date("2025-06-03T13:00:00Z")
+    );
+  });
+
+  it("uses the offset after a DST change on the day it happens", () => {
+    // Clocks in Stockholm went forward at 02:00 on 30 March 2025
+    expect(zonedTimeToUtc("2025-03-30T10:00", "Europe/Stockholm")).toEqual(
+      new Date("2025-03-30T08:00:00Z")
+    );
+  });
+});
+
+describe("utcToZonedTime", () => {
+  it("returns local date and time in the zone", () => {
+    expect(
+      utcToZonedTime(new Date("2025-03-03T13:00:00Z"), "Europe/Stockholm")
+    ).toBe("2025-03-03T14:00");
+    expect(utcToZonedTime("2025-03-03T02:00:00Z", "America/New_York")).toBe(
+      "2025-03-02T21:00"
+    );
+  });
+});
+
+describe("formatInterviewTime", () => {
+  it("formats the day and times in the interview's zone", () => {
+    expect(formatInterviewTime(createInterview())).toBe(
+      "Mon 3 Mar, 14:00–15:30 CET"
+    );
+  });
+
+  it("leaves out the end when there is none", () => {
+    expect(formatInterviewTime(createInterview({ endsAt: null }))).toBe(
+      "Mon 3 Mar, 14:00 CET"
+    );
+  });
+});
+
+describe("interview form conversion", () => {
+  it("round-trips an interview through the form", () => {
+    // Arrange
+    const interview = createInterview({
+      interviewers: ["Jane Doe", "John Smith"],
+      videoUrl: "https://meet.example.com/abc",
+    });
+
+    // Act
+    const form = interviewToFormValues(interview);
+    const data = interviewFormToData(form);
+
+    // Assert
+    expect(form).toMatchObject({
+      date: "2025-03-03",
+      startTime: "14:00",
+      endTime: "15:30",
+      interviewers: "Jane Doe, John Smith",
+    });
+    expect(data).toMatchObject({
+      startsAt: "2025-03-03T13:00:00.000Z",
+      endsAt: "2025-03-03T14:30:00.000Z",
+      interviewers: ["Jane Doe", "John Smith"],
+      videoUrl: "https://meet.example.com/abc",
+    });
+  });
+
+  it("sends an empty end time when the form has none", () => {
+    const form = interviewToFormValues(createInterview({ endsAt: null }));
+
+    expect(form.endTime).toBe("");
+    expect(interviewFormToData(form).endsAt).toBe("");
+  });
+});
@@ -0,0 +1,161 @@
+import { Interview } from "@prisma/client";
+import type { InterviewData, InterviewFormData } from "@/lib/schemas";
+
+/**
+ * Interview times. Interviews are stored as UTC instants together with the
+ * IANA time zone they were entered in, so an interview at 14:00 in
+ * Stockholm stays at 14:00 there however the viewer's clock is set.
+ */
+
+/** Length assumed for interviews without an end time */
+export const DEFAULT_INTERVIEW_MINUTES = 60;
+
+/**
+ * Whether a string is an IANA time zone name that Intl understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's time zone, used as the default for new interviews
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Wall clock time of an instant in a time zone, as UTC milliseconds
+function wallClockMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+}
+
+/**
+ * Convert a local date and time in a time zone to a UTC instant
+ *
+ * @param localDateTime - "YYYY-MM-DDTHH:mm", as from a datetime-local input
+ * @param timeZone - IANA time zone the local time is in
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const asUtc = new Date(`${localDateTime}:00Z`).getTime();
+  // The zone's offset at the guessed instant, then again at the result in
+  // case the guess landed on the other side of a DST change
+  const offset = wallClockMs(new Date(asUtc), timeZone) - asUtc;
+  const result = asUtc - offset;
+  const correctedOffset = wallClockMs(new Date(result), timeZone) - result;
+  return new Date(asUtc - correctedOffset);
+}
+
+/**
+ * Convert a UTC instant to local date and time in a time zone
+ *
+ * @returns "YYYY-MM-DDTHH:mm", for a datetime-local input
+ */
+export function utcToZonedTime(date: Date | string, timeZone: string): string {
+  const d = typeof date === "string" ? new Date(date) : date;
+  return new Date(wallClockMs(d, timeZone)).toISOString().slice(0, 16);
+}
+
+/**
+ * Format an interview's time in its own time zone,
+ * e.g. "Mon 3 Mar, 14:00–15:00 CET"
+ */
+export function formatInterviewTime(
+  interview: Pick<Interview, "startsAt" | "endsAt" | "timeZone">
+): string {
+  const { timeZone } = interview;
+  const day = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  }).format(new Date(interview.startsAt));
+  const time = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const zoneName = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    timeZoneName: "short",
+  })
+    .formatToParts(new Date(interview.startsAt))
+    .find((part) => part.type === "timeZoneName")?.value;
+
+  const start = time.format(new Date(interview.startsAt));
+  const end = interview.endsAt
+    ? `–${time.format(new Date(interview.endsAt))}`
+    : "";
+
+  return `${day}, ${start}${end} ${zoneName}`;
+}
+
+/**
+ * Form values for editing an interview in its own time zone
+ */
+export function interviewToFormValues(interview: Interview): InterviewFormData {
+  const start = utcToZonedTime(interview.startsAt, interview.timeZone);
+  const end = interview.endsAt
+    ? utcToZonedTime(interview.endsAt, interview.timeZone)
+    : "";
+
+  return {
+    round: interview.round,
+    date: start.slice(0, 10),
+    startTime: start.slice(11),
+    endTime: end.slice(11),
+    timeZone: interview.timeZone,
+    location: interview.location ?? "",
+    videoUrl: interview.videoUrl ?? "",
+    interviewers: interview.interviewers.join(", "),
+    prepNotes: interview.prepNotes ?? "",
+    outcome: interview.outcome,
+  };
+}
+
+/**
+ * API request body for the interview form, with times converted to UTC
+ */
+export function interviewFormToData(form: InterviewFormData): InterviewData {
+  const { date, startTime, endTime, interviewers, ...rest } = form;
+
+  return {
+    ...rest,
+    startsAt: zonedTimeToUtc(
+      `${date}T${startTime}`,
+      form.timeZone
+    ).toISOString(),
+    endsAt: endTime
+      ? zonedTimeToUtc(`${date}T${endTime}`, form.timeZone).toISOString()
+      : "",
+    interviewers: (interviewers ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+  };
+}
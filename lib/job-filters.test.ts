@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import type { Job } from "@prisma/client";
+import {
+  EMPTY_JOB_FILTERS,
+  filterJobs,
+  hasActiveFilters,
+  parseJobFilters,
+  serializeJobFilters,
+} from "./job-filters";
+import { makeJob } from "@/lib/test-fixtures";
+
+function createJob(overrides: Partial<Job> = {}): Job {
+  return makeJob({
+    company: "Acme",
+    title: "Frontend Developer",
+    location: "Stockholm",
+    order: "i",
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    ...overrides,
+  });
+}
+
+describe("parseJobFilters / serializeJobFilters", () => {
+  it("round-trips active filters through URL params", () => {
+    const filters = {
+      q: "react",
+      company: "Acme",
+      location: "Malmö",
+      hasNotes: true,
+      appliedWithinDays: 14,
+      sortWishlistByDeadline: true,
+    };
+
+    const params = serializeJobFilters(filters);
+
+    expect(params.toString()).toBe(
+      "q=react&company=Acme&location=Malm%C3%B6&notes=1&applied=14&wishlist=deadline"
+    );
+    expect(parseJobFilters(params)).toEqual(filters);
+  });
+
+  it("leaves inactive filters out of the URL", () => {
+    expect(serializeJobFilters(EMPTY_JOB_FILTERS).toString()).toBe("");
+    expect(hasActiveFilters(EMPTY_JOB_FILTERS)).toBe(false);
+    expect(hasActiveFilters({ ...EMPTY_JOB_FILTERS, hasNotes: true })).toBe(
+      true
+    );
+  });
+
+  it("doesn't count the wishlist ordering as a filter", () => {
+    expect(
+      hasActiveFilters({ ...EMPTY_JOB_FILTERS, sortWishlistByDeadline: true })
+    ).toBe(false);
+  });
+
+  it("ignores malformed values", () => {
+    const filters = parseJobFilters(
+      new URLSearchParams("notes=yes&applied=-5")
+    );
+
+    expect(filters).toEqual(EMPTY_JOB_FILTERS);
+  });
+});
+
+describe("filterJobs", () => {
+  const now = new Date("2025-03-31T12:00:00Z");
+
+  it("returns all jobs when no filters are active", () => {
+    const jobs = [createJob({ id: 1 }), createJob({ id: 2 })];
+
+    expect(filterJobs(jobs, EMPTY_JOB_FILTERS, now)).toEqual(jobs);
+  });
+
+  it("matches every search word as a prefix across job text", () => {
+    const jobs = [
+      createJob({ id: 1, notes: "Uses TypeScript" }),
+      createJob({ id: 2, title: "Backend Developer" }),
+    ];
+
+    const result = filterJobs(
+      jobs,
+      { ...EMPTY_JOB_FILTERS, q: "front type" },
+      now
+    );
+
+    expect(result.map((job) => job.id)).toEqual([1]);
+  });
+
+  it("filters by company and location substrings, ignoring case", () => {
+    const jobs = [
+      createJob({ id: 1, company: "Spotify AB", location: "Stockholm" }),
+      createJob({ id: 2, company: "Spotify AB", location: "Göteborg" }),
+      createJob({ id: 3, company: "Klarna", location: "Stockholm" }),
+    ];
+
+    const result = filterJobs(
+      jobs,
+      { ...EMPTY_JOB_FILTERS, company: "spotify", location: "STOCK" },
+      now
+    );
+
+    expect(result.map((job) => job.id)).toEqual([1]);
+  });
+
+  it("keeps only jobs with notes when hasNotes is set", () => {
+    const jobs = [
+      createJob({ id: 1, notes: "Call back Monday" }),
+      createJob({ id: 2, notes: "   " }),
+      createJob({ id: 3 }),
+    ];
+
+    const result = filterJobs(
+      jobs,
+      { ...EMPTY_JOB_FILTERS, hasNotes: true },
+      now
+    );
+
+    expect(result.map((job) => job.id)).toEqual([1]);
+  });
+
+  it("keeps only jobs applied within the last N days", () => {
+    const jobs = [
+      createJob({ id: 1, dateApplied: new Date("2025-03-25") }),
+      createJob({ id: 2, dateApplied: new Date("2025-02-01") }),
+      createJob({ id: 3, dateApplied: null }),
+    ];
+
+    const result = filterJobs(
+      jobs,
+      { ...EMPTY_JOB_FILTERS, appliedWithinDays: 7 },
+      now
+    );
+
+    expect(result.map((job) => job.id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,129 @@
+import { Job } from "@prisma/client";
+import { searchWords } from "@/lib/search";
+
+/**
+ * Client-side board filters. The filter state lives in the URL so a
+ * filtered board can be bookmarked or shared. The wishlist ordering is
+ * kept alongside them for the same reason.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Choices offered for the "applied within last N days" filter */
+export const APPLIED_WITHIN_OPTIONS = [7, 14, 30, 90] as const;
+
+export type JobFilters = {
+  /** Free text matched against company, title, location, notes and posting text */
+  q: string;
+  company: string;
+  location: string;
+  hasNotes: boolean;
+  appliedWithinDays: number | null;
+  /** Show the wishlist by deadline urgency instead of board order */
+  sortWishlistByDeadline: boolean;
+};
+
+export const EMPTY_JOB_FILTERS: JobFilters = {
+  q: "",
+  company: "",
+  location: "",
+  hasNotes: false,
+  appliedWithinDays: null,
+  sortWishlistByDeadline: false,
+};
+
+/**
+ * Read filters from URL search params. Unknown or malformed values are
+ * ignored rather than rejected - a stale bookmark should still open the board.
+ */
+export function parseJobFilters(searchParams: URLSearchParams): JobFilters {
+  const days = Number(searchParams.get("applied"));
+
+  return {
+    q: searchParams.get("q") ?? "",
+    company: searchParams.get("company") ?? "",
+    location: searchParams.get("location") ?? "",
+    hasNotes: searchParams.get("notes") === "1",
+    appliedWithinDays: Number.isInteger(days) && days > 0 ? days : null,
+    sortWishlistByDeadline: searchParams.get("wishlist") === "deadline",
+  };
+}
+
+/**
+ * Write filters to URL search params, leaving out inactive filters
+ */
+export function serializeJobFilters(filters: JobFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.q.trim()) params.set("q", filters.q);
+  if (filters.company.trim()) params.set("company", filters.company);
+  if (filters.location.trim()) params.set("location", filters.location);
+  if (filters.hasNotes) params.set("notes", "1");
+  if (filters.appliedWithinDays) {
+    params.set("applied", String(filters.appliedWithinDays));
+  }
+  if (filters.sortWishlistByDeadline) params.set("wishlist", "deadline");
+
+  return params;
+}
+
+/**
+ * True if any filter hides jobs. The wishlist ordering doesn't count.
+ */
+export function hasActiveFilters(filters: JobFilters): boolean {
+  return (
+    serializeJobFilters({ ...filters, sortWishlistByDeadline: false }).size > 0
+  );
+}
+
+function includesText(value: string | null, filter: string): boolean {
+  const needle = filter.trim().toLowerCase();
+  return !needle || (value ?? "").toLowerCase().includes(needle);
+}
+
+/**
+ * Every search word must be a prefix of a word in the job's text,
+ * matching how the server-side search treats words.
+ */
+function matchesSearch(job: Job, query: string): boolean {
+  const queryWords = searchWords(query);
+  if (queryWords.length === 0) return true;
+
+  const jobWords = searchWords(
+    [job.company, job.title, job.location, job.notes, job.jobPostingText]
+      .filter(Boolean)
+      .join(" ")
+  );
+
+  return queryWords.every((queryWord) =>
+    jobWords.some((jobWord) => jobWord.startsWith(queryWord))
+  );
+}
+
+/**
+ * Apply board filters to a job list, keeping the original order
+ *
+ * @param jobs - Jobs to filter
+ * @param filters - Active filters
+ * @param now - Reference point for "applied within" (injectable for tests)
+ */
+export function filterJobs<T extends Job>(
+  jobs: T[],
+  filters: JobFilters,
+  now = new Date()
+): T[] {
+  const appliedAfter = filters.appliedWithinDays
+    ? now.getTime() - filters.appliedWithinDays * DAY_MS
+    : null;
+
+  return jobs.filter(
+    (job) =>
+      matchesSearch(job, filters.q) &&
+      includesText(job.company, filters.company) &&
+      includesText(job.location, filters.location) &&
+      (!filters.hasNotes || Boolean(job.notes?.trim())) &&
+      (appliedAfter === null ||
+        (job.dateApplied !== null &&
+          new Date(job.dateApplied).getTime() >= appliedAfter))
+  );
+}
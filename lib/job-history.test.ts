@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  boardChangeEntry,
+  contactsChangeEntry,
+  diffJobChanges,
+  lifecycleEntry,
+  serializeHistoryValue,
+  HISTORY_EVENTS,
+} from "./job-history";
+import { makeJob } from "@/lib/test-fixtures";
+
+const USER_ID = "user_123";
+
+const baseJob = makeJob({
+  userId: USER_ID,
+  location: "Stockholm",
+  stageId: 2,
+  dateApplied: new Date("2024-01-15"),
+  jobPostingUrl: "https://example.com/job",
+});
+
+describe("serializeHistoryValue", () => {
+  it("stores empty values as null", () => {
+    expect(serializeHistoryValue(null)).toBeNull();
+    expect(serializeHistoryValue(undefined)).toBeNull();
+    expect(serializeHistoryValue("")).toBeNull();
+  });
+
+  it("stores dates as ISO strings", () => {
+    expect(serializeHistoryValue(new Date("2024-01-15"))).toBe(
+      "2024-01-15T00:00:00.000Z"
+    );
+  });
+
+  it("stores other values as strings", () => {
+    expect(serializeHistoryValue("INTERVIEW")).toBe("INTERVIEW");
+  });
+});
+
+describe("diffJobChanges", () => {
+  it("returns an entry for a stage change", () => {
+    // Act
+    const entries = diffJobChanges(baseJob, { stageId: 3 }, USER_ID);
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        userId: USER_ID,
+        fieldChanged: "stageId",
+        oldValue: "2",
+        newValue: "3",
+      },
+    ]);
+  });
+
+  it("ignores fields whose value did not change", () => {
+    // Act
+    const entries = diffJobChanges(
+      baseJob,
+      {
+        company: "Test Company",
+        dateApplied: new Date("2024-01-15"),
+        notes: null,
+      },
+      USER_ID
+    );
+
+    // Assert
+    expect(entries).toEqual([]);
+  });
+
+  it("ignores fields that are not provided", () => {
+    expect(diffJobChanges(baseJob, { title: undefined }, USER_ID)).toEqual([]);
+  });
+
+  it("ignores untracked fields such as order", () => {
+    const changes = { order: "a1" } as Parameters<typeof diffJobChanges>[1];
+
+    expect(diffJobChanges(baseJob, changes, USER_ID)).toEqual([]);
+  });
+
+  it("records cleared and newly set values", () => {
+    // Act
+    const entries = diffJobChanges(
+      baseJob,
+      { location: null, notes: "Called recruiter" },
+      USER_ID
+    );
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        userId: USER_ID,
+        fieldChanged: "location",
+        oldValue: "Stockholm",
+        newValue: null,
+      },
+      {
+        userId: USER_ID,
+        fieldChanged: "notes",
+        oldValue: null,
+        newValue: "Called recruiter",
+      },
+    ]);
+  });
+});
+
+describe("contactsChangeEntry", () => {
+  it("lists the linked names before and after, sorted", () => {
+    expect(
+      contactsChangeEntry(["Jane Doe"], ["John Smith", "Jane Doe"], USER_ID)
+    ).toEqual({
+      userId: USER_ID,
+      fieldChanged: "contacts",
+      oldValue: serializeHistoryValue(["Jane Doe"]),
+      newValue: serializeHistoryValue(["Jane Doe", "John Smith"]),
+    });
+  });
+
+  it("returns null when the same contacts are linked", () => {
+    expect(contactsChangeEntry(["B", "A"], ["A", "B"], USER_ID)).toBeNull();
+  });
+});
+
+describe("boardChangeEntry", () => {
+  it("records the board names before and after", () => {
+    expect(boardChangeEntry("My board", "Consulting", USER_ID)).toEqual({
+      userId: USER_ID,
+      fieldChanged: "board",
+      oldValue: "My board",
+      newValue: "Consulting",
+    });
+  });
+});
+
+describe("lifecycleEntry", () => {
+  it("stores the stage ID as newValue", () => {
+    expect(lifecycleEntry(HISTORY_EVENTS.CREATED, USER_ID, 1)).toEqual({
+      userId: USER_ID,
+      fieldChanged: "created",
+      oldValue: null,
+      newValue: "1",
+    });
+  });
+
+  it("leaves values empty when no stage is given", () => {
+    expect(lifecycleEntry(HISTORY_EVENTS.DELETED, USER_ID)).toEqual({
+      userId: USER_ID,
+      fieldChanged: "deleted",
+      oldValue: null,
+      newValue: null,
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { Job } from "@prisma/client";
+
+/**
+ * Job fields whose changes are recorded in JobHistory.
+ * `order` is left out on purpose - it changes on every reorder and says
+ * nothing about the application itself.
+ */
+export const TRACKED_JOB_FIELDS = [
+  "company",
+  "title",
+  "location",
+  "stageId",
+  "dateApplied",
+  "deadline",
+  "followUpAt",
+  "jobPostingUrl",
+  "jobPostingText",
+  "notes",
+  "resumeUrl",
+  "coverLetterUrl",
+  "salaryMin",
+  "salaryMax",
+  "salaryCurrency",
+  "salaryPeriod",
+  "employmentType",
+  "remotePolicy",
+  "skills",
+] as const;
+
+export type TrackedJobField = (typeof TRACKED_JOB_FIELDS)[number];
+
+/**
+ * Lifecycle events stored in JobHistory.fieldChanged alongside field names.
+ * For created/imported rows newValue holds the ID of the initial stage.
+ */
+export const HISTORY_EVENTS = {
+  CREATED: "created",
+  IMPORTED: "imported",
+  DELETED: "deleted",
+  RESTORED: "restored",
+} as const;
+
+export type HistoryEvent = (typeof HISTORY_EVENTS)[keyof typeof HISTORY_EVENTS];
+
+/** A history row before jobId is known (shape used for nested writes) */
+export type JobHistoryEntry = {
+  userId: string;
+  fieldChanged: string;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+/**
+ * Serialize a job field value for storage in JobHistory (text columns).
+ * Dates are stored as ISO strings, lists comma-separated, empty values as
+ * null.
+ */
+export function serializeHistoryValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : null;
+  return String(value);
+}
+
+/**
+ * Compare an existing job with update data and build one history entry per
+ * tracked field that actually changed. Fields missing from `changes` are
+ * treated as untouched.
+ *
+ * @param existing - The job as currently stored
+ * @param changes - Update data about to be written (Prisma-ready values)
+ * @param userId - The user making the change
+ */
+export function diffJobChanges(
+  existing: Pick<Job, TrackedJobField>,
+  changes: Partial<Record<TrackedJobField, unknown>>,
+  userId: string
+): JobHistoryEntry[] {
+  const entries: JobHistoryEntry[] = [];
+
+  for (const field of TRACKED_JOB_FIELDS) {
+    if (!(field in changes) || changes[field] === undefined) continue;
+
+    const oldValue = serializeHistoryValue(existing[field]);
+    const newValue = serializeHistoryValue(changes[field]);
+
+    if (oldValue !== newValue) {
+      entries.push({ userId, fieldChanged: field, oldValue, newValue });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * History entry for a change to a job's linked contacts, listing the
+ * contact names before and after, or null if the links didn't change
+ *
+ * @param oldNames - Names of the contacts linked before
+ * @param newNames - Names of the contacts linked after
+ * @param userId - The user making the change
+ */
+export function contactsChangeEntry(
+  oldNames: string[],
+  newNames: string[],
+  userId: string
+): JobHistoryEntry | null {
+  const oldValue = serializeHistoryValue([...oldNames].sort());
+  const newValue = serializeHistoryValue([...newNames].sort());
+
+  return oldValue === newValue
+    ? null
+    : { userId, fieldChanged: "contacts", oldValue, newValue };
+}
+
+/**
+ * History entry for a job moving to another board, with the board names
+ * before and after (IDs would mean nothing once a board is deleted)
+ *
+ * @param oldName - Name of the board the job was on
+ * @param newName - Name of the board it moved to
+ * @param userId - The user making the change
+ */
+export function boardChangeEntry(
+  oldName: string | null,
+  newName: string | null,
+  userId: string
+): JobHistoryEntry {
+  return {
+    userId,
+    fieldChanged: "board",
+    oldValue: oldName,
+    newValue: newName,
+  };
+}
+
+/**
+ * Build a lifecycle history entry (created, imported, deleted, restored)
+ *
+ * @param event - The lifecycle event
+ * @param userId - The user triggering the event
+ * @param stageId - The job's stage at the time of the event, if relevant
+ */
+export function lifecycleEntry(
+  event: HistoryEvent,
+  userId: string,
+  stageId?: Job["stageId"]
+): JobHistoryEntry {
+  return {
+    userId,
+    fieldChanged: event,
+    oldValue: null,
+    newValue: serializeHistoryValue(stageId),
+  };
+}
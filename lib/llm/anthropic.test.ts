@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createAnthropicProvider } from "./anthropic";
+import type { LLMConfig, LLMTool } from "./types";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const config: LLMConfig = {
+  provider: "anthropic",
+  baseUrl: "https://proxy.example.com",
+  model: "claude-test",
+  apiKey: "sk-ant",
+  timeoutMs: 1000,
+  maxTokens: 512,
+};
+
+const tool: LLMTool = {
+  name: "record",
+  description: "Record data",
+  inputSchema: { type: "object", properties: {} },
+};
+
+describe("createAnthropicProvider", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("uses the configured base URL, model and token limit", async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        content: [
+          { type: "text", text: "Recording." },
+          { type: "tool_use", id: "toolu_1", name: "record", input: { a: 1 } },
+        ],
+      }),
+    });
+
+    // Act
+    const response = await createAnthropicProvider(config).callTool({
+      messages: [
+        { role: "user", content: "Extract" },
+        { role: "tool", toolCallId: "toolu_0", content: "Bad", isError: true },
+      ],
+      tool,
+    });
+
+    // Assert
+    expect(response).toEqual({
+      text: "Recording.",
+      toolCall: { id: "toolu_1", name: "record", input: { a: 1 } },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://proxy.example.com/v1/messages");
+
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({
+      model: "claude-test",
+      max_tokens: 512,
+      tool_choice: { type: "tool", name: "record" },
+    });
+    expect(body.messages[1]).toEqual({
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "toolu_0",
+          content: "Bad",
+          is_error: true,
+        },
+      ],
+    });
+  });
+
+  it("throws without an API key", async () => {
+    await expect(
+      createAnthropicProvider({ ...config, apiKey: undefined }).callTool({
+        messages: [{ role: "user", content: "Extract" }],
+        tool,
+      })
+    ).rejects.toThrow("ANTHROPIC_API_KEY environment variable is not set");
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
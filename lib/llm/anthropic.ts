@@ -0,0 +1,96 @@
+import type { LLMConfig, LLMMessage, LLMProvider } from "./types";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown };
+
+function toAnthropicMessage(message: LLMMessage) {
+  switch (message.role) {
+    case "user":
+      return { role: "user", content: message.content };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: [
+          ...(message.text ? [{ type: "text", text: message.text }] : []),
+          ...(message.toolCall
+            ? [{ type: "tool_use", ...message.toolCall }]
+            : []),
+        ],
+      };
+    case "tool":
+      return {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: message.toolCallId,
+            content: message.content,
+            is_error: message.isError,
+          },
+        ],
+      };
+  }
+}
+
+/**
+ * Anthropic Messages API, with the tool forced via tool_choice
+ */
+export function createAnthropicProvider(config: LLMConfig): LLMProvider {
+  return {
+    id: "anthropic",
+    async callTool({ messages, tool }) {
+      if (!config.apiKey) {
+        throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+      }
+
+      const response = await fetch(`${config.baseUrl}/v1/messages`, {
+        method: "POST",
+        signal: AbortSignal.timeout(config.timeoutMs),
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": config.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          tools: [
+            {
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema,
+            },
+          ],
+          tool_choice: { type: "tool", name: tool.name },
+          messages: messages.map(toAnthropicMessage),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Claude API request failed: ${response.status} ${errorText}`
+        );
+      }
+
+      const data = await response.json();
+      const content: AnthropicContentBlock[] = data.content;
+
+      if (!Array.isArray(content) || content.length === 0) {
+        throw new Error("No content in Claude API response");
+      }
+
+      const toolUse = content.find((block) => block.type === "tool_use");
+
+      return {
+        text: content
+          .map((block) => (block.type === "text" ? block.text : ""))
+          .join(""),
+        toolCall: toolUse
+          ? { id: toolUse.id, name: toolUse.name, input: toolUse.input }
+          : null,
+      };
+    },
+  };
+}
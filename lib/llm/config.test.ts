@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { getLLMConfig, isLLMConfigured } from "./config";
+
+describe("getLLMConfig", () => {
+  it("defaults to Anthropic with the ANTHROPIC_API_KEY", () => {
+    expect(getLLMConfig({ ANTHROPIC_API_KEY: "sk-ant" })).toEqual({
+      provider: "anthropic",
+      baseUrl: "https://api.anthropic.com",
+      model: "claude-sonnet-4-5-20250929",
+      apiKey: "sk-ant",
+      timeoutMs: 30000,
+      maxTokens: 4096,
+    });
+  });
+
+  it("reads an OpenAI-compatible local server configuration", () => {
+    // Act
+    const config = getLLMConfig({
+      LLM_PROVIDER: "openai",
+      LLM_BASE_URL: "http://localhost:11434/v1/",
+      LLM_MODEL: "llama3.1",
+      LLM_TIMEOUT_MS: "120000",
+      LLM_MAX_TOKENS: "2048",
+      ANTHROPIC_API_KEY: "sk-ant",
+    });
+
+    // Assert
+    expect(config).toEqual({
+      provider: "openai",
+      baseUrl: "http://localhost:11434/v1",
+      model: "llama3.1",
+      apiKey: undefined,
+      timeoutMs: 120000,
+      maxTokens: 2048,
+    });
+  });
+
+  it("prefers LLM_API_KEY over the provider's key", () => {
+    const config = getLLMConfig({
+      LLM_PROVIDER: "openai",
+      LLM_API_KEY: "generic",
+      OPENAI_API_KEY: "sk-openai",
+    });
+
+    expect(config.apiKey).toBe("generic");
+    expect(config.model).toBe("gpt-4o-mini");
+  });
+
+  it("rejects an unknown provider", () => {
+    expect(() => getLLMConfig({ LLM_PROVIDER: "gemini" })).toThrow(
+      'Unknown LLM_PROVIDER "gemini" (expected anthropic, openai, stub)'
+    );
+  });
+
+  it("rejects limits that aren't positive integers", () => {
+    expect(() => getLLMConfig({ LLM_TIMEOUT_MS: "soon" })).toThrow(
+      "LLM_TIMEOUT_MS must be a positive integer"
+    );
+    expect(() => getLLMConfig({ LLM_MAX_TOKENS: "0" })).toThrow(
+      "LLM_MAX_TOKENS must be a positive integer"
+    );
+  });
+});
+
+describe("isLLMConfigured", () => {
+  it("requires a key for Anthropic", () => {
+    expect(isLLMConfigured(getLLMConfig({}))).toBe(false);
+    expect(isLLMConfigured(getLLMConfig({ ANTHROPIC_API_KEY: "sk" }))).toBe(
+      true
+    );
+  });
+
+  it("requires a key or a custom base URL for OpenAI-compatible APIs", () => {
+    expect(isLLMConfigured(getLLMConfig({ LLM_PROVIDER: "openai" }))).toBe(
+      false
+    );
+    expect(
+      isLLMConfigured(
+        getLLMConfig({
+          LLM_PROVIDER: "openai",
+          LLM_BASE_URL: "http://localhost:8080/v1",
+        })
+      )
+    ).toBe(true);
+  });
+
+  it("is always true for the stub", () => {
+    expect(isLLMConfigured(getLLMConfig({ LLM_PROVIDER: "stub" }))).toBe(true);
+  });
+});
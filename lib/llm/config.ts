@@ -0,0 +1,94 @@
+import { LLM_PROVIDER_IDS, type LLMConfig, type LLMProviderId } from "./types";
+
+const DEFAULTS: Record<LLMProviderId, { baseUrl: string; model: string }> = {
+  anthropic: {
+    baseUrl: "https://api.anthropic.com",
+    model: "claude-sonnet-4-5-20250929",
+  },
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" },
+  stub: { baseUrl: "", model: "stub" },
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_TOKENS = 4096; // Enough for long job descriptions
+
+function parsePositiveInt(
+  value: string | undefined,
+  name: string,
+  fallback: number
+): number {
+  if (!value) return fallback;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Read the LLM configuration from the environment:
+ * - LLM_PROVIDER: anthropic (default), openai (any OpenAI-compatible API,
+ *   including local Ollama/llama.cpp servers) or stub (offline, for e2e)
+ * - LLM_BASE_URL, LLM_MODEL: default to the provider's public API
+ * - LLM_API_KEY: falls back to ANTHROPIC_API_KEY / OPENAI_API_KEY
+ * - LLM_TIMEOUT_MS, LLM_MAX_TOKENS
+ *
+ * @throws Error if a value is invalid
+ */
+export function getLLMConfig(
+  env: Record<string, string | undefined> = process.env
+): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "anthropic") as LLMProviderId;
+
+  if (!LLM_PROVIDER_IDS.includes(provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}" (expected ${LLM_PROVIDER_IDS.join(", ")})`
+    );
+  }
+
+  const fallbackKey =
+    provider === "anthropic"
+      ? env.ANTHROPIC_API_KEY
+      : provider === "openai"
+        ? env.OPENAI_API_KEY
+        : undefined;
+
+  return {
+    provider,
+    baseUrl: (env.LLM_BASE_URL || DEFAULTS[provider].baseUrl).replace(
+      /\/+$/,
+      ""
+    ),
+    model: env.LLM_MODEL || DEFAULTS[provider].model,
+    apiKey: env.LLM_API_KEY || fallbackKey || undefined,
+    timeoutMs: parsePositiveInt(
+      env.LLM_TIMEOUT_MS,
+      "LLM_TIMEOUT_MS",
+      DEFAULT_TIMEOUT_MS
+    ),
+    maxTokens: parsePositiveInt(
+      env.LLM_MAX_TOKENS,
+      "LLM_MAX_TOKENS",
+      DEFAULT_MAX_TOKENS
+    ),
+  };
+}
+
+/**
+ * True if the configured provider can be called: the hosted APIs need a
+ * key, while a custom OpenAI-compatible base URL (a local server) and the
+ * stub don't
+ */
+export function isLLMConfigured(config: LLMConfig): boolean {
+  switch (config.provider) {
+    case "anthropic":
+      return Boolean(config.apiKey);
+    case "openai":
+      return (
+        Boolean(config.apiKey) || config.baseUrl !== DEFAULTS.openai.baseUrl
+      );
+    case "stub":
+      return true;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Provider-agnostic LLM client, configured by environment (see getLLMConfig)
+ */
+
+import { getLLMConfig, isLLMConfigured } from "./config";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAIProvider } from "./openai";
+import { createStubProvider } from "./stub";
+import type { LLMConfig, LLMProvider } from "./types";
+
+export type {
+  LLMConfig,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderId,
+  LLMTool,
+  LLMToolCall,
+  LLMToolResponse,
+} from "./types";
+export { getLLMConfig, isLLMConfigured };
+
+/**
+ * Create the provider for a configuration
+ */
+export function createLLMProvider(
+  config: LLMConfig = getLLMConfig()
+): LLMProvider {
+  switch (config.provider) {
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "openai":
+      return createOpenAIProvider(config);
+    case "stub":
+      return createStubProvider();
+  }
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createOpenAIProvider } from "./openai";
+import type { LLMConfig, LLMTool } from "./types";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const config: LLMConfig = {
+  provider: "openai",
+  baseUrl: "http://localhost:11434/v1",
+  model: "llama3.1",
+  timeoutMs: 1000,
+  maxTokens: 512,
+};
+
+const tool: LLMTool = {
+  name: "record",
+  description: "Record data",
+  inputSchema: { type: "object", properties: {} },
+};
+
+const mockCompletion = (message: unknown) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ choices: [{ message }] }),
+  });
+};
+
+describe("createOpenAIProvider", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("forces the tool as a function call and parses its arguments", async () => {
+    // Arrange
+    mockCompletion({
+      content: null,
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "record", arguments: '{"company":"Acme"}' },
+        },
+      ],
+    });
+
+    // Act
+    const response = await createOpenAIProvider(config).callTool({
+      messages: [{ role: "user", content: "Extract" }],
+      tool,
+    });
+
+    // Assert
+    expect(response).toEqual({
+      text: "",
+      toolCall: { id: "call_1", name: "record", input: { company: "Acme" } },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({
+      model: "llama3.1",
+      max_tokens: 512,
+      tool_choice: { type: "function", function: { name: "record" } },
+      tools: [{ type: "function", function: { parameters: tool.inputSchema } }],
+    });
+  });
+
+  it("sends the API key and maps tool results to tool messages", async () => {
+    // Arrange
+    mockCompletion({ content: "Done" });
+
+    // Act
+    const response = await createOpenAIProvider({
+      ...config,
+      apiKey: "sk-test",
+    }).callTool({
+      messages: [
+        { role: "user", content: "Extract" },
+        {
+          role: "assistant",
+          toolCall: { id: "call_1", name: "record", input: { a: 1 } },
+        },
+        {
+          role: "tool",
+          toolCallId: "call_1",
+          content: "Invalid",
+          isError: true,
+        },
+      ],
+      tool,
+    });
+
+    // Assert
+    expect(response).toEqual({ text: "Done", toolCall: null });
+
+    const init = mockFetch.mock.calls[0][1];
+    expect(init.headers.Authorization).toBe("Bearer sk-test");
+    expect(JSON.parse(init.body).messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "record", arguments: '{"a":1}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "Invalid" },
+    ]);
+  });
+
+  it("passes unparseable arguments on for validation", async () => {
+    mockCompletion({
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "record", arguments: "{not json" },
+        },
+      ],
+    });
+
+    const response = await createOpenAIProvider(config).callTool({
+      messages: [{ role: "user", content: "Extract" }],
+      tool,
+    });
+
+    expect(response.toolCall?.input).toBe("{not json");
+  });
+
+  it("throws when the request fails or has no message", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      text: async () => "model not loaded",
+    });
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+    const provider = createOpenAIProvider(config);
+    const request = {
+      messages: [{ role: "user" as const, content: "Extract" }],
+      tool,
+    };
+
+    await expect(provider.callTool(request)).rejects.toThrow(
+      "LLM API request failed: 500 model not loaded"
+    );
+    await expect(provider.callTool(request)).rejects.toThrow(
+      "No content in LLM API response"
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import type { LLMConfig, LLMMessage, LLMProvider } from "./types";
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+function toOpenAIMessage(message: LLMMessage) {
+  switch (message.role) {
+    case "user":
+      return { role: "user", content: message.content };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.text || null,
+        ...(message.toolCall && {
+          tool_calls: [
+            {
+              id: message.toolCall.id,
+              type: "function",
+              function: {
+                name: message.toolCall.name,
+                arguments: JSON.stringify(message.toolCall.input),
+              },
+            },
+          ],
+        }),
+      };
+    case "tool":
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+  }
+}
+
+/**
+ * Arguments arrive as a JSON string. Unparseable arguments are passed on
+ * as-is, so schema validation reports them and the caller can retry.
+ */
+function parseArguments(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
+
+/**
+ * OpenAI Chat Completions API and compatible servers (Ollama, llama.cpp,
+ * vLLM, ...), with the tool forced as a function call
+ */
+export function createOpenAIProvider(config: LLMConfig): LLMProvider {
+  return {
+    id: "openai",
+    async callTool({ messages, tool }) {
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        signal: AbortSignal.timeout(config.timeoutMs),
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          tools: [
+            {
+              type: "function",
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.inputSchema,
+              },
+            },
+          ],
+          tool_choice: { type: "function", function: { name: tool.name } },
+          messages: messages.map(toOpenAIMessage),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `LLM API request failed: ${response.status} ${errorText}`
+        );
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+
+      if (!message) {
+        throw new Error("No content in LLM API response");
+      }
+
+      const toolCall: OpenAIToolCall | undefined = message.tool_calls?.[0];
+
+      return {
+        text: message.content ?? "",
+        toolCall: toolCall
+          ? {
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: parseArguments(toolCall.function.arguments),
+            }
+          : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createStubProvider } from "./stub";
+import type { LLMTool } from "./types";
+
+const tool: LLMTool = {
+  name: "record_job_posting",
+  description: "Record the structured data of a job posting",
+  inputSchema: {
+    type: "object",
+    properties: {
+      company: { type: ["string", "null"] },
+      title: { type: ["string", "null"] },
+      notes: { type: ["string", "null"] },
+      confidence: { type: "object" },
+    },
+  },
+};
+
+describe("createStubProvider", () => {
+  it("fills properties from labeled lines, case-insensitively", async () => {
+    // Act
+    const response = await createStubProvider().callTool({
+      messages: [
+        {
+          role: "user",
+          content: "Job posting text:\nCOMPANY:  Stub Corp \ntitle: Tester",
+        },
+      ],
+      tool,
+    });
+
+    // Assert
+    expect(response).toEqual({
+      text: "",
+      toolCall: {
+        id: "stub_1",
+        name: "record_job_posting",
+        input: {
+          company: "Stub Corp",
+          title: "Tester",
+          notes: null,
+          confidence: {},
+        },
+      },
+    });
+  });
+
+  it("converts values to numbers, lists and enum options", async () => {
+    // Arrange
+    const typedTool: LLMTool = {
+      ...tool,
+      inputSchema: {
+        type: "object",
+        properties: {
+          salaryMin: { anyOf: [{ type: "integer" }, { type: "null" }] },
+          salaryMax: { anyOf: [{ type: "integer" }, { type: "null" }] },
+          employmentType: {
+            anyOf: [
+              { type: "string", enum: ["FULL_TIME", "PART_TIME"] },
+              { type: "null" },
+            ],
+          },
+          remotePolicy: {
+            anyOf: [{ type: "string", enum: ["REMOTE"] }, { type: "null" }],
+          },
+          skills: {
+            anyOf: [
+              { type: "array", items: { type: "string" } },
+              { type: "null" },
+            ],
+          },
+        },
+      },
+    };
+
+    // Act
+    const response = await createStubProvider().callTool({
+      messages: [
+        {
+          role: "user",
+          content: [
+            "salaryMin: 45 000",
+            "salaryMax: plenty",
+            "employmentType: full-time",
+            "remotePolicy: sometimes",
+            "skills: TypeScript, React",
+          ].join("\n"),
+        },
+      ],
+      tool: typedTool,
+    });
+
+    // Assert
+    expect(response.toolCall?.input).toEqual({
+      salaryMin: 45000,
+      salaryMax: null,
+      employmentType: "FULL_TIME",
+      remotePolicy: null,
+      skills: ["TypeScript", "React"],
+    });
+  });
+
+  it("is deterministic", async () => {
+    const request = {
+      messages: [{ role: "user" as const, content: "Company: Same" }],
+      tool,
+    };
+
+    const first = await createStubProvider().callTool(request);
+    const second = await createStubProvider().callTool(request);
+
+    expect(second).toEqual(first);
+  });
+});
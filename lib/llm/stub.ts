@@ -0,0 +1,84 @@
+import type { LLMProvider } from "./types";
+
+type JsonSchemaProperty = {
+  type?: string;
+  enum?: string[];
+  anyOf?: JsonSchemaProperty[];
+};
+
+/**
+ * Read "Label: value" lines, matching labels case-insensitively
+ */
+function findLabeledValue(text: string, label: string): string | null {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = text.match(new RegExp(`^\\s*${escaped}\\s*:\\s*(.+)$`, "im"));
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Convert a labeled value to the property's type, or null if it doesn't fit
+ */
+function toPropertyValue(
+  value: string | null,
+  property: JsonSchemaProperty
+): unknown {
+  // Nullable properties are an anyOf with a null branch
+  const schema =
+    property.anyOf?.find((branch) => branch.type !== "null") ?? property;
+
+  if (schema.type === "object") return {};
+  if (value === null) return null;
+
+  switch (schema.type) {
+    case "integer":
+    case "number": {
+      const number = Number(value.replace(/[\s,]/g, ""));
+      return Number.isFinite(number) ? number : null;
+    }
+    case "array":
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default: {
+      if (!schema.enum) return value;
+      const option = value.toUpperCase().replace(/[\s-]+/g, "_");
+      return schema.enum.includes(option) ? option : null;
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider for e2e tests and local development.
+ * Calls the tool with every property filled from a matching
+ * "property: value" line in the conversation (e.g. "company: Acme" or
+ * "skills: TypeScript, React"), null when there is none, and every object
+ * property empty.
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    id: "stub",
+    async callTool({ messages, tool }) {
+      const text = messages
+        .map((message) => (message.role === "user" ? message.content : ""))
+        .join("\n");
+
+      const properties = (tool.inputSchema.properties ?? {}) as Record<
+        string,
+        JsonSchemaProperty
+      >;
+
+      const input = Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [
+          name,
+          toPropertyValue(findLabeledValue(text, name), property),
+        ])
+      );
+
+      return {
+        text: "",
+        toolCall: { id: `stub_${messages.length}`, name: tool.name, input },
+      };
+    },
+  };
+}
@@ -0,0 +1,54 @@
+export const LLM_PROVIDER_IDS = ["anthropic", "openai", "stub"] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export type LLMConfig = {
+  provider: LLMProviderId;
+  /** API root, e.g. https://api.anthropic.com or http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Optional for OpenAI-compatible local servers (Ollama, llama.cpp) */
+  apiKey?: string;
+  timeoutMs: number;
+  maxTokens: number;
+};
+
+/** A tool the model is forced to call, described by a JSON schema */
+export type LLMTool = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  /** Unvalidated; callers check it against their own schema */
+  input: unknown;
+};
+
+/**
+ * Provider-neutral conversation turns. Each provider maps these to its own
+ * wire format (content blocks, tool_calls, ...).
+ */
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; text?: string; toolCall?: LLMToolCall }
+  | { role: "tool"; toolCallId: string; content: string; isError: boolean };
+
+export type LLMToolResponse = {
+  text: string;
+  toolCall: LLMToolCall | null;
+};
+
+export type LLMProvider = {
+  id: LLMProviderId;
+  /**
+   * Send the conversation and force a call to `tool`
+   * @throws Error if the request fails or the response is empty
+   */
+  callTool: (request: {
+    messages: LLMMessage[];
+    tool: LLMTool;
+  }) => Promise<LLMToolResponse>;
+};
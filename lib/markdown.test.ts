@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown, safeHref } from "./markdown";
+
+describe("safeHref", () => {
+  it("keeps http(s) and mailto URLs", () => {
+    expect(safeHref("https://example.com/jobs")).toBe(
+      "https://example.com/jobs"
+    );
+    expect(safeHref(" http://example.com ")).toBe("http://example.com");
+    expect(safeHref("mailto:hr@example.com")).toBe("mailto:hr@example.com");
+  });
+
+  it("rejects other URLs", () => {
+    expect(safeHref("javascript:alert(1)")).toBeNull();
+    expect(safeHref("JavaScript:alert(1)")).toBeNull();
+    expect(safeHref("data:text/html,<script>")).toBeNull();
+    expect(safeHref("/relative")).toBeNull();
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses headings, paragraphs and rules", () => {
+    expect(parseMarkdown("## About us\n\nWe build things.\n\n---")).toEqual([
+      {
+        type: "heading",
+        level: 2,
+        children: [{ type: "text", text: "About us" }],
+      },
+      {
+        type: "paragraph",
+        children: [{ type: "text", text: "We build things." }],
+      },
+      { type: "rule" },
+    ]);
+  });
+
+  it("keeps single line breaks inside a paragraph", () => {
+    expect(parseMarkdown("Line one\nLine two")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", text: "Line one" },
+          { type: "break" },
+          { type: "text", text: "Line two" },
+        ],
+      },
+    ]);
+  });
+
+  it("parses bullet and numbered lists", () => {
+    const blocks = parseMarkdown(
+      "- TypeScript\n* React\n  and Next.js\n\n1. Apply\n2) Interview"
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "list",
+        ordered: false,
+        items: [
+          [{ type: "text", text: "TypeScript" }],
+          [{ type: "text", text: "React and Next.js" }],
+        ],
+      },
+      {
+        type: "list",
+        ordered: true,
+        items: [
+          [{ type: "text", text: "Apply" }],
+          [{ type: "text", text: "Interview" }],
+        ],
+      },
+    ]);
+  });
+
+  it("parses block quotes and fenced code", () => {
+    const blocks = parseMarkdown("> Quoted **text**\n\n```\nconst a = 1;\n```");
+
+    expect(blocks).toEqual([
+      {
+        type: "blockquote",
+        children: [
+          {
+            type: "paragraph",
+            children: [
+              { type: "text", text: "Quoted " },
+              { type: "strong", children: [{ type: "text", text: "text" }] },
+            ],
+          },
+        ],
+      },
+      { type: "code", text: "const a = 1;" },
+    ]);
+  });
+
+  it("ends a paragraph at a list", () => {
+    expect(
+      parseMarkdown("Requirements:\n- Go").map((block) => block.type)
+    ).toEqual(["paragraph", "list"]);
+  });
+
+  it("returns no blocks for blank input", () => {
+    expect(parseMarkdown("")).toEqual([]);
+    expect(parseMarkdown("  \n\n ")).toEqual([]);
+  });
+});
+
+describe("parseInline", () => {
+  it("parses bold, italic and code", () => {
+    expect(parseInline("**bold** and *italic* and `code`")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " and " },
+      { type: "em", children: [{ type: "text", text: "italic" }] },
+      { type: "text", text: " and " },
+      { type: "code", text: "code" },
+    ]);
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(parseInline("use snake_case_names")).toEqual([
+      { type: "text", text: "use snake_case_names" },
+    ]);
+  });
+
+  it("leaves unmatched delimiters and escapes as text", () => {
+    expect(parseInline("5 * 3 and \\*not italic\\*")).toEqual([
+      { type: "text", text: "5 * 3 and *not italic*" },
+    ]);
+  });
+
+  it("parses links with safe URLs", () => {
+    expect(parseInline("[Careers](https://example.com/careers)")).toEqual([
+      {
+        type: "link",
+        href: "https://example.com/careers",
+        children: [{ type: "text", text: "Careers" }],
+      },
+    ]);
+  });
+
+  it("keeps only the text of links with unsafe URLs", () => {
+    expect(parseInline("[click me](javascript:alert`1`) now")).toEqual([
+      { type: "text", text: "click me" },
+      { type: "text", text: " now" },
+    ]);
+  });
+
+  it("links bare URLs without trailing punctuation", () => {
+    expect(parseInline("See https://example.com/jobs/1.")).toEqual([
+      { type: "text", text: "See " },
+      {
+        type: "link",
+        href: "https://example.com/jobs/1",
+        children: [{ type: "text", text: "https://example.com/jobs/1" }],
+      },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("keeps HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+      { type: "text", text: "<img src=x onerror=alert(1)>" },
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * A small markdown parser for comments, notes and job posting text. It
+ * turns the source into blocks and inline nodes that components/markdown.tsx
+ * renders as React elements, so there is no HTML to sanitize: raw HTML in
+ * the source stays text, and links only keep http(s) and mailto URLs.
+ *
+ * Supported: headings (#), paragraphs, bullet and numbered lists, block
+ * quotes (>), fenced code blocks, horizontal rules, **bold**, *italic*,
+ * `code`, [links](https://...) and bare URLs. A single line break is kept
+ * as a line break, as in chat and issue trackers.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d{1,9}[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BARE_URL = /^https?:\/\/[^\s<>]+/;
+const LINK = /^\[([^\]]+)\]\(\s*([^)\s]+)\s*\)/;
+
+/**
+ * The URL to link to, or null for anything but http(s) and mailto links
+ * (javascript: and data: URLs in particular)
+ */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Whether a line starts a block other than a paragraph, which ends the
+ * paragraph before it
+ */
+function startsBlock(line: string): boolean {
+  return (
+    HEADING.test(line) ||
+    BULLET_ITEM.test(line) ||
+    ORDERED_ITEM.test(line) ||
+    QUOTE.test(line) ||
+    FENCE.test(line) ||
+    RULE.test(line)
+  );
+}
+
+/**
+ * Parse markdown into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // the closing fence, if any
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    // Checked before lists: "---" and "* * *" are rules, not items
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({
+        type: "blockquote",
+        children: parseMarkdown(quoted.join("\n")),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(itemPattern);
+        if (item) {
+          items.push(item[1]);
+        } else if (/^\s+/.test(lines[i]) && !startsBlock(lines[i])) {
+          // An indented line continues the item above it
+          items[items.length - 1] += " " + lines[i].trim();
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        items: items.map((item) => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the end of an emphasis run: the next delimiter that isn't empty
+ * and doesn't follow a space
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let index = text.indexOf(delimiter, from + 1);
+  while (index !== -1) {
+    if (index > from && text[index - 1] !== " ") return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parse the inline formatting of a block's text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Backslash escapes a formatting character
+    if (
+      char === "\\" &&
+      i + 1 < text.length &&
+      /[\\`*_[\]()#>-]/.test(text[i + 1])
+    ) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const strong = rest.startsWith("**")
+      ? "**"
+      : rest.startsWith("__")
+        ? "__"
+        : null;
+    if (strong && rest[2] && rest[2] !== " ") {
+      const end = findClosing(text, strong, i + 1);
+      if (end > i + 2) {
+        flush();
+        nodes.push({
+          type: "strong",
+          children: parseInline(text.slice(i + 2, end)),
+        });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) aren't emphasis
+    const opensEm =
+      (char === "*" || (char === "_" && !/\w/.test(text[i - 1] ?? ""))) &&
+      text[i + 1] &&
+      text[i + 1] !== " " &&
+      text[i + 1] !== char;
+    if (opensEm) {
+      const end = findClosing(text, char, i);
+      const closesWord = char === "*" || !/\w/.test(text[end + 1] ?? "");
+      if (end > i + 1 && closesWord) {
+        flush();
+        nodes.push({
+          type: "em",
+          children: parseInline(text.slice(i + 1, end)),
+        });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = rest.match(LINK);
+      if (link) {
+        const href = safeHref(link[2]);
+        flush();
+        if (href) {
+          nodes.push({ type: "link", href, children: parseInline(link[1]) });
+        } else {
+          // Unsafe URLs lose the link but keep their text
+          nodes.push(...parseInline(link[1]));
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((char === "h" || char === "H") && !/\w/.test(text[i - 1] ?? "")) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        // Trailing punctuation ends the sentence, not the URL
+        const href = url[0].replace(/[.,;:!?)\]'"]+$/, "");
+        flush();
+        nodes.push({
+          type: "link",
+          href,
+          children: [{ type: "text", text: href }],
+        });
+        i += href.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -0,0 +1,93 @@
+import { prisma } from "@/lib/prisma";
+import { BoardMember, BoardRole } from "@prisma/client";
+
+/**
+ * Fetch a user's membership of a board shared with them
+ *
+ * @returns The membership, or null if the board isn't shared with the user
+ */
+export async function getBoardMembership(boardId: number, userId: string) {
+  return await prisma.boardMember.findUnique({
+    where: { boardId_userId: { boardId, userId } },
+  });
+}
+
+/**
+ * Fetch a board's collaborators, including pending invites, by email
+ */
+export async function getBoardMembers(boardId: number) {
+  return await prisma.boardMember.findMany({
+    where: { boardId },
+    orderBy: { email: "asc" },
+  });
+}
+
+/**
+ * Fetch a single membership by ID
+ * Note: Caller must check the board for authorization
+ */
+export async function getBoardMemberById(id: number) {
+  return await prisma.boardMember.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Invite someone to a board by email
+ * Note: Caller must check the inviting user may manage the board
+ */
+export type InviteBoardMemberInput = Pick<
+  BoardMember,
+  "boardId" | "email" | "role" | "invitedBy"
+>;
+
+export async function inviteBoardMember(data: InviteBoardMemberInput) {
+  return await prisma.boardMember.create({ data });
+}
+
+/**
+ * Change a collaborator's role
+ * Note: Caller must check the board for authorization
+ */
+export async function updateBoardMemberRole(id: number, role: BoardRole) {
+  return await prisma.boardMember.update({
+    where: { id },
+    data: { role },
+  });
+}
+
+/**
+ * Remove a collaborator or withdraw an invite
+ * Note: Caller must check the board for authorization
+ */
+export async function removeBoardMember(id: number) {
+  return await prisma.boardMember.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Link the open invites for any of a user's email addresses to the user,
+ * which gives them access to those boards
+ *
+ * @param userId - The signed-in user
+ * @param emails - Their verified addresses, normalized (see normalizeEmail)
+ */
+export async function claimBoardInvites(userId: string, emails: string[]) {
+  if (emails.length === 0) return { count: 0 };
+
+  // Boards the user already joined through another address stay as they are
+  const joined = await prisma.boardMember.findMany({
+    where: { userId },
+    select: { boardId: true },
+  });
+
+  return await prisma.boardMember.updateMany({
+    where: {
+      email: { in: emails },
+      userId: null,
+      boardId: { notIn: joined.map((member) => member.boardId) },
+    },
+    data: { userId },
+  });
+}
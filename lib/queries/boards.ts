@@ -0,0 +1,126 @@
+import { prisma } from "@/lib/prisma";
+import { Board, Prisma } from "@prisma/client";
+import { BoardWithRole, DEFAULT_BOARD_NAME, sortBoards } from "@/lib/boards";
+
+/**
+ * Fetch all of a user's boards, oldest first. Users without any get the
+ * default board first.
+ *
+ * @param userId - The user the boards belong to
+ * @param db - Client to use, e.g. a transaction
+ */
+export async function getBoardsByUserId(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  const boards = await db.board.findMany({
+    where: { userId },
+    orderBy: { id: "asc" },
+  });
+  if (boards.length > 0) return boards;
+
+  // skipDuplicates makes concurrent first requests create it only once
+  await db.board.createMany({
+    data: [{ userId, name: DEFAULT_BOARD_NAME }],
+    skipDuplicates: true,
+  });
+
+  return await db.board.findMany({
+    where: { userId },
+    orderBy: { id: "asc" },
+  });
+}
+
+/**
+ * Fetch the boards a user can open: their own (creating the default board
+ * if needed) and those shared with them, each with the user's role
+ */
+export async function getAccessibleBoards(
+  userId: string
+): Promise<BoardWithRole[]> {
+  const [own, memberships] = await Promise.all([
+    getBoardsByUserId(userId),
+    prisma.boardMember.findMany({
+      where: { userId },
+      include: { board: true },
+    }),
+  ]);
+
+  return [
+    ...own.map((board) => ({ ...board, role: "OWNER" as const })),
+    ...sortBoards(
+      memberships.map(({ id, board, role }) => ({
+        ...board,
+        role,
+        memberId: id,
+      }))
+    ),
+  ];
+}
+
+/**
+ * Safe wrapper for getAccessibleBoards that returns error as value instead of throwing
+ * Use this in Server Components for proper error handling
+ */
+export async function getAccessibleBoardsSafe(userId: string) {
+  try {
+    const data = await getAccessibleBoards(userId);
+    return { data, error: null };
+  } catch (error) {
+    console.error("Database error fetching boards:", error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : "Failed to fetch boards",
+    };
+  }
+}
+
+/**
+ * Fetch a single board by ID
+ * Note: Caller must check userId for authorization
+ */
+export async function getBoardById(id: number) {
+  return await prisma.board.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Create a board
+ */
+export type CreateBoardInput = Pick<Board, "userId" | "name">;
+
+export async function createBoard(data: CreateBoardInput) {
+  return await prisma.board.create({ data });
+}
+
+/**
+ * Rename a board
+ * Note: Caller must check userId for authorization
+ */
+export async function updateBoard(id: number, data: Pick<Board, "name">) {
+  return await prisma.board.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Count the non-deleted jobs on a board
+ */
+export async function countJobsOnBoard(id: number) {
+  return await prisma.job.count({
+    where: { boardId: id, deletedAt: null },
+  });
+}
+
+/**
+ * Delete a board. Jobs in its trash cascade.
+ * Note: Caller must check userId for authorization and that the board
+ * holds no other jobs
+ */
+export async function deleteBoard(id: number) {
+  return await prisma.board.delete({
+    where: { id },
+  });
+}
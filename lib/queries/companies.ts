@@ -0,0 +1,90 @@
+import { prisma } from "@/lib/prisma";
+import { Company, Prisma } from "@prisma/client";
+import { findCompanyByName } from "@/lib/companies";
+
+/**
+ * Fetch a user's companies by name
+ */
+export async function getCompaniesByUserId(userId: string) {
+  return await prisma.company.findMany({
+    where: { userId },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Fetch a single company by ID
+ * Note: Caller must check userId for authorization
+ */
+export async function getCompanyById(id: number) {
+  return await prisma.company.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Fetch a company with its non-deleted jobs (newest first), their stages
+ * and the contacts linked to them, for the company view
+ * Note: Caller must check userId for authorization
+ */
+export async function getCompanyWithJobs(id: number) {
+  return await prisma.company.findUnique({
+    where: { id },
+    include: {
+      jobs: {
+        where: { deletedAt: null },
+        include: { stage: true, contacts: { orderBy: { name: "asc" } } },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+}
+
+/**
+ * Find the user's company for each name (by name or alias, see
+ * findCompanyByName), creating the ones that don't exist yet. Names
+ * matching each other share one new company.
+ *
+ * @param names - Company names as entered on jobs
+ * @param userId - The user the companies belong to
+ * @param db - Client to use, e.g. a transaction
+ * @returns Company IDs, in the same order as names
+ */
+export async function resolveCompanyIds(
+  names: string[],
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<number[]> {
+  const companies: Company[] = await db.company.findMany({
+    where: { userId },
+  });
+  const ids: number[] = [];
+
+  for (const name of names) {
+    let company = findCompanyByName(companies, name);
+    if (!company) {
+      company = await db.company.create({
+        data: { userId, name: name.trim() },
+      });
+      companies.push(company);
+    }
+    ids.push(company.id);
+  }
+
+  return ids;
+}
+
+/**
+ * Update a company
+ * Note: Caller must check userId for authorization
+ */
+export type UpdateCompanyInput = Partial<
+  Omit<Company, "id" | "userId" | "createdAt" | "updatedAt">
+>;
+
+export async function updateCompany(id: number, data: UpdateCompanyInput) {
+  return await prisma.company.update({
+    where: { id },
+    data,
+  });
+}
@@ -0,0 +1,107 @@
+import { prisma } from "@/lib/prisma";
+import { Contact } from "@prisma/client";
+
+/**
+ * Fetch a user's contacts by name, each with the non-deleted jobs it is
+ * linked to
+ *
+ * @param boardId - Only list the linked jobs on this board (for a
+ *   collaborator, who can't see the owner's other boards)
+ */
+export async function getContactsByUserId(userId: string, boardId?: number) {
+  return await prisma.contact.findMany({
+    where: { userId },
+    include: {
+      jobs: {
+        where: { deletedAt: null, ...(boardId !== undefined && { boardId }) },
+        select: { id: true, company: true, title: true },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Fetch the contacts linked to a board's non-deleted jobs by name, each with
+ * those jobs; all a collaborator who can't edit the board may see of its
+ * owner's contacts
+ */
+export async function getContactsByBoardId(boardId: number) {
+  const onBoard = { boardId, deletedAt: null };
+
+  return await prisma.contact.findMany({
+    where: { jobs: { some: onBoard } },
+    include: {
+      jobs: {
+        where: onBoard,
+        select: { id: true, company: true, title: true },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Fetch a single contact by ID
+ * Note: Caller must check userId for authorization
+ */
+export async function getContactById(id: number) {
+  return await prisma.contact.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Check that every contact ID belongs to the user, before linking them to
+ * a job
+ */
+export async function areContactsOwnedBy(ids: number[], userId: string) {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) return true;
+
+  const count = await prisma.contact.count({
+    where: { id: { in: unique }, userId },
+  });
+  return count === unique.length;
+}
+
+/**
+ * Create a contact
+ */
+export type CreateContactInput = Omit<
+  Contact,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+export async function createContact(data: CreateContactInput) {
+  return await prisma.contact.create({
+    data,
+  });
+}
+
+/**
+ * Update a contact
+ * Note: Caller must check userId for authorization
+ */
+export type UpdateContactInput = Partial<
+  Omit<Contact, "id" | "userId" | "createdAt" | "updatedAt">
+>;
+
+export async function updateContact(id: number, data: UpdateContactInput) {
+  return await prisma.contact.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Delete a contact. Links to jobs are removed, the jobs are kept.
+ * Note: Caller must check userId for authorization
+ */
+export async function deleteContact(id: number) {
+  return await prisma.contact.delete({
+    where: { id },
+  });
+}
@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/prisma";
+import { Interview } from "@prisma/client";
+
+/**
+ * Fetch the interviews of a job, earliest first
+ * Note: Caller must check userId for authorization
+ */
+export async function getInterviewsByJobId(jobId: number) {
+  return await prisma.interview.findMany({
+    where: { jobId },
+    orderBy: [{ startsAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Fetch a single interview by ID
+ * Note: Caller must check userId for authorization
+ */
+export async function getInterviewById(id: number) {
+  return await prisma.interview.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Fetch a user's interviews on non-deleted jobs, with the job's company and
+ * title, for the calendar feed
+ */
+export async function getCalendarInterviewsByUserId(userId: string) {
+  return await prisma.interview.findMany({
+    where: {
+      userId,
+      job: { deletedAt: null },
+    },
+    include: {
+      job: { select: { company: true, title: true } },
+    },
+    orderBy: { startsAt: "asc" },
+  });
+}
+
+/**
+ * Create an interview for a job
+ * Note: Caller must check the job belongs to the user
+ */
+export type CreateInterviewInput = Omit<
+  Interview,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+export async function createInterview(data: CreateInterviewInput) {
+  return await prisma.interview.create({
+    data,
+  });
+}
+
+/**
+ * Update an interview
+ * Note: Caller must check userId for authorization
+ */
+export type UpdateInterviewInput = Partial<
+  Omit<Interview, "id" | "jobId" | "userId" | "createdAt" | "updatedAt">
+>;
+
+export async function updateInterview(id: number, data: UpdateInterviewInput) {
+  return await prisma.interview.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Delete an interview
+ * Note: Caller must check userId for authorization
+ */
+export async function deleteInterview(id: number) {
+  return await prisma.interview.delete({
+    where: { id },
+  });
+}
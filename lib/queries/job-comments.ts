@@ -0,0 +1,54 @@
+import { prisma } from "@/lib/prisma";
+import { JobComment } from "@prisma/client";
+
+/**
+ * Fetch the comments on a job, oldest first
+ * Note: Caller must check the user may view the job
+ */
+export async function getCommentsByJobId(jobId: number) {
+  return await prisma.jobComment.findMany({
+    where: { jobId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Fetch a single comment by ID
+ * Note: Caller must check the user may view the job
+ */
+export async function getCommentById(id: number) {
+  return await prisma.jobComment.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Add a comment to a job
+ * Note: Caller must check the user may comment on the job
+ */
+export type CreateCommentInput = Pick<JobComment, "jobId" | "userId" | "body">;
+
+export async function createComment(data: CreateCommentInput) {
+  return await prisma.jobComment.create({ data });
+}
+
+/**
+ * Change a comment's text
+ * Note: Caller must check the user wrote it
+ */
+export async function updateComment(id: number, body: string) {
+  return await prisma.jobComment.update({
+    where: { id },
+    data: { body },
+  });
+}
+
+/**
+ * Delete a comment
+ * Note: Caller must check the user wrote it or manages the board
+ */
+export async function deleteComment(id: number) {
+  return await prisma.jobComment.delete({
+    where: { id },
+  });
+}
@@ -0,0 +1,41 @@
+import { prisma } from "@/lib/prisma";
+import { HISTORY_EVENTS } from "@/lib/job-history";
+
+/**
+ * Fetch the change history for a job, newest first
+ * Note: Caller must check userId for authorization
+ */
+export async function getJobHistory(jobId: number) {
+  return await prisma.jobHistory.findMany({
+    where: { jobId },
+    orderBy: [{ changedAt: "desc" }, { id: "desc" }],
+  });
+}
+
+/**
+ * Fetch the change history for several jobs, oldest first (used by export)
+ * Note: Caller must check userId for authorization
+ */
+export async function getJobHistoryForJobs(jobIds: number[]) {
+  return await prisma.jobHistory.findMany({
+    where: { jobId: { in: jobIds } },
+    orderBy: [{ changedAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Fetch the entries that set a stage (moves, created and imported) for
+ * several jobs, used to work out follow-up reminders and statistics
+ * Note: Caller must check userId for authorization
+ */
+export async function getStageHistoryForJobs(jobIds: number[]) {
+  return await prisma.jobHistory.findMany({
+    where: {
+      jobId: { in: jobIds },
+      fieldChanged: {
+        in: ["stageId", HISTORY_EVENTS.CREATED, HISTORY_EVENTS.IMPORTED],
+      },
+    },
+    orderBy: [{ changedAt: "asc" }, { id: "asc" }],
+  });
+}
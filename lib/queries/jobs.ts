@@ -1,8 +1,57 @@
 import { prisma } from "@/lib/prisma";
-import { Job } from "@prisma/client";
+import { Job, Prisma } from "@prisma/client";
+import {
+  HISTORY_EVENTS,
+  boardChangeEntry,
+  contactsChangeEntry,
+  diffJobChanges,
+  lifecycleEntry,
+} from "@/lib/job-history";
+import { generateRanks, rankBetween } from "@/lib/rank";
+import { resolveCompanyIds } from "@/lib/queries/companies";
+import { toTsQuery } from "@/lib/search";
+import type { JobListQuery } from "@/lib/schemas";
 
 /**
- * Fetch all non-deleted jobs for a user, ordered by creation date
+ * Board order: rank key within a column, newest first for equal keys
+ * (new jobs and legacy rows all share the default "0")
+ */
+const JOB_ORDER_BY = [
+  { order: "asc" },
+  { createdAt: "desc" },
+] satisfies Prisma.JobOrderByWithRelationInput[];
+
+/** Stage and linked contacts, loaded with jobs for the board and exports */
+const JOB_INCLUDE = {
+  stage: true,
+  contacts: { orderBy: { name: "asc" } },
+} satisfies Prisma.JobInclude;
+
+/** The board's cards also show how many comments a job has */
+const BOARD_JOB_INCLUDE = {
+  ...JOB_INCLUDE,
+  _count: { select: { comments: true } },
+} satisfies Prisma.JobInclude;
+
+/**
+ * Fetch all non-deleted jobs on a board with their stage, contacts and
+ * comment count, in board order
+ * Note: Caller must check the board belongs to the user
+ */
+export async function getJobsByBoardId(boardId: number) {
+  return await prisma.job.findMany({
+    where: {
+      boardId,
+      deletedAt: null,
+    },
+    include: BOARD_JOB_INCLUDE,
+    orderBy: JOB_ORDER_BY,
+  });
+}
+
+/**
+ * Fetch all non-deleted jobs for a user across all of their boards, for
+ * reminders and statistics
  */
 export async function getJobsByUserId(userId: string) {
   return await prisma.job.findMany({
@@ -10,17 +59,97 @@ export async function getJobsByUserId(userId: string) {
       userId,
       deletedAt: null,
     },
-    orderBy: { createdAt: "desc" },
+    include: JOB_INCLUDE,
+    orderBy: JOB_ORDER_BY,
+  });
+}
+
+/** Start of the day after a YYYY-MM-DD date, for inclusive date ranges */
+function nextDay(date: string) {
+  const day = new Date(date);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day;
+}
+
+/**
+ * Find IDs of a board's non-deleted jobs matching a full-text query.
+ * Uses the generated searchVector column and its GIN index, which the
+ * Prisma query API can't express.
+ */
+async function searchJobIds(boardId: number, query: string) {
+  const tsQuery = toTsQuery(query);
+  if (!tsQuery) return undefined;
+
+  const rows = await prisma.$queryRaw<{ id: number }[]>`
+    SELECT "id" FROM "Job"
+    WHERE "boardId" = ${boardId}
+      AND "deletedAt" IS NULL
+      AND "searchVector" @@ to_tsquery('simple', ${tsQuery})
+  `;
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Search, filter, sort and paginate the non-deleted jobs on a board.
+ * Pagination is cursor-based on job ID; without a limit all matches are
+ * returned.
+ * Note: Caller must check the board belongs to the user
+ *
+ * @param boardId - The board to search (query.boardId is ignored)
+ * @returns The page of jobs and the cursor for the next page (null on the last page)
+ */
+export async function searchJobs(boardId: number, query: JobListQuery) {
+  const { q, stageId, appliedFrom, appliedTo, sort, order, limit, cursor } =
+    query;
+
+  const matchingIds = q ? await searchJobIds(boardId, q) : undefined;
+
+  const where: Prisma.JobWhereInput = {
+    boardId,
+    deletedAt: null,
+    ...(matchingIds && { id: { in: matchingIds } }),
+    ...(stageId.length > 0 && { stageId: { in: stageId } }),
+    ...((appliedFrom || appliedTo) && {
+      dateApplied: {
+        ...(appliedFrom && { gte: new Date(appliedFrom) }),
+        ...(appliedTo && { lt: nextDay(appliedTo) }),
+      },
+    }),
+  };
+
+  // Job ID is the final tiebreaker so cursor pagination is stable
+  const orderBy: Prisma.JobOrderByWithRelationInput[] =
+    sort === "board"
+      ? [...JOB_ORDER_BY, { id: "desc" }]
+      : sort === "dateApplied"
+        ? [{ dateApplied: { sort: order, nulls: "last" } }, { id: order }]
+        : [{ [sort]: order }, { id: order }];
+
+  const jobs = await prisma.job.findMany({
+    where,
+    include: JOB_INCLUDE,
+    orderBy,
+    ...(limit && { take: limit + 1 }),
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
   });
+
+  // One extra row was fetched to detect whether another page exists
+  const hasMore = limit !== undefined && jobs.length > limit;
+  const page = hasMore ? jobs.slice(0, limit) : jobs;
+
+  return {
+    jobs: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
 }
 
 /**
- * Safe wrapper for getJobsByUserId that returns error as value instead of throwing
+ * Safe wrapper for getJobsByBoardId that returns error as value instead of throwing
  * Use this in Server Components for proper error handling
  */
-export async function getJobsByUserIdSafe(userId: string) {
+export async function getJobsByBoardIdSafe(boardId: number) {
   try {
-    const data = await getJobsByUserId(userId);
+    const data = await getJobsByBoardId(boardId);
     return { data, error: null };
   } catch (error) {
     console.error("Database error fetching jobs:", error);
@@ -42,43 +171,267 @@ export async function getJobById(id: number) {
 }
 
 /**
- * Create a new job
+ * Create a new job and record a "created" history entry in the same write.
+ * The job is linked to the user's company with a matching name, which is
+ * created if there is none. changedBy is who added it, when that is a
+ * collaborator rather than the board's owner (data.userId).
+ * Note: Caller must check the contacts belong to the user
  */
 export type CreateJobInput = Omit<
   Job,
-  "id" | "createdAt" | "updatedAt" | "deletedAt"
+  "id" | "companyId" | "createdAt" | "updatedAt" | "deletedAt"
 >;
 
-export async function createJob(data: CreateJobInput) {
+export async function createJob(
+  data: CreateJobInput,
+  contactIds: number[] = [],
+  changedBy: string = data.userId
+) {
+  const [companyId] = await resolveCompanyIds([data.company], data.userId);
+
   return await prisma.job.create({
-    data,
+    data: {
+      ...data,
+      companyId,
+      contacts: { connect: contactIds.map((id) => ({ id })) },
+      history: {
+        create: lifecycleEntry(HISTORY_EVENTS.CREATED, changedBy, data.stageId),
+      },
+    },
+    include: JOB_INCLUDE,
   });
 }
 
 /**
- * Update an existing job
- * Note: Caller must check userId for authorization
+ * Update an existing job and record one history entry per changed field.
+ * The diff is computed against the stored row inside the same transaction.
+ * When contactIds is given the job's contacts are replaced with them, and
+ * a change is recorded as one "contacts" entry. A new company name links
+ * the job to the matching company (see createJob). A new boardId moves the
+ * job to that board, recorded as one "board" entry.
+ * Note: Caller must check userId for authorization (of the contacts and
+ * board too)
  */
 export type UpdateJobInput = Partial<
-  Omit<Job, "id" | "userId" | "createdAt" | "updatedAt" | "deletedAt">
+  Omit<
+    Job,
+    "id" | "userId" | "companyId" | "createdAt" | "updatedAt" | "deletedAt"
+  >
 >;
 
-export async function updateJob(id: number, data: UpdateJobInput) {
+export async function updateJob(
+  id: number,
+  data: UpdateJobInput,
+  userId: string,
+  contactIds?: number[]
+) {
+  return await prisma.$transaction(async (tx) => {
+    const existing = await tx.job.findUnique({
+      where: { id },
+      include: JOB_INCLUDE,
+    });
+
+    if (!existing) {
+      throw new Error(`Job ${id} not found`);
+    }
+
+    const history = diffJobChanges(existing, data, userId);
+
+    if (contactIds) {
+      const contacts = await tx.contact.findMany({
+        where: { id: { in: contactIds } },
+        select: { name: true },
+      });
+      const entry = contactsChangeEntry(
+        existing.contacts.map((contact) => contact.name),
+        contacts.map((contact) => contact.name),
+        userId
+      );
+      if (entry) history.push(entry);
+    }
+
+    if (data.boardId !== undefined && data.boardId !== existing.boardId) {
+      const boards = await tx.board.findMany({
+        where: { id: { in: [existing.boardId, data.boardId] } },
+        select: { id: true, name: true },
+      });
+      const name = (boardId: number) =>
+        boards.find((board) => board.id === boardId)?.name ?? null;
+      history.push(
+        boardChangeEntry(name(existing.boardId), name(data.boardId), userId)
+      );
+    }
+
+    const companyChanged =
+      data.company !== undefined && data.company !== existing.company;
+    const [companyId] = companyChanged
+      ? await resolveCompanyIds([data.company!], existing.userId, tx)
+      : [];
+
+    return await tx.job.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(companyId !== undefined && { companyId }),
+        ...(contactIds && {
+          contacts: { set: contactIds.map((contactId) => ({ id: contactId })) },
+        }),
+        history: {
+          create: history,
+        },
+      },
+      include: JOB_INCLUDE,
+    });
+  });
+}
+
+/**
+ * Move a job to a position in a stage column.
+ * The new rank key is generated between the neighbouring cards, so the rest
+ * of the column is untouched. Only when the neighbours carry legacy or
+ * duplicate keys is the column renumbered, inside the same transaction.
+ * Note: Caller must check userId for authorization
+ *
+ * @param id - Job to move
+ * @param stageId - Target column
+ * @param index - Position in the target column (excluding the moved job)
+ * @param userId - The user making the change
+ */
+export async function moveJob(
+  id: number,
+  stageId: number,
+  index: number,
+  userId: string
+) {
+  return await prisma.$transaction(async (tx) => {
+    const existing = await tx.job.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error(`Job ${id} not found`);
+    }
+
+    const column = await tx.job.findMany({
+      where: {
+        boardId: existing.boardId,
+        stageId,
+        deletedAt: null,
+        id: { not: id },
+      },
+      orderBy: JOB_ORDER_BY,
+      select: { id: true, order: true },
+    });
+
+    const position = Math.min(index, column.length);
+    let order: string;
+
+    try {
+      order = rankBetween(
+        column[position - 1]?.order ?? null,
+        column[position]?.order ?? null
+      );
+    } catch {
+      const ranks = generateRanks(column.length + 1);
+      const otherRanks = ranks.filter((_, i) => i !== position);
+      order = ranks[position];
+
+      for (const [i, job] of column.entries()) {
+        await tx.job.update({
+          where: { id: job.id },
+          data: { order: otherRanks[i] },
+        });
+      }
+    }
+
+    return await tx.job.update({
+      where: { id },
+      data: {
+        stageId,
+        order,
+        history: {
+          create: diffJobChanges(existing, { stageId }, userId),
+        },
+      },
+    });
+  });
+}
+
+/**
+ * Soft delete a job and record a "deleted" history entry in the same write
+ * Note: Caller must check userId for authorization
+ */
+export async function deleteJob(id: number, userId: string) {
   return await prisma.job.update({
     where: { id },
-    data,
+    data: {
+      deletedAt: new Date(),
+      history: {
+        create: lifecycleEntry(HISTORY_EVENTS.DELETED, userId),
+      },
+    },
   });
 }
 
 /**
- * Soft delete a job
+ * Fetch the soft-deleted jobs of a board (its trash), most recently
+ * deleted first
+ * Note: Caller must check the board belongs to the user
+ *
+ * @param deletedSince - Leave out jobs deleted before this date (those
+ *   waiting for the purge)
+ */
+export async function getDeletedJobsByBoardId(
+  boardId: number,
+  deletedSince?: Date
+) {
+  return await prisma.job.findMany({
+    where: {
+      boardId,
+      deletedAt: deletedSince ? { gte: deletedSince } : { not: null },
+    },
+    include: JOB_INCLUDE,
+    orderBy: { deletedAt: "desc" },
+  });
+}
+
+/**
+ * Restore a soft-deleted job and record a "restored" history entry
+ * The job keeps its rank key, so it returns to its previous position
  * Note: Caller must check userId for authorization
  */
-export async function deleteJob(id: number) {
+export async function restoreJob(id: number, userId: string) {
   return await prisma.job.update({
     where: { id },
     data: {
-      deletedAt: new Date(),
+      deletedAt: null,
+      history: {
+        create: lifecycleEntry(HISTORY_EVENTS.RESTORED, userId),
+      },
+    },
+  });
+}
+
+/**
+ * Hard delete a job. JobHistory rows cascade.
+ * Note: Caller must check userId for authorization
+ */
+export async function permanentlyDeleteJob(id: number) {
+  return await prisma.job.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Hard delete jobs that were soft deleted before the cutoff date
+ * Note: Only the cron route purges; listing the trash never deletes
+ *
+ * @param cutoff - Jobs deleted before this date are purged
+ * @returns Number of purged jobs
+ */
+export async function purgeDeletedJobs(cutoff: Date) {
+  const result = await prisma.job.deleteMany({
+    where: {
+      deletedAt: { lt: cutoff },
     },
   });
+  return result.count;
 }
@@ -0,0 +1,206 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma, Stage, StageCategory } from "@prisma/client";
+import { DEFAULT_STAGES, findStageByName, getDefaultStage } from "@/lib/stages";
+import type { ExportedStage } from "@/lib/schemas";
+
+/** Board order, see sortStages */
+const STAGE_ORDER_BY = [
+  { position: "asc" },
+  { id: "asc" },
+] satisfies Prisma.StageOrderByWithRelationInput[];
+
+/** Category for stages an import refers to without defining them */
+const IMPORTED_STAGE_CATEGORY: StageCategory = "APPLIED";
+
+/**
+ * Fetch all of a user's stages (archived too) in board order. Users
+ * without any get the default stages first.
+ *
+ * @param userId - The user the stages belong to
+ * @param db - Client to use, e.g. a transaction
+ */
+export async function getStagesByUserId(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  const stages = await db.stage.findMany({
+    where: { userId },
+    orderBy: STAGE_ORDER_BY,
+  });
+  if (stages.length > 0) return stages;
+
+  // skipDuplicates makes concurrent first requests create them only once
+  await db.stage.createMany({
+    data: DEFAULT_STAGES.map((stage, position) => ({
+      ...stage,
+      userId,
+      position,
+    })),
+    skipDuplicates: true,
+  });
+
+  return await db.stage.findMany({
+    where: { userId },
+    orderBy: STAGE_ORDER_BY,
+  });
+}
+
+/**
+ * Safe wrapper for getStagesByUserId that returns error as value instead of throwing
+ * Use this in Server Components for proper error handling
+ */
+export async function getStagesByUserIdSafe(userId: string) {
+  try {
+    const data = await getStagesByUserId(userId);
+    return { data, error: null };
+  } catch (error) {
+    console.error("Database error fetching stages:", error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : "Failed to fetch stages",
+    };
+  }
+}
+
+/**
+ * Fetch a single stage by ID
+ * Note: Caller must check userId for authorization
+ */
+export async function getStageById(id: number) {
+  return await prisma.stage.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * The stage a new job goes to: the given one if it is the user's, or the
+ * user's default stage (see getDefaultStage) when none is given
+ *
+ * @returns The stage ID, or null if the given stage isn't the user's
+ */
+export async function resolveStageId(
+  userId: string,
+  stageId?: number
+): Promise<number | null> {
+  if (stageId !== undefined) {
+    const stage = await getStageById(stageId);
+    return stage?.userId === userId ? stage.id : null;
+  }
+
+  const stages = await getStagesByUserId(userId);
+  return getDefaultStage(stages)?.id ?? null;
+}
+
+/**
+ * Find the user's stage for each imported stage name, creating the ones
+ * that don't exist yet from the file's stage definitions (or, without
+ * one, as an in-progress stage after the existing ones). Rows without a
+ * stage get the user's default stage.
+ *
+ * @param names - Stage names of the imported jobs
+ * @param definitions - Stages defined in the export file
+ * @param userId - The user the stages belong to
+ * @param db - Client to use, e.g. a transaction
+ * @param options.dryRun - Don't create stages; missing ones get negative placeholder IDs
+ * @returns Stage IDs, in the same order as names
+ */
+export async function resolveStageIds(
+  names: (string | null | undefined)[],
+  definitions: ExportedStage[],
+  userId: string,
+  db: Prisma.TransactionClient = prisma,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<number[]> {
+  const stages: Stage[] = await getStagesByUserId(userId, db);
+  let position = Math.max(...stages.map((stage) => stage.position)) + 1;
+  const placeholders = new Map<string, number>();
+  const ids: number[] = [];
+
+  for (const name of names) {
+    if (!name) {
+      ids.push(getDefaultStage(stages)!.id);
+      continue;
+    }
+
+    let stage = findStageByName(stages, name);
+    if (!stage && dryRun) {
+      const key = name.trim().toLowerCase();
+      if (!placeholders.has(key)) placeholders.set(key, -placeholders.size - 1);
+      ids.push(placeholders.get(key)!);
+      continue;
+    }
+    if (!stage) {
+      const definition = findStageByName(definitions, name);
+      stage = await db.stage.create({
+        data: {
+          userId,
+          name: name.trim(),
+          color: definition?.color ?? "gray",
+          category: definition?.category ?? IMPORTED_STAGE_CATEGORY,
+          position: position++,
+          archivedAt: definition?.archived ? new Date() : null,
+        },
+      });
+      stages.push(stage);
+    }
+    ids.push(stage.id);
+  }
+
+  return ids;
+}
+
+/**
+ * Add a stage after the user's last one
+ */
+export type CreateStageInput = Pick<
+  Stage,
+  "userId" | "name" | "color" | "category"
+>;
+
+export async function createStage(data: CreateStageInput) {
+  const last = await prisma.stage.findFirst({
+    where: { userId: data.userId },
+    orderBy: { position: "desc" },
+  });
+
+  return await prisma.stage.create({
+    data: { ...data, position: (last?.position ?? -1) + 1 },
+  });
+}
+
+/**
+ * Update a stage
+ * Note: Caller must check userId for authorization
+ */
+export type UpdateStageInput = Partial<
+  Pick<Stage, "name" | "color" | "category" | "archivedAt">
+>;
+
+export async function updateStage(id: number, data: UpdateStageInput) {
+  return await prisma.stage.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Count the non-deleted jobs in a stage
+ */
+export async function countJobsInStage(id: number) {
+  return await prisma.job.count({
+    where: { stageId: id, deletedAt: null },
+  });
+}
+
+/**
+ * Store a new column order. stageIds must be exactly the user's stages;
+ * each gets its index as position.
+ * Note: Caller must check the stages belong to the user
+ */
+export async function reorderStages(stageIds: number[]) {
+  return await prisma.$transaction(
+    stageIds.map((id, position) =>
+      prisma.stage.update({ where: { id }, data: { position } })
+    )
+  );
+}
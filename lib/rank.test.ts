@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { generateRanks, isValidRank, rankBetween } from "./rank";
+
+describe("isValidRank", () => {
+  it("accepts base-36 keys without trailing zeros", () => {
+    expect(isValidRank("i")).toBe(true);
+    expect(isValidRank("0i")).toBe(true);
+    expect(isValidRank("a1z")).toBe(true);
+  });
+
+  it("rejects legacy and malformed keys", () => {
+    expect(isValidRank("0")).toBe(false);
+    expect(isValidRank("a0")).toBe(false);
+    expect(isValidRank("")).toBe(false);
+    expect(isValidRank("A1")).toBe(false);
+  });
+});
+
+describe("rankBetween", () => {
+  it("returns the middle key for an empty column", () => {
+    expect(rankBetween(null, null)).toBe("i");
+  });
+
+  it("generates keys before and after an existing key", () => {
+    const first = rankBetween(null, "i");
+    const last = rankBetween("i", null);
+
+    expect(first < "i").toBe(true);
+    expect(last > "i").toBe(true);
+  });
+
+  it("generates a key between adjacent digits by extending it", () => {
+    const key = rankBetween("a", "b");
+
+    expect(key > "a" && key < "b").toBe(true);
+    expect(isValidRank(key)).toBe(true);
+  });
+
+  it("keeps finding room between repeatedly inserted keys", () => {
+    // Always insert directly after the first card - the worst case for growth
+    let upper = "i";
+    for (let i = 0; i < 50; i++) {
+      const key = rankBetween("a", upper);
+      expect(key > "a" && key < upper).toBe(true);
+      expect(isValidRank(key)).toBe(true);
+      upper = key;
+    }
+  });
+
+  it("keeps keys ordered when prepending and appending", () => {
+    const keys = ["i"];
+    for (let i = 0; i < 20; i++) {
+      keys.unshift(rankBetween(null, keys[0]));
+      keys.push(rankBetween(keys[keys.length - 1], null));
+    }
+
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("throws for invalid or out-of-order keys", () => {
+    expect(() => rankBetween("0", "i")).toThrow("Invalid rank key");
+    expect(() => rankBetween("i", "i")).toThrow("out of order");
+    expect(() => rankBetween("k", "b")).toThrow("out of order");
+  });
+});
+
+describe("generateRanks", () => {
+  it("returns increasing, valid, unique keys", () => {
+    for (const count of [1, 5, 17, 100]) {
+      const keys = generateRanks(count);
+
+      expect(keys).toHaveLength(count);
+      expect([...keys].sort()).toEqual(keys);
+      expect(new Set(keys).size).toBe(count);
+      expect(keys.every(isValidRank)).toBe(true);
+    }
+  });
+
+  it("leaves room to insert between generated keys", () => {
+    const [a, b] = generateRanks(2);
+    const key = rankBetween(a, b);
+
+    expect(key > a && key < b).toBe(true);
+  });
+
+  it("returns no keys for an empty column", () => {
+    expect(generateRanks(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Fractional rank keys for ordering jobs within a board column.
+ *
+ * Keys are base-36 fractions written without the leading "0." (so "i" is
+ * 0.5 and "0i" is 0.0138...). Comparing two keys as plain strings gives the
+ * same result as comparing the fractions, which lets Postgres sort on
+ * Job.order directly. A key never ends in "0", so there is always room for
+ * a new key between any two distinct keys - inserting never renumbers
+ * neighbouring cards.
+ */
+
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+
+/** Matches keys that satisfy the invariants above */
+const VALID_RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/**
+ * Check whether a key is a valid rank key.
+ * The legacy default "0" and keys from older exports (e.g. "a0") are not.
+ */
+export function isValidRank(key: string): boolean {
+  return VALID_RANK_PATTERN.test(key);
+}
+
+/**
+ * Midpoint between two fractions given as digit strings.
+ * `a` may be "" (zero), `b` null means one (the upper bound).
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the shared prefix, treating missing digits in `a` as zeros
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Digits are consecutive: reuse b's first digit if b is longer,
+  // otherwise keep a's digit and recurse into the remainder
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Generate a rank key strictly between two keys.
+ *
+ * @param before - Key of the card above, or null for the top of the column
+ * @param after - Key of the card below, or null for the bottom of the column
+ * @throws Error if a key is invalid or `before` is not less than `after`
+ */
+export function rankBetween(
+  before: string | null,
+  after: string | null
+): string {
+  if (before !== null && !isValidRank(before)) {
+    throw new Error(`Invalid rank key: ${before}`);
+  }
+  if (after !== null && !isValidRank(after)) {
+    throw new Error(`Invalid rank key: ${after}`);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank keys out of order: ${before} >= ${after}`);
+  }
+
+  return midpoint(before ?? "", after);
+}
+
+/**
+ * Generate `count` evenly spaced, increasing rank keys.
+ * Used to rebalance a column whose keys are missing, duplicated or legacy.
+ */
+export function generateRanks(count: number): string[] {
+  // Enough digits that the spacing between keys is at least 2 units
+  let width = 1;
+  while (BASE ** width < 2 * (count + 1)) width++;
+
+  const scale = BASE ** width;
+  const step = scale / (count + 1);
+
+  return Array.from({ length: count }, (_, i) =>
+    Math.round((i + 1) * step)
+      .toString(BASE)
+      .padStart(width, "0")
+      .replace(/0+$/, "")
+  );
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import type { Job, JobHistory, StageCategory } from "@prisma/client";
+import {
+  getDueReminders,
+  getReminder,
+  getSnoozeDate,
+  getStageChangedAt,
+} from "./reminders";
+import { makeJob } from "@/lib/test-fixtures";
+
+// Stage IDs in the fixtures, one stage per category
+const STAGE_IDS: Record<StageCategory, number> = {
+  WISHLIST: 1,
+  APPLIED: 2,
+  INTERVIEW: 3,
+  OFFER: 4,
+  ACCEPTED: 5,
+  REJECTED: 6,
+};
+
+/** Stage fields for a job in the fixture stage of a category */
+function inStage(category: StageCategory, stageId = STAGE_IDS[category]) {
+  return { stageId, stage: { category } };
+}
+
+function createJob(
+  overrides: Partial<Job> & { stage?: { category: StageCategory } } = {}
+) {
+  return {
+    ...makeJob({
+      company: "Acme",
+      title: "Frontend Developer",
+      location: "Stockholm",
+      order: "i",
+      createdAt: new Date("2025-03-01T09:00:00Z"),
+      updatedAt: new Date("2025-03-01T09:00:00Z"),
+    }),
+    ...inStage("APPLIED"),
+    ...overrides,
+  };
+}
+
+function stageChange(
+  category: StageCategory,
+  changedAt: string,
+  jobId = 1,
+  fieldChanged = "stageId"
+): JobHistory {
+  return {
+    id: 1,
+    jobId,
+    userId: "user_123",
+    fieldChanged,
+    oldValue: null,
+    newValue: String(STAGE_IDS[category]),
+    changedAt: new Date(changedAt),
+  };
+}
+
+describe("getStageChangedAt", () => {
+  it("uses the latest change into the current stage", () => {
+    const history = [
+      stageChange("WISHLIST", "2025-03-01T09:00:00Z", 1, "created"),
+      stageChange("APPLIED", "2025-03-02T09:00:00Z"),
+      stageChange("INTERVIEW", "2025-03-05T09:00:00Z"),
+      stageChange("APPLIED", "2025-03-06T09:00:00Z"),
+    ];
+
+    expect(getStageChangedAt(createJob(), history)).toEqual(
+      new Date("2025-03-06T09:00:00Z")
+    );
+  });
+
+  it("falls back to when the job was created", () => {
+    expect(getStageChangedAt(createJob(), [])).toEqual(
+      new Date("2025-03-01T09:00:00Z")
+    );
+  });
+});
+
+describe("getReminder", () => {
+  const history = [stageChange("APPLIED", "2025-03-02T09:00:00Z")];
+
+  it("reminds 10 days after an APPLIED job last moved", () => {
+    const job = createJob();
+
+    expect(getReminder(job, history, new Date("2025-03-12T08:00:00Z"))).toBe(
+      null
+    );
+    expect(getReminder(job, history, new Date("2025-03-12T10:00:00Z"))).toEqual(
+      {
+        jobId: 1,
+        dueAt: new Date("2025-03-12T09:00:00Z"),
+        source: "rule",
+        message: "No reply since applying - time to follow up",
+      }
+    );
+  });
+
+  it("counts from dateApplied when the job was added after applying", () => {
+    // Arrange
+    const job = createJob({ dateApplied: new Date("2025-03-04") });
+
+    // Act
+    const reminder = getReminder(job, history, new Date("2025-03-20"));
+
+    // Assert
+    expect(reminder?.dueAt).toEqual(new Date("2025-03-14"));
+  });
+
+  it("reminds 2 days after an interview", () => {
+    const job = createJob(inStage("INTERVIEW"));
+    const interviewHistory = [
+      ...history,
+      stageChange("INTERVIEW", "2025-03-10T09:00:00Z"),
+    ];
+
+    const reminder = getReminder(
+      job,
+      interviewHistory,
+      new Date("2025-03-13T00:00:00Z")
+    );
+
+    expect(reminder).toMatchObject({
+      dueAt: new Date("2025-03-12T09:00:00Z"),
+      message: "Follow up on the interview",
+    });
+  });
+
+  it("uses the rule of the stage's category", () => {
+    // Arrange: a custom "Phone screen" stage counts as an interview
+    const job = createJob(inStage("INTERVIEW", 7));
+    const phoneScreen = {
+      ...stageChange("INTERVIEW", "2025-03-10T09:00:00Z"),
+      newValue: "7",
+    };
+
+    // Act
+    const reminder = getReminder(
+      job,
+      [phoneScreen],
+      new Date("2025-03-13T00:00:00Z")
+    );
+
+    // Assert
+    expect(reminder?.message).toBe("Follow up on the interview");
+  });
+
+  it("has no rule for other categories", () => {
+    const job = createJob(inStage("WISHLIST"));
+
+    expect(getReminder(job, [], new Date("2026-01-01"))).toBe(null);
+  });
+
+  it("restarts the rule when a reminder is completed", () => {
+    const job = createJob({
+      followUpCompletedAt: new Date("2025-03-13T09:00:00Z"),
+    });
+
+    expect(getReminder(job, history, new Date("2025-03-20"))).toBe(null);
+    expect(getReminder(job, history, new Date("2025-03-24"))?.dueAt).toEqual(
+      new Date("2025-03-23T09:00:00Z")
+    );
+  });
+
+  it("uses the follow-up date instead of the rules", () => {
+    // Arrange
+    const job = createJob({
+      ...inStage("OFFER"),
+      followUpAt: new Date("2025-03-15"),
+    });
+
+    // Act
+    const before = getReminder(job, [], new Date("2025-03-14T12:00:00Z"));
+    const after = getReminder(job, [], new Date("2025-03-15T12:00:00Z"));
+
+    // Assert
+    expect(before).toBe(null);
+    expect(after).toEqual({
+      jobId: 1,
+      dueAt: new Date("2025-03-15"),
+      source: "date",
+      message: "Follow-up date",
+    });
+  });
+
+  it("silences the rules while snoozed", () => {
+    const job = createJob({ followUpAt: new Date("2025-04-01") });
+
+    expect(getReminder(job, history, new Date("2025-03-20"))).toBe(null);
+  });
+});
+
+describe("getDueReminders", () => {
+  it("returns due reminders for each job, longest overdue first", () => {
+    // Arrange
+    const jobs = [
+      createJob({ id: 1 }),
+      createJob({ id: 2, ...inStage("WISHLIST") }),
+      createJob({ id: 3, followUpAt: new Date("2025-03-05") }),
+      createJob({ id: 4, ...inStage("INTERVIEW") }),
+    ];
+    const history = [
+      stageChange("APPLIED", "2025-03-02T09:00:00Z", 1),
+      stageChange("INTERVIEW", "2025-03-18T09:00:00Z", 4),
+    ];
+
+    // Act
+    const reminders = getDueReminders(jobs, history, new Date("2025-03-19"));
+
+    // Assert
+    expect(reminders.map((reminder) => reminder.jobId)).toEqual([3, 1]);
+  });
+});
+
+describe("getSnoozeDate", () => {
+  it("returns the date the given number of days ahead", () => {
+    expect(getSnoozeDate(7, new Date("2025-03-28T15:00:00Z"))).toBe(
+      "2025-04-04"
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { Job, JobHistory, Stage, StageCategory } from "@prisma/client";
+import { HISTORY_EVENTS } from "@/lib/job-history";
+
+/**
+ * Follow-up reminders. A job needs attention when its follow-up date has
+ * come, or, without one, when a rule for its stage's category says it's
+ * been quiet for too long. Completing a reminder restarts the rules from that moment;
+ * snoozing sets a follow-up date, which silences the rules until then.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderRule = {
+  /** Days after the job entered the stage */
+  days: number;
+  message: string;
+};
+
+/**
+ * Rule-based defaults by stage category, so every interview stage ("Phone
+ * screen", "Take-home") gets the interview rule. Categories without a rule
+ * are only reminded by date.
+ */
+export const REMINDER_RULES: Partial<Record<StageCategory, ReminderRule>> = {
+  APPLIED: { days: 10, message: "No reply since applying - time to follow up" },
+  INTERVIEW: { days: 2, message: "Follow up on the interview" },
+};
+
+export type Reminder = {
+  jobId: number;
+  /** When the reminder became due */
+  dueAt: Date;
+  /** "date" for a follow-up date, "rule" for a rule-based default */
+  source: "date" | "rule";
+  message: string;
+};
+
+type ReminderJob = Pick<
+  Job,
+  | "id"
+  | "stageId"
+  | "dateApplied"
+  | "followUpAt"
+  | "followUpCompletedAt"
+  | "createdAt"
+> & { stage: Pick<Stage, "category"> };
+
+type StatusHistoryEntry = Pick<
+  JobHistory,
+  "fieldChanged" | "newValue" | "changedAt"
+>;
+
+// History entries that set the stage: moves, and the initial stage of
+// created or imported jobs
+const STAGE_EVENTS: string[] = [
+  "stageId",
+  HISTORY_EVENTS.CREATED,
+  HISTORY_EVENTS.IMPORTED,
+];
+
+function latest(dates: (Date | null | undefined)[]): Date | null {
+  const times = dates.filter((date): date is Date => Boolean(date));
+  if (times.length === 0) return null;
+  return new Date(Math.max(...times.map((date) => date.getTime())));
+}
+
+/**
+ * When the job entered its current stage, from its history. Falls back to
+ * when the job was created, for rows older than the history.
+ *
+ * @param job - The job
+ * @param history - The job's history entries, in any order
+ */
+export function getStageChangedAt(
+  job: Pick<Job, "stageId" | "createdAt">,
+  history: StatusHistoryEntry[]
+): Date {
+  const changes = history
+    .filter(
+      (entry) =>
+        STAGE_EVENTS.includes(entry.fieldChanged) &&
+        entry.newValue === String(job.stageId)
+    )
+    .map((entry) => new Date(entry.changedAt));
+
+  return latest(changes) ?? new Date(job.createdAt);
+}
+
+/**
+ * The job's reminder, or null if it doesn't need attention yet
+ *
+ * @param job - The job
+ * @param history - The job's history entries (only stage changes are used)
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function getReminder(
+  job: ReminderJob,
+  history: StatusHistoryEntry[],
+  now: Date = new Date()
+): Reminder | null {
+  if (job.followUpAt) {
+    const dueAt = new Date(job.followUpAt);
+    return dueAt <= now
+      ? { jobId: job.id, dueAt, source: "date", message: "Follow-up date" }
+      : null;
+  }
+
+  const rule = REMINDER_RULES[job.stage.category];
+  if (!rule) return null;
+
+  const stageChangedAt = getStageChangedAt(job, history);
+  const since = latest([
+    stageChangedAt,
+    // Applying is the start for applied jobs added to the board afterwards
+    job.stage.category === "APPLIED" && job.dateApplied
+      ? new Date(job.dateApplied)
+      : null,
+    job.followUpCompletedAt ? new Date(job.followUpCompletedAt) : null,
+  ])!;
+
+  const dueAt = new Date(since.getTime() + rule.days * DAY_MS);
+  return dueAt <= now
+    ? { jobId: job.id, dueAt, source: "rule", message: rule.message }
+    : null;
+}
+
+/**
+ * Reminders due for a set of jobs, longest overdue first
+ *
+ * @param jobs - Non-deleted jobs
+ * @param history - History entries of those jobs (only stage changes are used)
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function getDueReminders(
+  jobs: ReminderJob[],
+  history: (StatusHistoryEntry & Pick<JobHistory, "jobId">)[],
+  now: Date = new Date()
+): Reminder[] {
+  const historyByJob = new Map<number, StatusHistoryEntry[]>();
+  for (const entry of history) {
+    historyByJob.set(entry.jobId, [
+      ...(historyByJob.get(entry.jobId) ?? []),
+      entry,
+    ]);
+  }
+
+  return jobs
+    .map((job) => getReminder(job, historyByJob.get(job.id) ?? [], now))
+    .filter((reminder): reminder is Reminder => reminder !== null)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/** Snooze choices offered in the "Needs attention" panel */
+export const SNOOZE_OPTIONS = [
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+];
+
+/**
+ * The follow-up date for snoozing a reminder, as YYYY-MM-DD
+ *
+ * @param days - Days to snooze for
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function getSnoozeDate(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
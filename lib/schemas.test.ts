@@ -1,7 +1,14 @@
 import { describe, it, expect } from "vitest";
 import {
+  jobSchema,
   jobImportSchema,
   importRequestSchema,
+  createJobSchema,
+  updateJobSchema,
+  moveJobSchema,
+  parseJobListQuery,
+  stageSchema,
+  updateStageSchema,
   type ExportedJob,
 } from "./schemas";
 
@@ -9,7 +16,7 @@ import {
 function createValidJob(overrides: Partial<ExportedJob> = {}): ExportedJob {
   return {
     company: "Test Company",
-    status: "WISHLIST",
+    stage: "Wishlist",
     order: "0",
     title: undefined,
     location: undefined,
@@ -19,7 +26,6 @@ function createValidJob(overrides: Partial<ExportedJob> = {}): ExportedJob {
     notes: undefined,
     resumeUrl: undefined,
     coverLetterUrl: undefined,
-    contactPerson: undefined,
     ...overrides,
   };
 }
@@ -30,7 +36,7 @@ describe("jobImportSchema", () => {
       // Arrange
       const invalidJob = {
         title: "Developer",
-        status: "WISHLIST",
+        stage: "Wishlist",
       };
 
       // Act
@@ -47,7 +53,7 @@ describe("jobImportSchema", () => {
       // Arrange
       const invalidJob = {
         company: "",
-        status: "WISHLIST",
+        stage: "Wishlist",
         order: "0",
       };
 
@@ -66,7 +72,7 @@ describe("jobImportSchema", () => {
       // Arrange
       const minimalJob = {
         company: "Test Co",
-        status: "WISHLIST",
+        stage: "Wishlist",
         order: "0",
       };
 
@@ -90,7 +96,7 @@ describe("jobImportSchema", () => {
         notes: "Some notes",
         resumeUrl: "https://example.com/resume.pdf",
         coverLetterUrl: "https://example.com/cover.pdf",
-        contactPerson: "John Doe",
+        contacts: [{ name: "John Doe", email: "john@example.com" }],
       });
 
       // Act
@@ -102,7 +108,7 @@ describe("jobImportSchema", () => {
         expect(result.data.company).toBe("Test Company");
         expect(result.data.title).toBe("Software Engineer");
         expect(result.data.location).toBe("Stockholm");
-        expect(result.data.status).toBe("WISHLIST");
+        expect(result.data.stage).toBe("Wishlist");
         expect(result.data.order).toBe("0");
         expect(result.data.dateApplied).toBe("2024-01-15");
         expect(result.data.jobPostingUrl).toBe("https://example.com/job");
@@ -112,40 +118,33 @@ describe("jobImportSchema", () => {
         expect(result.data.coverLetterUrl).toBe(
           "https://example.com/cover.pdf"
         );
-        expect(result.data.contactPerson).toBe("John Doe");
+        expect(result.data.contacts).toEqual([
+          { name: "John Doe", email: "john@example.com" },
+        ]);
       }
     });
   });
 
   describe("validation", () => {
-    describe("status enum", () => {
-      it("accepts all valid status values", () => {
-        // Arrange
-        const statuses = [
-          "WISHLIST",
-          "APPLIED",
-          "INTERVIEW",
-          "OFFER",
-          "ACCEPTED",
-          "REJECTED",
-        ] as const;
-
-        statuses.forEach((status) => {
-          const job = createValidJob({ status });
-
-          // Act
-          const result = jobImportSchema.safeParse(job);
+    describe("stage name", () => {
+      it("accepts any stage name, trimmed", () => {
+        // Act
+        const result = jobImportSchema.safeParse(
+          createValidJob({ stage: "  Phone screen " })
+        );
 
-          // Assert
-          expect(result.success, `${status} should be valid`).toBe(true);
-        });
+        // Assert
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.stage).toBe("Phone screen");
+        }
       });
 
-      it("rejects invalid status value", () => {
+      it("rejects an empty stage name", () => {
         // Arrange
         const invalidJob = {
           company: "Test",
-          status: "INVALID_STATUS",
+          stage: "  ",
           order: "0",
         };
 
@@ -155,7 +154,7 @@ describe("jobImportSchema", () => {
         // Assert
         expect(result.success).toBe(false);
         if (!result.success) {
-          expect(result.error.issues[0].path).toEqual(["status"]);
+          expect(result.error.issues[0].path).toEqual(["stage"]);
         }
       });
     });
@@ -213,7 +212,7 @@ describe("jobImportSchema", () => {
       it("accepts valid ISO date string", () => {
         // Arrange
         const job = createValidJob({
-          status: "APPLIED",
+          stage: "Applied",
           dateApplied: "2024-01-15",
         });
 
@@ -240,7 +239,7 @@ describe("jobImportSchema", () => {
       it("rejects invalid date format", () => {
         // Arrange
         const job = createValidJob({
-          status: "APPLIED",
+          stage: "Applied",
           dateApplied: "not-a-date",
         });
 
@@ -274,7 +273,7 @@ describe("jobImportSchema", () => {
   });
 
   describe("defaults", () => {
-    it("applies default status and order values", () => {
+    it("applies the default order and leaves the stage to the importer", () => {
       // Arrange
       const job = {
         company: "Test",
@@ -286,7 +285,7 @@ describe("jobImportSchema", () => {
       // Assert
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.status).toBe("WISHLIST");
+        expect(result.data.stage).toBeUndefined();
         expect(result.data.order).toBe("0");
       }
     });
@@ -297,7 +296,7 @@ describe("jobImportSchema", () => {
       // Arrange
       const jobWithUnknownField = {
         company: "Test",
-        status: "WISHLIST" as const,
+        stage: "Wishlist",
         order: "0",
         unknownField: "this should not be accepted",
       };
@@ -311,6 +310,30 @@ describe("jobImportSchema", () => {
         expect(result.error.issues[0].code).toBe("unrecognized_keys");
       }
     });
+
+    it("accepts exported trash dates and activity history", () => {
+      // Arrange
+      const exportedJob = {
+        company: "Test",
+        stage: "Applied",
+        order: "0",
+        deletedAt: "2024-03-01T10:00:00.000Z",
+        history: [
+          {
+            fieldChanged: "stage",
+            oldValue: "Wishlist",
+            newValue: "Applied",
+            changedAt: "2024-02-01T10:00:00.000Z",
+          },
+        ],
+      };
+
+      // Act
+      const result = jobImportSchema.safeParse(exportedJob);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
   });
 
   describe("preprocessing", () => {
@@ -318,7 +341,7 @@ describe("jobImportSchema", () => {
       // Arrange
       const jobWithNulls = {
         company: "Test",
-        status: "WISHLIST",
+        stage: "Wishlist",
         order: "0",
         title: null,
         location: null,
@@ -328,7 +351,13 @@ describe("jobImportSchema", () => {
         notes: null,
         resumeUrl: null,
         coverLetterUrl: null,
-        contactPerson: null,
+        salaryMin: null,
+        salaryMax: null,
+        salaryCurrency: null,
+        salaryPeriod: null,
+        employmentType: null,
+        remotePolicy: null,
+        skills: [],
       };
 
       // Act
@@ -356,7 +385,7 @@ describe("importRequestSchema", () => {
         }),
         createValidJob({
           company: "Company 2",
-          status: "APPLIED",
+          stage: "Applied",
           order: "a1",
         }),
       ],
@@ -370,6 +399,29 @@ describe("importRequestSchema", () => {
     if (result.success) {
       expect(result.data.jobs).toHaveLength(2);
       expect(result.data.jobs[0].company).toBe("Company 1");
+      expect(result.data.stages).toEqual([]);
+    }
+  });
+
+  it("accepts stage definitions", () => {
+    // Act
+    const result = importRequestSchema.safeParse({
+      jobs: [createValidJob({ stage: "Phone screen" })],
+      stages: [
+        { name: "Phone screen", color: "purple", category: "INTERVIEW" },
+        { name: "Old", category: "APPLIED", archived: true },
+      ],
+    });
+
+    // Assert
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.stages[1]).toEqual({
+        name: "Old",
+        color: "gray",
+        category: "APPLIED",
+        archived: true,
+      });
     }
   });
 
@@ -381,7 +433,7 @@ describe("importRequestSchema", () => {
           company: "Acme Corp",
           title: "Senior Engineer",
           location: "Stockholm",
-          status: "INTERVIEW",
+          stage: "Interview",
           order: "z9",
           dateApplied: "2024-03-15",
           jobPostingUrl: "https://acme.com/job",
@@ -389,7 +441,7 @@ describe("importRequestSchema", () => {
           notes: "Called for interview",
           resumeUrl: "https://drive.google.com/resume",
           coverLetterUrl: "https://drive.google.com/cover",
-          contactPerson: "Jane Smith",
+          contacts: [{ name: "Jane Smith" }],
         }),
       ],
     };
@@ -404,7 +456,7 @@ describe("importRequestSchema", () => {
       expect(job.company).toBe("Acme Corp");
       expect(job.title).toBe("Senior Engineer");
       expect(job.location).toBe("Stockholm");
-      expect(job.status).toBe("INTERVIEW");
+      expect(job.stage).toBe("Interview");
       expect(job.order).toBe("z9");
       expect(job.dateApplied).toBe("2024-03-15");
       expect(job.jobPostingUrl).toBe("https://acme.com/job");
@@ -412,7 +464,7 @@ describe("importRequestSchema", () => {
       expect(job.notes).toBe("Called for interview");
       expect(job.resumeUrl).toBe("https://drive.google.com/resume");
       expect(job.coverLetterUrl).toBe("https://drive.google.com/cover");
-      expect(job.contactPerson).toBe("Jane Smith");
+      expect(job.contacts).toEqual([{ name: "Jane Smith" }]);
     }
   });
 
@@ -440,7 +492,7 @@ describe("importRequestSchema", () => {
         }),
         {
           // Missing required company field
-          status: "APPLIED",
+          stage: "Applied",
           order: "1",
         },
       ],
@@ -456,3 +508,147 @@ describe("importRequestSchema", () => {
     }
   });
 });
+
+describe("jobSchema", () => {
+  it("accepts a salary range in order or with one end open", () => {
+    expect(
+      jobSchema.safeParse({
+        company: "Acme",
+        salaryMin: 40000,
+        salaryMax: 40000,
+      }).success
+    ).toBe(true);
+    expect(
+      jobSchema.safeParse({ company: "Acme", salaryMin: 40000, salaryMax: "" })
+        .success
+    ).toBe(true);
+  });
+
+  it("rejects a maximum salary below the minimum", () => {
+    // Act
+    const result = jobSchema.safeParse({
+      company: "Acme",
+      salaryMin: 60000,
+      salaryMax: 50000,
+    });
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ["salaryMax"],
+      message: "Maximum salary can't be below the minimum",
+    });
+  });
+
+  it("checks the range on create, update and import too", () => {
+    const inverted = { company: "Acme", salaryMin: 60000, salaryMax: 50000 };
+
+    expect(createJobSchema.safeParse(inverted).success).toBe(false);
+    expect(updateJobSchema.safeParse(inverted).success).toBe(false);
+    expect(jobImportSchema.safeParse(inverted).success).toBe(false);
+    expect(updateJobSchema.safeParse({ salaryMax: 50000 }).success).toBe(true);
+  });
+});
+
+describe("updateJobSchema", () => {
+  it("does not fill in defaults for fields that were not sent", () => {
+    // Act
+    const result = updateJobSchema.parse({ company: "Acme" });
+
+    // Assert
+    expect(result).toEqual({ company: "Acme" });
+  });
+
+  it("accepts a stage and order when provided", () => {
+    const result = updateJobSchema.parse({ stageId: 4, order: "i" });
+
+    expect(result).toEqual({ stageId: 4, order: "i" });
+  });
+});
+
+describe("moveJobSchema", () => {
+  it("accepts a stage ID and a non-negative integer index", () => {
+    expect(moveJobSchema.safeParse({ stageId: 3, index: 2 }).success).toBe(
+      true
+    );
+  });
+
+  it("rejects invalid stage IDs and indexes", () => {
+    expect(moveJobSchema.safeParse({ stageId: "DONE", index: 0 }).success).toBe(
+      false
+    );
+    expect(moveJobSchema.safeParse({ stageId: 3, index: 1.5 }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("stageSchema", () => {
+  it("trims the name and defaults the color to gray", () => {
+    const result = stageSchema.parse({
+      name: " Take-home ",
+      category: "INTERVIEW",
+    });
+
+    expect(result).toEqual({
+      name: "Take-home",
+      color: "gray",
+      category: "INTERVIEW",
+    });
+  });
+
+  it("rejects colors outside the palette and unknown categories", () => {
+    expect(
+      stageSchema.safeParse({ name: "A", color: "#fff", category: "APPLIED" })
+        .success
+    ).toBe(false);
+    expect(
+      stageSchema.safeParse({ name: "A", category: "GHOSTED" }).success
+    ).toBe(false);
+  });
+
+  it("does not fill in defaults for updates", () => {
+    expect(updateStageSchema.parse({ archived: true })).toEqual({
+      archived: true,
+    });
+  });
+});
+
+describe("parseJobListQuery", () => {
+  it("applies defaults when no parameters are given", () => {
+    const result = parseJobListQuery(new URLSearchParams());
+
+    expect(result).toEqual({ stageId: [], sort: "board", order: "desc" });
+  });
+
+  it("accepts repeated and comma-separated stage IDs", () => {
+    const result = parseJobListQuery(
+      new URLSearchParams("stageId=2,4&stageId=3")
+    );
+
+    expect(result.stageId).toEqual([2, 4, 3]);
+  });
+
+  it("coerces limit and cursor to numbers", () => {
+    const result = parseJobListQuery(new URLSearchParams("limit=20&cursor=5"));
+
+    expect(result).toMatchObject({ limit: 20, cursor: 5 });
+  });
+
+  it("ignores empty parameters", () => {
+    const result = parseJobListQuery(new URLSearchParams("q=&sort="));
+
+    expect(result.q).toBeUndefined();
+    expect(result.sort).toBe("board");
+  });
+
+  it("rejects invalid values", () => {
+    expect(() =>
+      parseJobListQuery(new URLSearchParams("sort=salary"))
+    ).toThrow();
+    expect(() =>
+      parseJobListQuery(new URLSearchParams("appliedFrom=yesterday"))
+    ).toThrow();
+    expect(() => parseJobListQuery(new URLSearchParams("limit=500"))).toThrow();
+  });
+});
@@ -1,41 +1,376 @@
 import { z } from "zod";
+import { isValidTimeZone } from "@/lib/interviews";
+import { STAGE_COLOR_NAMES } from "@/lib/stages";
+import { BOARD_ROLES } from "@/lib/boards";
 
-export const jobSchema = z.object({
+export const stageCategorySchema = z.enum([
+  "WISHLIST",
+  "APPLIED",
+  "INTERVIEW",
+  "OFFER",
+  "ACCEPTED",
+  "REJECTED",
+]);
+
+export const employmentTypeSchema = z.enum([
+  "FULL_TIME",
+  "PART_TIME",
+  "CONTRACT",
+  "TEMPORARY",
+  "INTERNSHIP",
+]);
+
+export const remotePolicySchema = z.enum(["ONSITE", "HYBRID", "REMOTE"]);
+
+export const salaryPeriodSchema = z.enum(["HOUR", "MONTH", "YEAR"]);
+
+// Whole amounts in the salary currency; "" clears the field
+const salaryAmountSchema = z.number().int().min(0).or(z.literal("")).optional();
+
+const jobFieldsSchema = z.object({
   company: z.string().min(1, "Company name is required"),
   title: z.string().optional(),
   location: z.string().optional(),
   jobPostingUrl: z.url({ message: "Invalid URL" }).or(z.literal("")).optional(),
   jobPostingText: z.string().optional(),
-  status: z
-    .enum(["WISHLIST", "APPLIED", "INTERVIEW", "OFFER", "ACCEPTED", "REJECTED"])
-    .default("WISHLIST"),
+  // Board column; new jobs without one go to the user's default stage
+  stageId: z.number().int().positive().optional(),
+  // New jobs without one go to the user's first board; changing it moves
+  // the job to another board
+  boardId: z.number().int().positive().optional(),
   notes: z.string().optional(),
-  contactPerson: z.string().optional(),
   resumeUrl: z.url({ message: "Invalid URL" }).or(z.literal("")).optional(),
   coverLetterUrl: z
     .url({ message: "Invalid URL" })
     .or(z.literal(""))
     .optional(),
   dateApplied: z.iso.date().or(z.literal("")).optional(),
+  deadline: z.iso.date().or(z.literal("")).optional(),
+  followUpAt: z.iso.date().or(z.literal("")).optional(),
   order: z.string().default("0"),
+  salaryMin: salaryAmountSchema,
+  salaryMax: salaryAmountSchema,
+  salaryCurrency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Use a 3-letter currency code, e.g. SEK")
+    .or(z.literal(""))
+    .optional(),
+  salaryPeriod: salaryPeriodSchema.or(z.literal("")).optional(),
+  employmentType: employmentTypeSchema.or(z.literal("")).optional(),
+  remotePolicy: remotePolicySchema.or(z.literal("")).optional(),
+  skills: z.array(z.string().trim().min(1).max(50)).max(30).default([]),
+  // Linked contacts, replacing the existing links when sent
+  contactIds: z.array(z.number().int().positive()).max(50).optional(),
+});
+
+// Checked when both ends of the salary range are given
+function salaryRangeInOrder(job: {
+  salaryMin?: number | "";
+  salaryMax?: number | "";
+}) {
+  return (
+    typeof job.salaryMin !== "number" ||
+    typeof job.salaryMax !== "number" ||
+    job.salaryMin <= job.salaryMax
+  );
+}
+
+const salaryRangeError = {
+  message: "Maximum salary can't be below the minimum",
+  path: ["salaryMax"],
+};
+
+export const jobSchema = jobFieldsSchema.refine(
+  salaryRangeInOrder,
+  salaryRangeError
+);
+
+export const createJobSchema = jobFieldsSchema
+  .partial({
+    dateApplied: true,
+  })
+  .refine(salaryRangeInOrder, salaryRangeError);
+
+// Defaults are dropped for updates so a partial PATCH never resets
+// order or skills for fields the client didn't send
+export const updateJobSchema = jobFieldsSchema
+  .extend({
+    order: jobFieldsSchema.shape.order.unwrap(),
+    skills: jobFieldsSchema.shape.skills.unwrap(),
+  })
+  .partial()
+  .refine(salaryRangeInOrder, salaryRangeError);
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.email({ message: "Invalid email" }).or(z.literal("")).optional(),
+  phone: z.string().optional(),
+  linkedinUrl: z.url({ message: "Invalid URL" }).or(z.literal("")).optional(),
+  role: z.string().optional(),
+  company: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// A new contact is the user's own, or the board owner's when added from a
+// job on a board shared with them
+export const createContactSchema = contactSchema.extend({
+  boardId: z.number().int().positive().optional(),
+});
+
+export const updateContactSchema = contactSchema.partial();
+
+// Company research, edited from the company view. Aliases are other names
+// jobs may use for the company (see lib/companies.ts).
+export const companySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  aliases: z.array(z.string().max(200)).max(20).optional(),
+  website: z.url({ message: "Invalid URL" }).or(z.literal("")).optional(),
+  notes: z.string().optional(),
+});
+
+export const updateCompanySchema = companySchema.partial();
+
+// Company form in CompanyModal: aliases are entered comma-separated
+export const companyFormSchema = companySchema.extend({
+  aliases: z.string().optional(),
+});
+
+// Act on a job's follow-up reminder: push it to a later date, or mark it
+// done so the reminder rules start over from now
+export const followUpActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("snooze"), until: z.iso.date() }),
+  z.object({ action: z.literal("complete") }),
+]);
+
+export const interviewOutcomeSchema = z.enum([
+  "PENDING",
+  "PASSED",
+  "REJECTED",
+  "CANCELLED",
+]);
+
+// Interview times are ISO datetimes with an offset (the client converts the
+// local time entered in timeZone, see lib/interviews.ts); "" clears endsAt
+const interviewFieldsSchema = z.object({
+  round: z.string().trim().min(1, "Round is required").max(100),
+  startsAt: z.iso.datetime({ offset: true }),
+  endsAt: z.iso.datetime({ offset: true }).or(z.literal("")).optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  location: z.string().optional(),
+  videoUrl: z.url({ message: "Invalid URL" }).or(z.literal("")).optional(),
+  interviewers: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+  prepNotes: z.string().optional(),
+  outcome: interviewOutcomeSchema.default("PENDING"),
+});
+
+function endsAfterStart(interview: { startsAt?: string; endsAt?: string }) {
+  return (
+    !interview.startsAt ||
+    !interview.endsAt ||
+    new Date(interview.endsAt) > new Date(interview.startsAt)
+  );
+}
+
+const endsAfterStartError = {
+  message: "End time must be after the start",
+  path: ["endsAt"],
+};
+
+export const interviewSchema = interviewFieldsSchema.refine(
+  endsAfterStart,
+  endsAfterStartError
+);
+
+// As with jobs, defaults are dropped so a partial PATCH never resets them
+export const updateInterviewSchema = interviewFieldsSchema
+  .extend({
+    interviewers: interviewFieldsSchema.shape.interviewers.unwrap(),
+    outcome: interviewFieldsSchema.shape.outcome.unwrap(),
+  })
+  .partial()
+  .refine(endsAfterStart, endsAfterStartError);
+
+// Interview form in JobModal: a day and wall clock times in timeZone,
+// converted to interviewSchema's UTC datetimes on submit
+export const interviewFormSchema = z
+  .object({
+    round: interviewFieldsSchema.shape.round,
+    date: z.iso.date({ message: "Date is required" }),
+    startTime: z.iso.time({ message: "Start time is required" }),
+    endTime: z.iso.time().or(z.literal("")).optional(),
+    timeZone: interviewFieldsSchema.shape.timeZone,
+    location: z.string().optional(),
+    videoUrl: interviewFieldsSchema.shape.videoUrl,
+    interviewers: z.string().optional(),
+    prepNotes: z.string().optional(),
+    outcome: interviewOutcomeSchema,
+  })
+  .refine((form) => !form.endTime || form.endTime > form.startTime, {
+    message: "End time must be after the start",
+    path: ["endTime"],
+  });
+
+// Move a job to a column position (drag and drop on the board)
+export const moveJobSchema = z.object({
+  stageId: z.number().int().positive(),
+  index: z.number().int().min(0),
+});
+
+// A pipeline stage (board column), see lib/stages.ts
+export const stageSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Stage name is required")
+    .max(50, "Keep stage names under 50 characters"),
+  color: z.enum(STAGE_COLOR_NAMES).default("gray"),
+  category: stageCategorySchema,
+});
+
+// Archiving hides the stage from the board; it needs to be empty first
+export const updateStageSchema = stageSchema
+  .extend({ color: z.enum(STAGE_COLOR_NAMES) })
+  .partial()
+  .extend({ archived: z.boolean().optional() });
+
+// A board: a separate set of jobs, see lib/boards.ts
+export const boardSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Board name is required")
+    .max(50, "Keep board names under 50 characters"),
+});
+
+export const boardRoleSchema = z.enum(BOARD_ROLES);
+
+// Invite a collaborator to a board by email address
+export const inviteBoardMemberSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.email({ message: "Invalid email" }).max(254, "Email is too long")),
+  role: boardRoleSchema.default("VIEWER"),
+});
+
+export const updateBoardMemberSchema = z.object({
+  role: boardRoleSchema,
+});
+
+// A comment on a job, in markdown (see lib/markdown.ts)
+export const jobCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Comment can't be empty")
+    .max(10000, "Keep comments under 10,000 characters"),
+});
+
+// New column order: every one of the user's stage IDs, first column first
+export const reorderStagesSchema = z.object({
+  stageIds: z.array(z.number().int().positive()).min(1).max(100),
 });
 
-export const createJobSchema = jobSchema.partial({
-  dateApplied: true,
+// Query parameters for GET /api/jobs (search, filters, sorting, pagination)
+export const JOB_SORT_FIELDS = [
+  "board",
+  "createdAt",
+  "updatedAt",
+  "dateApplied",
+  "company",
+] as const;
+
+// ?boardId= on board-scoped routes; the user's first board when missing
+export const boardIdParamSchema = z.coerce.number().int().positive().optional();
+
+export const jobListQuerySchema = z.object({
+  boardId: boardIdParamSchema,
+  q: z.string().trim().max(200).optional(),
+  stageId: z.array(z.coerce.number().int().positive()).default([]),
+  appliedFrom: z.iso.date().optional(),
+  appliedTo: z.iso.date().optional(),
+  sort: z.enum(JOB_SORT_FIELDS).default("board"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.coerce.number().int().positive().optional(),
 });
 
-export const updateJobSchema = jobSchema.partial();
+/**
+ * Parse GET /api/jobs query parameters.
+ * stageId may be repeated (?stageId=1&stageId=2) or comma-separated.
+ * @throws ZodError if a parameter is invalid
+ */
+export function parseJobListQuery(searchParams: URLSearchParams) {
+  const value = (key: string) => searchParams.get(key) || undefined;
+
+  return jobListQuerySchema.parse({
+    boardId: value("boardId"),
+    q: value("q"),
+    stageId: searchParams
+      .getAll("stageId")
+      .flatMap((stageId) => stageId.split(","))
+      .filter(Boolean),
+    appliedFrom: value("appliedFrom"),
+    appliedTo: value("appliedTo"),
+    sort: value("sort"),
+    order: value("order"),
+    limit: value("limit"),
+    cursor: value("cursor"),
+  });
+}
 
 // Export types for use in forms and API routes
 // Use z.output for forms because react-hook-form expects the OUTPUT type
 // (where .default() values are applied and fields become required)
 export type JobFormData = z.output<typeof jobSchema>;
+export type EmploymentType = z.infer<typeof employmentTypeSchema>;
+export type RemotePolicy = z.infer<typeof remotePolicySchema>;
+export type SalaryPeriod = z.infer<typeof salaryPeriodSchema>;
 export type CreateJobData = z.output<typeof createJobSchema>;
 export type UpdateJobData = z.output<typeof updateJobSchema>;
+export type MoveJobData = z.output<typeof moveJobSchema>;
+export type StageData = z.output<typeof stageSchema>;
+export type BoardData = z.output<typeof boardSchema>;
+export type InviteBoardMemberData = z.output<typeof inviteBoardMemberSchema>;
+export type JobCommentData = z.output<typeof jobCommentSchema>;
+export type UpdateStageData = z.output<typeof updateStageSchema>;
+export type FollowUpAction = z.output<typeof followUpActionSchema>;
+export type InterviewData = z.output<typeof interviewSchema>;
+export type UpdateInterviewData = z.output<typeof updateInterviewSchema>;
+export type InterviewFormData = z.output<typeof interviewFormSchema>;
+export type JobListQuery = z.output<typeof jobListQuerySchema>;
+export type ContactFormData = z.output<typeof contactSchema>;
+export type UpdateContactData = z.output<typeof updateContactSchema>;
+export type CompanyFormData = z.output<typeof companyFormSchema>;
+export type UpdateCompanyData = z.output<typeof updateCompanySchema>;
 
 // Export/Import schemas
-// jobSchema already contains only user-editable fields (no id, userId, timestamps)
-// so we can reuse it directly for import validation
+// A JobHistory row as stored in export files (job is implied by nesting)
+export const exportedHistoryEntrySchema = z.object({
+  fieldChanged: z.string().min(1),
+  oldValue: z.string().nullable(),
+  newValue: z.string().nullable(),
+  changedAt: z.iso.datetime(),
+});
+
+// A pipeline stage as stored in export files, in board order. Imports
+// reuse the user's stage with the same name, or create it.
+export const exportedStageSchema = stageSchema.extend({
+  archived: z.boolean().optional(),
+});
+
+// A linked contact as stored in export files. Imports link it to an
+// existing contact with the same name, or create it.
+export const exportedContactSchema = contactSchema;
+
+// jobFieldsSchema already contains only user-editable fields (no id, userId, timestamps)
+// so we can reuse it directly for import validation. Contacts are carried
+// by value and the stage by name instead of ID; the board is the one
+// imported into. Exports can also carry the job's history and, for jobs in
+// the trash, when it was deleted.
 export const jobImportSchema = z.preprocess(
   // Convert null to undefined for optional fields (exported JSON uses null for clarity)
   (data) => {
@@ -47,11 +382,56 @@ export const jobImportSchema = z.preprocess(
       ])
     );
   },
-  jobSchema.strict()
+  jobFieldsSchema
+    .omit({ contactIds: true, stageId: true, boardId: true })
+    .extend({
+      // Missing means the user's default stage
+      stage: z.string().trim().min(1).max(50).optional(),
+      // No default, so a merge can tell skills left out from none
+      skills: jobFieldsSchema.shape.skills.unwrap().optional(),
+      contacts: z.array(exportedContactSchema).max(50).optional(),
+      deletedAt: z.iso.datetime().optional(),
+      history: z.array(exportedHistoryEntrySchema).optional(),
+    })
+    .strict()
+    .refine(salaryRangeInOrder, salaryRangeError)
 );
 
+/**
+ * How an import treats the jobs already on the board:
+ * - replace: move all current jobs to the trash, then create every
+ *   imported row
+ * - merge: update jobs that match an imported row, create the rest
+ * - append: create every imported row, leaving current jobs untouched
+ */
+export const IMPORT_MODES = ["replace", "merge", "append"] as const;
+
 export const importRequestSchema = z.object({
   jobs: z.array(jobImportSchema),
+  // Board to import into, the user's first board when missing
+  boardId: z.number().int().positive().optional(),
+  // Definitions of the stages the jobs refer to, from the export file
+  stages: z.array(exportedStageSchema).max(100).default([]),
+  mode: z.enum(IMPORT_MODES).default("replace"),
+  // Report what the import would do without writing anything
+  dryRun: z.boolean().default(false),
+});
+
+// Export file envelope (format version 4). Jobs are validated separately
+// with importRequestSchema so errors point at a job number.
+export const exportEnvelopeSchema = z.object({
+  formatVersion: z.literal(4),
+  // Unknown for files upgraded from the bare-array format
+  exportedAt: z.iso.datetime().nullable(),
+  appVersion: z.string().nullable(),
+  counts: z.object({
+    jobs: z.number().int().min(0),
+    deletedJobs: z.number().int().min(0),
+    history: z.number().int().min(0),
+  }),
+  stages: z.array(exportedStageSchema),
+  jobs: z.array(z.unknown()),
+  deletedJobs: z.array(z.unknown()).optional(),
 });
 
 // Job extraction schemas for AI-powered import
@@ -59,17 +439,69 @@ export const extractJobSchema = z.object({
   url: z.url({ message: "Invalid URL" }),
 });
 
-export type ExtractJobRequest = z.infer<typeof extractJobSchema>;
+// Fields an extractor can fill in from a job posting
+export const EXTRACTED_JOB_FIELDS = [
+  "company",
+  "title",
+  "location",
+  "jobPostingText",
+  "notes",
+  "deadline",
+  "salaryMin",
+  "salaryMax",
+  "salaryCurrency",
+  "salaryPeriod",
+  "employmentType",
+  "remotePolicy",
+  "skills",
+] as const;
 
-// Type for extracted job data (matches claude-extract.ts interface)
-export type ExtractedJobData = {
-  company?: string;
-  title?: string;
-  location?: string;
-  jobPostingUrl: string;
-  jobPostingText?: string;
-  notes?: string;
-};
+export const EXTRACTION_CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+
+const confidenceLevelSchema = z.enum(EXTRACTION_CONFIDENCE_LEVELS).optional();
+
+// How sure the AI extraction is of each field it filled. Fields read from
+// a job board API or structured data have no entry.
+export const extractionConfidenceSchema = z.object({
+  company: confidenceLevelSchema,
+  title: confidenceLevelSchema,
+  location: confidenceLevelSchema,
+  jobPostingText: confidenceLevelSchema,
+  notes: confidenceLevelSchema,
+  deadline: confidenceLevelSchema,
+  salaryMin: confidenceLevelSchema,
+  salaryMax: confidenceLevelSchema,
+  salaryCurrency: confidenceLevelSchema,
+  salaryPeriod: confidenceLevelSchema,
+  employmentType: confidenceLevelSchema,
+  remotePolicy: confidenceLevelSchema,
+  skills: confidenceLevelSchema,
+});
+
+export const extractedJobDataSchema = z.object({
+  company: z.string().optional(),
+  title: z.string().optional(),
+  location: z.string().optional(),
+  jobPostingUrl: z.string(),
+  jobPostingText: z.string().optional(),
+  notes: z.string().optional(),
+  deadline: z.iso.date().optional(),
+  salaryMin: z.number().int().min(0).optional(),
+  salaryMax: z.number().int().min(0).optional(),
+  salaryCurrency: z.string().optional(),
+  salaryPeriod: salaryPeriodSchema.optional(),
+  employmentType: employmentTypeSchema.optional(),
+  remotePolicy: remotePolicySchema.optional(),
+  skills: z.array(z.string()).optional(),
+  confidence: extractionConfidenceSchema.optional(),
+});
+
+export type ExtractJobRequest = z.infer<typeof extractJobSchema>;
+export type ExtractedJobField = (typeof EXTRACTED_JOB_FIELDS)[number];
+export type ExtractionConfidenceLevel =
+  (typeof EXTRACTION_CONFIDENCE_LEVELS)[number];
+export type ExtractionConfidence = z.infer<typeof extractionConfidenceSchema>;
+export type ExtractedJobData = z.infer<typeof extractedJobDataSchema>;
 
 // Manually define ExportedJob type to explicitly show null values in JSON format
 // This is the format we create when exporting. The jobImportSchema validates this format during import.
@@ -77,20 +509,32 @@ export type ExportedJob = {
   company: string;
   title?: string | null;
   location?: string | null;
-  status:
-    | "WISHLIST"
-    | "APPLIED"
-    | "INTERVIEW"
-    | "OFFER"
-    | "ACCEPTED"
-    | "REJECTED";
+  // Stage name, defined in the envelope's stages
+  stage: string;
   order: string;
   dateApplied?: string | null;
+  deadline?: string | null;
+  followUpAt?: string | null;
   jobPostingUrl?: string | null;
   jobPostingText?: string | null;
   notes?: string | null;
   resumeUrl?: string | null;
   coverLetterUrl?: string | null;
-  contactPerson?: string | null;
+  contacts?: ExportedContact[];
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  salaryPeriod?: SalaryPeriod | null;
+  employmentType?: EmploymentType | null;
+  remotePolicy?: RemotePolicy | null;
+  skills?: string[];
+  // Only in exports that include deleted jobs / history
+  deletedAt?: string | null;
+  history?: ExportedHistoryEntry[];
 };
+export type ExportedHistoryEntry = z.infer<typeof exportedHistoryEntrySchema>;
+export type ExportedContact = z.infer<typeof exportedContactSchema>;
+export type ExportedStage = z.infer<typeof exportedStageSchema>;
+export type ExportEnvelope = z.infer<typeof exportEnvelopeSchema>;
 export type ImportRequest = z.input<typeof importRequestSchema>;
+export type ImportMode = (typeof IMPORT_MODES)[number];
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { searchWords, toTsQuery } from "./search";
+
+describe("searchWords", () => {
+  it("lowercases and splits on anything that isn't a letter or digit", () => {
+    expect(searchWords("Full-stack Dev, Malmö")).toEqual([
+      "full",
+      "stack",
+      "dev",
+      "malmö",
+    ]);
+  });
+
+  it("returns an empty list for blank input", () => {
+    expect(searchWords("  ")).toEqual([]);
+  });
+});
+
+describe("toTsQuery", () => {
+  it("joins words with AND and prefix matching", () => {
+    expect(toTsQuery("Senior Developer")).toBe("senior:* & developer:*");
+  });
+
+  it("keeps non-ASCII letters", () => {
+    expect(toTsQuery("Göteborg")).toBe("göteborg:*");
+  });
+
+  it("strips tsquery operators and punctuation", () => {
+    expect(toTsQuery("react & (node | !java):*")).toBe(
+      "react:* & node:* & java:*"
+    );
+  });
+
+  it("returns null when there is nothing to search for", () => {
+    expect(toTsQuery("")).toBeNull();
+    expect(toTsQuery("  &|!  ")).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Helpers for full-text search over jobs, shared by the Postgres search
+ * (GET /api/jobs) and the board's client-side filter.
+ */
+
+/**
+ * Split free-text user input into lowercase search words.
+ * Punctuation and operators are dropped; letters in any script are kept.
+ */
+export function searchWords(input: string): string[] {
+  return input.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Turn free-text user input into a safe to_tsquery expression.
+ * Every word must match (AND), and each word also matches as a prefix so
+ * "dev" finds "developer". Punctuation and tsquery operators are dropped.
+ *
+ * @param input - Raw search text from the user
+ * @returns tsquery string, or null if the input has no searchable words
+ */
+export function toTsQuery(input: string): string | null {
+  const words = searchWords(input);
+
+  if (words.length === 0) return null;
+
+  return words.map((word) => `${word}:*`).join(" & ");
+}
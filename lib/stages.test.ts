@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Stage } from "@prisma/client";
+import {
+  findStageByName,
+  getBoardStages,
+  getDefaultStage,
+  getStageColor,
+  isTerminalCategory,
+  sortStages,
+} from "./stages";
+
+const stage = (overrides: Partial<Stage>) =>
+  ({
+    id: 1,
+    name: "Wishlist",
+    color: "gray",
+    position: 0,
+    category: "WISHLIST",
+    archivedAt: null,
+    ...overrides,
+  }) as Stage;
+
+describe("getStageColor", () => {
+  it("returns the class for a palette color", () => {
+    expect(getStageColor("blue")).toBe("bg-stage-blue");
+  });
+
+  it("falls back to gray for unknown colors", () => {
+    expect(getStageColor("chartreuse")).toBe("bg-stage-gray");
+  });
+});
+
+describe("isTerminalCategory", () => {
+  it("is true for accepted and rejected only", () => {
+    expect(isTerminalCategory("ACCEPTED")).toBe(true);
+    expect(isTerminalCategory("REJECTED")).toBe(true);
+    expect(isTerminalCategory("OFFER")).toBe(false);
+  });
+});
+
+describe("findStageByName", () => {
+  it("ignores case and surrounding whitespace", () => {
+    const stages = [stage({ id: 1 }), stage({ id: 2, name: "Phone screen" })];
+
+    expect(findStageByName(stages, "  PHONE screen ")?.id).toBe(2);
+    expect(findStageByName(stages, "Take-home")).toBeUndefined();
+  });
+});
+
+describe("sortStages", () => {
+  it("orders by position, then by ID", () => {
+    const stages = [
+      stage({ id: 3, position: 1 }),
+      stage({ id: 2, position: 1 }),
+      stage({ id: 1, position: 2 }),
+    ];
+
+    expect(sortStages(stages).map((s) => s.id)).toEqual([2, 3, 1]);
+  });
+});
+
+describe("getBoardStages", () => {
+  it("leaves out archived stages unless they hold jobs", () => {
+    // Arrange
+    const archived = { archivedAt: new Date("2025-01-01") };
+    const stages = [
+      stage({ id: 1, position: 0 }),
+      stage({ id: 2, position: 1, ...archived }),
+      stage({ id: 3, position: 2, ...archived }),
+    ];
+
+    // Act
+    const columns = getBoardStages(stages, [{ stageId: 3 }]);
+
+    // Assert
+    expect(columns.map((s) => s.id)).toEqual([1, 3]);
+  });
+});
+
+describe("getDefaultStage", () => {
+  it("prefers the first active wishlist stage", () => {
+    const stages = [
+      stage({ id: 1, position: 0, category: "APPLIED" }),
+      stage({ id: 2, position: 1, archivedAt: new Date("2025-01-01") }),
+      stage({ id: 3, position: 2 }),
+    ];
+
+    expect(getDefaultStage(stages)?.id).toBe(3);
+  });
+
+  it("falls back to the first active stage", () => {
+    const stages = [
+      stage({ id: 1, position: 1, category: "INTERVIEW" }),
+      stage({ id: 2, position: 0, category: "APPLIED" }),
+    ];
+
+    expect(getDefaultStage(stages)?.id).toBe(2);
+  });
+});
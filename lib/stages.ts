@@ -0,0 +1,164 @@
+import { Contact, Job, Stage, StageCategory } from "@prisma/client";
+
+/**
+ * Pipeline stages are the columns of a user's board. Users name, color and
+ * order them freely; each stage has a category that tells reminders,
+ * deadlines and statistics what it means. ACCEPTED and REJECTED stages are
+ * terminal: the application ended in success or failure.
+ */
+
+/**
+ * A job as loaded for the board, with its stage and linked contacts, and
+ * on the board itself its comment count
+ */
+export type BoardJob = Job & {
+  stage: Stage;
+  contacts: Contact[];
+  _count?: { comments: number };
+};
+
+/** Palette stages can be colored from, in picker order */
+export const STAGE_COLOR_NAMES = [
+  "gray",
+  "blue",
+  "teal",
+  "green",
+  "yellow",
+  "orange",
+  "red",
+  "pink",
+  "purple",
+] as const;
+
+export type StageColor = (typeof STAGE_COLOR_NAMES)[number];
+
+/**
+ * Background class for each palette color. Complete class names so
+ * Tailwind's JIT compiler can detect them.
+ */
+export const STAGE_COLORS: Record<StageColor, string> = {
+  gray: "bg-stage-gray",
+  blue: "bg-stage-blue",
+  teal: "bg-stage-teal",
+  green: "bg-stage-green",
+  yellow: "bg-stage-yellow",
+  orange: "bg-stage-orange",
+  red: "bg-stage-red",
+  pink: "bg-stage-pink",
+  purple: "bg-stage-purple",
+};
+
+/** Category order, from first step to outcome */
+export const STAGE_CATEGORIES: StageCategory[] = [
+  "WISHLIST",
+  "APPLIED",
+  "INTERVIEW",
+  "OFFER",
+  "ACCEPTED",
+  "REJECTED",
+];
+
+/** Categories that end an application */
+export const TERMINAL_CATEGORIES: StageCategory[] = ["ACCEPTED", "REJECTED"];
+
+/**
+ * The stages every user starts with, one per category, in board order.
+ * Keep in sync with the add_stages migration.
+ */
+export const DEFAULT_STAGES: {
+  name: string;
+  color: StageColor;
+  category: StageCategory;
+}[] = [
+  { name: "Wishlist", color: "gray", category: "WISHLIST" },
+  { name: "Applied", color: "blue", category: "APPLIED" },
+  { name: "Interview", color: "yellow", category: "INTERVIEW" },
+  { name: "Offer", color: "green", category: "OFFER" },
+  { name: "Accepted", color: "teal", category: "ACCEPTED" },
+  { name: "Rejected", color: "red", category: "REJECTED" },
+];
+
+/**
+ * Get the Tailwind background class for a stage color. Unknown colors
+ * (from older data or a hand-edited import) are shown gray.
+ */
+export function getStageColor(color: string): string {
+  return STAGE_COLORS[color as StageColor] ?? STAGE_COLORS.gray;
+}
+
+/**
+ * Get the background class of a category's default stage, for charts
+ * that group stages by category
+ */
+export function getCategoryColor(category: StageCategory): string {
+  const stage = DEFAULT_STAGES.find((s) => s.category === category);
+  return getStageColor(stage?.color ?? "gray");
+}
+
+/**
+ * Get the human-readable label for a stage category
+ */
+export function getCategoryLabel(category: StageCategory): string {
+  const labelMap: Record<StageCategory, string> = {
+    WISHLIST: "Wishlist",
+    APPLIED: "Applied",
+    INTERVIEW: "Interview",
+    OFFER: "Offer",
+    ACCEPTED: "Accepted",
+    REJECTED: "Rejected",
+  };
+  return labelMap[category] ?? category;
+}
+
+/**
+ * Whether stages of a category end the application
+ */
+export function isTerminalCategory(category: StageCategory): boolean {
+  return TERMINAL_CATEGORIES.includes(category);
+}
+
+/**
+ * Find a stage by name, ignoring case and surrounding whitespace
+ */
+export function findStageByName<T extends Pick<Stage, "name">>(
+  stages: T[],
+  name: string
+): T | undefined {
+  const key = name.trim().toLowerCase();
+  return stages.find((stage) => stage.name.trim().toLowerCase() === key);
+}
+
+/**
+ * Stages in board order (position, then creation order by ID)
+ */
+export function sortStages<T extends Pick<Stage, "id" | "position">>(
+  stages: T[]
+): T[] {
+  return [...stages].sort((a, b) => a.position - b.position || a.id - b.id);
+}
+
+/**
+ * The columns to show on the board: active stages, plus archived ones
+ * that still hold jobs so no job disappears from view
+ *
+ * @param stages - All of the user's stages
+ * @param jobs - Jobs on the board
+ */
+export function getBoardStages<T extends Stage>(
+  stages: T[],
+  jobs: Pick<Job, "stageId">[]
+): T[] {
+  const used = new Set(jobs.map((job) => job.stageId));
+  return sortStages(
+    stages.filter((stage) => !stage.archivedAt || used.has(stage.id))
+  );
+}
+
+/**
+ * The stage new jobs go to when none is picked: the first active stage,
+ * preferring a wishlist stage
+ */
+export function getDefaultStage<T extends Stage>(stages: T[]): T | undefined {
+  const active = sortStages(stages.filter((stage) => !stage.archivedAt));
+  return active.find((stage) => stage.category === "WISHLIST") ?? active[0];
+}
@@ -0,0 +1,359 @@
+import { describe, it, expect } from "vitest";
+import { Job, JobHistory, Stage, StageCategory } from "@prisma/client";
+import {
+  computeJobStats,
+  getSourceDomain,
+  getWeekStart,
+  median,
+  NO_SOURCE,
+  STATS_WEEKS,
+} from "./stats";
+
+// Wednesday
+const NOW = new Date("2025-03-19T12:00:00Z");
+
+// The default stages, one per category, with IDs 1-6
+const STAGES = (
+  [
+    "WISHLIST",
+    "APPLIED",
+    "INTERVIEW",
+    "OFFER",
+    "ACCEPTED",
+    "REJECTED",
+  ] as StageCategory[]
+).map(
+  (category, index) =>
+    ({
+      id: index + 1,
+      name: category.charAt(0) + category.slice(1).toLowerCase(),
+      color: "gray",
+      position: index,
+      category,
+      archivedAt: null,
+    }) as Stage
+);
+
+const STAGE_IDS = Object.fromEntries(
+  STAGES.map((stage) => [stage.category, stage.id])
+) as Record<StageCategory, number>;
+
+let nextId = 1;
+
+const job = (overrides: Partial<Job> = {}) =>
+  ({
+    id: nextId++,
+    stageId: STAGE_IDS.WISHLIST,
+    dateApplied: null,
+    jobPostingUrl: null,
+    createdAt: new Date("2025-01-01T09:00:00Z"),
+    ...overrides,
+  }) as Job;
+
+// newValue is a category (for its stage's ID) or any other value
+const entry = (
+  jobId: number,
+  newValue: string,
+  changedAt: string,
+  fieldChanged = "stageId"
+) => ({
+  jobId,
+  fieldChanged,
+  newValue: String(STAGE_IDS[newValue as StageCategory] ?? newValue),
+  changedAt: new Date(changedAt),
+});
+
+const daysByStage = (stats: ReturnType<typeof computeJobStats>) =>
+  Object.fromEntries(
+    stats.medianDaysInStage.map((stage) => [stage.name, stage.days])
+  );
+
+describe("median", () => {
+  it("returns the middle value", () => {
+    expect(median([5, 1, 3])).toBe(3);
+  });
+
+  it("averages the two middle values for an even count", () => {
+    expect(median([4, 1, 2, 10])).toBe(3);
+  });
+
+  it("returns null for no values", () => {
+    expect(median([])).toBeNull();
+  });
+});
+
+describe("getWeekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStart(new Date("2025-03-19T12:00:00Z"))).toBe("2025-03-17");
+    expect(getWeekStart(new Date("2025-03-17T00:00:00Z"))).toBe("2025-03-17");
+  });
+
+  it("counts Sunday as the end of the week", () => {
+    expect(getWeekStart(new Date("2025-03-23T23:00:00Z"))).toBe("2025-03-17");
+  });
+});
+
+describe("getSourceDomain", () => {
+  it("returns the host without www", () => {
+    expect(getSourceDomain("https://www.LinkedIn.com/jobs/view/1")).toBe(
+      "linkedin.com"
+    );
+    expect(getSourceDomain("https://boards.greenhouse.io/acme/jobs/1")).toBe(
+      "boards.greenhouse.io"
+    );
+  });
+
+  it("returns NO_SOURCE for missing or invalid URLs", () => {
+    expect(getSourceDomain(null)).toBe(NO_SOURCE);
+    expect(getSourceDomain("not a url")).toBe(NO_SOURCE);
+  });
+});
+
+describe("computeJobStats", () => {
+  it("counts jobs at every stage they got through", () => {
+    // Arrange
+    const jobs = [
+      job({ stageId: STAGE_IDS.WISHLIST }),
+      job({ stageId: STAGE_IDS.APPLIED }),
+      job({ stageId: STAGE_IDS.INTERVIEW }),
+      job({ stageId: STAGE_IDS.OFFER }),
+      job({ stageId: STAGE_IDS.ACCEPTED }),
+    ];
+
+    // Act
+    const { funnel, totalJobs } = computeJobStats(jobs, [], STAGES, NOW);
+
+    // Assert
+    expect(totalJobs).toBe(5);
+    expect(funnel).toEqual([
+      { category: "APPLIED", count: 4, conversionRate: null },
+      { category: "INTERVIEW", count: 3, conversionRate: 0.75 },
+      { category: "OFFER", count: 2, conversionRate: 2 / 3 },
+      { category: "ACCEPTED", count: 1, conversionRate: 0.5 },
+    ]);
+  });
+
+  it("uses the history for jobs that were rejected", () => {
+    // Arrange
+    const afterInterview = job({ stageId: STAGE_IDS.REJECTED });
+    const afterApplying = job({ stageId: STAGE_IDS.REJECTED });
+    const history = [
+      entry(afterInterview.id, "APPLIED", "2025-02-01"),
+      entry(afterInterview.id, "INTERVIEW", "2025-02-05"),
+      entry(afterInterview.id, "REJECTED", "2025-02-10"),
+    ];
+
+    // Act
+    const { funnel, rejections } = computeJobStats(
+      [afterInterview, afterApplying],
+      history,
+      STAGES,
+      NOW
+    );
+
+    // Assert
+    expect(funnel.map((stage) => stage.count)).toEqual([2, 1, 0, 0]);
+    expect(rejections).toEqual({
+      total: 2,
+      rate: 1,
+      byStage: [
+        { category: "APPLIED", count: 1 },
+        { category: "INTERVIEW", count: 1 },
+        { category: "OFFER", count: 0 },
+      ],
+    });
+  });
+
+  it("counts a wishlist job with a date applied as applied", () => {
+    const { funnel } = computeJobStats(
+      [
+        job({
+          stageId: STAGE_IDS.WISHLIST,
+          dateApplied: new Date("2025-03-18"),
+        }),
+      ],
+      [],
+      STAGES,
+      NOW
+    );
+
+    expect(funnel[0].count).toBe(1);
+  });
+
+  it("returns null rates when nothing was applied for", () => {
+    // Act
+    const { funnel, rejections } = computeJobStats([job()], [], STAGES, NOW);
+
+    // Assert
+    expect(funnel.every((stage) => stage.count === 0)).toBe(true);
+    expect(funnel[1].conversionRate).toBeNull();
+    expect(rejections.rate).toBeNull();
+  });
+
+  it("computes the median days spent in each stage that was left", () => {
+    // Arrange
+    const first = job({ stageId: STAGE_IDS.INTERVIEW });
+    const second = job({ stageId: STAGE_IDS.OFFER });
+    const history = [
+      entry(first.id, "WISHLIST", "2025-02-01T00:00:00Z", "created"),
+      entry(first.id, "APPLIED", "2025-02-03T00:00:00Z"),
+      entry(first.id, "INTERVIEW", "2025-02-13T00:00:00Z"),
+      entry(second.id, "APPLIED", "2025-02-01T00:00:00Z", "created"),
+      entry(second.id, "INTERVIEW", "2025-02-05T12:00:00Z"),
+      entry(second.id, "OFFER", "2025-02-08T12:00:00Z"),
+      // Unrelated field, ignored
+      entry(second.id, "Notes", "2025-02-06T00:00:00Z", "notes"),
+    ];
+
+    // Act
+    const stats = computeJobStats([first, second], history, STAGES, NOW);
+
+    // Assert
+    expect(daysByStage(stats)).toEqual({
+      Wishlist: 2,
+      Applied: 7.25,
+      Interview: 3,
+      Offer: null,
+      Accepted: null,
+      Rejected: null,
+    });
+  });
+
+  it("merges history entries repeating the previous stage", () => {
+    // Arrange: an imported job's history ends with the "imported" entry
+    const imported = job({ stageId: STAGE_IDS.INTERVIEW });
+    const history = [
+      entry(imported.id, "APPLIED", "2025-01-01T00:00:00Z"),
+      entry(imported.id, "INTERVIEW", "2025-01-04T00:00:00Z"),
+      entry(imported.id, "INTERVIEW", "2025-03-01T00:00:00Z", "imported"),
+    ];
+
+    // Act
+    const stats = computeJobStats([imported], history, STAGES, NOW);
+
+    // Assert
+    expect(daysByStage(stats).Applied).toBe(3);
+    expect(daysByStage(stats).Interview).toBeNull();
+  });
+
+  it("counts custom stages towards their category", () => {
+    // Arrange: "Phone screen" is an interview stage next to Interview, and
+    // an archived stage nobody has left is not listed
+    const phoneScreen = {
+      ...STAGES[2],
+      id: 7,
+      name: "Phone screen",
+      position: 2,
+    };
+    const oldStage = {
+      ...STAGES[1],
+      id: 8,
+      name: "Old",
+      archivedAt: new Date("2025-01-01"),
+    };
+    const screened = job({ stageId: STAGE_IDS.REJECTED });
+    const history = [
+      entry(screened.id, "APPLIED", "2025-03-01T00:00:00Z"),
+      entry(screened.id, "7", "2025-03-04T00:00:00Z"),
+      entry(screened.id, "REJECTED", "2025-03-06T00:00:00Z"),
+    ];
+
+    // Act
+    const stats = computeJobStats(
+      [screened],
+      history,
+      [...STAGES, phoneScreen, oldStage],
+      NOW
+    );
+
+    // Assert
+    expect(stats.funnel.map((step) => step.count)).toEqual([1, 1, 0, 0]);
+    expect(stats.rejections.byStage[1]).toEqual({
+      category: "INTERVIEW",
+      count: 1,
+    });
+    expect(stats.medianDaysInStage.map((stage) => stage.name)).toEqual([
+      "Wishlist",
+      "Applied",
+      "Interview",
+      "Phone screen",
+      "Offer",
+      "Accepted",
+      "Rejected",
+    ]);
+    expect(daysByStage(stats)["Phone screen"]).toBe(2);
+  });
+
+  it("counts applications per week, including empty weeks", () => {
+    // Arrange
+    const jobs = [
+      job({ stageId: STAGE_IDS.APPLIED, dateApplied: new Date("2025-03-17") }),
+      job({ stageId: STAGE_IDS.APPLIED, dateApplied: new Date("2025-03-19") }),
+      job({
+        stageId: STAGE_IDS.INTERVIEW,
+        dateApplied: new Date("2025-03-03"),
+      }),
+      // Before the window
+      job({ stageId: STAGE_IDS.APPLIED, dateApplied: new Date("2024-06-01") }),
+    ];
+    // No date applied: falls back to when it moved to an applied stage
+    const moved = job({ stageId: STAGE_IDS.APPLIED });
+    const history = [entry(moved.id, "APPLIED", "2025-03-11T10:00:00Z")];
+
+    // Act
+    const { applicationsPerWeek } = computeJobStats(
+      [...jobs, moved],
+      history,
+      STAGES,
+      NOW
+    );
+
+    // Assert
+    expect(applicationsPerWeek).toHaveLength(STATS_WEEKS);
+    expect(applicationsPerWeek[0].weekStart).toBe("2024-12-30");
+    expect(applicationsPerWeek.slice(-3)).toEqual([
+      { weekStart: "2025-03-03", count: 1 },
+      { weekStart: "2025-03-10", count: 1 },
+      { weekStart: "2025-03-17", count: 2 },
+    ]);
+  });
+
+  it("computes the response rate by source domain", () => {
+    // Arrange
+    const linkedin = "https://www.linkedin.com/jobs/view/";
+    const jobs = [
+      job({ stageId: STAGE_IDS.APPLIED, jobPostingUrl: `${linkedin}1` }),
+      job({ stageId: STAGE_IDS.REJECTED, jobPostingUrl: `${linkedin}2` }),
+      job({ stageId: STAGE_IDS.INTERVIEW, jobPostingUrl: `${linkedin}3` }),
+      job({
+        stageId: STAGE_IDS.APPLIED,
+        jobPostingUrl: "https://jobs.lever.co/acme/1",
+      }),
+      job({ stageId: STAGE_IDS.OFFER }),
+      // Never applied for, not counted
+      job({ stageId: STAGE_IDS.WISHLIST, jobPostingUrl: `${linkedin}4` }),
+    ];
+
+    // Act
+    const { responseRateBySource } = computeJobStats(jobs, [], STAGES, NOW);
+
+    // Assert
+    expect(responseRateBySource).toEqual([
+      { source: "linkedin.com", applied: 3, responded: 2, rate: 2 / 3 },
+      { source: "jobs.lever.co", applied: 1, responded: 0, rate: 0 },
+      { source: NO_SOURCE, applied: 1, responded: 1, rate: 1 },
+    ]);
+  });
+
+  it("returns empty stats for no jobs", () => {
+    // Act
+    const stats = computeJobStats([], [] as JobHistory[], STAGES, NOW);
+
+    // Assert
+    expect(stats.totalJobs).toBe(0);
+    expect(stats.responseRateBySource).toEqual([]);
+    expect(stats.applicationsPerWeek.every((week) => week.count === 0)).toBe(
+      true
+    );
+  });
+});
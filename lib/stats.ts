@@ -0,0 +1,317 @@
+import { Job, JobHistory, Stage, StageCategory } from "@prisma/client";
+import { HISTORY_EVENTS } from "@/lib/job-history";
+import { sortStages } from "@/lib/stages";
+
+/**
+ * Search statistics for the stats page and GET /api/stats: how far
+ * applications get, how long they sit in each stage, how many go out each
+ * week and which sources reply. Computed from non-deleted jobs and their
+ * stage history (see getStageHistoryForJobs). The funnel works on stage
+ * categories, so custom stages count towards the step they belong to.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The categories an application moves through, in order */
+export const FUNNEL_CATEGORIES: StageCategory[] = [
+  "APPLIED",
+  "INTERVIEW",
+  "OFFER",
+  "ACCEPTED",
+];
+
+/** Weeks shown in applications per week, ending with the current one */
+export const STATS_WEEKS = 12;
+
+/** Source for jobs without a (valid) posting URL */
+export const NO_SOURCE = "No posting link";
+
+type StatsJob = Pick<
+  Job,
+  "id" | "stageId" | "dateApplied" | "jobPostingUrl" | "createdAt"
+>;
+
+type StatsStage = Pick<
+  Stage,
+  "id" | "name" | "color" | "position" | "category" | "archivedAt"
+>;
+
+type StageHistoryEntry = Pick<
+  JobHistory,
+  "jobId" | "fieldChanged" | "newValue" | "changedAt"
+>;
+
+export type FunnelStage = {
+  category: StageCategory;
+  /** Jobs that got at least this far */
+  count: number;
+  /** Share of the previous stage that got this far (null for the first stage or an empty previous stage) */
+  conversionRate: number | null;
+};
+
+export type JobStats = {
+  totalJobs: number;
+  funnel: FunnelStage[];
+  rejections: {
+    total: number;
+    /** Share of applications that were rejected */
+    rate: number | null;
+    /** Rejections by the furthest funnel step reached before them */
+    byStage: { category: StageCategory; count: number }[];
+  };
+  /**
+   * Median days spent in each stage by jobs that moved on from it (null
+   * when none has), in board order. Archived stages are left out unless
+   * they have a median.
+   */
+  medianDaysInStage: {
+    stageId: number;
+    name: string;
+    color: string;
+    days: number | null;
+  }[];
+  /** Oldest week first; weeks start on Monday (UTC) */
+  applicationsPerWeek: { weekStart: string; count: number }[];
+  /** Most applications first */
+  responseRateBySource: {
+    source: string;
+    applied: number;
+    /** Applications that got an interview, offer or rejection */
+    responded: number;
+    rate: number;
+  }[];
+};
+
+// History entries that set the stage: moves, and the initial stage of
+// created or imported jobs
+const STAGE_EVENTS: string[] = [
+  "stageId",
+  HISTORY_EVENTS.CREATED,
+  HISTORY_EVENTS.IMPORTED,
+];
+
+type StageStint = { stage: StatsStage; since: Date };
+
+/**
+ * The stages a job has been in, oldest first. Entries repeating the
+ * previous stage (e.g. "imported" after the imported history) are merged,
+ * and entries for unknown stages skipped.
+ */
+function getStageStints(
+  history: StageHistoryEntry[],
+  stagesById: Map<number, StatsStage>
+): StageStint[] {
+  const stints: StageStint[] = [];
+  const entries = history
+    .filter((entry) => STAGE_EVENTS.includes(entry.fieldChanged))
+    .sort(
+      (a, b) =>
+        new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+    );
+
+  for (const entry of entries) {
+    const stage = stagesById.get(Number(entry.newValue));
+    if (!stage || stints[stints.length - 1]?.stage === stage) continue;
+    stints.push({ stage, since: new Date(entry.changedAt) });
+  }
+
+  return stints;
+}
+
+/**
+ * Index in FUNNEL_CATEGORIES of the furthest step a job reached, -1 if it
+ * never applied. Reaching a step implies the ones before it, a date
+ * applied means it was applied for, and a rejection means it was at least
+ * applied for.
+ */
+function getFurthestStep(
+  job: StatsJob,
+  category: StageCategory,
+  stints: StageStint[]
+): number {
+  const categories = new Set([
+    category,
+    ...stints.map((stint) => stint.stage.category),
+  ]);
+  if (job.dateApplied || category === "REJECTED") categories.add("APPLIED");
+
+  return Math.max(...[...categories].map((c) => FUNNEL_CATEGORIES.indexOf(c)));
+}
+
+/**
+ * When a job was applied for: its date applied, or else when it first
+ * moved to an applied stage
+ */
+function getAppliedAt(job: StatsJob, stints: StageStint[]): Date | null {
+  if (job.dateApplied) return new Date(job.dateApplied);
+  return (
+    stints.find((stint) => stint.stage.category === "APPLIED")?.since ?? null
+  );
+}
+
+/**
+ * Middle value of a list (mean of the two middle values for an even
+ * count), or null for an empty list
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Monday (UTC) of the week a date falls in, as YYYY-MM-DD
+ */
+export function getWeekStart(date: Date): string {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // getUTCDay is 0 for Sunday; count Monday as the first day
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().split("T")[0];
+}
+
+/**
+ * Where a posting was found: the host of its URL without "www.", or
+ * NO_SOURCE
+ *
+ * @example getSourceDomain("https://www.linkedin.com/jobs/view/1") // "linkedin.com"
+ */
+export function getSourceDomain(url: string | null): string {
+  if (!url) return NO_SOURCE;
+
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return NO_SOURCE;
+  }
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function roundDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+/**
+ * Compute the statistics for a user's jobs
+ *
+ * @param jobs - Non-deleted jobs
+ * @param history - Stage history of those jobs, in any order
+ * @param stages - All of the user's stages, archived ones too
+ * @param now - Reference point for the weeks (defaults to current time, injectable for tests)
+ */
+export function computeJobStats(
+  jobs: StatsJob[],
+  history: StageHistoryEntry[],
+  stages: StatsStage[],
+  now: Date = new Date()
+): JobStats {
+  const stagesById = new Map(stages.map((stage) => [stage.id, stage]));
+  const historyByJob = new Map<number, StageHistoryEntry[]>();
+  for (const entry of history) {
+    historyByJob.set(entry.jobId, [
+      ...(historyByJob.get(entry.jobId) ?? []),
+      entry,
+    ]);
+  }
+
+  const reachedCounts = FUNNEL_CATEGORIES.map(() => 0);
+  const rejectedCounts = FUNNEL_CATEGORIES.map(() => 0);
+  const daysInStage = new Map<number, number[]>();
+  const weekCounts = new Map<string, number>();
+  const sources = new Map<string, { applied: number; responded: number }>();
+
+  for (const job of jobs) {
+    const category = stagesById.get(job.stageId)?.category;
+    if (!category) continue;
+
+    const stints = getStageStints(historyByJob.get(job.id) ?? [], stagesById);
+
+    stints.slice(0, -1).forEach((stint, index) => {
+      const days = roundDays(
+        stints[index + 1].since.getTime() - stint.since.getTime()
+      );
+      daysInStage.set(stint.stage.id, [
+        ...(daysInStage.get(stint.stage.id) ?? []),
+        days,
+      ]);
+    });
+
+    const furthest = getFurthestStep(job, category, stints);
+    if (furthest < 0) continue;
+
+    for (let step = 0; step <= furthest; step++) reachedCounts[step]++;
+
+    const rejected = category === "REJECTED";
+    if (rejected) {
+      // A rejection ends the funnel before acceptance
+      rejectedCounts[Math.min(furthest, FUNNEL_CATEGORIES.length - 2)]++;
+    }
+
+    const appliedAt = getAppliedAt(job, stints);
+    if (appliedAt) {
+      const week = getWeekStart(appliedAt);
+      weekCounts.set(week, (weekCounts.get(week) ?? 0) + 1);
+    }
+
+    const source = getSourceDomain(job.jobPostingUrl);
+    const counts = sources.get(source) ?? { applied: 0, responded: 0 };
+    counts.applied++;
+    if (rejected || furthest > 0) counts.responded++;
+    sources.set(source, counts);
+  }
+
+  const currentWeek = new Date(getWeekStart(now));
+  const applicationsPerWeek = Array.from({ length: STATS_WEEKS }, (_, i) => {
+    const weekStart = new Date(currentWeek);
+    weekStart.setUTCDate(weekStart.getUTCDate() - 7 * (STATS_WEEKS - 1 - i));
+    const key = weekStart.toISOString().split("T")[0];
+    return { weekStart: key, count: weekCounts.get(key) ?? 0 };
+  });
+
+  const totalRejected = rejectedCounts.reduce((sum, count) => sum + count, 0);
+
+  return {
+    totalJobs: jobs.length,
+    funnel: FUNNEL_CATEGORIES.map((category, index) => ({
+      category,
+      count: reachedCounts[index],
+      conversionRate:
+        index === 0
+          ? null
+          : ratio(reachedCounts[index], reachedCounts[index - 1]),
+    })),
+    rejections: {
+      total: totalRejected,
+      rate: ratio(totalRejected, reachedCounts[0]),
+      byStage: FUNNEL_CATEGORIES.slice(0, -1).map((category, index) => ({
+        category,
+        count: rejectedCounts[index],
+      })),
+    },
+    medianDaysInStage: sortStages(stages).flatMap((stage) => {
+      const days = median(daysInStage.get(stage.id) ?? []);
+      return stage.archivedAt && days === null
+        ? []
+        : [{ stageId: stage.id, name: stage.name, color: stage.color, days }];
+    }),
+    applicationsPerWeek,
+    responseRateBySource: [...sources.entries()]
+      .map(([source, { applied, responded }]) => ({
+        source,
+        applied,
+        responded,
+        rate: responded / applied,
+      }))
+      .sort(
+        (a, b) => b.applied - a.applied || a.source.localeCompare(b.source)
+      ),
+  };
+}
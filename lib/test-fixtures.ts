@@ -0,0 +1,40 @@
+import type { Job } from "@prisma/client";
+
+/**
+ * A job row for tests: an active job on board 1 with every optional field
+ * empty. Tests pass only the fields they care about, so new Job columns
+ * are added here once.
+ */
+export function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    userId: "user_123",
+    boardId: 1,
+    company: "Test Company",
+    companyId: null,
+    title: "Developer",
+    location: null,
+    jobPostingUrl: null,
+    jobPostingText: null,
+    stageId: 1,
+    notes: null,
+    resumeUrl: null,
+    coverLetterUrl: null,
+    dateApplied: null,
+    deletedAt: null,
+    deadline: null,
+    followUpAt: null,
+    followUpCompletedAt: null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+    employmentType: null,
+    remotePolicy: null,
+    skills: [],
+    order: "0",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
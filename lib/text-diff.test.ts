@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { diffLines } from "./text-diff";
+
+describe("diffLines", () => {
+  it("returns unchanged lines for identical text", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "unchanged", value: "a" },
+      { type: "unchanged", value: "b" },
+    ]);
+  });
+
+  it("marks all lines as added when the old value is empty", () => {
+    expect(diffLines(null, "first\nsecond")).toEqual([
+      { type: "added", value: "first" },
+      { type: "added", value: "second" },
+    ]);
+  });
+
+  it("marks all lines as removed when the new value is empty", () => {
+    expect(diffLines("first\nsecond", "")).toEqual([
+      { type: "removed", value: "first" },
+      { type: "removed", value: "second" },
+    ]);
+  });
+
+  it("lists a replaced line as removed followed by added", () => {
+    expect(
+      diffLines("intro\nold line\noutro", "intro\nnew line\noutro")
+    ).toEqual([
+      { type: "unchanged", value: "intro" },
+      { type: "removed", value: "old line" },
+      { type: "added", value: "new line" },
+      { type: "unchanged", value: "outro" },
+    ]);
+  });
+
+  it("keeps common lines when lines are inserted in the middle", () => {
+    const result = diffLines("a\nc", "a\nb\nc");
+
+    expect(result).toEqual([
+      { type: "unchanged", value: "a" },
+      { type: "added", value: "b" },
+      { type: "unchanged", value: "c" },
+    ]);
+  });
+
+  it("returns no lines when both values are empty", () => {
+    expect(diffLines(null, undefined)).toEqual([]);
+  });
+});
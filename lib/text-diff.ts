@@ -0,0 +1,75 @@
+/**
+ * Line-based text diff for showing edits to long text fields
+ * (notes, job posting text) in the job activity timeline.
+ */
+
+export type DiffLineType = "added" | "removed" | "unchanged";
+
+export type DiffLine = {
+  type: DiffLineType;
+  value: string;
+};
+
+/**
+ * Split text into lines, treating null/empty as no lines
+ */
+function toLines(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text.split("\n");
+}
+
+/**
+ * Compute a line diff between two texts using longest common subsequence.
+ * Removed lines are listed before added lines at each change point.
+ *
+ * @param oldText - Previous value (null when the field was empty)
+ * @param newText - New value (null when the field was cleared)
+ * @returns Diff lines in display order
+ */
+export function diffLines(
+  oldText: string | null | undefined,
+  newText: string | null | undefined
+): DiffLine[] {
+  const a = toLines(oldText);
+  const b = toLines(newText);
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "unchanged", value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", value: a[i] });
+      i++;
+    } else {
+      result.push({ type: "added", value: b[j] });
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    result.push({ type: "removed", value: a[i++] });
+  }
+  while (j < b.length) {
+    result.push({ type: "added", value: b[j++] });
+  }
+
+  return result;
+}
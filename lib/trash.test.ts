@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { daysUntilPurge, getPurgeCutoff, getTrashRetentionDays } from "./trash";
+
+describe("getTrashRetentionDays", () => {
+  const original = process.env.TRASH_RETENTION_DAYS;
+
+  afterEach(() => {
+    process.env.TRASH_RETENTION_DAYS = original;
+  });
+
+  it("defaults to 30 days", () => {
+    delete process.env.TRASH_RETENTION_DAYS;
+
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+
+  it("reads the retention from the environment", () => {
+    process.env.TRASH_RETENTION_DAYS = "7";
+
+    expect(getTrashRetentionDays()).toBe(7);
+  });
+
+  it("ignores invalid values", () => {
+    process.env.TRASH_RETENTION_DAYS = "-3";
+    expect(getTrashRetentionDays()).toBe(30);
+
+    process.env.TRASH_RETENTION_DAYS = "soon";
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+});
+
+describe("getPurgeCutoff", () => {
+  it("returns the date retentionDays before now", () => {
+    const now = new Date("2025-03-31T12:00:00Z");
+
+    expect(getPurgeCutoff(30, now)).toEqual(new Date("2025-03-01T12:00:00Z"));
+  });
+});
+
+describe("daysUntilPurge", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+
+  it("counts the remaining days", () => {
+    expect(daysUntilPurge(new Date("2025-03-08T12:00:00Z"), 30, now)).toBe(28);
+  });
+
+  it("rounds partial days up", () => {
+    expect(daysUntilPurge("2025-03-10T00:00:00Z", 1, now)).toBe(1);
+  });
+
+  it("never returns a negative number", () => {
+    expect(daysUntilPurge("2025-01-01T00:00:00Z", 30, now)).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Retention rules for soft-deleted jobs (the trash).
+ * Jobs stay restorable for a number of days after deletion, then they are
+ * hard-deleted by the purge.
+ */
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of days deleted jobs are kept before being purged.
+ * Configurable with TRASH_RETENTION_DAYS, falls back to 30 days.
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Jobs deleted before this date are due for purging
+ *
+ * @param retentionDays - Days to keep deleted jobs
+ * @param now - Reference point (injectable for tests)
+ */
+export function getPurgeCutoff(retentionDays: number, now = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Whole days left before a deleted job is purged (never negative)
+ *
+ * @param deletedAt - When the job was soft deleted
+ * @param retentionDays - Days to keep deleted jobs
+ * @param now - Reference point (injectable for tests)
+ */
+export function daysUntilPurge(
+  deletedAt: Date | string,
+  retentionDays: number,
+  now = new Date()
+): number {
+  const deleted =
+    typeof deletedAt === "string" ? new Date(deletedAt) : deletedAt;
+  const purgeAt = deleted.getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
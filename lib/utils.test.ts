@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { formatRelativeTime, formatSalary } from "./utils";
+
+describe("formatRelativeTime", () => {
+  const now = new Date("2025-03-15T12:00:00Z");
+
+  it("shows just now for very recent dates", () => {
+    expect(formatRelativeTime(new Date("2025-03-15T11:59:40Z"), now)).toBe(
+      "just now"
+    );
+  });
+
+  it("formats minutes and hours", () => {
+    expect(formatRelativeTime(new Date("2025-03-15T11:55:00Z"), now)).toBe(
+      "5 minutes ago"
+    );
+    expect(formatRelativeTime(new Date("2025-03-15T09:00:00Z"), now)).toBe(
+      "3 hours ago"
+    );
+  });
+
+  it("uses natural wording for a day ago", () => {
+    expect(formatRelativeTime(new Date("2025-03-14T12:00:00Z"), now)).toBe(
+      "yesterday"
+    );
+  });
+
+  it("formats weeks and accepts ISO strings", () => {
+    expect(formatRelativeTime("2025-03-01T12:00:00Z", now)).toBe("2 weeks ago");
+  });
+});
+
+describe("formatSalary", () => {
+  const noSalary = {
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+  };
+
+  it("returns null without an amount", () => {
+    expect(formatSalary({ ...noSalary, salaryCurrency: "SEK" })).toBeNull();
+  });
+
+  it("formats a range with currency and period", () => {
+    expect(
+      formatSalary({
+        salaryMin: 45000,
+        salaryMax: 55000,
+        salaryCurrency: "SEK",
+        salaryPeriod: "MONTH",
+      })
+    ).toBe("45 000–55 000 SEK/mo");
+  });
+
+  it("formats open-ended and single amounts", () => {
+    expect(formatSalary({ ...noSalary, salaryMin: 60000 })).toBe("From 60 000");
+    expect(
+      formatSalary({ ...noSalary, salaryMax: 300, salaryPeriod: "HOUR" })
+    ).toBe("Up to 300/h");
+    expect(formatSalary({ ...noSalary, salaryMin: 500, salaryMax: 500 })).toBe(
+      "500"
+    );
+  });
+});
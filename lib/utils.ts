@@ -1,25 +1,108 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { JobStatus } from "@prisma/client";
+import {
+  EmploymentType,
+  InterviewOutcome,
+  RemotePolicy,
+  SalaryPeriod,
+} from "@prisma/client";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
 /**
- * Get the complete Tailwind background color class for a job status
- * Returns complete class names so Tailwind's JIT compiler can detect them
+ * Get the human-readable label for an employment type
  */
-export function getStatusColor(status: JobStatus): string {
-  const colorMap: Record<JobStatus, string> = {
-    WISHLIST: "bg-status-wishlist",
-    APPLIED: "bg-status-applied",
-    INTERVIEW: "bg-status-interview",
-    OFFER: "bg-status-offer",
-    ACCEPTED: "bg-status-accepted",
-    REJECTED: "bg-status-rejected",
+export function getEmploymentTypeLabel(type: EmploymentType): string {
+  const labelMap: Record<EmploymentType, string> = {
+    FULL_TIME: "Full-time",
+    PART_TIME: "Part-time",
+    CONTRACT: "Contract",
+    TEMPORARY: "Temporary",
+    INTERNSHIP: "Internship",
   };
-  return colorMap[status];
+  return labelMap[type] ?? type;
+}
+
+/**
+ * Get the human-readable label for an interview outcome
+ */
+export function getInterviewOutcomeLabel(outcome: InterviewOutcome): string {
+  const labelMap: Record<InterviewOutcome, string> = {
+    PENDING: "Pending",
+    PASSED: "Passed",
+    REJECTED: "Rejected",
+    CANCELLED: "Cancelled",
+  };
+  return labelMap[outcome] ?? outcome;
+}
+
+/**
+ * Get the human-readable label for a remote policy
+ */
+export function getRemotePolicyLabel(policy: RemotePolicy): string {
+  const labelMap: Record<RemotePolicy, string> = {
+    ONSITE: "On-site",
+    HYBRID: "Hybrid",
+    REMOTE: "Remote",
+  };
+  return labelMap[policy] ?? policy;
+}
+
+/**
+ * Get the human-readable label for a salary period
+ */
+export function getSalaryPeriodLabel(period: SalaryPeriod): string {
+  const labelMap: Record<SalaryPeriod, string> = {
+    HOUR: "Per hour",
+    MONTH: "Per month",
+    YEAR: "Per year",
+  };
+  return labelMap[period] ?? period;
+}
+
+const SALARY_PERIOD_SUFFIXES: Record<SalaryPeriod, string> = {
+  HOUR: "/h",
+  MONTH: "/mo",
+  YEAR: "/yr",
+};
+
+/**
+ * Format a salary range for display, or null if there's no amount
+ *
+ * Examples:
+ * - Range: "45 000–55 000 SEK/mo"
+ * - Only a minimum: "From 60 000 EUR/yr"
+ * - Only a maximum: "Up to 300 SEK/h"
+ */
+export function formatSalary(salary: {
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null;
+  salaryPeriod: SalaryPeriod | null;
+}): string | null {
+  const { salaryMin, salaryMax, salaryCurrency, salaryPeriod } = salary;
+  if (salaryMin === null && salaryMax === null) return null;
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString("sv-SE").replace(/\s/g, " ");
+
+  let range: string;
+  if (salaryMin !== null && salaryMax !== null && salaryMin !== salaryMax) {
+    range = `${formatAmount(salaryMin)}–${formatAmount(salaryMax)}`;
+  } else if (salaryMin !== null) {
+    range =
+      salaryMax === null
+        ? `From ${formatAmount(salaryMin)}`
+        : formatAmount(salaryMin);
+  } else {
+    range = `Up to ${formatAmount(salaryMax!)}`;
+  }
+
+  const currency = salaryCurrency ? ` ${salaryCurrency}` : "";
+  const period = salaryPeriod ? SALARY_PERIOD_SUFFIXES[salaryPeriod] : "";
+  return `${range}${currency}${period}`;
 }
 
 /**
@@ -64,3 +147,36 @@ export function formatJobDate(date: Date | string): string {
 
   return `${day}/${month} ${dateYear}`;
 }
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+/**
+ * Format a date relative to now, e.g. "3 days ago" or "yesterday"
+ * Anything under a minute is shown as "just now"
+ *
+ * @param date - The date to format
+ * @param now - Reference point (defaults to current time, injectable for tests)
+ */
+export function formatRelativeTime(
+  date: Date | string,
+  now: Date = new Date()
+): string {
+  const d = typeof date === "string" ? new Date(date) : date;
+  const seconds = Math.round((d.getTime() - now.getTime()) / 1000);
+  const formatter = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return formatter.format(Math.round(seconds / unitSeconds), unit);
+    }
+  }
+
+  return "just now";
+}
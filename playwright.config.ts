@@ -42,10 +42,23 @@ export default defineConfig({
       workers: 1,
     },
   ],
-  webServer: {
-    command: process.env.CI ? "npm start" : "npm run dev",
-    url: "http://localhost:3000",
-    reuseExistingServer: !process.env.CI,
-    timeout: 120 * 1000, // 2 minutes for server to start
-  },
+  webServer: [
+    {
+      command: process.env.CI ? "npm start" : "npm run dev",
+      url: "http://localhost:3000",
+      reuseExistingServer: !process.env.CI,
+      timeout: 120 * 1000, // 2 minutes for server to start
+      // Offline AI extraction of the mock job server's pages (a reused dev
+      // server needs the same variables)
+      env: {
+        LLM_PROVIDER: "stub",
+        EXTRACT_ALLOWED_HOSTS: "127.0.0.1",
+      },
+    },
+    {
+      command: "node e2e/mock-job-server.mjs",
+      url: "http://127.0.0.1:3100/health",
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
 });
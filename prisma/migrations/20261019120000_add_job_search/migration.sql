@@ -0,0 +1,19 @@
+-- AlterTable
+-- Prisma has no syntax for generated columns, so the expression lives here.
+-- The 'simple' configuration skips stemming, which works for both Swedish
+-- and English postings.
+ALTER TABLE "Job" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple',
+        coalesce("company", '') || ' ' ||
+        coalesce("title", '') || ' ' ||
+        coalesce("location", '') || ' ' ||
+        coalesce("notes", '') || ' ' ||
+        coalesce("jobPostingText", '')
+    )
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Job_userId_dateApplied_idx" ON "Job"("userId", "dateApplied");
+
+-- CreateIndex
+CREATE INDEX "Job_searchVector_idx" ON "Job" USING GIN ("searchVector");
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EmploymentType" AS ENUM ('FULL_TIME', 'PART_TIME', 'CONTRACT', 'TEMPORARY', 'INTERNSHIP');
+
+-- CreateEnum
+CREATE TYPE "RemotePolicy" AS ENUM ('ONSITE', 'HYBRID', 'REMOTE');
+
+-- CreateEnum
+CREATE TYPE "SalaryPeriod" AS ENUM ('HOUR', 'MONTH', 'YEAR');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "employmentType" "EmploymentType",
+ADD COLUMN     "remotePolicy" "RemotePolicy",
+ADD COLUMN     "salaryCurrency" TEXT,
+ADD COLUMN     "salaryMax" INTEGER,
+ADD COLUMN     "salaryMin" INTEGER,
+ADD COLUMN     "salaryPeriod" "SalaryPeriod",
+ADD COLUMN     "skills" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "deadline" TIMESTAMP(3);
+
+-- Backfill deadlines that extractors used to write into notes as
+-- "Apply by YYYY-MM-DD". The notes themselves are left untouched.
+-- Dates that don't exist (month 13, February 30) are left NULL rather
+-- than failing the cast; the nested CASE only builds the date once the
+-- year and month are known to be valid.
+UPDATE "Job" AS j
+SET "deadline" = CASE
+    WHEN d.year >= 1 AND d.month BETWEEN 1 AND 12 THEN
+      CASE
+        WHEN d.day BETWEEN 1 AND extract(
+          day FROM make_date(d.year, d.month, 1) + interval '1 month - 1 day'
+        )
+        THEN make_date(d.year, d.month, d.day)::timestamp
+      END
+  END
+FROM (
+  SELECT "id",
+    parts[1]::int AS year,
+    parts[2]::int AS month,
+    parts[3]::int AS day
+  FROM (
+    SELECT "id", regexp_match("notes", 'Apply by (\d{4})-(\d{2})-(\d{2})') AS parts
+    FROM "Job"
+    WHERE "notes" ~ 'Apply by \d{4}-\d{2}-\d{2}'
+  ) AS matched
+) AS d
+WHERE j."id" = d."id";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "followUpAt" TIMESTAMP(3),
+ADD COLUMN     "followUpCompletedAt" TIMESTAMP(3);
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "InterviewOutcome" AS ENUM ('PENDING', 'PASSED', 'REJECTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "Interview" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "round" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "timeZone" TEXT NOT NULL,
+    "location" TEXT,
+    "videoUrl" TEXT,
+    "interviewers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "prepNotes" TEXT,
+    "outcome" "InterviewOutcome" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Interview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Interview_jobId_idx" ON "Interview"("jobId");
+
+-- CreateIndex
+CREATE INDEX "Interview_userId_startsAt_idx" ON "Interview"("userId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "Interview" ADD CONSTRAINT "Interview_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Contact" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "linkedinUrl" TEXT,
+    "role" TEXT,
+    "company" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Contact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ContactToJob" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_ContactToJob_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "Contact_userId_idx" ON "Contact"("userId");
+
+-- CreateIndex
+CREATE INDEX "_ContactToJob_B_index" ON "_ContactToJob"("B");
+
+-- AddForeignKey
+ALTER TABLE "_ContactToJob" ADD CONSTRAINT "_ContactToJob_A_fkey" FOREIGN KEY ("A") REFERENCES "Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ContactToJob" ADD CONSTRAINT "_ContactToJob_B_fkey" FOREIGN KEY ("B") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move contactPerson strings into contacts: one contact per user and name
+-- (compared like lib/contacts.ts normalizeContactName), linked to every job
+-- that named them
+INSERT INTO "Contact" ("userId", "name", "updatedAt")
+SELECT DISTINCT ON ("userId", lower(regexp_replace(btrim("contactPerson"), '\s+', ' ', 'g')))
+    "userId",
+    regexp_replace(btrim("contactPerson"), '\s+', ' ', 'g'),
+    CURRENT_TIMESTAMP
+FROM "Job"
+WHERE btrim(coalesce("contactPerson", '')) <> ''
+ORDER BY "userId", lower(regexp_replace(btrim("contactPerson"), '\s+', ' ', 'g')), "createdAt";
+
+INSERT INTO "_ContactToJob" ("A", "B")
+SELECT "Contact"."id", "Job"."id"
+FROM "Job"
+JOIN "Contact"
+  ON "Contact"."userId" = "Job"."userId"
+ AND lower("Contact"."name") = lower(regexp_replace(btrim("Job"."contactPerson"), '\s+', ' ', 'g'));
+
+-- AlterTable
+ALTER TABLE "Job" DROP COLUMN "contactPerson";
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "Company" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "website" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Company_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "companyId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Company_userId_idx" ON "Company"("userId");
+
+-- CreateIndex
+CREATE INDEX "Job_companyId_idx" ON "Job"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Same rules as normalizeCompanyName in lib/companies.ts: lowercase,
+-- periods removed, runs of anything but letters and digits become one
+-- space, trailing legal suffixes are dropped (the leading space keeps the
+-- first word)
+CREATE FUNCTION pg_temp.normalize_company_name(name TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT regexp_replace(
+    btrim(regexp_replace(replace(lower(name), '.', ''), '[^[:alnum:]]+', ' ', 'g')),
+    '( (ab|ag|as|asa|bv|co|corp|corporation|gmbh|inc|incorporated|limited|llc|ltd|nv|oy|oyj|plc|publ|sa))+$',
+    ''
+  )
+$$;
+
+-- Backfill: one company per user and normalized name, named like the
+-- user's earliest job for it, linked to every job with a matching name
+INSERT INTO "Company" ("userId", "name", "updatedAt")
+SELECT DISTINCT ON ("userId", pg_temp.normalize_company_name("company"))
+    "userId",
+    btrim("company"),
+    CURRENT_TIMESTAMP
+FROM "Job"
+WHERE pg_temp.normalize_company_name("company") <> ''
+ORDER BY "userId", pg_temp.normalize_company_name("company"), "createdAt";
+
+UPDATE "Job"
+SET "companyId" = "Company"."id"
+FROM "Company"
+WHERE "Company"."userId" = "Job"."userId"
+  AND pg_temp.normalize_company_name("Company"."name") = pg_temp.normalize_company_name("Job"."company");
+
+DROP FUNCTION pg_temp.normalize_company_name(TEXT);
@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "StageCategory" AS ENUM ('WISHLIST', 'APPLIED', 'INTERVIEW', 'OFFER', 'ACCEPTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "Stage" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "category" "StageCategory" NOT NULL,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Stage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Stage_userId_idx" ON "Stage"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Stage_userId_name_key" ON "Stage"("userId", "name");
+
+-- Backfill: the default stages (DEFAULT_STAGES in lib/stages.ts) for every
+-- user with jobs. Users without jobs get them on their first visit.
+INSERT INTO "Stage" ("userId", "name", "color", "position", "category", "updatedAt")
+SELECT "users"."userId", "defaults"."name", "defaults"."color", "defaults"."position", "defaults"."category"::"StageCategory", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "userId" FROM "Job") AS "users"
+CROSS JOIN (VALUES
+    ('Wishlist', 'gray', 0, 'WISHLIST'),
+    ('Applied', 'blue', 1, 'APPLIED'),
+    ('Interview', 'yellow', 2, 'INTERVIEW'),
+    ('Offer', 'green', 3, 'OFFER'),
+    ('Accepted', 'teal', 4, 'ACCEPTED'),
+    ('Rejected', 'red', 5, 'REJECTED')
+) AS "defaults" ("name", "color", "position", "category");
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "stageId" INTEGER;
+
+UPDATE "Job"
+SET "stageId" = "Stage"."id"
+FROM "Stage"
+WHERE "Stage"."userId" = "Job"."userId"
+  AND "Stage"."category"::TEXT = "Job"."status"::TEXT;
+
+-- History: status changes become stage changes, with the stage ID as the
+-- value. Created and imported entries hold the initial stage.
+UPDATE "JobHistory"
+SET "fieldChanged" = 'stageId',
+    "oldValue" = (
+        SELECT "Stage"."id"::TEXT FROM "Stage"
+        WHERE "Stage"."userId" = "JobHistory"."userId"
+          AND "Stage"."category"::TEXT = "JobHistory"."oldValue"
+    ),
+    "newValue" = (
+        SELECT "Stage"."id"::TEXT FROM "Stage"
+        WHERE "Stage"."userId" = "JobHistory"."userId"
+          AND "Stage"."category"::TEXT = "JobHistory"."newValue"
+    )
+WHERE "fieldChanged" = 'status';
+
+UPDATE "JobHistory"
+SET "newValue" = "Stage"."id"::TEXT
+FROM "Stage"
+WHERE "Stage"."userId" = "JobHistory"."userId"
+  AND "Stage"."category"::TEXT = "JobHistory"."newValue"
+  AND "JobHistory"."fieldChanged" IN ('created', 'imported');
+
+ALTER TABLE "Job" ALTER COLUMN "stageId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Job_status_idx";
+
+-- AlterTable
+ALTER TABLE "Job" DROP COLUMN "status";
+
+-- DropEnum
+DROP TYPE "JobStatus";
+
+-- CreateIndex
+CREATE INDEX "Job_stageId_idx" ON "Job"("stageId");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "Stage"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "Board" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Board_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Board_userId_idx" ON "Board"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Board_userId_name_key" ON "Board"("userId", "name");
+
+-- Backfill: one board (DEFAULT_BOARD_NAME in lib/boards.ts) for every user
+-- with jobs, holding all of them. Users without jobs get it on their first
+-- visit.
+INSERT INTO "Board" ("userId", "name", "updatedAt")
+SELECT DISTINCT "userId", 'My board', CURRENT_TIMESTAMP
+FROM "Job";
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "boardId" INTEGER;
+
+UPDATE "Job"
+SET "boardId" = "Board"."id"
+FROM "Board"
+WHERE "Board"."userId" = "Job"."userId";
+
+ALTER TABLE "Job" ALTER COLUMN "boardId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Job_boardId_idx" ON "Job"("boardId");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
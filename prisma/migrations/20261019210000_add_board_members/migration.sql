@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "BoardRole" AS ENUM ('VIEWER', 'COMMENTER', 'EDITOR');
+
+-- CreateTable
+CREATE TABLE "BoardMember" (
+    "id" SERIAL NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" "BoardRole" NOT NULL DEFAULT 'VIEWER',
+    "invitedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardMember_userId_idx" ON "BoardMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "BoardMember_email_idx" ON "BoardMember"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoardMember_boardId_email_key" ON "BoardMember"("boardId", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoardMember_boardId_userId_key" ON "BoardMember"("boardId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "BoardMember" ADD CONSTRAINT "BoardMember_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;